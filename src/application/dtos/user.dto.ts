@@ -0,0 +1,38 @@
+import { User } from '../../domain/entities/user.js';
+import { Page } from '../../domain/repositories/user-query.js';
+import { UserStatus } from '../../domain/value-objects/user-status.js';
+
+/**
+ * Plain, serializable view of a User handed out by the use cases.
+ * Presentation code never sees the entity or its value objects.
+ */
+export interface UserDto {
+  id: string;
+  email: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  // Changes with every update; sent as the ETag
+  version: number;
+  status: UserStatus;
+  suspensionReason: string | null;
+  deletedAt: string | null;
+  emailVerifiedAt: string | null;
+}
+
+export const toUserDto = (user: User): UserDto => user.toJSON();
+
+/**
+ * One page of users (see UserRepository.findAll)
+ */
+export interface UserPageDto {
+  items: UserDto[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export const toUserPageDto = (page: Page<User>): UserPageDto => ({
+  items: page.items.map(toUserDto),
+  total: page.total,
+  nextCursor: page.nextCursor,
+});
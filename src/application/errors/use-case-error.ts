@@ -0,0 +1,121 @@
+import { DomainError } from '../../domain/errors/domain-error.js';
+import { EmailBlockedError } from '../../domain/errors/email-blocked.error.js';
+import { DuplicateEmailError } from '../../domain/errors/duplicate-email.error.js';
+import { ConcurrencyConflictError } from '../../domain/errors/concurrency-conflict.error.js';
+import { InvalidVerificationTokenError } from '../ports/verification-token.port.js';
+import { InvalidStatusTransitionError } from '../../domain/errors/invalid-status-transition.error.js';
+
+export type UseCaseErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'EMAIL_BLOCKED'
+  | 'EMAIL_ALREADY_IN_USE'
+  | 'USER_NOT_FOUND'
+  | 'CONCURRENCY_CONFLICT'
+  | 'PRECONDITION_FAILED'
+  | 'INVALID_STATUS_TRANSITION'
+  | 'EMAIL_ALREADY_VERIFIED'
+  | 'INVALID_VERIFICATION_TOKEN'
+  | 'UNEXPECTED_ERROR';
+
+/**
+ * The only error type use cases return.
+ *
+ * Callers branch on `code`; the original domain or infrastructure
+ * error, when there is one, is kept as `cause` for logging. `details`
+ * holds the structured data of the domain error, if any.
+ */
+export class UseCaseError extends Error {
+  private constructor(
+    public readonly code: UseCaseErrorCode,
+    message: string,
+    cause?: unknown,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message, { cause });
+    this.name = 'UseCaseError';
+  }
+
+  public static validation(message: string, cause?: unknown, details?: Record<string, unknown>): UseCaseError {
+    return new UseCaseError('VALIDATION_ERROR', message, cause, details);
+  }
+
+  public static emailBlocked(email: string, cause?: unknown, reasons: string[] = []): UseCaseError {
+    return new UseCaseError('EMAIL_BLOCKED', `Email is blocked or blacklisted: ${email}`, cause, { email, reasons });
+  }
+
+  public static emailAlreadyInUse(email: string, cause?: unknown): UseCaseError {
+    return new UseCaseError('EMAIL_ALREADY_IN_USE', `Email is already in use: ${email}`, cause, { email });
+  }
+
+  public static userNotFound(id: string): UseCaseError {
+    return new UseCaseError('USER_NOT_FOUND', `User not found: ${id}`);
+  }
+
+  // The user changed while the request was being handled
+  public static concurrencyConflict(id: string, cause?: unknown): UseCaseError {
+    return new UseCaseError('CONCURRENCY_CONFLICT', `User was modified concurrently: ${id}`, cause, { id });
+  }
+
+  // The caller expected another version of the user (If-Match)
+  public static preconditionFailed(id: string, expectedVersion: number, actualVersion: number): UseCaseError {
+    return new UseCaseError(
+      'PRECONDITION_FAILED',
+      `User ${id} is at version ${actualVersion}, not ${expectedVersion}`,
+      undefined,
+      { id, expectedVersion, actualVersion }
+    );
+  }
+
+  // The user's status does not allow the requested lifecycle change
+  public static invalidStatusTransition(error: InvalidStatusTransitionError): UseCaseError {
+    return new UseCaseError('INVALID_STATUS_TRANSITION', error.message, error, error.details);
+  }
+
+  public static emailAlreadyVerified(id: string): UseCaseError {
+    return new UseCaseError('EMAIL_ALREADY_VERIFIED', `Email is already verified for user ${id}`, undefined, { id });
+  }
+
+  /**
+   * A verification token that cannot be used: see InvalidVerificationTokenReason, plus
+   * - used: the email it verifies was confirmed already
+   * - superseded: the user has changed its email since
+   */
+  public static invalidVerificationToken(
+    reason: InvalidVerificationTokenError['reason'] | 'used' | 'superseded',
+    cause?: unknown
+  ): UseCaseError {
+    return new UseCaseError('INVALID_VERIFICATION_TOKEN', `Invalid verification token: ${reason}`, cause, { reason });
+  }
+
+  public static unexpected(cause: unknown): UseCaseError {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    return new UseCaseError('UNEXPECTED_ERROR', `Unexpected error: ${message}`, cause);
+  }
+
+  /**
+   * Translates an error coming out of the domain layer.
+   * Anything that is not a DomainError is a bug or an outage, not bad input.
+   */
+  public static fromDomainError(error: unknown): UseCaseError {
+    // Already translated (e.g. by a use case step inside a transaction)
+    if (error instanceof UseCaseError) {
+      return error;
+    }
+    if (error instanceof EmailBlockedError) {
+      return UseCaseError.emailBlocked(error.details.email, error, error.details.reasons);
+    }
+    if (error instanceof DuplicateEmailError) {
+      return UseCaseError.emailAlreadyInUse(error.email, error);
+    }
+    if (error instanceof ConcurrencyConflictError) {
+      return UseCaseError.concurrencyConflict(error.details.id, error);
+    }
+    if (error instanceof InvalidStatusTransitionError) {
+      return UseCaseError.invalidStatusTransition(error);
+    }
+    if (error instanceof DomainError) {
+      return UseCaseError.validation(error.message, error, { reason: error.code, ...error.details });
+    }
+    return UseCaseError.unexpected(error);
+  }
+}
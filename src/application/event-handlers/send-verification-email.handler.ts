@@ -0,0 +1,42 @@
+import { inject, injectable } from 'tsyringe';
+import { UserEmailChanged, UserRegistered } from '../../domain/events/user-events.js';
+import { DomainEventHandler } from '../ports/event-bus.port.js';
+import { RequestEmailVerificationUseCase } from '../use-cases/request-email-verification.use-case.js';
+
+/**
+ * Sends the verification link when a user registers
+ */
+@injectable()
+export class SendVerificationEmailOnRegistration implements DomainEventHandler<'UserRegistered'> {
+  readonly eventType = 'UserRegistered';
+
+  constructor(
+    @inject(RequestEmailVerificationUseCase) private readonly requestVerification: RequestEmailVerificationUseCase
+  ) {}
+
+  async handle(event: UserRegistered): Promise<void> {
+    const result = await this.requestVerification.execute({ id: event.aggregateId });
+    if (result.isFailure) {
+      throw result.error;
+    }
+  }
+}
+
+/**
+ * Sends a verification link to the new address when a user changes email
+ */
+@injectable()
+export class SendVerificationEmailOnEmailChange implements DomainEventHandler<'UserEmailChanged'> {
+  readonly eventType = 'UserEmailChanged';
+
+  constructor(
+    @inject(RequestEmailVerificationUseCase) private readonly requestVerification: RequestEmailVerificationUseCase
+  ) {}
+
+  async handle(event: UserEmailChanged): Promise<void> {
+    const result = await this.requestVerification.execute({ id: event.aggregateId });
+    if (result.isFailure) {
+      throw result.error;
+    }
+  }
+}
@@ -0,0 +1,46 @@
+// Application layer exports
+export { type UserDto, type UserPageDto, toUserDto, toUserPageDto } from './dtos/user.dto.js';
+export { UseCaseError, type UseCaseErrorCode } from './errors/use-case-error.js';
+export {
+  type EventBus,
+  type DomainEventHandler,
+  type OutboxStore,
+  type OutboxTransport,
+  type OutboxMessage,
+  type OutboxMessageStatus,
+  type UnitOfWork,
+  type EmailSenderPort,
+  type EmailMessage,
+  type VerificationTokenPort,
+  type VerificationClaims,
+  type IssuedVerificationToken,
+  type InvalidVerificationTokenReason,
+  InvalidVerificationTokenError,
+} from './ports/index.js';
+export { CreateUserUseCase, type CreateUserInput } from './use-cases/create-user.use-case.js';
+export { GetUserUseCase, type GetUserQuery } from './use-cases/get-user.use-case.js';
+export { UpdateUserUseCase, type UpdateUserInput } from './use-cases/update-user.use-case.js';
+export { DeleteUserUseCase, type DeleteUserInput } from './use-cases/delete-user.use-case.js';
+export { ListUsersUseCase, type ListUsersInput } from './use-cases/list-users.use-case.js';
+export {
+  ChangeUserStatusUseCase,
+  type ChangeUserStatusInput,
+  type UserStatusChange,
+} from './use-cases/change-user-status.use-case.js';
+export {
+  RequestEmailVerificationUseCase,
+  type RequestEmailVerificationInput,
+  type RequestEmailVerificationOutput,
+  type EmailVerificationSettings,
+} from './use-cases/request-email-verification.use-case.js';
+export { ConfirmEmailUseCase, type ConfirmEmailInput } from './use-cases/confirm-email.use-case.js';
+export {
+  SendVerificationEmailOnRegistration,
+  SendVerificationEmailOnEmailChange,
+} from './event-handlers/send-verification-email.handler.js';
+export {
+  PurgeDeletedUsersUseCase,
+  DEFAULT_RETENTION_DAYS,
+  type PurgeDeletedUsersInput,
+  type PurgeDeletedUsersOutput,
+} from './use-cases/purge-deleted-users.use-case.js';
@@ -0,0 +1,20 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  // Plain text body
+  text: string;
+}
+
+/**
+ * EmailSenderPort - Application Port
+ *
+ * Sends transactional emails (verification links...). Adapters decide
+ * how: an SMTP relay or email API in production, the console or files
+ * locally.
+ */
+export interface EmailSenderPort {
+  /**
+   * @throws when the message was not accepted
+   */
+  send(message: EmailMessage): Promise<void>;
+}
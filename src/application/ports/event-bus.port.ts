@@ -0,0 +1,28 @@
+import { AnyDomainEvent, DomainEventOf, DomainEventType } from '../../domain/events/index.js';
+
+/**
+ * Reacts to one type of domain event (send a welcome email, update a
+ * read model...). Register handlers in the container under
+ * TOKENS.DOMAIN_EVENT_HANDLER:
+ *
+ *   container.register(TOKENS.DOMAIN_EVENT_HANDLER, { useClass: SendWelcomeEmail });
+ */
+export interface DomainEventHandler<T extends DomainEventType = DomainEventType> {
+  readonly eventType: T;
+  handle(event: DomainEventOf<T>): Promise<void> | void;
+}
+
+/**
+ * EventBus - Application Port
+ *
+ * Delivers domain events to their handlers. Use cases publish the events
+ * an aggregate recorded only once it has been saved successfully.
+ */
+export interface EventBus {
+  /**
+   * Delivers each event to every handler of its type.
+   * A failing handler must not prevent the others from running, nor make
+   * publish() reject: the change it reacts to is already saved.
+   */
+  publish(events: readonly AnyDomainEvent[]): Promise<void>;
+}
@@ -0,0 +1,16 @@
+export { type EventBus, type DomainEventHandler } from './event-bus.port.js';
+export {
+  type OutboxStore,
+  type OutboxTransport,
+  type OutboxMessage,
+  type OutboxMessageStatus,
+} from './outbox.port.js';
+export { type UnitOfWork } from './unit-of-work.port.js';
+export { type EmailSenderPort, type EmailMessage } from './email-sender.port.js';
+export {
+  type VerificationTokenPort,
+  type VerificationClaims,
+  type IssuedVerificationToken,
+  type InvalidVerificationTokenReason,
+  InvalidVerificationTokenError,
+} from './verification-token.port.js';
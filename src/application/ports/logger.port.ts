@@ -0,0 +1,25 @@
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+// Structured context of a log entry; an `error` field may hold an Error
+export type LogFields = Record<string, unknown>;
+
+/**
+ * LoggerPort - Application Port
+ *
+ * Structured logging. Adapters stamp every entry with the correlation id
+ * of the request it was made for (see shared/correlation), so callers
+ * never pass it themselves.
+ */
+export interface LoggerPort {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+
+  /**
+   * A logger that adds `fields` to every entry, e.g. { component: 'outbox' }
+   */
+  child(fields: LogFields): LoggerPort;
+}
@@ -0,0 +1,76 @@
+import { AnyDomainEvent } from '../../domain/events/index.js';
+import { Result } from '../../shared/types/result.js';
+
+/**
+ * - pending: waiting to be sent (possibly after failed attempts)
+ * - dispatched: accepted by the transport
+ * - dead: gave up after too many attempts; needs a human
+ */
+export type OutboxMessageStatus = 'pending' | 'dispatched' | 'dead';
+
+/**
+ * A domain event waiting in the outbox, with its delivery bookkeeping.
+ * `id` is the event id: consumers use it to ignore redeliveries.
+ */
+export interface OutboxMessage {
+  id: string;
+  // Position in the outbox, increasing in append order (events of one append keep their order)
+  sequence: number;
+  type: string;
+  aggregateId: string;
+  payload: Record<string, unknown>;
+  occurredAt: Date;
+  status: OutboxMessageStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  dispatchedAt: Date | null;
+  lastError: string | null;
+}
+
+/**
+ * OutboxStore - Application Port
+ *
+ * Transactional outbox: events are stored in the same transaction as the
+ * change that produced them, then sent by a relay. Nothing is sent before
+ * the change commits, and nothing is lost if the process dies in between.
+ */
+export interface OutboxStore {
+  append(events: readonly AnyDomainEvent[]): Promise<Result<void, Error>>;
+
+  /**
+   * Pending messages due at `now`, in append order. A message is left out
+   * while an earlier message of its aggregate is dead or waiting for a
+   * retry, so each aggregate's messages are sent in the order they were
+   * recorded.
+   */
+  fetchDue(now: Date, limit: number): Promise<Result<OutboxMessage[], Error>>;
+
+  markDispatched(id: string, at: Date): Promise<Result<void, Error>>;
+
+  /**
+   * Records a failed attempt. With a retry date the message stays pending;
+   * without one it is dead.
+   */
+  markFailed(id: string, error: string, retryAt: Date | null): Promise<Result<void, Error>>;
+
+  /**
+   * Makes `holder` the only relay allowed to send messages until `until`.
+   * Granted when no other relay holds a lease that is still running at
+   * `now`; a holder can always renew its own.
+   *
+   * @returns whether the lease was granted
+   */
+  acquireRelayLease(holder: string, now: Date, until: Date): Promise<Result<boolean, Error>>;
+}
+
+/**
+ * Delivers outbox messages to other systems (message broker, webhook...).
+ * Delivery is at-least-once: a message may be sent again if marking it
+ * dispatched fails, so consumers must be idempotent.
+ */
+export interface OutboxTransport {
+  /**
+   * @throws when the message was not accepted; the relay will retry it
+   */
+  send(message: OutboxMessage): Promise<void>;
+}
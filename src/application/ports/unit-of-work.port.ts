@@ -0,0 +1,22 @@
+import { Result } from '../../shared/types/result.js';
+
+/**
+ * UnitOfWork - Application Port
+ *
+ * Makes several repository calls atomic: the changes made inside
+ * runInTransaction() are kept together or not at all.
+ */
+export interface UnitOfWork {
+  /**
+   * Runs `work` in a transaction, committed when it returns a Success and
+   * rolled back when it returns a Failure or throws.
+   *
+   * A call made while another one is running (from the same request) joins
+   * its transaction: only the outermost call commits or rolls back, so a
+   * nested Failure only undoes anything if the outer work returns it too.
+   *
+   * @returns what `work` returned, or a Failure with the error it threw or
+   * the error that prevented the commit
+   */
+  runInTransaction<T, E>(work: () => PromiseLike<Result<T, E>>): Promise<Result<T, E | Error>>;
+}
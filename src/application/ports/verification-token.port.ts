@@ -0,0 +1,41 @@
+import { Result } from '../../shared/types/result.js';
+
+/**
+ * What a verification token vouches for: `email` belonged to `userId`
+ * when the token was issued
+ */
+export interface VerificationClaims {
+  userId: string;
+  email: string;
+  expiresAt: Date;
+}
+
+export interface IssuedVerificationToken {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * - malformed: not a token this service issued
+ * - invalid-signature: tampered with, or signed with another secret
+ * - expired: past its expiry date
+ */
+export type InvalidVerificationTokenReason = 'malformed' | 'invalid-signature' | 'expired';
+
+export class InvalidVerificationTokenError extends Error {
+  constructor(public readonly reason: InvalidVerificationTokenReason) {
+    super(`Invalid verification token: ${reason}`);
+    this.name = 'InvalidVerificationTokenError';
+  }
+}
+
+/**
+ * VerificationTokenPort - Application Port
+ *
+ * Issues and checks the tokens that prove someone received an email.
+ * Tokens are self-contained and tamper-proof; they are not stored.
+ */
+export interface VerificationTokenPort {
+  issue(userId: string, email: string): IssuedVerificationToken;
+  verify(token: string): Result<VerificationClaims, InvalidVerificationTokenError>;
+}
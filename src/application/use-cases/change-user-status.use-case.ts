@@ -0,0 +1,83 @@
+import { inject, injectable } from 'tsyringe';
+import { User } from '../../domain/entities/user.js';
+import { UserId } from '../../domain/value-objects/user-id.js';
+import { UserRepository } from '../../domain/repositories/user-repository.js';
+import { InvalidStatusTransitionError } from '../../domain/errors/invalid-status-transition.error.js';
+import { ClockPort } from '../../domain/ports/clock.port.js';
+import { IdGeneratorPort } from '../../domain/ports/id-generator.port.js';
+import { TOKENS } from '../../shared/container.js';
+import { AsyncResult, Result, success, failure } from '../../shared/types/result.js';
+import { UserDto, toUserDto } from '../dtos/user.dto.js';
+import { UseCaseError } from '../errors/use-case-error.js';
+import { EventBus } from '../ports/event-bus.port.js';
+import { UnitOfWork } from '../ports/unit-of-work.port.js';
+import { ensureVersion } from './preconditions.js';
+
+export type UserStatusChange =
+  | { transition: 'activate' }
+  | { transition: 'suspend'; reason: string }
+  | { transition: 'reactivate' };
+
+export type ChangeUserStatusInput = UserStatusChange & {
+  id: string;
+  // Only change the status if the user is still at this version
+  expectedVersion?: number;
+};
+
+const apply = (
+  user: User,
+  change: UserStatusChange,
+  clock: ClockPort,
+  ids: IdGeneratorPort
+): Result<User, InvalidStatusTransitionError> => {
+  switch (change.transition) {
+    case 'activate':
+      return user.activate(clock, ids);
+    case 'suspend':
+      return user.suspend(change.reason.trim(), clock, ids);
+    case 'reactivate':
+      return user.reactivate(clock, ids);
+  }
+};
+
+/**
+ * Moves a user through its lifecycle: activate, suspend or reactivate.
+ * A move the current status does not allow is an INVALID_STATUS_TRANSITION;
+ * soft-deleted users are not found. Events are published once the change
+ * commits.
+ */
+@injectable()
+export class ChangeUserStatusUseCase {
+  constructor(
+    @inject(TOKENS.USER_REPOSITORY) private readonly userRepository: UserRepository,
+    @inject(TOKENS.EVENT_BUS) private readonly eventBus: EventBus,
+    @inject(TOKENS.UNIT_OF_WORK) private readonly unitOfWork: UnitOfWork,
+    @inject(TOKENS.CLOCK) private readonly clock: ClockPort,
+    @inject(TOKENS.ID_GENERATOR) private readonly ids: IdGeneratorPort
+  ) {}
+
+  async execute(input: ChangeUserStatusInput): Promise<Result<UserDto, UseCaseError>> {
+    if (input.transition === 'suspend' && input.reason.trim() === '') {
+      return failure(UseCaseError.validation('A suspension needs a reason', undefined, { reason: 'MISSING_REASON' }));
+    }
+
+    const changed = this.unitOfWork.runInTransaction(() => UserId.tryCreate(input.id)
+      .toAsync()
+      .flatMap(id => this.userRepository.findById(id))
+      .mapError(UseCaseError.fromDomainError)
+      .flatMap(user => user ? success(user) : failure(UseCaseError.userNotFound(input.id)))
+      .flatMap(user => ensureVersion(user, input.expectedVersion))
+      .flatMap(user => apply(user, input, this.clock, this.ids).mapError(UseCaseError.fromDomainError))
+      // Returns the user that recorded the event, not the saved copy
+      .flatMap(user => AsyncResult.from(this.userRepository.save(user))
+        .mapError(UseCaseError.fromDomainError)
+        .map(() => user)));
+
+    return AsyncResult.from(changed)
+      .mapError(UseCaseError.fromDomainError)
+      .map(async user => {
+        await this.eventBus.publish(user.pullDomainEvents());
+        return toUserDto(user);
+      });
+  }
+}
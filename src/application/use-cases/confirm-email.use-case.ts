@@ -0,0 +1,75 @@
+import { inject, injectable } from 'tsyringe';
+import { User } from '../../domain/entities/user.js';
+import { UserId } from '../../domain/value-objects/user-id.js';
+import { Email } from '../../domain/value-objects/email.js';
+import { UserRepository } from '../../domain/repositories/user-repository.js';
+import { ClockPort } from '../../domain/ports/clock.port.js';
+import { IdGeneratorPort } from '../../domain/ports/id-generator.port.js';
+import { TOKENS } from '../../shared/container.js';
+import { AsyncResult, Result, success, failure } from '../../shared/types/result.js';
+import { UserDto, toUserDto } from '../dtos/user.dto.js';
+import { UseCaseError } from '../errors/use-case-error.js';
+import { EventBus } from '../ports/event-bus.port.js';
+import { UnitOfWork } from '../ports/unit-of-work.port.js';
+import { VerificationClaims, VerificationTokenPort } from '../ports/verification-token.port.js';
+
+export interface ConfirmEmailInput {
+  token: string;
+}
+
+/**
+ * Confirms a user's email with the token sent by
+ * RequestEmailVerificationUseCase, which activates a user pending
+ * verification.
+ *
+ * Tokens are not stored: a token is used up once the email it names is
+ * verified, and superseded once the user changes its email.
+ */
+@injectable()
+export class ConfirmEmailUseCase {
+  constructor(
+    @inject(TOKENS.USER_REPOSITORY) private readonly userRepository: UserRepository,
+    @inject(TOKENS.VERIFICATION_TOKENS) private readonly verificationTokens: VerificationTokenPort,
+    @inject(TOKENS.EVENT_BUS) private readonly eventBus: EventBus,
+    @inject(TOKENS.UNIT_OF_WORK) private readonly unitOfWork: UnitOfWork,
+    @inject(TOKENS.CLOCK) private readonly clock: ClockPort,
+    @inject(TOKENS.ID_GENERATOR) private readonly ids: IdGeneratorPort
+  ) {}
+
+  async execute(input: ConfirmEmailInput): Promise<Result<UserDto, UseCaseError>> {
+    const claims = this.verificationTokens.verify(input.token)
+      .mapError(error => UseCaseError.invalidVerificationToken(error.reason, error));
+    if (claims.isFailure) {
+      return failure(claims.error);
+    }
+
+    const confirmed = this.unitOfWork.runInTransaction(() => UserId.tryCreate(claims.value.userId)
+      .toAsync()
+      .flatMap(id => this.userRepository.findById(id))
+      .mapError(UseCaseError.fromDomainError)
+      .flatMap(user => user ? success(user) : failure(UseCaseError.userNotFound(claims.value.userId)))
+      .flatMap(user => this.check(user, claims.value))
+      // Returns the user that recorded the events, not the saved copy
+      .flatMap(user => AsyncResult.from(this.userRepository.save(user))
+        .mapError(UseCaseError.fromDomainError)
+        .map(() => user)));
+
+    return AsyncResult.from(confirmed)
+      .mapError(UseCaseError.fromDomainError)
+      .map(async user => {
+        await this.eventBus.publish(user.pullDomainEvents());
+        return toUserDto(user);
+      });
+  }
+
+  private check(user: User, claims: VerificationClaims): Result<User, UseCaseError> {
+    const email = Email.tryCreate(claims.email);
+    if (email.isFailure || !email.value.equals(user.email)) {
+      return failure(UseCaseError.invalidVerificationToken('superseded'));
+    }
+    if (user.isEmailVerified) {
+      return failure(UseCaseError.invalidVerificationToken('used'));
+    }
+    return success(user.confirmEmail(this.clock, this.ids));
+  }
+}
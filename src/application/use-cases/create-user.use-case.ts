@@ -0,0 +1,72 @@
+import { inject, injectable } from 'tsyringe';
+import { User } from '../../domain/entities/user.js';
+import { AntiSpamPort } from '../../domain/ports/anti-spam.port.js';
+import { UserRepository } from '../../domain/repositories/user-repository.js';
+import { ClockPort } from '../../domain/ports/clock.port.js';
+import { IdGeneratorPort } from '../../domain/ports/id-generator.port.js';
+import { UserId } from '../../domain/value-objects/user-id.js';
+import { TOKENS } from '../../shared/container.js';
+import { AsyncResult, Result, success, failure } from '../../shared/types/result.js';
+import { UserDto, toUserDto } from '../dtos/user.dto.js';
+import { UseCaseError } from '../errors/use-case-error.js';
+import { EventBus } from '../ports/event-bus.port.js';
+import { UnitOfWork } from '../ports/unit-of-work.port.js';
+
+export interface CreateUserInput {
+  email: string;
+  name: string;
+}
+
+/**
+ * Registers a new user.
+ *
+ * The email must pass format validation and the anti-spam check, and
+ * must not belong to another user. The uniqueness check and the save run
+ * in one transaction; UserRegistered is published once it commits.
+ */
+@injectable()
+export class CreateUserUseCase {
+  constructor(
+    @inject(TOKENS.USER_REPOSITORY) private readonly userRepository: UserRepository,
+    @inject(TOKENS.ANTI_SPAM_SERVICE) private readonly antiSpamService: AntiSpamPort,
+    @inject(TOKENS.EVENT_BUS) private readonly eventBus: EventBus,
+    @inject(TOKENS.UNIT_OF_WORK) private readonly unitOfWork: UnitOfWork,
+    @inject(TOKENS.CLOCK) private readonly clock: ClockPort,
+    @inject(TOKENS.ID_GENERATOR) private readonly ids: IdGeneratorPort
+  ) {}
+
+  async execute(input: CreateUserInput): Promise<Result<UserDto, UseCaseError>> {
+    return Result.fromPromise(
+      User.createWithValidation(
+        input.email,
+        input.name,
+        this.antiSpamService,
+        this.clock,
+        this.ids,
+        UserId.generate(this.ids)
+      ),
+      UseCaseError.fromDomainError
+    )
+      .flatMap(user => this.register(user))
+      .map(toUserDto);
+  }
+
+  // A DuplicateEmailError from save means we lost a race with a concurrent registration
+  private register(user: User): AsyncResult<User, UseCaseError> {
+    return AsyncResult.from(this.unitOfWork.runInTransaction(() => this.ensureEmailIsFree(user)
+      .flatMap(free => AsyncResult.from(this.userRepository.save(free)).mapError(UseCaseError.fromDomainError))))
+      .mapError(UseCaseError.fromDomainError)
+      .map(async saved => {
+        await this.eventBus.publish(user.pullDomainEvents());
+        return saved;
+      });
+  }
+
+  private ensureEmailIsFree(user: User): AsyncResult<User, UseCaseError> {
+    return AsyncResult.from(this.userRepository.findByEmail(user.email))
+      .mapError(UseCaseError.unexpected)
+      .flatMap(owner => owner
+        ? failure(UseCaseError.emailAlreadyInUse(user.email.getValue()))
+        : success(user));
+  }
+}
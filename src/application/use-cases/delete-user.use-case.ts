@@ -0,0 +1,55 @@
+import { inject, injectable } from 'tsyringe';
+import { UserId } from '../../domain/value-objects/user-id.js';
+import { UserRepository } from '../../domain/repositories/user-repository.js';
+import { ClockPort } from '../../domain/ports/clock.port.js';
+import { IdGeneratorPort } from '../../domain/ports/id-generator.port.js';
+import { TOKENS } from '../../shared/container.js';
+import { AsyncResult, Result, success, failure } from '../../shared/types/result.js';
+import { UserDto, toUserDto } from '../dtos/user.dto.js';
+import { UseCaseError } from '../errors/use-case-error.js';
+import { EventBus } from '../ports/event-bus.port.js';
+import { UnitOfWork } from '../ports/unit-of-work.port.js';
+import { ensureVersion } from './preconditions.js';
+
+export interface DeleteUserInput {
+  id: string;
+  // Only delete the user if it is still at this version
+  expectedVersion?: number;
+}
+
+/**
+ * Soft-deletes a user and returns it: it is no longer found, and is
+ * removed for good when purged (see PurgeDeletedUsersUseCase).
+ * UserDeleted is published once the deletion commits.
+ */
+@injectable()
+export class DeleteUserUseCase {
+  constructor(
+    @inject(TOKENS.USER_REPOSITORY) private readonly userRepository: UserRepository,
+    @inject(TOKENS.EVENT_BUS) private readonly eventBus: EventBus,
+    @inject(TOKENS.UNIT_OF_WORK) private readonly unitOfWork: UnitOfWork,
+    @inject(TOKENS.CLOCK) private readonly clock: ClockPort,
+    @inject(TOKENS.ID_GENERATOR) private readonly ids: IdGeneratorPort
+  ) {}
+
+  async execute(input: DeleteUserInput): Promise<Result<UserDto, UseCaseError>> {
+    const deleted = this.unitOfWork.runInTransaction(() => UserId.tryCreate(input.id)
+      .toAsync()
+      .flatMap(id => this.userRepository.findById(id))
+      .mapError(UseCaseError.fromDomainError)
+      .flatMap(user => user ? success(user) : failure(UseCaseError.userNotFound(input.id)))
+      .flatMap(user => ensureVersion(user, input.expectedVersion))
+      .flatMap(user => user.softDelete(this.clock, this.ids).mapError(UseCaseError.fromDomainError))
+      // Returns the user that recorded the event, not the saved copy
+      .flatMap(user => AsyncResult.from(this.userRepository.save(user))
+        .mapError(UseCaseError.fromDomainError)
+        .map(() => user)));
+
+    return AsyncResult.from(deleted)
+      .mapError(UseCaseError.fromDomainError)
+      .map(async user => {
+        await this.eventBus.publish(user.pullDomainEvents());
+        return toUserDto(user);
+      });
+  }
+}
@@ -0,0 +1,33 @@
+import { inject, injectable } from 'tsyringe';
+import { User } from '../../domain/entities/user.js';
+import { UserId } from '../../domain/value-objects/user-id.js';
+import { Email } from '../../domain/value-objects/email.js';
+import { UserRepository } from '../../domain/repositories/user-repository.js';
+import { TOKENS } from '../../shared/container.js';
+import { AsyncResult, Result, success, failure } from '../../shared/types/result.js';
+import { UserDto, toUserDto } from '../dtos/user.dto.js';
+import { UseCaseError } from '../errors/use-case-error.js';
+
+export type GetUserQuery = { id: string } | { email: string };
+
+/**
+ * Looks a single user up by id or by email.
+ */
+@injectable()
+export class GetUserUseCase {
+  constructor(
+    @inject(TOKENS.USER_REPOSITORY) private readonly userRepository: UserRepository
+  ) {}
+
+  async execute(query: GetUserQuery): Promise<Result<UserDto, UseCaseError>> {
+    const found: AsyncResult<User | null, Error> = 'id' in query
+      ? UserId.tryCreate(query.id).toAsync().flatMap(id => this.userRepository.findById(id))
+      : Email.tryCreate(query.email).toAsync().flatMap(email => this.userRepository.findByEmail(email));
+
+    return found
+      .mapError(UseCaseError.fromDomainError)
+      .flatMap(user => user
+        ? success(toUserDto(user))
+        : failure(UseCaseError.userNotFound('id' in query ? query.id : query.email)));
+  }
+}
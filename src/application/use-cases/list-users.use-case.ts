@@ -0,0 +1,26 @@
+import { inject, injectable } from 'tsyringe';
+import { UserRepository } from '../../domain/repositories/user-repository.js';
+import { UserQuery } from '../../domain/repositories/user-query.js';
+import { TOKENS } from '../../shared/container.js';
+import { AsyncResult, Result } from '../../shared/types/result.js';
+import { UserPageDto, toUserPageDto } from '../dtos/user.dto.js';
+import { UseCaseError } from '../errors/use-case-error.js';
+
+export type ListUsersInput = UserQuery;
+
+/**
+ * Lists users one page at a time, filtered and sorted.
+ * An invalid query (bad cursor, limit out of range...) is a VALIDATION_ERROR.
+ */
+@injectable()
+export class ListUsersUseCase {
+  constructor(
+    @inject(TOKENS.USER_REPOSITORY) private readonly userRepository: UserRepository
+  ) {}
+
+  async execute(input: ListUsersInput = {}): Promise<Result<UserPageDto, UseCaseError>> {
+    return AsyncResult.from(this.userRepository.findAll(input))
+      .mapError(UseCaseError.fromDomainError)
+      .map(toUserPageDto);
+  }
+}
@@ -0,0 +1,12 @@
+import { User } from '../../domain/entities/user.js';
+import { Result, success, failure } from '../../shared/types/result.js';
+import { UseCaseError } from '../errors/use-case-error.js';
+
+/**
+ * Fails with PRECONDITION_FAILED when the caller expects another version
+ * of the user than the stored one (no expectation always passes)
+ */
+export const ensureVersion = (user: User, expectedVersion: number | undefined): Result<User, UseCaseError> =>
+  expectedVersion === undefined || expectedVersion === user.version
+    ? success(user)
+    : failure(UseCaseError.preconditionFailed(user.id.getValue(), expectedVersion, user.version));
@@ -0,0 +1,51 @@
+import { inject, injectable } from 'tsyringe';
+import { UserRepository } from '../../domain/repositories/user-repository.js';
+import { ClockPort } from '../../domain/ports/clock.port.js';
+import { TOKENS } from '../../shared/container.js';
+import { AsyncResult, Result, failure } from '../../shared/types/result.js';
+import { UseCaseError } from '../errors/use-case-error.js';
+
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PurgeDeletedUsersInput {
+  // How long soft-deleted users are kept, DEFAULT_RETENTION_DAYS when omitted
+  retentionDays?: number;
+  // Defaults to the current time of the clock
+  now?: Date;
+}
+
+export interface PurgeDeletedUsersOutput {
+  purged: number;
+  // Users soft-deleted before this date were purged
+  deletedBefore: string;
+}
+
+/**
+ * Removes for good the users soft-deleted more than `retentionDays` ago.
+ * Meant to run periodically; running it twice purges nothing new.
+ */
+@injectable()
+export class PurgeDeletedUsersUseCase {
+  constructor(
+    @inject(TOKENS.USER_REPOSITORY) private readonly userRepository: UserRepository,
+    @inject(TOKENS.CLOCK) private readonly clock: ClockPort
+  ) {}
+
+  async execute(input: PurgeDeletedUsersInput = {}): Promise<Result<PurgeDeletedUsersOutput, UseCaseError>> {
+    const retentionDays = input.retentionDays ?? DEFAULT_RETENTION_DAYS;
+    if (!Number.isInteger(retentionDays) || retentionDays < 0) {
+      return failure(UseCaseError.validation(
+        'The retention period must be a non-negative number of days',
+        undefined,
+        { retentionDays }
+      ));
+    }
+
+    const deletedBefore = new Date((input.now ?? this.clock.now()).getTime() - retentionDays * DAY_MS);
+    return AsyncResult.from(this.userRepository.purge(deletedBefore))
+      .mapError(UseCaseError.unexpected)
+      .map(purged => ({ purged, deletedBefore: deletedBefore.toISOString() }));
+  }
+}
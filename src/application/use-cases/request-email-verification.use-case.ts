@@ -0,0 +1,73 @@
+import { inject, injectable } from 'tsyringe';
+import { User } from '../../domain/entities/user.js';
+import { UserId } from '../../domain/value-objects/user-id.js';
+import { UserRepository } from '../../domain/repositories/user-repository.js';
+import { TOKENS } from '../../shared/container.js';
+import { AsyncResult, Result, success, failure } from '../../shared/types/result.js';
+import { UseCaseError } from '../errors/use-case-error.js';
+import { EmailMessage, EmailSenderPort } from '../ports/email-sender.port.js';
+import { VerificationTokenPort } from '../ports/verification-token.port.js';
+
+export interface EmailVerificationSettings {
+  // Page the link in the email opens, with the token appended as ?token=
+  confirmUrl: string;
+}
+
+export interface RequestEmailVerificationInput {
+  id: string;
+}
+
+export interface RequestEmailVerificationOutput {
+  // Where the link was sent
+  email: string;
+  expiresAt: string;
+}
+
+const verificationEmail = (user: User, link: string, expiresAt: Date): EmailMessage => ({
+  to: user.email.getValue(),
+  subject: 'Confirm your email address',
+  text: [
+    `Hello ${user.name.getFirstName()},`,
+    '',
+    'Please confirm your email address by opening this link:',
+    link,
+    '',
+    `The link expires on ${expiresAt.toUTCString()}.`,
+    'If you did not create an account, you can ignore this email.',
+  ].join('\n'),
+});
+
+/**
+ * Sends a user a link to confirm that they own their email address.
+ *
+ * Asking again sends a new link; earlier ones stay valid until they
+ * expire. A user whose email is already verified gets nothing
+ * (EMAIL_ALREADY_VERIFIED).
+ */
+@injectable()
+export class RequestEmailVerificationUseCase {
+  constructor(
+    @inject(TOKENS.USER_REPOSITORY) private readonly userRepository: UserRepository,
+    @inject(TOKENS.VERIFICATION_TOKENS) private readonly verificationTokens: VerificationTokenPort,
+    @inject(TOKENS.EMAIL_SERVICE) private readonly emailSender: EmailSenderPort,
+    @inject(TOKENS.EMAIL_VERIFICATION_SETTINGS) private readonly settings: EmailVerificationSettings
+  ) {}
+
+  async execute(input: RequestEmailVerificationInput): Promise<Result<RequestEmailVerificationOutput, UseCaseError>> {
+    return UserId.tryCreate(input.id)
+      .toAsync()
+      .flatMap(id => this.userRepository.findById(id))
+      .mapError(UseCaseError.fromDomainError)
+      .flatMap(user => user ? success(user) : failure(UseCaseError.userNotFound(input.id)))
+      .flatMap(user => user.isEmailVerified ? failure(UseCaseError.emailAlreadyVerified(input.id)) : success(user))
+      .flatMap(user => this.send(user));
+  }
+
+  private send(user: User): AsyncResult<RequestEmailVerificationOutput, UseCaseError> {
+    const { token, expiresAt } = this.verificationTokens.issue(user.id.getValue(), user.email.getValue());
+    const link = `${this.settings.confirmUrl}?token=${encodeURIComponent(token)}`;
+
+    return Result.fromPromise(this.emailSender.send(verificationEmail(user, link, expiresAt)), UseCaseError.unexpected)
+      .map(() => ({ email: user.email.getValue(), expiresAt: expiresAt.toISOString() }));
+  }
+}
@@ -0,0 +1,107 @@
+import { inject, injectable } from 'tsyringe';
+import { User } from '../../domain/entities/user.js';
+import { UserId } from '../../domain/value-objects/user-id.js';
+import { Email } from '../../domain/value-objects/email.js';
+import { UserName } from '../../domain/value-objects/user-name.js';
+import { AntiSpamPort } from '../../domain/ports/anti-spam.port.js';
+import { UserRepository } from '../../domain/repositories/user-repository.js';
+import { ClockPort } from '../../domain/ports/clock.port.js';
+import { IdGeneratorPort } from '../../domain/ports/id-generator.port.js';
+import { TOKENS } from '../../shared/container.js';
+import { AsyncResult, Result, success, failure } from '../../shared/types/result.js';
+import { UserDto, toUserDto } from '../dtos/user.dto.js';
+import { UseCaseError } from '../errors/use-case-error.js';
+import { EventBus } from '../ports/event-bus.port.js';
+import { UnitOfWork } from '../ports/unit-of-work.port.js';
+import { ensureVersion } from './preconditions.js';
+
+export interface UpdateUserInput {
+  id: string;
+  email?: string;
+  name?: string;
+  // Only update the user if it is still at this version
+  expectedVersion?: number;
+}
+
+const optional = <T, E>(
+  raw: string | undefined,
+  create: (value: string) => Result<T, E>
+): Result<T | undefined, E> => (raw === undefined ? success(undefined) : create(raw));
+
+/**
+ * Changes a user's email and/or name.
+ *
+ * A new email goes through the same checks as at registration:
+ * format, anti-spam and uniqueness. The user is read, checked and written
+ * back in one transaction; a concurrent change makes it fail with
+ * CONCURRENCY_CONFLICT instead of being overwritten.
+ */
+@injectable()
+export class UpdateUserUseCase {
+  constructor(
+    @inject(TOKENS.USER_REPOSITORY) private readonly userRepository: UserRepository,
+    @inject(TOKENS.ANTI_SPAM_SERVICE) private readonly antiSpamService: AntiSpamPort,
+    @inject(TOKENS.EVENT_BUS) private readonly eventBus: EventBus,
+    @inject(TOKENS.UNIT_OF_WORK) private readonly unitOfWork: UnitOfWork,
+    @inject(TOKENS.CLOCK) private readonly clock: ClockPort,
+    @inject(TOKENS.ID_GENERATOR) private readonly ids: IdGeneratorPort
+  ) {}
+
+  async execute(input: UpdateUserInput): Promise<Result<UserDto, UseCaseError>> {
+    const parsed = Result.combine([
+      UserId.tryCreate(input.id),
+      optional(input.email, Email.tryCreate),
+      optional(input.name, UserName.tryCreate),
+    ]).mapError(UseCaseError.fromDomainError);
+    if (parsed.isFailure) {
+      return failure(parsed.error);
+    }
+    const [id, email, name] = parsed.value;
+
+    const updated = this.unitOfWork.runInTransaction(() => AsyncResult.from(this.userRepository.findById(id))
+      .mapError(UseCaseError.unexpected)
+      .flatMap(user => user ? success(user) : failure(UseCaseError.userNotFound(input.id)))
+      .flatMap(user => ensureVersion(user, input.expectedVersion))
+      .flatMap(loaded => this.applyChanges(loaded, email, name)
+        // Unchanged users are not written back
+        .flatMap(user => user === loaded ? success(user) : this.save(user))));
+
+    return AsyncResult.from(updated)
+      .mapError(UseCaseError.fromDomainError)
+      .map(async user => {
+        const events = user.pullDomainEvents();
+        if (events.length > 0) {
+          await this.eventBus.publish(events);
+        }
+        return toUserDto(user);
+      });
+  }
+
+  private applyChanges(user: User, email?: Email, name?: UserName): AsyncResult<User, UseCaseError> {
+    const withEmail = email && !email.equals(user.email)
+      ? this.changeEmail(user, email)
+      : success(user).toAsync();
+
+    return withEmail.map(updated => name && !name.equals(updated.name)
+      ? updated.updateName(name, this.clock, this.ids)
+      : updated);
+  }
+
+  private changeEmail(user: User, email: Email): AsyncResult<User, UseCaseError> {
+    return Result.fromPromise(Email.tryCreateWithAntiSpam(email.getValue(), this.antiSpamService))
+      .flatMap(screened => screened)
+      .mapError(UseCaseError.fromDomainError)
+      .flatMap(screened => AsyncResult.from(this.userRepository.findByEmail(screened))
+        .mapError(UseCaseError.unexpected)
+        .flatMap(owner => owner && !owner.id.equals(user.id)
+          ? failure(UseCaseError.emailAlreadyInUse(screened.getValue()))
+          : success(user.updateEmail(screened, this.clock, this.ids))));
+  }
+
+  // Returns the user that recorded the events, not the saved copy
+  private save(user: User): AsyncResult<User, UseCaseError> {
+    return AsyncResult.from(this.userRepository.save(user))
+      .mapError(UseCaseError.fromDomainError)
+      .map(() => user);
+  }
+}
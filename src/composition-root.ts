@@ -0,0 +1,221 @@
+import { randomBytes } from 'node:crypto';
+import pg from 'pg';
+import { DependencyContainer, InjectionToken } from 'tsyringe';
+import { container as globalContainer, TOKENS } from './shared/container.js';
+import { Result } from './shared/types/result.js';
+import { ContainerVerificationError, verifyContainer } from './shared/verify-container.js';
+import { AntiSpamPort } from './domain/ports/anti-spam.port.js';
+import { ClockPort, SYSTEM_CLOCK } from './domain/ports/clock.port.js';
+import { IdGeneratorPort, RANDOM_ID_GENERATOR } from './domain/ports/id-generator.port.js';
+import { EmailSenderPort } from './application/ports/email-sender.port.js';
+import { LoggerPort } from './application/ports/logger.port.js';
+import { OutboxStore, OutboxTransport } from './application/ports/outbox.port.js';
+import { EmailVerificationSettings } from './application/use-cases/request-email-verification.use-case.js';
+import { PurgeDeletedUsersUseCase } from './application/use-cases/purge-deleted-users.use-case.js';
+import {
+  SendVerificationEmailOnEmailChange,
+  SendVerificationEmailOnRegistration,
+} from './application/event-handlers/send-verification-email.handler.js';
+import {
+  AntiSpamConfig,
+  AppConfig,
+  DatabaseConfig,
+  Environment,
+  parseConfig,
+} from './infrastructure/config/app-config.js';
+import { InMemoryUserRepository } from './infrastructure/repositories/in-memory-user-repository.js';
+import { PostgresUserRepository } from './infrastructure/repositories/postgres-user-repository.js';
+import { InMemoryUnitOfWork } from './infrastructure/unit-of-work/in-memory-unit-of-work.js';
+import { InMemoryOutboxStore } from './infrastructure/outbox/in-memory-outbox-store.js';
+import { PostgresOutboxStore } from './infrastructure/outbox/postgres-outbox-store.js';
+import { InMemoryOutboxTransport } from './infrastructure/outbox/in-memory-outbox-transport.js';
+import { LoggerOutboxTransport } from './infrastructure/outbox/logger-outbox-transport.js';
+import { OutboxRelay } from './infrastructure/outbox/outbox-relay.js';
+import { PostgresUnitOfWork } from './infrastructure/unit-of-work/postgres-unit-of-work.js';
+import { migrate } from './infrastructure/database/migrator.js';
+import { MockAntiSpamAdapter } from './infrastructure/external-services/mock-anti-spam.adapter.js';
+import { RealAntiSpamAdapter } from './infrastructure/external-services/real-anti-spam.adapter.js';
+import { InProcessEventBus } from './infrastructure/events/in-process-event-bus.js';
+import { HmacVerificationTokenService } from './infrastructure/security/hmac-verification-token.service.js';
+import { ConsoleEmailSender } from './infrastructure/email/console-email-sender.js';
+import { FileEmailSender } from './infrastructure/email/file-email-sender.js';
+import { InMemoryEmailSender } from './infrastructure/email/in-memory-email-sender.js';
+import { JsonLinesLogger } from './infrastructure/logging/json-lines-logger.js';
+import { InMemoryLogger } from './infrastructure/logging/in-memory-logger.js';
+import { UserController } from './presentation/controllers/user.controller.js';
+
+/**
+ * - test: in-memory doubles for every port, whatever the configuration says
+ * - dev: the configured adapters, with local fallbacks (random token secret)
+ * - prod: the configured adapters, refusing anything lost on restart and
+ *   the mock anti-spam
+ */
+export const PROFILES = ['test', 'dev', 'prod'] as const;
+
+export type Profile = typeof PROFILES[number];
+
+const PROFILE_BY_ENVIRONMENT: Record<Environment, Profile> = {
+  development: 'dev',
+  test: 'test',
+  production: 'prod',
+};
+
+export const profileFor = (environment: Environment): Profile => PROFILE_BY_ENVIRONMENT[environment];
+
+// Only ever used by the test profile, which never sends real emails
+const TEST_VERIFICATION_SECRET = 'test-profile-email-verification-secret';
+
+// Classes resolved outside of any token: the HTTP layer and the entry point
+const ROOTS: readonly InjectionToken[] = [UserController, PurgeDeletedUsersUseCase];
+
+export interface ComposeContainerOptions {
+  profile: Profile;
+  // Defaults to the development defaults, with nothing set
+  config?: AppConfig;
+  // The composed container is a child of it, the global container by default
+  parent?: DependencyContainer;
+  // Default to the system clock and random UUIDs, in every profile
+  clock?: ClockPort;
+  ids?: IdGeneratorPort;
+}
+
+// Users and the events they record are saved together, in the same store
+const registerInMemoryPersistence = (container: DependencyContainer): void => {
+  const outbox = new InMemoryOutboxStore();
+  const userRepository = new InMemoryUserRepository(outbox);
+  container.registerInstance(TOKENS.OUTBOX_STORE, outbox);
+  container.registerInstance(TOKENS.USER_REPOSITORY, userRepository);
+  container.registerInstance(TOKENS.UNIT_OF_WORK, new InMemoryUnitOfWork([userRepository, outbox]));
+};
+
+const registerPersistence = async (container: DependencyContainer, database: DatabaseConfig): Promise<void> => {
+  if (database.driver === 'memory') {
+    registerInMemoryPersistence(container);
+    return;
+  }
+
+  const pool = new pg.Pool({ connectionString: database.url });
+  container.registerInstance(TOKENS.DATABASE_POOL, pool);
+  const migrated = await migrate(pool);
+  if (migrated.isFailure) {
+    await pool.end();
+    throw migrated.error;
+  }
+  const unitOfWork = new PostgresUnitOfWork(pool);
+  const outbox = new PostgresOutboxStore(unitOfWork);
+  container.registerInstance(TOKENS.OUTBOX_STORE, outbox);
+  container.registerInstance(TOKENS.USER_REPOSITORY, new PostgresUserRepository(unitOfWork, outbox));
+  container.registerInstance(TOKENS.UNIT_OF_WORK, unitOfWork);
+};
+
+const antiSpamFor = (antiSpam: AntiSpamConfig, logger: LoggerPort): AntiSpamPort => antiSpam.driver === 'real'
+  ? new RealAntiSpamAdapter(antiSpam.apiKey, {
+    baseUrl: antiSpam.baseUrl,
+    timeoutMs: antiSpam.timeoutMs,
+    failurePolicy: antiSpam.failurePolicy,
+    logger,
+  })
+  : new MockAntiSpamAdapter();
+
+// Emails are written to the outbox directory when set, printed otherwise
+const emailSenderFor = (config: AppConfig, clock: ClockPort): EmailSenderPort => config.email.outboxDir
+  ? new FileEmailSender(config.email.outboxDir, clock)
+  : new ConsoleEmailSender();
+
+// Tokens expire by the registered clock
+const verificationTokensFor = (container: DependencyContainer, secret: string): HmacVerificationTokenService =>
+  new HmacVerificationTokenService(secret, { clock: container.resolve<ClockPort>(TOKENS.CLOCK) });
+
+// Polls the outbox of this container; each process is a lease holder of its own
+const outboxRelayFor = (container: DependencyContainer): OutboxRelay => {
+  const clock = container.resolve<ClockPort>(TOKENS.CLOCK);
+  return new OutboxRelay(
+    container.resolve<OutboxStore>(TOKENS.OUTBOX_STORE),
+    container.resolve<OutboxTransport>(TOKENS.OUTBOX_TRANSPORT),
+    {
+      now: () => clock.now(),
+      logger: container.resolve<LoggerPort>(TOKENS.LOGGER_SERVICE),
+    }
+  );
+};
+
+const registerConfiguredAdapters = async (container: DependencyContainer, config: AppConfig, secret: string) => {
+  const clock = container.resolve<ClockPort>(TOKENS.CLOCK);
+  const logger = new JsonLinesLogger({ level: config.log.level, clock });
+  container.registerInstance(TOKENS.LOGGER_SERVICE, logger);
+  await registerPersistence(container, config.database);
+  container.registerInstance(TOKENS.ANTI_SPAM_SERVICE, antiSpamFor(config.antiSpam, logger));
+  container.registerInstance(TOKENS.EMAIL_SERVICE, emailSenderFor(config, clock));
+  container.registerInstance(TOKENS.VERIFICATION_TOKENS, verificationTokensFor(container, secret));
+  container.registerInstance(TOKENS.OUTBOX_TRANSPORT, new LoggerOutboxTransport(logger.child({ component: 'outbox' })));
+};
+
+const ADAPTERS: Record<Profile, (container: DependencyContainer, config: AppConfig) => Promise<void>> = {
+  test: async (container, config) => {
+    container.registerInstance(TOKENS.LOGGER_SERVICE, new InMemoryLogger());
+    registerInMemoryPersistence(container);
+    container.registerInstance(TOKENS.ANTI_SPAM_SERVICE, new MockAntiSpamAdapter());
+    container.registerInstance(TOKENS.EMAIL_SERVICE, new InMemoryEmailSender());
+    container.registerInstance(
+      TOKENS.VERIFICATION_TOKENS,
+      verificationTokensFor(container, config.emailVerification.secret ?? TEST_VERIFICATION_SECRET)
+    );
+    container.registerInstance(TOKENS.OUTBOX_TRANSPORT, new InMemoryOutboxTransport());
+  },
+
+  // Without a configured secret, links only work until the server restarts
+  dev: (container, config) => registerConfiguredAdapters(
+    container,
+    config,
+    config.emailVerification.secret ?? randomBytes(32).toString('hex')
+  ),
+
+  prod: async (container, config) => {
+    if (config.database.driver !== 'postgres') {
+      throw new Error('The prod profile needs DATABASE_DRIVER=postgres: in-memory users are lost on restart');
+    }
+    if (config.emailVerification.secret === undefined) {
+      throw new Error('The prod profile needs EMAIL_VERIFICATION_SECRET: links would not survive a restart');
+    }
+    if (config.antiSpam.driver !== 'real') {
+      throw new Error('The prod profile needs ANTI_SPAM_API_KEY: the mock anti-spam only knows a few test domains');
+    }
+    await registerConfiguredAdapters(container, config, config.emailVerification.secret);
+  },
+};
+
+/**
+ * Builds a container with an adapter registered for every port, in a new
+ * child of `parent`. Tests override single registrations in a child of
+ * the result; the HTTP server gives each request its own child too.
+ *
+ * With Postgres, pending migrations are applied before returning; the
+ * pool is registered under TOKENS.DATABASE_POOL for the entry point to
+ * close once the relay has stopped.
+ */
+export async function composeContainer(options: ComposeContainerOptions): Promise<DependencyContainer> {
+  const config = options.config ?? parseConfig({});
+  const container = (options.parent ?? globalContainer).createChildContainer();
+
+  container.registerInstance(TOKENS.CLOCK, options.clock ?? SYSTEM_CLOCK);
+  container.registerInstance(TOKENS.ID_GENERATOR, options.ids ?? RANDOM_ID_GENERATOR);
+  await ADAPTERS[options.profile](container, config);
+
+  const settings: EmailVerificationSettings = { confirmUrl: config.emailVerification.confirmUrl };
+  container.registerInstance(TOKENS.EMAIL_VERIFICATION_SETTINGS, settings);
+  container.register(TOKENS.DOMAIN_EVENT_HANDLER, { useClass: SendVerificationEmailOnRegistration });
+  container.register(TOKENS.DOMAIN_EVENT_HANDLER, { useClass: SendVerificationEmailOnEmailChange });
+
+  // Handlers registered under TOKENS.DOMAIN_EVENT_HANDLER are picked up here
+  container.registerInstance(TOKENS.EVENT_BUS, InProcessEventBus.fromContainer(container));
+  container.registerInstance(TOKENS.OUTBOX_RELAY, outboxRelayFor(container));
+
+  return container;
+}
+
+/**
+ * Checks that every token and every class the application resolves can
+ * be built (see verifyContainer). Run it before serving traffic.
+ */
+export const verifyComposition = (container: DependencyContainer): Result<void, ContainerVerificationError> =>
+  verifyContainer(container, ROOTS);
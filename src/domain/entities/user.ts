@@ -2,7 +2,23 @@ import { Entity } from '../../shared/types/common.js';
 import { UserId } from '../value-objects/user-id.js';
 import { Email } from '../value-objects/email.js';
 import { UserName } from '../value-objects/user-name.js';
+import { UserStatus, UserStatusTransition, nextUserStatus } from '../value-objects/user-status.js';
 import { AntiSpamPort } from '@domain/ports/anti-spam.port.js';
+import { ClockPort } from '../ports/clock.port.js';
+import { IdGeneratorPort } from '../ports/id-generator.port.js';
+import { InvalidStatusTransitionError } from '../errors/invalid-status-transition.error.js';
+import {
+  UserActivated,
+  UserDeleted,
+  UserDomainEvent,
+  UserEmailChanged,
+  UserEmailVerified,
+  UserNameChanged,
+  UserReactivated,
+  UserRegistered,
+  UserSuspended,
+} from '../events/user-events.js';
+import { Result, success, failure } from '../../shared/types/result.js';
 
 export interface UserProps {
   id: UserId;
@@ -10,24 +26,69 @@ export interface UserProps {
   name: UserName;
   createdAt: Date;
   updatedAt: Date;
+  // 1 for a new user, incremented by every change
+  version: number;
+  status: UserStatus;
+  // Only set while the user is suspended
+  suspensionReason?: string;
+  // Only set once the user is soft-deleted
+  deletedAt?: Date;
+  // When the current email was confirmed; unset until it is
+  emailVerifiedAt?: Date;
 }
 
+/**
+ * User aggregate.
+ *
+ * Every state change returns a new instance and records a domain event on
+ * it; events recorded earlier are carried over. Call pullDomainEvents()
+ * once the user has been saved to publish them.
+ *
+ * Every state change also increments the version, while persistedVersion
+ * remembers the version the user was loaded at: repositories refuse to save
+ * a user whose stored version has moved on since (optimistic concurrency).
+ *
+ * A new user is pending verification until it confirms its email, which
+ * activates it; changing the email makes an active user pending again, and
+ * a suspended one pending once reactivated.
+ * Lifecycle transitions (activate, suspend, reactivate, softDelete) fail
+ * with InvalidStatusTransitionError when the current status does not allow
+ * them (see user-status.ts).
+ *
+ * Every method that records an event takes the clock that stamps it and
+ * the generator of its id; nothing falls back to the system clock or to
+ * random ids, so tests know both in advance.
+ */
 export class User implements Entity<UserId> {
-  private constructor(private readonly props: UserProps) {}
+  private constructor(
+    private readonly props: UserProps,
+    private domainEvents: UserDomainEvent[] = [],
+    private readonly loadedVersion: number = props.version
+  ) {}
 
+  /**
+   * Registers a new user, with an id from `ids` unless one is given
+   */
   public static create(
     email: Email,
     name: UserName,
+    clock: ClockPort,
+    ids: IdGeneratorPort,
     id?: UserId
   ): User {
-    const now = new Date();
+    const now = clock.now();
+    const userId = id ?? UserId.generate(ids);
     return new User({
-      id: id || UserId.generate(),
+      id: userId,
       email,
       name,
       createdAt: now,
       updatedAt: now,
-    });
+      version: 1,
+      status: 'pending-verification',
+    }, [
+      new UserRegistered(userId.getValue(), { email: email.getValue(), name: name.getValue() }, now, ids.generate()),
+    ], 0);
   }
 
   /**
@@ -38,6 +99,8 @@ export class User implements Entity<UserId> {
     emailString: string,
     nameString: string,
     antiSpamService: AntiSpamPort,
+    clock: ClockPort,
+    ids: IdGeneratorPort,
     id?: UserId
   ): Promise<User> {
     // Create email with anti-spam check (adapter is injected here)
@@ -50,9 +113,12 @@ export class User implements Entity<UserId> {
     const name = UserName.create(nameString);
 
     // Create user
-    return User.create(email, name, id);
+    return User.create(email, name, clock, ids, id);
   }
 
+  /**
+   * Rebuilds a stored user: nothing happened, so no event is recorded
+   */
   public static reconstitute(props: UserProps): User {
     return new User(props);
   }
@@ -78,21 +144,169 @@ export class User implements Entity<UserId> {
     return this.props.updatedAt;
   }
 
+  public get version(): number {
+    return this.props.version;
+  }
+
+  public get status(): UserStatus {
+    return this.props.status;
+  }
+
+  public get suspensionReason(): string | undefined {
+    return this.props.suspensionReason;
+  }
+
+  public get deletedAt(): Date | undefined {
+    return this.props.deletedAt;
+  }
+
+  public get emailVerifiedAt(): Date | undefined {
+    return this.props.emailVerifiedAt;
+  }
+
+  public get isEmailVerified(): boolean {
+    return this.props.emailVerifiedAt !== undefined;
+  }
+
+  /**
+   * The version in storage when this user was loaded, 0 if it never was saved
+   */
+  public get persistedVersion(): number {
+    return this.loadedVersion;
+  }
+
   // Business methods
-  public updateEmail(newEmail: Email): User {
+  /**
+   * The new address is unverified: an active user goes back to pending
+   * verification until it is confirmed
+   */
+  public updateEmail(newEmail: Email, clock: ClockPort, ids: IdGeneratorPort): User {
+    const now = clock.now();
     return new User({
       ...this.props,
       email: newEmail,
-      updatedAt: new Date(),
-    });
+      emailVerifiedAt: undefined,
+      status: nextUserStatus(this.status, 'requireVerification') ?? this.status,
+      updatedAt: now,
+      version: this.version + 1,
+    }, [
+      ...this.domainEvents,
+      new UserEmailChanged(this.id.getValue(), {
+        previousEmail: this.email.getValue(),
+        email: newEmail.getValue(),
+      }, now, ids.generate()),
+    ], this.loadedVersion);
   }
 
-  public updateName(newName: UserName): User {
+  public updateName(newName: UserName, clock: ClockPort, ids: IdGeneratorPort): User {
+    const now = clock.now();
     return new User({
       ...this.props,
       name: newName,
-      updatedAt: new Date(),
-    });
+      updatedAt: now,
+      version: this.version + 1,
+    }, [
+      ...this.domainEvents,
+      new UserNameChanged(this.id.getValue(), {
+        previousName: this.name.getValue(),
+        name: newName.getValue(),
+      }, now, ids.generate()),
+    ], this.loadedVersion);
+  }
+
+  /**
+   * Records that the owner of the current email confirmed it. A user
+   * pending verification becomes active; other statuses are kept.
+   */
+  public confirmEmail(clock: ClockPort, ids: IdGeneratorPort): User {
+    const now = clock.now();
+    const activated = nextUserStatus(this.status, 'activate');
+    return new User({
+      ...this.props,
+      emailVerifiedAt: now,
+      status: activated ?? this.status,
+      updatedAt: now,
+      version: this.version + 1,
+    }, [
+      ...this.domainEvents,
+      new UserEmailVerified(this.id.getValue(), { email: this.email.getValue() }, now, ids.generate()),
+      ...(activated ? [new UserActivated(this.id.getValue(), {}, now, ids.generate())] : []),
+    ], this.loadedVersion);
+  }
+
+  // Lifecycle
+  public activate(clock: ClockPort, ids: IdGeneratorPort): Result<User, InvalidStatusTransitionError> {
+    const now = clock.now();
+    return this.transition('activate', now, {}, new UserActivated(this.id.getValue(), {}, now, ids.generate()));
+  }
+
+  public suspend(reason: string, clock: ClockPort, ids: IdGeneratorPort): Result<User, InvalidStatusTransitionError> {
+    const now = clock.now();
+    return this.transition('suspend', now, { suspensionReason: reason }, new UserSuspended(this.id.getValue(), {
+      reason,
+    }, now, ids.generate()));
+  }
+
+  /**
+   * Lifts a suspension: the user becomes active again, or pending
+   * verification if its email is not verified
+   */
+  public reactivate(clock: ClockPort, ids: IdGeneratorPort): Result<User, InvalidStatusTransitionError> {
+    const now = clock.now();
+    return this.transition('reactivate', now, { suspensionReason: undefined }, new UserReactivated(this.id.getValue(), {
+      previousReason: this.suspensionReason ?? '',
+    }, now, ids.generate()));
+  }
+
+  /**
+   * Marks the user as deleted; repositories stop returning it, and only
+   * remove it for good when it is purged
+   */
+  public softDelete(clock: ClockPort, ids: IdGeneratorPort): Result<User, InvalidStatusTransitionError> {
+    const now = clock.now();
+    return this.transition('softDelete', now, { suspensionReason: undefined, deletedAt: now }, new UserDeleted(
+      this.id.getValue(),
+      { email: this.email.getValue(), name: this.name.getValue() },
+      now,
+      ids.generate()
+    ));
+  }
+
+  /**
+   * The events recorded so far, without forgetting them (repositories use
+   * it to store them in an outbox along with the user)
+   */
+  public peekDomainEvents(): readonly UserDomainEvent[] {
+    return this.domainEvents;
+  }
+
+  /**
+   * Returns the events recorded so far and forgets them, so each event
+   * is published once
+   */
+  public pullDomainEvents(): UserDomainEvent[] {
+    const events = this.domainEvents;
+    this.domainEvents = [];
+    return events;
+  }
+
+  private transition(
+    transition: UserStatusTransition,
+    now: Date,
+    changes: Partial<UserProps>,
+    event: UserDomainEvent
+  ): Result<User, InvalidStatusTransitionError> {
+    const status = nextUserStatus(this.status, transition, this.isEmailVerified);
+    if (status === null) {
+      return failure(new InvalidStatusTransitionError(this.id.getValue(), this.status, transition));
+    }
+    return success(new User({
+      ...this.props,
+      ...changes,
+      status,
+      updatedAt: now,
+      version: this.version + 1,
+    }, [...this.domainEvents, event], this.loadedVersion));
   }
 
   public equals(other: Entity<UserId>): boolean {
@@ -109,6 +323,11 @@ export class User implements Entity<UserId> {
       name: this.name.getValue(),
       createdAt: this.createdAt.toISOString(),
       updatedAt: this.updatedAt.toISOString(),
+      version: this.version,
+      status: this.status,
+      suspensionReason: this.suspensionReason ?? null,
+      deletedAt: this.deletedAt?.toISOString() ?? null,
+      emailVerifiedAt: this.emailVerifiedAt?.toISOString() ?? null,
     };
   }
 }
@@ -0,0 +1,22 @@
+import { DomainError } from './domain-error.js';
+
+/**
+ * Returned by `UserRepository.save` when the stored user is not at the
+ * version the saved one was loaded at: someone else changed (or deleted)
+ * it in between, and saving would silently undo their change.
+ */
+export class ConcurrencyConflictError extends DomainError<{
+  id: string;
+  expectedVersion: number;
+  // null when the user is no longer stored
+  actualVersion: number | null;
+}> {
+  public readonly code = 'CONCURRENCY_CONFLICT';
+
+  constructor(id: string, expectedVersion: number, actualVersion: number | null) {
+    super(
+      `User ${id} was modified concurrently: expected version ${expectedVersion}, found ${actualVersion ?? 'none'}`,
+      { id, expectedVersion, actualVersion }
+    );
+  }
+}
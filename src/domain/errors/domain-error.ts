@@ -0,0 +1,25 @@
+/**
+ * Base class for every error the domain layer raises.
+ *
+ * `code` is stable and safe to branch on (or send to clients); `message`
+ * is for humans and may change. `details` carries the structured data
+ * needed to explain the error without parsing the message.
+ */
+export abstract class DomainError<
+  TDetails extends Record<string, unknown> = Record<string, unknown>
+> extends Error {
+  public abstract readonly code: string;
+
+  protected constructor(message: string, public readonly details: TDetails) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  public toJSON() {
+    return {
+      code: this.code,
+      message: this.message,
+      details: this.details,
+    };
+  }
+}
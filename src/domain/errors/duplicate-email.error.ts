@@ -0,0 +1,14 @@
+import { DomainError } from './domain-error.js';
+
+/**
+ * Returned by `UserRepository.save` when another user already owns the
+ * email address. Every adapter must enforce this, whatever its storage
+ * does natively.
+ */
+export class DuplicateEmailError extends DomainError<{ email: string }> {
+  public readonly code = 'DUPLICATE_EMAIL';
+
+  constructor(public readonly email: string) {
+    super(`Email is already in use: ${email}`, { email });
+  }
+}
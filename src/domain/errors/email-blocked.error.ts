@@ -0,0 +1,21 @@
+import { DomainError } from './domain-error.js';
+import { AntiSpamReasonCode, AntiSpamVerdict } from '../ports/anti-spam.port.js';
+
+export interface EmailBlockedDetails extends Record<string, unknown> {
+  email: string;
+  reasons: AntiSpamReasonCode[];
+  score?: number;
+  provider?: string;
+}
+
+export class EmailBlockedError extends DomainError<EmailBlockedDetails> {
+  public readonly code = 'EMAIL_BLOCKED';
+
+  constructor(email: string, verdict?: AntiSpamVerdict) {
+    super(`Email is blocked or blacklisted: ${email}`, {
+      email,
+      reasons: verdict?.reasons.map(reason => reason.code) ?? [],
+      ...(verdict && { score: verdict.score, provider: verdict.provider.name }),
+    });
+  }
+}
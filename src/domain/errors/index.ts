@@ -0,0 +1,13 @@
+export { DomainError } from './domain-error.js';
+export { InvalidEmailError } from './invalid-email.error.js';
+export { EmailBlockedError } from './email-blocked.error.js';
+export {
+  InvalidUserNameError,
+  type InvalidUserNameDetails,
+  type UserNameViolation,
+} from './invalid-user-name.error.js';
+export { InvalidUserIdError } from './invalid-user-id.error.js';
+export { DuplicateEmailError } from './duplicate-email.error.js';
+export { ConcurrencyConflictError } from './concurrency-conflict.error.js';
+export { InvalidUserQueryError } from './invalid-user-query.error.js';
+export { InvalidStatusTransitionError } from './invalid-status-transition.error.js';
@@ -0,0 +1,9 @@
+import { DomainError } from './domain-error.js';
+
+export class InvalidEmailError extends DomainError<{ value: unknown }> {
+  public readonly code = 'INVALID_EMAIL';
+
+  constructor(value: unknown) {
+    super(`Invalid email format: ${String(value)}`, { value });
+  }
+}
@@ -0,0 +1,18 @@
+import { DomainError } from './domain-error.js';
+import { UserStatus, UserStatusTransition } from '../value-objects/user-status.js';
+
+/**
+ * A lifecycle transition the user's current status does not allow,
+ * e.g. reactivating a user that is not suspended
+ */
+export class InvalidStatusTransitionError extends DomainError<{
+  id: string;
+  status: UserStatus;
+  transition: UserStatusTransition;
+}> {
+  public readonly code = 'INVALID_STATUS_TRANSITION';
+
+  constructor(id: string, status: UserStatus, transition: UserStatusTransition) {
+    super(`Cannot ${transition} user ${id}: it is ${status}`, { id, status, transition });
+  }
+}
@@ -0,0 +1,9 @@
+import { DomainError } from './domain-error.js';
+
+export class InvalidUserIdError extends DomainError<{ value: unknown }> {
+  public readonly code = 'INVALID_USER_ID';
+
+  constructor(value: unknown) {
+    super(`Invalid UserId format: ${String(value)}`, { value });
+  }
+}
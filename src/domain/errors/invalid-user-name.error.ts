@@ -0,0 +1,16 @@
+import { DomainError } from './domain-error.js';
+
+export type UserNameViolation = 'TOO_SHORT' | 'TOO_LONG' | 'INVALID_CHARACTERS' | 'MIXED_SCRIPTS';
+
+export interface InvalidUserNameDetails extends Record<string, unknown> {
+  value: unknown;
+  violation?: UserNameViolation;
+}
+
+export class InvalidUserNameError extends DomainError<InvalidUserNameDetails> {
+  public readonly code = 'INVALID_USER_NAME';
+
+  constructor(value: unknown, violation?: UserNameViolation) {
+    super(`Invalid user name: ${String(value)}`, violation === undefined ? { value } : { value, violation });
+  }
+}
@@ -0,0 +1,9 @@
+import { DomainError } from './domain-error.js';
+
+export class InvalidUserQueryError extends DomainError<{ parameter: string; value: unknown }> {
+  public readonly code = 'INVALID_USER_QUERY';
+
+  constructor(parameter: string, value: unknown, reason: string) {
+    super(`Invalid ${parameter}: ${reason}`, { parameter, value });
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Base class for every event the domain records.
+ *
+ * An event is a fact: something that happened to an aggregate, at
+ * `occurredAt`. `type` is stable and safe to route on; `payload` holds
+ * plain, serializable values (never entities or value objects), including
+ * the previous values when something changed. `eventId` is unique per
+ * event (drawn from the IdGeneratorPort of whoever records it), so
+ * consumers that may receive it twice can ignore duplicates.
+ */
+export abstract class DomainEvent<
+  TPayload extends Record<string, unknown> = Record<string, unknown>
+> {
+  public abstract readonly type: string;
+
+  protected constructor(
+    public readonly aggregateId: string,
+    public readonly payload: Readonly<TPayload>,
+    public readonly occurredAt: Date,
+    public readonly eventId: string
+  ) {}
+
+  public toJSON() {
+    return {
+      eventId: this.eventId,
+      type: this.type,
+      aggregateId: this.aggregateId,
+      occurredAt: this.occurredAt.toISOString(),
+      payload: this.payload,
+    };
+  }
+}
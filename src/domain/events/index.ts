@@ -0,0 +1,19 @@
+import { UserDomainEvent } from './user-events.js';
+
+export { DomainEvent } from './domain-event.js';
+export {
+  UserRegistered,
+  UserEmailChanged,
+  UserNameChanged,
+  UserDeleted,
+  UserActivated,
+  UserSuspended,
+  UserReactivated,
+  UserEmailVerified,
+  type UserDomainEvent,
+} from './user-events.js';
+
+// Every event the domain can record; extend the union when adding an aggregate
+export type AnyDomainEvent = UserDomainEvent;
+export type DomainEventType = AnyDomainEvent['type'];
+export type DomainEventOf<T extends DomainEventType> = Extract<AnyDomainEvent, { type: T }>;
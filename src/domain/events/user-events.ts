@@ -0,0 +1,75 @@
+import { DomainEvent } from './domain-event.js';
+
+export class UserRegistered extends DomainEvent<{ email: string; name: string }> {
+  public readonly type = 'UserRegistered';
+
+  constructor(userId: string, payload: { email: string; name: string }, occurredAt: Date, eventId: string) {
+    super(userId, payload, occurredAt, eventId);
+  }
+}
+
+export class UserEmailChanged extends DomainEvent<{ previousEmail: string; email: string }> {
+  public readonly type = 'UserEmailChanged';
+
+  constructor(userId: string, payload: { previousEmail: string; email: string }, occurredAt: Date, eventId: string) {
+    super(userId, payload, occurredAt, eventId);
+  }
+}
+
+export class UserNameChanged extends DomainEvent<{ previousName: string; name: string }> {
+  public readonly type = 'UserNameChanged';
+
+  constructor(userId: string, payload: { previousName: string; name: string }, occurredAt: Date, eventId: string) {
+    super(userId, payload, occurredAt, eventId);
+  }
+}
+
+export class UserDeleted extends DomainEvent<{ email: string; name: string }> {
+  public readonly type = 'UserDeleted';
+
+  constructor(userId: string, payload: { email: string; name: string }, occurredAt: Date, eventId: string) {
+    super(userId, payload, occurredAt, eventId);
+  }
+}
+
+export class UserActivated extends DomainEvent<Record<string, never>> {
+  public readonly type = 'UserActivated';
+
+  constructor(userId: string, payload: Record<string, never>, occurredAt: Date, eventId: string) {
+    super(userId, payload, occurredAt, eventId);
+  }
+}
+
+export class UserSuspended extends DomainEvent<{ reason: string }> {
+  public readonly type = 'UserSuspended';
+
+  constructor(userId: string, payload: { reason: string }, occurredAt: Date, eventId: string) {
+    super(userId, payload, occurredAt, eventId);
+  }
+}
+
+export class UserReactivated extends DomainEvent<{ previousReason: string }> {
+  public readonly type = 'UserReactivated';
+
+  constructor(userId: string, payload: { previousReason: string }, occurredAt: Date, eventId: string) {
+    super(userId, payload, occurredAt, eventId);
+  }
+}
+
+export class UserEmailVerified extends DomainEvent<{ email: string }> {
+  public readonly type = 'UserEmailVerified';
+
+  constructor(userId: string, payload: { email: string }, occurredAt: Date, eventId: string) {
+    super(userId, payload, occurredAt, eventId);
+  }
+}
+
+export type UserDomainEvent =
+  | UserRegistered
+  | UserEmailChanged
+  | UserNameChanged
+  | UserDeleted
+  | UserActivated
+  | UserSuspended
+  | UserReactivated
+  | UserEmailVerified;
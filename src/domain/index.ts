@@ -2,3 +2,5 @@
 export * from './entities/index.js';
 export * from './value-objects/index.js';
 export * from './repositories/index.js';
+export * from './errors/index.js';
+export * from './events/index.js';
@@ -7,20 +7,66 @@
  * Any adapter (mock, real, stub) must implement this interface.
  * This enables dependency injection and easy testing with doubles.
  */
+
+/**
+ * - allowed: nothing suspicious
+ * - review: suspicious but not conclusive (e.g. disposable address);
+ *   the email is accepted and may be flagged for a human to look at
+ * - blocked: the email must be rejected
+ */
+export type AntiSpamDecision = 'allowed' | 'review' | 'blocked';
+
+export type AntiSpamReasonCode =
+  | 'DISPOSABLE_DOMAIN'
+  | 'BLOCKED_EMAIL'
+  | 'BLOCKED_DOMAIN'
+  | 'BLACKLISTED_PATTERN'
+  | 'PROVIDER_FLAGGED'
+  | 'PROVIDER_OUTAGE';
+
+export interface AntiSpamReason {
+  code: AntiSpamReasonCode;
+  message: string;
+}
+
+export interface AntiSpamVerdict {
+  decision: AntiSpamDecision;
+  // 0 = certainly legitimate, 1 = certainly spam
+  score: number;
+  reasons: AntiSpamReason[];
+  // Which provider produced the verdict, plus anything it wants to report
+  provider: {
+    name: string;
+    metadata?: Record<string, unknown>;
+  };
+}
+
 export interface AntiSpamPort {
+  /**
+   * Checks an email and explains the outcome
+   *
+   * @param email - The email address to check
+   * @returns Promise<AntiSpamVerdict> - the decision, a score and the reasons behind it
+   *
+   * @example
+   * const verdict = await antiSpamService.check('user@gmail.com');
+   * if (verdict.decision === 'blocked') {
+   *   console.log(verdict.reasons.map(reason => reason.code));
+   * }
+   */
+  check(email: string): Promise<AntiSpamVerdict>;
+
   /**
    * Checks if an email is blocked or blacklisted
+   * Convenience derived from check(): adapters implement it with isBlockedVerdict()
    *
    * @param email - The email address to check
    * @returns Promise<boolean> - true if email is blocked, false if allowed
    *
    * @throws Error if the check fails unexpectedly
-   *
-   * @example
-   * const isBlocked = await antiSpamService.isBlocked('user@gmail.com');
-   * if (isBlocked) {
-   *   throw new Error('Email is blocked');
-   * }
    */
   isBlocked(email: string): Promise<boolean>;
 }
+
+export const isBlockedVerdict = (verdict: AntiSpamVerdict): boolean =>
+  verdict.decision === 'blocked';
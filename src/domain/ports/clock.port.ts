@@ -0,0 +1,17 @@
+/**
+ * ClockPort - Domain Port
+ *
+ * Where the current time comes from. Everything that stamps a date (users,
+ * use cases, tokens) takes a clock, so tests can pin time with a
+ * FixedClock or a SteppingClock instead of faking timers.
+ */
+export interface ClockPort {
+  now(): Date;
+}
+
+/**
+ * The wall clock, used wherever no clock is given
+ */
+export const SYSTEM_CLOCK: ClockPort = {
+  now: () => new Date(),
+};
@@ -0,0 +1,18 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * IdGeneratorPort - Domain Port
+ *
+ * Where new identifiers come from. Each call returns a new RFC 4122 UUID;
+ * tests use a SequentialIdGenerator to know the ids in advance.
+ */
+export interface IdGeneratorPort {
+  generate(): string;
+}
+
+/**
+ * Random (version 4) UUIDs, used wherever no generator is given
+ */
+export const RANDOM_ID_GENERATOR: IdGeneratorPort = {
+  generate: () => randomUUID(),
+};
@@ -1 +1,14 @@
-export { type UserRepository } from './user-repository.js';
+export { type UserRepository, type FindUserOptions } from './user-repository.js';
+export {
+  type UserQuery,
+  type UserFilter,
+  type UserSort,
+  type UserSortKey,
+  type SortDirection,
+  type DateRange,
+  type Page,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  DEFAULT_USER_SORT,
+  normalizeUserQuery,
+} from './user-query.js';
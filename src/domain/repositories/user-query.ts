@@ -0,0 +1,179 @@
+import { User } from '../entities/user.js';
+import { Email } from '../value-objects/email.js';
+import { UserStatus, isUserStatus } from '../value-objects/user-status.js';
+import { InvalidUserQueryError } from '../errors/invalid-user-query.error.js';
+import { Result, success, failure } from '../../shared/types/result.js';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export type UserSortKey = 'createdAt' | 'updatedAt' | 'name';
+export type SortDirection = 'asc' | 'desc';
+
+export interface UserSort {
+  key: UserSortKey;
+  direction: SortDirection;
+}
+
+export const DEFAULT_USER_SORT: Readonly<UserSort> = { key: 'createdAt', direction: 'asc' };
+
+// `from` is inclusive, `to` exclusive
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+export interface UserFilter {
+  // Unicode or ASCII form, any case ("münchen.de", "xn--mnchen-3ya.de")
+  emailDomain?: string;
+  // Case-insensitive, matched against the start of the display name
+  namePrefix?: string;
+  createdAt?: DateRange;
+  updatedAt?: DateRange;
+  // Any status but deleted when omitted
+  status?: UserStatus;
+}
+
+/**
+ * What findAll() returns. Pages come either from `offset` or from `cursor`
+ * (the nextCursor of the previous page), never both. Cursors stay correct
+ * while users are added or removed; offsets can skip or repeat users.
+ */
+export interface UserQuery {
+  filter?: UserFilter;
+  sort?: UserSort;
+  // 1 to MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE when omitted
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Matching users across all pages
+  total: number;
+  // Null on the last page
+  nextCursor: string | null;
+}
+
+/**
+ * A query with its defaults applied and its values checked, ready for an
+ * adapter to run. Users come sorted by the sort key, then by id.
+ */
+export interface NormalizedUserQuery {
+  filter: UserFilter;
+  sort: UserSort;
+  limit: number;
+  offset: number;
+  // Only users strictly after this position
+  after: UserCursor | null;
+}
+
+export interface UserCursor {
+  // Sort value of the last user of the previous page (see sortValueOf)
+  value: string;
+  id: string;
+}
+
+/**
+ * The value users are ordered by, as a string that sorts the same way:
+ * ISO 8601 for dates, the lowercased display value for names
+ */
+export const sortValueOf = (user: User, key: UserSortKey): string => {
+  switch (key) {
+    case 'createdAt':
+      return user.createdAt.toISOString();
+    case 'updatedAt':
+      return user.updatedAt.toISOString();
+    case 'name':
+      return user.name.getValue().toLowerCase();
+  }
+};
+
+// A cursor is only valid for the sort it was issued for
+export const encodeUserCursor = (user: User, sort: UserSort): string =>
+  Buffer.from(JSON.stringify([sort.key, sort.direction, sortValueOf(user, sort.key), user.id.getValue()]))
+    .toString('base64url');
+
+const decodeUserCursor = (cursor: string, sort: UserSort): UserCursor | null => {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 4 || !decoded.every(part => typeof part === 'string')) {
+      return null;
+    }
+    const [key, direction, value, id] = decoded as string[];
+    return key === sort.key && direction === sort.direction ? { value, id } : null;
+  } catch {
+    return null;
+  }
+};
+
+const isDate = (date: Date | undefined): boolean => date === undefined || !Number.isNaN(date.getTime());
+
+const normalizeFilter = (filter: UserFilter): Result<UserFilter, InvalidUserQueryError> => {
+  const normalized: UserFilter = {};
+
+  if (filter.emailDomain !== undefined) {
+    // Parsed like the domain of an address, so both forms match what Email stores
+    const email = Email.tryCreate(`x@${filter.emailDomain.trim()}`);
+    if (email.isFailure) {
+      return failure(new InvalidUserQueryError('emailDomain', filter.emailDomain, 'not a valid domain'));
+    }
+    normalized.emailDomain = email.value.getDomain();
+  }
+
+  if (filter.namePrefix !== undefined) {
+    const prefix = filter.namePrefix.normalize('NFC').replace(/\s+/gu, ' ').trimStart().toLowerCase();
+    if (prefix.length > 0) {
+      normalized.namePrefix = prefix;
+    }
+  }
+
+  if (filter.status !== undefined) {
+    if (!isUserStatus(filter.status)) {
+      return failure(new InvalidUserQueryError('status', filter.status, 'unknown status'));
+    }
+    normalized.status = filter.status;
+  }
+
+  for (const field of ['createdAt', 'updatedAt'] as const) {
+    const range = filter[field];
+    if (range === undefined) {
+      continue;
+    }
+    if (!isDate(range.from) || !isDate(range.to)) {
+      return failure(new InvalidUserQueryError(field, range, 'invalid date'));
+    }
+    normalized[field] = range;
+  }
+
+  return success(normalized);
+};
+
+/**
+ * Applies the defaults and checks a query, for adapters to run
+ */
+export const normalizeUserQuery = (query: UserQuery = {}): Result<NormalizedUserQuery, InvalidUserQueryError> => {
+  const sort = query.sort ?? DEFAULT_USER_SORT;
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return failure(new InvalidUserQueryError('limit', query.limit, `must be an integer from 1 to ${MAX_PAGE_SIZE}`));
+  }
+  const offset = query.offset ?? 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    return failure(new InvalidUserQueryError('offset', query.offset, 'must be a non-negative integer'));
+  }
+  if (query.cursor !== undefined && query.offset !== undefined) {
+    return failure(new InvalidUserQueryError('cursor', query.cursor, 'cannot be combined with offset'));
+  }
+
+  let after: UserCursor | null = null;
+  if (query.cursor !== undefined) {
+    after = decodeUserCursor(query.cursor, sort);
+    if (after === null) {
+      return failure(new InvalidUserQueryError('cursor', query.cursor, 'unknown or issued for another sort'));
+    }
+  }
+
+  return normalizeFilter(query.filter ?? {}).map(filter => ({ filter, sort, limit, offset, after }));
+};
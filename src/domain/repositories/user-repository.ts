@@ -1,13 +1,32 @@
 import { User } from '../entities/user.js';
 import { UserId } from '../value-objects/user-id.js';
 import { Email } from '../value-objects/email.js';
+import { Page, UserQuery } from './user-query.js';
 import {Result} from "@shared/types/result";
 
+export { DuplicateEmailError } from '../errors/duplicate-email.error.js';
+export { ConcurrencyConflictError } from '../errors/concurrency-conflict.error.js';
+
+/**
+ * Soft-deleted users are left out of every read unless `includeDeleted`
+ * is set. They keep their email until they are purged.
+ */
+export interface FindUserOptions {
+  includeDeleted?: boolean;
+}
+
 export interface UserRepository {
+  // Fails with ConcurrencyConflictError unless the stored version is user.persistedVersion
   save(user: User): Promise<Result<User, Error>>;
-  findById(id: UserId): Promise<Result<User | null, Error>>;
-  findByEmail(email: Email): Promise<Result<User | null, Error>>;
-  findAll(): Promise<Result<User[], Error>>;
+  findById(id: UserId, options?: FindUserOptions): Promise<Result<User | null, Error>>;
+  // Matches any address of the same mailbox (see Email.getCanonicalValue)
+  findByEmail(email: Email, options?: FindUserOptions): Promise<Result<User | null, Error>>;
+  // Fails with InvalidUserQueryError when the query is invalid (see normalizeUserQuery).
+  // Soft-deleted users are only listed when filtering on the deleted status.
+  findAll(query?: UserQuery): Promise<Result<Page<User>, Error>>;
+  // Removes the user for good, whatever its status
   delete(id: UserId): Promise<Result<void, Error>>;
-  exists(id: UserId): Promise<Result<boolean, Error>>;
+  // Removes the users soft-deleted before `deletedBefore` for good; returns how many
+  purge(deletedBefore: Date): Promise<Result<number, Error>>;
+  exists(id: UserId, options?: FindUserOptions): Promise<Result<boolean, Error>>;
 }
@@ -0,0 +1,66 @@
+import { isDotAtom } from './email-parser.js';
+
+/**
+ * How a mail provider routes the addresses of one mailbox.
+ */
+export interface EmailCanonicalizationRule {
+  // Every domain served by the provider
+  domains: string[];
+  // The domain all the others are aliases of
+  canonicalDomain?: string;
+  // Dots in the local part are ignored ("j.doe" is "jdoe")
+  ignoreDots?: boolean;
+  // Everything from this character on is a sub-address tag ("jdoe+news" is "jdoe")
+  tagSeparator?: string;
+}
+
+export const PROVIDER_CANONICALIZATION_RULES: readonly EmailCanonicalizationRule[] = [
+  { domains: ['gmail.com', 'googlemail.com'], canonicalDomain: 'gmail.com', ignoreDots: true, tagSeparator: '+' },
+  { domains: ['outlook.com', 'hotmail.com', 'live.com'], tagSeparator: '+' },
+  { domains: ['icloud.com', 'me.com', 'mac.com'], canonicalDomain: 'icloud.com', tagSeparator: '+' },
+  { domains: ['proton.me', 'protonmail.com', 'pm.me'], canonicalDomain: 'proton.me', tagSeparator: '+' },
+  { domains: ['fastmail.com'], tagSeparator: '+' },
+];
+
+// "john"@example.com and john@example.com are the same address (RFC 5322 §3.4.1)
+const unquote = (localPart: string): string => {
+  if (!localPart.startsWith('"')) {
+    return localPart;
+  }
+  const content = localPart.slice(1, -1).replace(/\\(.)/g, '$1');
+  return isDotAtom(content) ? content : localPart;
+};
+
+/**
+ * The form of an address that identifies its mailbox, used to detect
+ * duplicates: "J.Doe+news@googlemail.com" and "jdoe@gmail.com" both
+ * canonicalize to "jdoe@gmail.com".
+ *
+ * The local part is lowercased for every domain: RFC 5321 allows
+ * case-sensitive mailboxes, but no mainstream provider has them.
+ * Provider-specific rules (dots, tags, alias domains) only apply to the
+ * domains they list.
+ */
+export const canonicalizeEmail = (
+  localPart: string,
+  asciiDomain: string,
+  rules: readonly EmailCanonicalizationRule[] = PROVIDER_CANONICALIZATION_RULES
+): string => {
+  let local = unquote(localPart).toLowerCase();
+  const rule = rules.find(candidate => candidate.domains.includes(asciiDomain));
+  if (!rule) {
+    return `${local}@${asciiDomain}`;
+  }
+
+  if (rule.tagSeparator) {
+    const tag = local.indexOf(rule.tagSeparator);
+    // Never strip the whole local part ("+news@gmail.com" has no mailbox name to fall back on)
+    if (tag > 0) {
+      local = local.slice(0, tag);
+    }
+  }
+  if (rule.ignoreDots) {
+    local = local.replace(/\./g, '');
+  }
+  return `${local}@${rule.canonicalDomain ?? asciiDomain}`;
+};
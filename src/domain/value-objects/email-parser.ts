@@ -0,0 +1,135 @@
+import { isIPv4, isIPv6 } from 'node:net';
+import { domainToASCII, domainToUnicode } from 'node:url';
+
+// RFC 5321 §4.5.3.1
+export const MAX_LOCAL_PART_LENGTH = 64;
+export const MAX_DOMAIN_LENGTH = 255;
+export const MAX_LABEL_LENGTH = 63;
+// A path is at most 256 octets including the surrounding "<" and ">"
+export const MAX_ADDRESS_LENGTH = 254;
+
+export interface ParsedEmailAddress {
+  // As written, case preserved (RFC 5321 §2.4: the local part is case-sensitive)
+  localPart: string;
+  // Lowercase, Unicode form (e.g. "münchen.de"), for display
+  domain: string;
+  // Lowercase, ASCII form (e.g. "xn--mnchen-3ya.de"), for SMTP and comparisons
+  asciiDomain: string;
+}
+
+// atext (RFC 5322 §3.2.3), plus any non-ASCII character (RFC 6531)
+const ATOM = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~\-\u0080-\uFFFF]+$/;
+// Inside quotes: printable ASCII and spaces, with " and \ escaped by a backslash
+const QUOTED_CONTENT = /^(?:[\x20\x21\x23-\x5B\x5D-\x7E\u0080-\uFFFF]|\\[\x20-\x7E])*$/;
+const LDH_LABEL = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/;
+
+const octets = (text: string): number => new TextEncoder().encode(text).length;
+
+export const isDotAtom = (text: string): boolean =>
+  text.split('.').every(atom => ATOM.test(atom));
+
+const isValidLocalPart = (localPart: string): boolean => {
+  if (localPart.length === 0 || octets(localPart) > MAX_LOCAL_PART_LENGTH) {
+    return false;
+  }
+  if (localPart.length >= 2 && localPart.startsWith('"') && localPart.endsWith('"')) {
+    return QUOTED_CONTENT.test(localPart.slice(1, -1));
+  }
+  return isDotAtom(localPart);
+};
+
+/**
+ * Splits an address at its last "@" without validating anything: the
+ * domain is only lowercased (and converted to ASCII when it can be).
+ * For addresses accepted before, which the parser may now reject.
+ */
+export const splitEmailAddress = (input: string): ParsedEmailAddress => {
+  const address = input.trim();
+  const at = address.lastIndexOf('@');
+  if (at === -1) {
+    return { localPart: address, domain: '', asciiDomain: '' };
+  }
+  const domain = address.slice(at + 1).toLowerCase();
+  return { localPart: address.slice(0, at), domain, asciiDomain: domainToASCII(domain) || domain };
+};
+
+/**
+ * [192.0.2.1] or [IPv6:2001:db8::1] (RFC 5321 §4.1.3)
+ */
+const parseAddressLiteral = (domain: string): string | null => {
+  const literal = domain.slice(1, -1);
+  if (isIPv4(literal)) {
+    return domain;
+  }
+  if (/^ipv6:/i.test(literal) && isIPv6(literal.slice(5))) {
+    return `[IPv6:${literal.slice(5).toLowerCase()}]`;
+  }
+  return null;
+};
+
+/**
+ * Converts an internationalized domain to ASCII (IDNA) and checks every
+ * label is a valid hostname label. Single-label domains (e.g. "localhost")
+ * are rejected: they are never deliverable from the outside.
+ */
+const toAsciiDomain = (domain: string): string | null => {
+  const ascii = domainToASCII(domain);
+  if (ascii === '' || octets(ascii) > MAX_DOMAIN_LENGTH) {
+    return null;
+  }
+  const labels = ascii.split('.');
+  if (labels.length < 2) {
+    return null;
+  }
+  const validLabels = labels.every(label => label.length <= MAX_LABEL_LENGTH && LDH_LABEL.test(label));
+  // A top-level domain is never all-numeric, which also rules out bare IP addresses
+  return validLabels && !/^\d+$/.test(labels[labels.length - 1]) ? ascii : null;
+};
+
+/**
+ * Parses an RFC 5321 mailbox / RFC 5322 addr-spec: `local-part@domain`.
+ *
+ * Supported: dot-atom and quoted local parts ("john doe"@example.com),
+ * internationalized local parts and domains, address literals.
+ * Not supported (not mailboxes): display names, comments, folding whitespace.
+ *
+ * @returns the parts of the address, or null if it is not a valid address
+ */
+export const parseEmailAddress = (input: string): ParsedEmailAddress | null => {
+  if (typeof input !== 'string') {
+    return null;
+  }
+
+  // The local part may contain a quoted "@", the domain never does
+  const at = input.lastIndexOf('@');
+  if (at <= 0) {
+    return null;
+  }
+  const localPart = input.slice(0, at);
+  const rawDomain = input.slice(at + 1);
+  if (!isValidLocalPart(localPart) || rawDomain.length === 0) {
+    return null;
+  }
+
+  let domain: string;
+  let asciiDomain: string;
+  if (rawDomain.startsWith('[') && rawDomain.endsWith(']')) {
+    const literal = parseAddressLiteral(rawDomain);
+    if (literal === null) {
+      return null;
+    }
+    domain = asciiDomain = literal;
+  } else {
+    const ascii = toAsciiDomain(rawDomain);
+    if (ascii === null) {
+      return null;
+    }
+    asciiDomain = ascii;
+    domain = domainToUnicode(ascii);
+  }
+
+  if (octets(`${localPart}@${asciiDomain}`) > MAX_ADDRESS_LENGTH) {
+    return null;
+  }
+  return { localPart, domain, asciiDomain };
+};
@@ -1,44 +1,134 @@
 import { ValueObject } from '../../shared/types/common.js';
-import { AntiSpamPort } from '@domain/ports/anti-spam.port.js';
+import { AntiSpamPort, isBlockedVerdict } from '../ports/anti-spam.port.js';
+import { InvalidEmailError } from '../errors/invalid-email.error.js';
+import { EmailBlockedError } from '../errors/email-blocked.error.js';
+import { Result, success, failure } from '../../shared/types/result.js';
+import { ParsedEmailAddress, parseEmailAddress, splitEmailAddress } from './email-parser.js';
+import {
+  canonicalizeEmail,
+  EmailCanonicalizationRule,
+  PROVIDER_CANONICALIZATION_RULES,
+} from './email-canonicalizer.js';
 
+/**
+ * An email address, parsed per RFC 5321/5322 (see email-parser.ts).
+ *
+ * The value keeps the local part as written (it is case-sensitive) and the
+ * domain in lowercase Unicode form. Two derived forms are exposed separately:
+ * - getAsciiValue(): the domain in IDNA ASCII form, for sending mail
+ * - getCanonicalValue(): the provider-aware form that identifies the
+ *   mailbox, for detecting duplicates ("J.Doe+x@gmail.com" is "jdoe@gmail.com")
+ */
 export class Email extends ValueObject<string> {
-  private static readonly EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  private readonly localPart: string;
+  private readonly domain: string;
+  private readonly asciiDomain: string;
 
-  private static hasConsecutiveDots(email: string): boolean {
-    return email.includes('..');
-  }
-
-  constructor(email: string) {
-    const normalizedEmail = email.trim();
-    if (!Email.isValid(normalizedEmail)) {
-      throw new Error(`Invalid email format: ${email}`);
+  /**
+   * @param parsed the parts of `email`, when already known: they are not checked (see reconstitute())
+   */
+  constructor(
+    email: string,
+    parsed: ParsedEmailAddress | null = parseEmailAddress(typeof email === 'string' ? email.trim() : email)
+  ) {
+    if (parsed === null) {
+      throw new InvalidEmailError(email);
     }
-    super(normalizedEmail.toLowerCase());
+    super(parsed.domain === '' ? parsed.localPart : `${parsed.localPart}@${parsed.domain}`);
+    this.localPart = parsed.localPart;
+    this.domain = parsed.domain;
+    this.asciiDomain = parsed.asciiDomain;
   }
 
   public static isValid(email: string): boolean {
-    return email.length > 0 &&
-      email.length <= 254 &&
-      !Email.hasConsecutiveDots(email) &&
-      Email.EMAIL_REGEX.test(email);
+    return parseEmailAddress(typeof email === 'string' ? email.trim() : email) !== null;
   }
 
   public static create(email: string): Email {
     return new Email(email);
   }
 
+  /**
+   * An address as it was stored, rebuilt without validation: addresses
+   * accepted before the parser got stricter must stay readable. Input
+   * goes through create().
+   */
+  public static reconstitute(email: string): Email {
+    return new Email(email, parseEmailAddress(email.trim()) ?? splitEmailAddress(email));
+  }
+
+  /**
+   * Non-throwing variant of create()
+   */
+  public static tryCreate(email: string): Result<Email, InvalidEmailError> {
+    try {
+      return success(new Email(email));
+    } catch (error) {
+      if (error instanceof InvalidEmailError) {
+        return failure(error);
+      }
+      throw error;
+    }
+  }
+
   public static async createWithAntiSpam(email: string, antiSpamService: AntiSpamPort): Promise<Email> {
-    if (await antiSpamService.isBlocked(email)) {
-      throw new Error(`Email is blocked or blacklisted: ${email}`);
+    const result = await Email.tryCreateWithAntiSpam(email, antiSpamService);
+    if (result.isFailure) {
+      throw result.error;
     }
-    return new Email(email);
+    return result.value;
+  }
+
+  /**
+   * Non-throwing variant of createWithAntiSpam()
+   * The format is checked first, so invalid input never reaches the anti-spam service.
+   */
+  public static async tryCreateWithAntiSpam(
+    email: string,
+    antiSpamService: AntiSpamPort
+  ): Promise<Result<Email, InvalidEmailError | EmailBlockedError>> {
+    const created = Email.tryCreate(email);
+    if (created.isFailure) {
+      return created;
+    }
+    const verdict = await antiSpamService.check(email);
+    // 'review' verdicts are accepted: only a 'blocked' decision rejects the email
+    if (isBlockedVerdict(verdict)) {
+      return failure(new EmailBlockedError(created.value.getValue(), verdict));
+    }
+    return created;
   }
 
   public getDomain(): string {
-    return this.value.split('@')[1];
+    return this.domain;
+  }
+
+  public getAsciiDomain(): string {
+    return this.asciiDomain;
+  }
+
+  public getLocalPart(): string {
+    return this.localPart;
   }
 
   public getUserPart(): string {
-    return this.value.split('@')[0];
+    return this.getLocalPart();
+  }
+
+  public getAsciiValue(): string {
+    return `${this.localPart}@${this.asciiDomain}`;
+  }
+
+  public getCanonicalValue(
+    rules: readonly EmailCanonicalizationRule[] = PROVIDER_CANONICALIZATION_RULES
+  ): string {
+    return canonicalizeEmail(this.localPart, this.asciiDomain, rules);
+  }
+
+  /**
+   * True when both addresses reach the same mailbox, even if written differently
+   */
+  public isSameMailboxAs(other: Email): boolean {
+    return this.getCanonicalValue() === other.getCanonicalValue();
   }
-}
\ No newline at end of file
+}
@@ -1,3 +1,22 @@
 export { Email } from './email.js';
 export { UserId } from './user-id.js';
-export { UserName } from './user-name.js';
+export {
+  UserName,
+  DEFAULT_USER_NAME_POLICY,
+  type UserNamePolicy,
+  type UserNameParts,
+  type NameOrder,
+} from './user-name.js';
+export { parseEmailAddress, type ParsedEmailAddress } from './email-parser.js';
+export {
+  canonicalizeEmail,
+  PROVIDER_CANONICALIZATION_RULES,
+  type EmailCanonicalizationRule,
+} from './email-canonicalizer.js';
+export {
+  USER_STATUSES,
+  isUserStatus,
+  nextUserStatus,
+  type UserStatus,
+  type UserStatusTransition,
+} from './user-status.js';
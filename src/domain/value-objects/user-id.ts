@@ -1,12 +1,14 @@
 import { ValueObject } from '../../shared/types/common.js';
-import { randomUUID } from 'crypto';
+import { InvalidUserIdError } from '../errors/invalid-user-id.error.js';
+import { Result, success, failure } from '../../shared/types/result.js';
+import { IdGeneratorPort, RANDOM_ID_GENERATOR } from '../ports/id-generator.port.js';
 
 export class UserId extends ValueObject<string> {
   private static readonly UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
   constructor(id: string) {
     if (!UserId.isValid(id)) {
-      throw new Error(`Invalid UserId format: ${id}`);
+      throw new InvalidUserIdError(id);
     }
     super(id);
   }
@@ -15,11 +17,22 @@ export class UserId extends ValueObject<string> {
     return typeof id === 'string' && UserId.UUID_REGEX.test(id);
   }
 
-  public static create(id?: string): UserId {
-    return new UserId(id || randomUUID());
+  /**
+   * Without an id, generates one with `ids`
+   */
+  public static create(id?: string, ids: IdGeneratorPort = RANDOM_ID_GENERATOR): UserId {
+    return new UserId(id || ids.generate());
   }
 
-  public static generate(): UserId {
-    return new UserId(randomUUID());
+  /**
+   * Validates an existing id: unlike create(), an empty or missing id is
+   * invalid rather than generated
+   */
+  public static tryCreate(id?: string): Result<UserId, InvalidUserIdError> {
+    return id !== undefined && UserId.isValid(id) ? success(new UserId(id)) : failure(new InvalidUserIdError(id));
+  }
+
+  public static generate(ids: IdGeneratorPort = RANDOM_ID_GENERATOR): UserId {
+    return new UserId(ids.generate());
   }
 }
@@ -1,43 +1,253 @@
 import { ValueObject } from '../../shared/types/common.js';
+import { InvalidUserNameError, UserNameViolation } from '../errors/invalid-user-name.error.js';
+import { Result, success, failure } from '../../shared/types/result.js';
 
+/**
+ * What makes a name acceptable. Lengths count grapheme clusters
+ * (what a reader sees as one character), not UTF-16 code units.
+ */
+export interface UserNamePolicy {
+  minLength: number;
+  maxLength: number;
+  // Allowed between letters, e.g. "O'Connor", "Jean-Pierre", "J. Doe"
+  punctuation: string;
+  // Allow letters from unrelated scripts in one name ("Pаypal" with a Cyrillic "а")
+  allowMixedScripts: boolean;
+}
+
+export const DEFAULT_USER_NAME_POLICY: Readonly<UserNamePolicy> = {
+  minLength: 2,
+  maxLength: 50,
+  punctuation: "'’-.",
+  allowMixedScripts: false,
+};
+
+/**
+ * - given-first: "John Doe" (most Western cultures)
+ * - family-first: "Li Lei", "Nguyễn Văn An" (East Asian, Hungarian, Vietnamese...)
+ */
+export type NameOrder = 'given-first' | 'family-first';
+
+export interface UserNameParts {
+  given: string;
+  family?: string;
+  order?: NameOrder;
+}
+
+// Scripts that are written together in one name
+const COMPATIBLE_SCRIPTS: readonly (readonly string[])[] = [
+  ['Han', 'Hiragana', 'Katakana'],
+  ['Han', 'Hangul'],
+];
+
+const SCRIPTS = [
+  'Latin', 'Greek', 'Cyrillic', 'Armenian', 'Georgian', 'Hebrew', 'Arabic', 'Syriac', 'Thaana',
+  'Devanagari', 'Bengali', 'Gurmukhi', 'Gujarati', 'Oriya', 'Tamil', 'Telugu', 'Kannada', 'Malayalam',
+  'Sinhala', 'Thai', 'Lao', 'Tibetan', 'Myanmar', 'Khmer', 'Ethiopic', 'Hangul', 'Hiragana', 'Katakana', 'Han',
+].map(script => ({ script, pattern: new RegExp(`\\p{Script=${script}}`, 'u') }));
+
+const LETTER = /\p{L}/u;
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+const graphemesOf = (text: string): string[] => [...graphemes.segment(text)].map(({ segment }) => segment);
+
+const escapeForCharacterClass = (characters: string): string => characters.replace(/[\\\]^-]/g, '\\$&');
+
+/**
+ * NFC so that "é" typed as e + combining accent equals the precomposed "é",
+ * and every run of whitespace (tabs, no-break spaces...) becomes one space.
+ */
+const normalize = (name: string): string => name.normalize('NFC').replace(/\s+/gu, ' ').trim();
+
+/**
+ * A word starts with a letter; punctuation only joins letters ("O'Connor"),
+ * except a final "." for abbreviations ("J."). Digits, symbols and control
+ * characters never match.
+ */
+const wordPattern = (punctuation: string): RegExp => {
+  const joined = punctuation.length > 0
+    ? `(?:[${escapeForCharacterClass(punctuation)}]\\p{L}[\\p{L}\\p{M}]*)*`
+    : '';
+  const abbreviation = punctuation.includes('.') ? '\\.?' : '';
+  return new RegExp(`^\\p{L}[\\p{L}\\p{M}]*${joined}${abbreviation}$`, 'u');
+};
+
+const scriptOf = (letter: string): string =>
+  SCRIPTS.find(({ pattern }) => pattern.test(letter))?.script ?? 'Other';
+
+const hasMixedScripts = (name: string): boolean => {
+  const scripts = new Set([...name].filter(character => LETTER.test(character)).map(scriptOf));
+  if (scripts.size <= 1) {
+    return false;
+  }
+  return !COMPATIBLE_SCRIPTS.some(group => [...scripts].every(script => group.includes(script)));
+};
+
+/**
+ * Why a normalized name breaks the policy, or undefined if it does not.
+ */
+const violationOf = (name: string, policy: UserNamePolicy): UserNameViolation | undefined => {
+  const length = graphemesOf(name).length;
+  if (length < policy.minLength) {
+    return 'TOO_SHORT';
+  }
+  if (length > policy.maxLength) {
+    return 'TOO_LONG';
+  }
+
+  const word = wordPattern(policy.punctuation);
+  if (!name.split(' ').every(part => word.test(part))) {
+    return 'INVALID_CHARACTERS';
+  }
+
+  if (!policy.allowMixedScripts && hasMixedScripts(name)) {
+    return 'MIXED_SCRIPTS';
+  }
+  return undefined;
+};
+
+/**
+ * A person's name, in any script.
+ *
+ * Names built from a plain string are split positionally: the last word is
+ * the family name, the others the given name. fromParts() keeps the real
+ * parts and their display order; repositories persist them alongside the
+ * display value. Two names are equal when their value, parts and order are.
+ */
 export class UserName extends ValueObject<string> {
-  private static readonly MIN_LENGTH = 2;
-  private static readonly MAX_LENGTH = 50;
-  private static readonly VALID_NAME_REGEX = /^[a-zA-Z\s'-]+$/;
+  private readonly given: string;
+  private readonly family: string;
+  private readonly order: NameOrder;
+
+  /**
+   * A plain string is split positionally; parts are kept as given (see fromParts())
+   *
+   * @throws InvalidUserNameError if the name breaks the policy
+   */
+  constructor(name: string | UserNameParts, policy: UserNamePolicy = DEFAULT_USER_NAME_POLICY) {
+    const { value, parts } = typeof name === 'object' && name !== null
+      ? UserName.fromPartsOf(name, policy)
+      : UserName.fromString(name, policy);
+    super(value);
+    this.given = parts.given;
+    this.family = parts.family;
+    this.order = parts.order;
+  }
+
+  public static isValid(name: string, policy: UserNamePolicy = DEFAULT_USER_NAME_POLICY): boolean {
+    return typeof name === 'string' && violationOf(normalize(name), policy) === undefined;
+  }
+
+  public static create(name: string, policy?: UserNamePolicy): UserName {
+    return new UserName(name, policy);
+  }
 
-  constructor(name: string) {
-    if (!UserName.isValid(name)) {
-      throw new Error(`Invalid user name: ${name}`);
+  /**
+   * Non-throwing variant of create()
+   */
+  public static tryCreate(name: string, policy?: UserNamePolicy): Result<UserName, InvalidUserNameError> {
+    try {
+      return success(new UserName(name, policy));
+    } catch (error) {
+      if (error instanceof InvalidUserNameError) {
+        return failure(error);
+      }
+      throw error;
     }
-    super(name.trim());
   }
 
-  public static isValid(name: string): boolean {
-    if (typeof name !== 'string') return false;
-    
-    const trimmedName = name.trim();
-    return trimmedName.length >= UserName.MIN_LENGTH &&
-           trimmedName.length <= UserName.MAX_LENGTH &&
-           UserName.VALID_NAME_REGEX.test(trimmedName);
+  /**
+   * Builds a name from its given and family parts, displayed in the given order.
+   *
+   * @throws InvalidUserNameError if the full name breaks the policy
+   */
+  public static fromParts(parts: UserNameParts, policy?: UserNamePolicy): UserName {
+    return new UserName(parts, policy);
+  }
+
+  private static fromString(name: string, policy: UserNamePolicy): { value: string; parts: Required<UserNameParts> } {
+    const value = UserName.validate(name, policy);
+    const words = value.split(' ');
+    return {
+      value,
+      parts: {
+        given: words.length > 1 ? words.slice(0, -1).join(' ') : value,
+        family: words.length > 1 ? words[words.length - 1] : '',
+        order: 'given-first',
+      },
+    };
+  }
+
+  private static fromPartsOf(
+    parts: UserNameParts,
+    policy: UserNamePolicy
+  ): { value: string; parts: Required<UserNameParts> } {
+    const given = typeof parts.given === 'string' ? normalize(parts.given) : '';
+    const family = typeof parts.family === 'string' ? normalize(parts.family) : '';
+    const order = parts.order ?? 'given-first';
+    const display = (order === 'given-first' ? [given, family] : [family, given]).filter(Boolean).join(' ');
+
+    if (given === '') {
+      throw new InvalidUserNameError(display, 'TOO_SHORT');
+    }
+
+    return { value: UserName.validate(display, policy), parts: { given, family, order } };
+  }
+
+  // The normalized name
+  private static validate(name: string, policy: UserNamePolicy): string {
+    const normalized = typeof name === 'string' ? normalize(name) : '';
+    const violation = typeof name === 'string' ? violationOf(normalized, policy) : 'INVALID_CHARACTERS';
+    if (violation !== undefined) {
+      throw new InvalidUserNameError(name, violation);
+    }
+    return normalized;
+  }
+
+  public equals(other: ValueObject<string>): boolean {
+    return other instanceof UserName &&
+      this.value === other.value &&
+      this.given === other.given &&
+      this.family === other.family &&
+      this.order === other.order;
+  }
+
+  public getGivenName(): string {
+    return this.given;
+  }
+
+  public getFamilyName(): string {
+    return this.family;
   }
 
-  public static create(name: string): UserName {
-    return new UserName(name);
+  public getOrder(): NameOrder {
+    return this.order;
   }
 
+  /**
+   * First word of the given name ("John" for "John Michael Doe")
+   */
   public getFirstName(): string {
-    return this.value.split(' ')[0];
+    return this.given.split(' ')[0];
   }
 
   public getLastName(): string {
-    const parts = this.value.split(' ');
-    return parts.length > 1 ? parts[parts.length - 1] : '';
+    return this.family;
   }
 
+  /**
+   * One initial per word, in display order ("LL" for family-first "Li Lei").
+   * Letters whose uppercase is more than one letter ("ß" is "SS") are kept as is.
+   */
   public getInitials(): string {
     return this.value
       .split(' ')
-      .map(part => part.charAt(0).toUpperCase())
+      .map(part => {
+        const initial = graphemesOf(part)[0];
+        const upper = initial.toLocaleUpperCase();
+        return graphemesOf(upper).length === 1 ? upper : initial;
+      })
       .join('');
   }
 }
@@ -0,0 +1,52 @@
+/**
+ * Where a user is in its lifecycle. The allowed transitions are:
+ * - activate: pending-verification → active, once the email is verified
+ * - suspend: pending-verification or active → suspended
+ * - reactivate: suspended → active, or pending-verification while the
+ *   email is unverified (it changed during the suspension, or never was)
+ * - softDelete: any status but deleted → deleted
+ * - requireVerification: active → pending-verification (the email changed)
+ *
+ * Deleted is final: the user is only kept until it is purged.
+ */
+export const USER_STATUSES = ['pending-verification', 'active', 'suspended', 'deleted'] as const;
+
+export type UserStatus = typeof USER_STATUSES[number];
+
+export type UserStatusTransition = 'activate' | 'suspend' | 'reactivate' | 'softDelete' | 'requireVerification';
+
+const TRANSITIONS: Record<UserStatusTransition, { from: readonly UserStatus[]; to: UserStatus }> = {
+  activate: { from: ['pending-verification'], to: 'active' },
+  suspend: { from: ['pending-verification', 'active'], to: 'suspended' },
+  reactivate: { from: ['suspended'], to: 'active' },
+  softDelete: { from: ['pending-verification', 'active', 'suspended'], to: 'deleted' },
+  requireVerification: { from: ['active'], to: 'pending-verification' },
+};
+
+// Where a transition leads instead when the user's email is not verified,
+// null if it has to wait for the verification
+const UNVERIFIED_TARGETS: Partial<Record<UserStatusTransition, UserStatus | null>> = {
+  activate: null,
+  reactivate: 'pending-verification',
+};
+
+export const isUserStatus = (value: unknown): value is UserStatus =>
+  USER_STATUSES.includes(value as UserStatus);
+
+/**
+ * The status a transition leads to from `status`, or null if it is not allowed
+ */
+export const nextUserStatus = (
+  status: UserStatus,
+  transition: UserStatusTransition,
+  emailVerified = true
+): UserStatus | null => {
+  const { from, to } = TRANSITIONS[transition];
+  if (!from.includes(status)) {
+    return null;
+  }
+  if (emailVerified || !(transition in UNVERIFIED_TARGETS)) {
+    return to;
+  }
+  return UNVERIFIED_TARGETS[transition] ?? null;
+};
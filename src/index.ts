@@ -1,39 +1,67 @@
 import 'reflect-metadata';
-import { container } from './shared/container.js';
+import pg from 'pg';
+import { composeContainer, profileFor, verifyComposition } from './composition-root.js';
+import { loadConfig } from './infrastructure/config/load-config.js';
+import { redactConfig } from './infrastructure/config/app-config.js';
+import { PurgeDeletedUsersUseCase } from './application/use-cases/purge-deleted-users.use-case.js';
+import { LoggerPort } from './application/ports/logger.port.js';
+import { OutboxRelay } from './infrastructure/outbox/outbox-relay.js';
+import { JsonLinesLogger } from './infrastructure/logging/json-lines-logger.js';
+import { TOKENS } from './shared/container.js';
+import { buildServer } from './presentation/server.js';
 
-// Phase 1 - Foundation Setup Complete
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Phase 3 - Web Layer
 // This is the main entry point for the application
 
 async function main() {
-  console.log('🚀 Advanced TDD with Node.js - Clean Architecture');
-  console.log('📋 Phase 1: Foundation Setup Complete');
-  console.log('');
-  console.log('✅ Project Structure Created');
-  console.log('✅ TypeScript Configuration');
-  console.log('✅ Jest with TestContainers Setup');
-  console.log('✅ TSyringe Dependency Injection');
-  console.log('✅ Domain Layer (Entities, Value Objects, Repository Interfaces)');
-  console.log('✅ Comprehensive Unit Tests');
-  console.log('');
-  console.log('🔄 Next: Phase 2 - Core Features (Use Cases, Repository Implementations)');
-  
-  // Example of using our domain objects
-  try {
-    const { User, Email, UserName } = await import('./domain/index.js');
-    
-    const email = Email.create('john.doe@example.com');
-    const name = UserName.create('John Doe');
-    const user = User.create(email, name);
-    
-    console.log('');
-    console.log('🧪 Domain Objects Test:');
-    console.log('User created:', user.toJSON());
-    
-  } catch (error) {
-    console.error('❌ Error testing domain objects:', error);
+  const config = await loadConfig();
+  const profile = profileFor(config.env);
+  const container = await composeContainer({ profile, config });
+  const verified = verifyComposition(container);
+  if (verified.isFailure) {
+    throw verified.error;
   }
+
+  const logger = container.resolve<LoggerPort>(TOKENS.LOGGER_SERVICE);
+  logger.info('Starting', { profile, config: redactConfig(config) });
+
+  // Soft-deleted users are removed for good once their retention period is over
+  const purgeDeletedUsers = container.resolve(PurgeDeletedUsersUseCase);
+  setInterval(() => {
+    void purgeDeletedUsers.execute().then(result => {
+      if (result.isFailure) {
+        logger.error('Failed to purge deleted users', { error: result.error });
+      }
+    });
+  }, PURGE_INTERVAL_MS).unref();
+
+  // Events saved with the users are sent on once their change has committed
+  const outboxRelay = container.resolve<OutboxRelay>(TOKENS.OUTBOX_RELAY);
+  outboxRelay.start();
+
+  const app = buildServer({ container });
+  const address = await app.listen({ port: config.server.port, host: config.server.host });
+  logger.info('Listening', { address });
+
+  const shutdown = async (signal: NodeJS.Signals) => {
+    logger.info('Stopping', { signal });
+    await outboxRelay.stop();
+    await app.close();
+    // Last: neither the relay nor the requests use it anymore
+    if (container.isRegistered(TOKENS.DATABASE_POOL, true)) {
+      await container.resolve<pg.Pool>(TOKENS.DATABASE_POOL).end();
+    }
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
 }
 
 if (import.meta.url === `file://${process.argv[1]}`) {
-  main().catch(console.error);
+  main().catch(error => {
+    // The configuration may be what failed: log with the defaults
+    new JsonLinesLogger().error('Failed to start server', { error });
+    process.exit(1);
+  });
 }
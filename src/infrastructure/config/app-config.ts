@@ -0,0 +1,165 @@
+import { z } from 'zod';
+import { LOG_LEVELS, LogLevel } from '../../application/ports/logger.port.js';
+import { FailurePolicy } from '../external-services/real-anti-spam.adapter.js';
+import { MIN_SECRET_LENGTH } from '../security/hmac-verification-token.service.js';
+
+export const ENVIRONMENTS = ['development', 'test', 'production'] as const;
+
+export type Environment = typeof ENVIRONMENTS[number];
+
+export type DatabaseConfig =
+  | { driver: 'memory' }
+  | { driver: 'postgres'; url: string };
+
+export type AntiSpamConfig =
+  | { driver: 'mock' }
+  | { driver: 'real'; apiKey: string; baseUrl?: string; timeoutMs?: number; failurePolicy?: FailurePolicy };
+
+/**
+ * Everything the application reads from its environment, validated.
+ * Secrets (database password, API key, token secret) are only printed
+ * through redactConfig().
+ */
+export interface AppConfig {
+  env: Environment;
+  server: {
+    host: string;
+    port: number;
+  };
+  log: {
+    // Entries below it are dropped
+    level: LogLevel;
+  };
+  database: DatabaseConfig;
+  antiSpam: AntiSpamConfig;
+  email: {
+    // Emails are written there as .eml files; printed when unset
+    outboxDir?: string;
+  };
+  emailVerification: {
+    // Required in production; elsewhere a random one is used per run
+    secret?: string;
+    confirmUrl: string;
+  };
+}
+
+export interface ConfigIssue {
+  // Environment variable at fault
+  key: string;
+  message: string;
+}
+
+/**
+ * The environment does not describe a valid configuration. Lists every
+ * problem at once rather than the first one.
+ */
+export class ConfigError extends Error {
+  constructor(public readonly issues: readonly ConfigIssue[]) {
+    super(`Invalid configuration:\n${issues.map(issue => `  - ${issue.key}: ${issue.message}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export const REDACTED = '***';
+
+const EnvSchema = z.object({
+  NODE_ENV: z.enum(ENVIRONMENTS).default('development'),
+  HOST: z.string().default('0.0.0.0'),
+  PORT: z.coerce.number().int().min(0).max(65535).default(3000),
+  LOG_LEVEL: z.enum(LOG_LEVELS).default('info'),
+  DATABASE_DRIVER: z.enum(['memory', 'postgres']).default('memory'),
+  DATABASE_URL: z.string().url().optional(),
+  // Defaults to real when an API key is set
+  ANTI_SPAM_DRIVER: z.enum(['mock', 'real']).optional(),
+  ANTI_SPAM_API_KEY: z.string().optional(),
+  ANTI_SPAM_BASE_URL: z.string().url().optional(),
+  ANTI_SPAM_TIMEOUT_MS: z.coerce.number().int().positive().optional(),
+  ANTI_SPAM_FAILURE_POLICY: z.enum(['fail-open', 'fail-closed']).optional(),
+  EMAIL_OUTBOX_DIR: z.string().optional(),
+  EMAIL_VERIFICATION_SECRET: z.string()
+    .min(MIN_SECRET_LENGTH, `must be at least ${MIN_SECRET_LENGTH} characters long`)
+    .optional(),
+  EMAIL_VERIFICATION_URL: z.string().url().optional(),
+});
+
+// Variables only required in some setups, checked even when others are invalid
+const REQUIREMENTS: readonly { key: string; when: [string, string]; reason: string }[] = [
+  { key: 'DATABASE_URL', when: ['DATABASE_DRIVER', 'postgres'], reason: 'when DATABASE_DRIVER is postgres' },
+  { key: 'ANTI_SPAM_API_KEY', when: ['ANTI_SPAM_DRIVER', 'real'], reason: 'when ANTI_SPAM_DRIVER is real' },
+  { key: 'EMAIL_VERIFICATION_SECRET', when: ['NODE_ENV', 'production'], reason: 'in production' },
+];
+
+type Env = z.infer<typeof EnvSchema>;
+
+const toAppConfig = (env: Env): AppConfig => ({
+  env: env.NODE_ENV,
+  server: { host: env.HOST, port: env.PORT },
+  log: { level: env.LOG_LEVEL },
+  database: env.DATABASE_DRIVER === 'postgres'
+    ? { driver: 'postgres', url: env.DATABASE_URL! }
+    : { driver: 'memory' },
+  antiSpam: (env.ANTI_SPAM_DRIVER ?? (env.ANTI_SPAM_API_KEY ? 'real' : 'mock')) === 'real'
+    ? {
+      driver: 'real',
+      apiKey: env.ANTI_SPAM_API_KEY!,
+      baseUrl: env.ANTI_SPAM_BASE_URL,
+      timeoutMs: env.ANTI_SPAM_TIMEOUT_MS,
+      failurePolicy: env.ANTI_SPAM_FAILURE_POLICY,
+    }
+    : { driver: 'mock' },
+  email: { outboxDir: env.EMAIL_OUTBOX_DIR },
+  emailVerification: {
+    secret: env.EMAIL_VERIFICATION_SECRET,
+    confirmUrl: env.EMAIL_VERIFICATION_URL ?? `http://localhost:${env.PORT}/users/verify-email`,
+  },
+});
+
+/**
+ * Builds the configuration from environment variables. Empty values
+ * count as unset.
+ *
+ * @throws ConfigError listing every missing or invalid variable
+ */
+export function parseConfig(env: Readonly<Record<string, string | undefined>>): AppConfig {
+  const values = Object.fromEntries(Object.entries(env).filter(([, value]) => value !== undefined && value !== ''));
+  const parsed = EnvSchema.safeParse(values);
+  const issues: ConfigIssue[] = [
+    ...(parsed.success ? [] : parsed.error.issues)
+      .map(issue => ({ key: issue.path.join('.'), message: issue.message })),
+    ...REQUIREMENTS
+      .filter(({ key, when: [dependency, value] }) => values[dependency] === value && values[key] === undefined)
+      .map(({ key, reason }) => ({ key, message: `required ${reason}` })),
+  ];
+  if (!parsed.success || issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+  return toAppConfig(parsed.data);
+}
+
+// Keeps the host and database name readable, hides the password
+const redactUrl = (url: string): string => {
+  const parsed = new URL(url);
+  if (parsed.password !== '') {
+    parsed.password = REDACTED;
+  }
+  return parsed.toString();
+};
+
+/**
+ * A copy of the configuration that is safe to print or log
+ */
+export function redactConfig(config: AppConfig): AppConfig {
+  return {
+    ...config,
+    database: config.database.driver === 'postgres'
+      ? { ...config.database, url: redactUrl(config.database.url) }
+      : config.database,
+    antiSpam: config.antiSpam.driver === 'real'
+      ? { ...config.antiSpam, apiKey: REDACTED }
+      : config.antiSpam,
+    emailVerification: {
+      ...config.emailVerification,
+      secret: config.emailVerification.secret === undefined ? undefined : REDACTED,
+    },
+  };
+}
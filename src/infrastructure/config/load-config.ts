@@ -0,0 +1,56 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseEnv } from 'node:util';
+import { AppConfig, ConfigError, ENVIRONMENTS, Environment, parseConfig } from './app-config.js';
+
+export interface LoadConfigOptions {
+  // Defaults to process.env
+  env?: Readonly<Record<string, string | undefined>>;
+  // Where the .env files are looked up, defaults to the working directory
+  directory?: string;
+}
+
+/**
+ * The .env files read for an environment, lowest precedence first.
+ * .env.local is skipped in test so that test runs do not depend on a
+ * developer's machine.
+ */
+export const envFilesFor = (environment: Environment): string[] => [
+  '.env',
+  ...(environment === 'test' ? [] : ['.env.local']),
+  `.env.${environment}`,
+  `.env.${environment}.local`,
+];
+
+const readEnvFile = async (path: string): Promise<Record<string, string>> => {
+  try {
+    return parseEnv(await readFile(path, 'utf8')) as Record<string, string>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+};
+
+/**
+ * Loads the configuration from the environment and the .env files of the
+ * current NODE_ENV (see envFilesFor). Later files override earlier ones;
+ * real environment variables override them all.
+ *
+ * @throws ConfigError if the result is not a valid configuration
+ */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<AppConfig> {
+  const env = options.env ?? process.env;
+  const directory = options.directory ?? process.cwd();
+
+  const environment = env.NODE_ENV || 'development';
+  if (!ENVIRONMENTS.includes(environment as Environment)) {
+    throw new ConfigError([{ key: 'NODE_ENV', message: `must be one of ${ENVIRONMENTS.join(', ')}` }]);
+  }
+
+  const files = await Promise.all(
+    envFilesFor(environment as Environment).map(file => readEnvFile(join(directory, file)))
+  );
+  return parseConfig(Object.assign({}, ...files, env));
+}
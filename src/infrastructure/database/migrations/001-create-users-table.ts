@@ -0,0 +1,16 @@
+import { Migration } from './migration.js';
+
+export const createUsersTable: Migration = {
+  version: 1,
+  name: 'create_users_table',
+  up: `
+    CREATE TABLE users (
+      id UUID PRIMARY KEY,
+      email TEXT NOT NULL,
+      name TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    CREATE UNIQUE INDEX users_email_unique ON users (email);
+  `,
+};
@@ -0,0 +1,80 @@
+import { domainToASCII } from 'node:url';
+import { SqlExecutor } from '../sql-executor.js';
+import { Migration } from './migration.js';
+
+interface LegacyUserRow {
+  id: string;
+  email: string;
+}
+
+// The canonicalization of the time (see email-canonicalizer.ts), copied so
+// that replaying this migration always gives the same values, whatever the
+// domain rules have become since
+
+// Every provider drops "+tags"
+const PROVIDERS: readonly { domains: string[]; canonicalDomain?: string; ignoreDots?: boolean }[] = [
+  { domains: ['gmail.com', 'googlemail.com'], canonicalDomain: 'gmail.com', ignoreDots: true },
+  { domains: ['outlook.com', 'hotmail.com', 'live.com'] },
+  { domains: ['icloud.com', 'me.com', 'mac.com'], canonicalDomain: 'icloud.com' },
+  { domains: ['proton.me', 'protonmail.com', 'pm.me'], canonicalDomain: 'proton.me' },
+  { domains: ['fastmail.com'] },
+];
+
+const ATOM = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~\-\u0080-\uFFFF]+$/;
+
+// "john"@example.com is john@example.com
+const unquote = (localPart: string): string => {
+  if (!localPart.startsWith('"')) {
+    return localPart;
+  }
+  const content = localPart.slice(1, -1).replace(/\\(.)/g, '$1');
+  return content.split('.').every(atom => ATOM.test(atom)) ? content : localPart;
+};
+
+// Never validates: an address written before the parser got stricter still
+// gets a canonical form
+const canonicalOf = (email: string): string => {
+  const address = email.trim();
+  const at = address.lastIndexOf('@');
+  if (at <= 0) {
+    return address.toLowerCase();
+  }
+  const domain = address.slice(at + 1).toLowerCase();
+  const asciiDomain = domainToASCII(domain) || domain;
+  let local = unquote(address.slice(0, at)).toLowerCase();
+  const provider = PROVIDERS.find(candidate => candidate.domains.includes(asciiDomain));
+  if (!provider) {
+    return `${local}@${asciiDomain}`;
+  }
+  const tag = local.indexOf('+');
+  if (tag > 0) {
+    local = local.slice(0, tag);
+  }
+  if (provider.ignoreDots) {
+    local = local.replace(/\./g, '');
+  }
+  return `${local}@${provider.canonicalDomain ?? asciiDomain}`;
+};
+
+// Emails are now stored as written (the local part is case-sensitive), so
+// uniqueness moves to the canonical form of Email.getCanonicalValue().
+// Existing rows are backfilled in code with the provider rules: lower(email)
+// would miss them ("j.doe@gmail.com" is "jdoe@gmail.com").
+// Two existing users sharing a mailbox make the unique index, and so this
+// migration, fail: they have to be merged by hand first.
+export const addUsersEmailCanonical: Migration = {
+  version: 2,
+  name: 'add_users_email_canonical',
+  up: async (tx: SqlExecutor) => {
+    await tx.query('ALTER TABLE users ADD COLUMN email_canonical TEXT');
+    const { rows } = await tx.query<LegacyUserRow>('SELECT id, email FROM users');
+    for (const row of rows) {
+      await tx.query('UPDATE users SET email_canonical = $2 WHERE id = $1', [row.id, canonicalOf(row.email)]);
+    }
+    await tx.query(`
+      ALTER TABLE users ALTER COLUMN email_canonical SET NOT NULL;
+      DROP INDEX users_email_unique;
+      CREATE UNIQUE INDEX users_email_canonical_unique ON users (email_canonical);
+    `);
+  },
+};
@@ -0,0 +1,30 @@
+import { Migration } from './migration.js';
+
+// outbox_messages: events waiting for the relay (see PostgresOutboxStore).
+// processed_messages: ids of the messages a consumer has already handled,
+// so redelivered messages are ignored (see PostgresProcessedMessageStore).
+export const createOutboxTables: Migration = {
+  version: 3,
+  name: 'create_outbox_tables',
+  up: `
+    CREATE TABLE outbox_messages (
+      id UUID PRIMARY KEY,
+      type TEXT NOT NULL,
+      aggregate_id TEXT NOT NULL,
+      payload JSONB NOT NULL,
+      occurred_at TIMESTAMPTZ NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL,
+      next_attempt_at TIMESTAMPTZ NOT NULL,
+      dispatched_at TIMESTAMPTZ,
+      last_error TEXT
+    );
+    CREATE INDEX outbox_messages_due ON outbox_messages (status, next_attempt_at);
+    CREATE TABLE processed_messages (
+      consumer TEXT NOT NULL,
+      message_id UUID NOT NULL,
+      processed_at TIMESTAMPTZ NOT NULL,
+      PRIMARY KEY (consumer, message_id)
+    );
+  `,
+};
@@ -0,0 +1,11 @@
+import { Migration } from './migration.js';
+
+// Optimistic concurrency: save() only updates a row still at the version
+// the user was loaded at. Existing rows start at version 1.
+export const addUsersVersion: Migration = {
+  version: 4,
+  name: 'add_users_version',
+  up: `
+    ALTER TABLE users ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+  `,
+};
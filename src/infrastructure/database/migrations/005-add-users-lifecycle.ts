@@ -0,0 +1,14 @@
+import { Migration } from './migration.js';
+
+// User lifecycle (see UserStatus). Existing users were already in use,
+// so they start active. deleted_at is indexed for purges.
+export const addUsersLifecycle: Migration = {
+  version: 5,
+  name: 'add_users_lifecycle',
+  up: `
+    ALTER TABLE users ADD COLUMN status TEXT NOT NULL DEFAULT 'active';
+    ALTER TABLE users ADD COLUMN suspension_reason TEXT;
+    ALTER TABLE users ADD COLUMN deleted_at TIMESTAMPTZ;
+    CREATE INDEX users_deleted_at ON users (deleted_at);
+  `,
+};
@@ -0,0 +1,11 @@
+import { Migration } from './migration.js';
+
+// Email verification. Users created before it existed have never
+// confirmed their email, so they start unverified.
+export const addUsersEmailVerifiedAt: Migration = {
+  version: 6,
+  name: 'add_users_email_verified_at',
+  up: `
+    ALTER TABLE users ADD COLUMN email_verified_at TIMESTAMPTZ;
+  `,
+};
@@ -0,0 +1,15 @@
+import { Migration } from './migration.js';
+
+// The given and family names and their display order (see UserName), so a
+// family-first "Li Lei" still has "Lei" as given name once reloaded.
+// Existing rows keep NULLs: their names were split positionally, which is
+// what loading a bare name still does.
+export const addUsersNameParts: Migration = {
+  version: 7,
+  name: 'add_users_name_parts',
+  up: `
+    ALTER TABLE users ADD COLUMN name_given TEXT;
+    ALTER TABLE users ADD COLUMN name_family TEXT;
+    ALTER TABLE users ADD COLUMN name_order TEXT;
+  `,
+};
@@ -0,0 +1,33 @@
+import { SqlExecutor } from '../sql-executor.js';
+import { Migration } from './migration.js';
+
+// Messages are now sent in append order: occurred_at ties (events recorded
+// by one call share their timestamp) were broken by the random event id.
+// Undelivered messages are numbered first, oldest first as they were sent
+// so far; the order of dispatched ones no longer matters.
+export const addOutboxMessagesSequence: Migration = {
+  version: 8,
+  name: 'add_outbox_messages_sequence',
+  up: async (tx: SqlExecutor) => {
+    await tx.query(`
+      CREATE SEQUENCE outbox_messages_sequence_seq;
+      ALTER TABLE outbox_messages ADD COLUMN sequence BIGINT;
+    `);
+    const { rows } = await tx.query<{ id: string }>(
+      "SELECT id FROM outbox_messages WHERE status <> 'dispatched' ORDER BY occurred_at, id"
+    );
+    for (const row of rows) {
+      await tx.query(
+        "UPDATE outbox_messages SET sequence = nextval('outbox_messages_sequence_seq') WHERE id = $1",
+        [row.id]
+      );
+    }
+    await tx.query(`
+      UPDATE outbox_messages SET sequence = nextval('outbox_messages_sequence_seq') WHERE sequence IS NULL;
+      ALTER TABLE outbox_messages ALTER COLUMN sequence SET DEFAULT nextval('outbox_messages_sequence_seq');
+      ALTER TABLE outbox_messages ALTER COLUMN sequence SET NOT NULL;
+      ALTER SEQUENCE outbox_messages_sequence_seq OWNED BY outbox_messages.sequence;
+      CREATE INDEX outbox_messages_aggregate ON outbox_messages (aggregate_id, sequence);
+    `);
+  },
+};
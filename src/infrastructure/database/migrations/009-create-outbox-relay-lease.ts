@@ -0,0 +1,17 @@
+import { Migration } from './migration.js';
+
+// One row: the relay allowed to send the outbox until expires_at (see
+// PostgresOutboxStore.acquireRelayLease). A second relay would send the
+// same messages again, and could send an aggregate's messages out of order.
+export const createOutboxRelayLease: Migration = {
+  version: 9,
+  name: 'create_outbox_relay_lease',
+  up: `
+    CREATE TABLE outbox_relay_lease (
+      id INTEGER PRIMARY KEY,
+      holder TEXT,
+      expires_at TIMESTAMPTZ NOT NULL
+    );
+    INSERT INTO outbox_relay_lease (id, holder, expires_at) VALUES (1, NULL, '1970-01-01T00:00:00Z');
+  `,
+};
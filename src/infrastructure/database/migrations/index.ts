@@ -0,0 +1,25 @@
+import { Migration } from './migration.js';
+import { createUsersTable } from './001-create-users-table.js';
+import { addUsersEmailCanonical } from './002-add-users-email-canonical.js';
+import { createOutboxTables } from './003-create-outbox-tables.js';
+import { addUsersVersion } from './004-add-users-version.js';
+import { addUsersLifecycle } from './005-add-users-lifecycle.js';
+import { addUsersEmailVerifiedAt } from './006-add-users-email-verified-at.js';
+import { addUsersNameParts } from './007-add-users-name-parts.js';
+import { addOutboxMessagesSequence } from './008-add-outbox-messages-sequence.js';
+import { createOutboxRelayLease } from './009-create-outbox-relay-lease.js';
+
+export { type Migration } from './migration.js';
+
+// Keep this list in version order
+export const MIGRATIONS: readonly Migration[] = [
+  createUsersTable,
+  addUsersEmailCanonical,
+  createOutboxTables,
+  addUsersVersion,
+  addUsersLifecycle,
+  addUsersEmailVerifiedAt,
+  addUsersNameParts,
+  addOutboxMessagesSequence,
+  createOutboxRelayLease,
+];
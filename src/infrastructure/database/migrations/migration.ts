@@ -0,0 +1,16 @@
+import { SqlExecutor } from '../sql-executor.js';
+
+/**
+ * A versioned, forward-only schema change: a SQL script, or code for
+ * changes SQL cannot express (backfills computed by the domain). Either
+ * way it runs in the migration's transaction.
+ *
+ * Versions are applied in ascending order and recorded in
+ * `schema_migrations`, so a migration runs at most once per database.
+ * Never edit a migration that has shipped: add a new one instead.
+ */
+export interface Migration {
+  readonly version: number;
+  readonly name: string;
+  readonly up: string | ((tx: SqlExecutor) => Promise<void>);
+}
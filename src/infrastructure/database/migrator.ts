@@ -0,0 +1,53 @@
+import { SqlExecutor, inSessionTransaction, inTransaction, isSqlPool } from './sql-executor.js';
+import { Migration, MIGRATIONS } from './migrations/index.js';
+import { Result, success, failure } from '../../shared/types/result.js';
+
+const CREATE_MIGRATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL
+  )
+`;
+
+const apply = async (tx: SqlExecutor, migration: Migration): Promise<void> => {
+  await (typeof migration.up === 'string' ? tx.query(migration.up) : migration.up(tx));
+  await tx.query(
+    'INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, NOW())',
+    [migration.version, migration.name]
+  );
+};
+
+/**
+ * Applies every pending migration, oldest first.
+ *
+ * Each migration and its bookkeeping row run in one transaction, on a
+ * connection checked out of `db` when it is a pool. A failing migration
+ * is rolled back, so it leaves no trace and can be fixed and re-run, and
+ * its connection goes back to the pool usable.
+ *
+ * @returns the versions applied by this call (empty when up to date)
+ */
+export async function migrate(
+  db: SqlExecutor,
+  migrations: readonly Migration[] = MIGRATIONS
+): Promise<Result<number[], Error>> {
+  try {
+    await db.query(CREATE_MIGRATIONS_TABLE);
+    const { rows } = await db.query<{ version: number }>('SELECT version FROM schema_migrations');
+    const applied = new Set(rows.map(row => Number(row.version)));
+
+    const pending = [...migrations]
+      .sort((a, b) => a.version - b.version)
+      .filter(migration => !applied.has(migration.version));
+
+    for (const migration of pending) {
+      const work = (tx: SqlExecutor) => apply(tx, migration);
+      await (isSqlPool(db) ? inTransaction(db, work) : inSessionTransaction(db, work));
+    }
+
+    return success(pending.map(migration => migration.version));
+  } catch (error) {
+    return failure(error instanceof Error ? error : new Error(String(error)));
+  }
+}
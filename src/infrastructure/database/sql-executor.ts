@@ -0,0 +1,101 @@
+import type { QueryResult, QueryResultRow } from 'pg';
+
+/**
+ * The slice of node-postgres that adapters depend on.
+ *
+ * `pg.Pool`, `pg.PoolClient` and pg-mem's in-process adapter all satisfy it,
+ * so repositories can run against a real server or an in-memory database
+ * without knowing which one they were given.
+ */
+export interface SqlExecutor {
+  query<R extends QueryResultRow = QueryResultRow>(
+    text: string,
+    values?: unknown[]
+  ): Promise<QueryResult<R>>;
+}
+
+// SQLSTATE raised by PostgreSQL when a unique index rejects a row
+export const UNIQUE_VIOLATION = '23505';
+
+export const isUniqueViolation = (error: unknown): boolean =>
+  typeof error === 'object' &&
+  error !== null &&
+  (error as { code?: unknown }).code === UNIQUE_VIOLATION;
+
+/**
+ * A connection checked out of a pool; statements sent through it share
+ * one session, so they can share one transaction.
+ */
+export interface SqlClient extends SqlExecutor {
+  release(): void;
+}
+
+/**
+ * `pg.Pool` and pg-mem's pool. Needed for transactions: each statement
+ * sent to the pool itself may run on a different connection.
+ */
+export interface SqlPool extends SqlExecutor {
+  connect(): Promise<SqlClient>;
+}
+
+export const isSqlPool = (db: SqlExecutor): db is SqlPool =>
+  typeof (db as Partial<SqlPool>).connect === 'function';
+
+/**
+ * Runs `work` in a transaction on `session`, a single connection: COMMIT
+ * when it resolves, ROLLBACK when it throws (the error is rethrown).
+ */
+export async function inSessionTransaction<T>(
+  session: SqlExecutor,
+  work: (tx: SqlExecutor) => Promise<T>
+): Promise<T> {
+  await session.query('BEGIN');
+  try {
+    const result = await work(session);
+    await session.query('COMMIT');
+    return result;
+  } catch (error) {
+    // The original error matters more than a failed ROLLBACK
+    await session.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Runs `work` in a transaction on a dedicated connection, released
+ * whatever the outcome (see inSessionTransaction)
+ */
+export async function inTransaction<T>(pool: SqlPool, work: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    return await inSessionTransaction(client, work);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * An executor that knows which transaction its caller is in
+ * (see PostgresUnitOfWork)
+ */
+export interface TransactionalSqlExecutor extends SqlExecutor {
+  /**
+   * Runs `work` in the caller's transaction, or in a new one
+   */
+  transaction<T>(work: (tx: SqlExecutor) => Promise<T>): Promise<T>;
+}
+
+const isTransactional = (db: SqlExecutor): db is TransactionalSqlExecutor =>
+  typeof (db as Partial<TransactionalSqlExecutor>).transaction === 'function';
+
+/**
+ * Runs `work` atomically on whatever `db` is: joins the current unit of
+ * work, or opens a transaction on a pool. A lone client is used as is:
+ * whoever checked it out owns its transaction.
+ */
+export async function withinTransaction<T>(db: SqlExecutor, work: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+  if (isTransactional(db)) {
+    return db.transaction(work);
+  }
+  return isSqlPool(db) ? inTransaction(db, work) : work(db);
+}
@@ -0,0 +1,19 @@
+import { EmailMessage, EmailSenderPort } from '../../application/ports/email-sender.port.js';
+
+/**
+ * ConsoleEmailSender - Local Implementation
+ *
+ * Prints emails instead of sending them, so verification links can be
+ * followed from the server output during development.
+ */
+export class ConsoleEmailSender implements EmailSenderPort {
+  constructor(private readonly write: (line: string) => void = line => console.log(line)) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    this.write([
+      `📧 To: ${message.to}`,
+      `   Subject: ${message.subject}`,
+      ...message.text.split('\n').map(line => `   ${line}`),
+    ].join('\n'));
+  }
+}
@@ -0,0 +1,31 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ClockPort, SYSTEM_CLOCK } from '../../domain/ports/clock.port.js';
+import { EmailMessage, EmailSenderPort } from '../../application/ports/email-sender.port.js';
+
+/**
+ * FileEmailSender - Local Implementation
+ *
+ * Writes every email to its own .eml file in `directory` (created if
+ * needed), which any mail client opens. File names start with the send
+ * time read from `clock`, so they list in the order the emails were sent.
+ */
+export class FileEmailSender implements EmailSenderPort {
+  constructor(private readonly directory: string, private readonly clock: ClockPort = SYSTEM_CLOCK) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const now = this.clock.now();
+    await mkdir(this.directory, { recursive: true });
+    const name = `${now.toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`;
+    await writeFile(join(this.directory, name), [
+      `Date: ${now.toUTCString()}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      '',
+    ].join('\r\n'), 'utf8');
+  }
+}
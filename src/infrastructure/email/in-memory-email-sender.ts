@@ -0,0 +1,24 @@
+import { EmailMessage, EmailSenderPort } from '../../application/ports/email-sender.port.js';
+
+/**
+ * InMemoryEmailSender - Test Double Implementation
+ *
+ * Keeps every email it accepts in `sent`. failNext() makes the next
+ * sends throw, to exercise delivery failures.
+ */
+export class InMemoryEmailSender implements EmailSenderPort {
+  public readonly sent: EmailMessage[] = [];
+  private failures: Error[] = [];
+
+  failNext(count = 1, error = new Error('Email provider unavailable')): void {
+    this.failures.push(...Array.from({ length: count }, () => error));
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const failure = this.failures.shift();
+    if (failure) {
+      throw failure;
+    }
+    this.sent.push({ ...message });
+  }
+}
@@ -0,0 +1,109 @@
+import { DependencyContainer } from 'tsyringe';
+import { AnyDomainEvent, DomainEventOf, DomainEventType } from '../../domain/events/index.js';
+import { DomainEventHandler, EventBus } from '../../application/ports/event-bus.port.js';
+import { LoggerPort } from '../../application/ports/logger.port.js';
+import { TOKENS } from '../../shared/container.js';
+import { JsonLinesLogger } from '../logging/json-lines-logger.js';
+
+export interface HandlerFailure {
+  event: AnyDomainEvent;
+  // Class name of the handler that failed
+  handler: string;
+  error: unknown;
+}
+
+export type HandlerFailureListener = (failure: HandlerFailure) => void;
+
+interface Subscription {
+  handler: object;
+  handle(event: AnyDomainEvent): Promise<void> | void;
+}
+
+/**
+ * Logs each failure as an error entry
+ */
+export const reportTo = (logger: LoggerPort): HandlerFailureListener => failure => {
+  logger.error('Event handler failed', {
+    handler: failure.handler,
+    eventType: failure.event.type,
+    eventId: failure.event.eventId,
+    aggregateId: failure.event.aggregateId,
+    error: failure.error,
+  });
+};
+
+/**
+ * InProcessEventBus - Event Bus Implementation
+ *
+ * Calls the handlers directly, in the same process, while publish() is
+ * awaited. Events are delivered in order; the handlers of one event run
+ * concurrently and their failures are isolated: each one is reported to
+ * `onHandlerError` and the other handlers still run.
+ *
+ * Nothing is persisted: an event published while the process crashes is
+ * lost. Use it for side effects that can be replayed or missed.
+ */
+export class InProcessEventBus implements EventBus {
+  private readonly subscriptions = new Map<DomainEventType, Subscription[]>();
+
+  constructor(
+    handlers: readonly DomainEventHandler[] = [],
+    private readonly onHandlerError: HandlerFailureListener = reportTo(new JsonLinesLogger())
+  ) {
+    handlers.forEach(handler => this.subscribe(handler));
+  }
+
+  /**
+   * Creates a bus with every handler registered under TOKENS.DOMAIN_EVENT_HANDLER.
+   * Failures go to `onHandlerError`, or else to the logger registered under
+   * TOKENS.LOGGER_SERVICE.
+   */
+  static fromContainer(
+    container: DependencyContainer,
+    onHandlerError?: HandlerFailureListener
+  ): InProcessEventBus {
+    const handlers = container.isRegistered(TOKENS.DOMAIN_EVENT_HANDLER, true)
+      ? container.resolveAll<DomainEventHandler>(TOKENS.DOMAIN_EVENT_HANDLER)
+      : [];
+    const logger = container.isRegistered(TOKENS.LOGGER_SERVICE, true)
+      ? container.resolve<LoggerPort>(TOKENS.LOGGER_SERVICE).child({ component: 'event-bus' })
+      : undefined;
+    return new InProcessEventBus(handlers, onHandlerError ?? (logger && reportTo(logger)));
+  }
+
+  /**
+   * @returns a function that removes the handler
+   */
+  subscribe<T extends DomainEventType>(handler: DomainEventHandler<T>): () => void {
+    const subscription: Subscription = {
+      handler,
+      // Only events of handler.eventType are routed here
+      handle: event => handler.handle(event as DomainEventOf<T>),
+    };
+    this.subscriptions.set(handler.eventType, [...this.subscriptionsTo(handler.eventType), subscription]);
+    return () => {
+      this.subscriptions.set(
+        handler.eventType,
+        this.subscriptionsTo(handler.eventType).filter(candidate => candidate !== subscription)
+      );
+    };
+  }
+
+  async publish(events: readonly AnyDomainEvent[]): Promise<void> {
+    for (const event of events) {
+      const subscriptions = this.subscriptionsTo(event.type);
+      // async wrapper: a handler that throws synchronously is isolated too
+      const results = await Promise.allSettled(subscriptions.map(async subscription => subscription.handle(event)));
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          const handler = subscriptions[index].handler.constructor.name;
+          this.onHandlerError({ event, handler, error: result.reason });
+        }
+      });
+    }
+  }
+
+  private subscriptionsTo(type: DomainEventType): Subscription[] {
+    return this.subscriptions.get(type) ?? [];
+  }
+}
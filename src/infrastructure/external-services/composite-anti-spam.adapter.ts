@@ -0,0 +1,287 @@
+import {
+  AntiSpamDecision,
+  AntiSpamPort,
+  AntiSpamReason,
+  AntiSpamVerdict,
+  isBlockedVerdict,
+} from '../../domain/ports/anti-spam.port.js';
+import { AntiSpamTimeoutError } from './real-anti-spam.adapter.js';
+
+/**
+ * How the verdicts of several providers become one:
+ * - any-blocks: blocked as soon as one provider blocks
+ * - majority: blocked when more than half of the providers that answered block
+ * - weighted: blocked when the weighted mean score reaches thresholds.block
+ */
+export type CompositeStrategy = 'any-blocks' | 'majority' | 'weighted';
+
+/**
+ * - parallel: ask every provider at once (lowest latency)
+ * - sequential: ask them one after the other, in order (fewest calls)
+ */
+export type CompositeMode = 'parallel' | 'sequential';
+
+export interface CompositeProvider {
+  // Unique, reported in the verdict metadata
+  name: string;
+  port: AntiSpamPort;
+  // Only used by the weighted strategy (default 1)
+  weight?: number;
+  // Overrides CompositeAntiSpamAdapterOptions.timeoutMs for this provider
+  timeoutMs?: number;
+}
+
+export interface CompositeAntiSpamAdapterOptions {
+  strategy?: CompositeStrategy;
+  mode?: CompositeMode;
+  // Per provider call
+  timeoutMs?: number;
+  // Stop asking providers once the outcome cannot change
+  shortCircuit?: boolean;
+  // Weighted strategy: minimum score for each decision
+  thresholds?: { block: number; review: number };
+}
+
+type ProviderOutcome =
+  | { provider: CompositeProvider; index: number; verdict: AntiSpamVerdict }
+  | { provider: CompositeProvider; index: number; error: Error };
+
+type AnsweredOutcome = Extract<ProviderOutcome, { verdict: AntiSpamVerdict }>;
+
+interface Decision {
+  decision: AntiSpamDecision;
+  score: number;
+  decidedBy: string[];
+}
+
+const PROVIDER_NAME = 'composite';
+
+const isAnswered = (outcome: ProviderOutcome): outcome is AnsweredOutcome => 'verdict' in outcome;
+
+const namesOf = (outcomes: AnsweredOutcome[]): string[] => outcomes.map(outcome => outcome.provider.name);
+
+/**
+ * CompositeAntiSpamAdapter - Combines several anti-spam providers
+ *
+ * Lets a local deny list and the remote API vote on the same email.
+ * A provider that fails or times out does not vote; its outage is reported
+ * as a PROVIDER_OUTAGE reason. When no provider answers at all, the email
+ * is allowed (fail-open, like RealAntiSpamAdapter).
+ *
+ * The verdict metadata tells which providers drove the decision
+ * (`decidedBy`), what each one answered and which ones were skipped.
+ */
+export class CompositeAntiSpamAdapter implements AntiSpamPort {
+  private readonly strategy: CompositeStrategy;
+  private readonly mode: CompositeMode;
+  private readonly timeoutMs: number;
+  private readonly shortCircuit: boolean;
+  private readonly thresholds: { block: number; review: number };
+  private readonly totalWeight: number;
+
+  constructor(private readonly providers: CompositeProvider[], options: CompositeAntiSpamAdapterOptions = {}) {
+    if (providers.length === 0) {
+      throw new Error('CompositeAntiSpamAdapter needs at least one provider');
+    }
+    const names = new Set(providers.map(provider => provider.name));
+    if (names.size !== providers.length) {
+      throw new Error('CompositeAntiSpamAdapter provider names must be unique');
+    }
+    if (providers.some(provider => (provider.weight ?? 1) <= 0)) {
+      throw new Error('CompositeAntiSpamAdapter provider weights must be positive');
+    }
+
+    this.strategy = options.strategy ?? 'any-blocks';
+    this.mode = options.mode ?? 'parallel';
+    this.timeoutMs = options.timeoutMs ?? 2000;
+    this.shortCircuit = options.shortCircuit ?? true;
+    this.thresholds = options.thresholds ?? { block: 0.7, review: 0.4 };
+    this.totalWeight = providers.reduce((sum, provider) => sum + (provider.weight ?? 1), 0);
+  }
+
+  /**
+   * Asks the providers and combines their verdicts with the strategy
+   *
+   * @param email - The email address to check
+   * @returns Promise<AntiSpamVerdict> - the combined decision, with every provider's reasons
+   */
+  async check(email: string): Promise<AntiSpamVerdict> {
+    const outcomes = this.mode === 'parallel'
+      ? await this.askInParallel(email)
+      : await this.askInSequence(email);
+    outcomes.sort((a, b) => a.index - b.index);
+
+    const answered = outcomes.filter(isAnswered);
+    const { decision, score, decidedBy } = this.decide(answered);
+
+    const reasons: AntiSpamReason[] = outcomes.flatMap(outcome => isAnswered(outcome)
+      ? outcome.verdict.reasons
+      : [{ code: 'PROVIDER_OUTAGE', message: `${outcome.provider.name}: ${outcome.error.message}` }]
+    );
+
+    const asked = new Set(outcomes.map(outcome => outcome.provider.name));
+    return {
+      decision,
+      score,
+      reasons,
+      provider: {
+        name: PROVIDER_NAME,
+        metadata: {
+          strategy: this.strategy,
+          mode: this.mode,
+          decidedBy,
+          providers: Object.fromEntries(outcomes.map(outcome => [
+            outcome.provider.name,
+            isAnswered(outcome)
+              ? { decision: outcome.verdict.decision, score: outcome.verdict.score }
+              : { error: outcome.error.message },
+          ])),
+          skipped: this.providers.map(provider => provider.name).filter(name => !asked.has(name)),
+        },
+      },
+    };
+  }
+
+  /**
+   * Checks if the combined verdict blocks the email
+   *
+   * @param email - The email address to check
+   * @returns Promise<boolean> - true if blocked, false if allowed
+   */
+  async isBlocked(email: string): Promise<boolean> {
+    return isBlockedVerdict(await this.check(email));
+  }
+
+  private askInParallel(email: string): Promise<ProviderOutcome[]> {
+    return new Promise(resolve => {
+      const outcomes: ProviderOutcome[] = [];
+      let settled = false;
+
+      this.providers.forEach((provider, index) => {
+        void this.ask(provider, index, email).then(outcome => {
+          if (settled) {
+            return;
+          }
+          outcomes.push(outcome);
+          if (outcomes.length === this.providers.length || this.canStop(outcomes)) {
+            settled = true;
+            resolve(outcomes);
+          }
+        });
+      });
+    });
+  }
+
+  private async askInSequence(email: string): Promise<ProviderOutcome[]> {
+    const outcomes: ProviderOutcome[] = [];
+    for (const [index, provider] of this.providers.entries()) {
+      outcomes.push(await this.ask(provider, index, email));
+      if (this.canStop(outcomes)) {
+        break;
+      }
+    }
+    return outcomes;
+  }
+
+  // Never rejects: a failure is an outcome like any other
+  private async ask(provider: CompositeProvider, index: number, email: string): Promise<ProviderOutcome> {
+    const timeoutMs = provider.timeoutMs ?? this.timeoutMs;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new AntiSpamTimeoutError(timeoutMs)), timeoutMs);
+    });
+
+    try {
+      const verdict = await Promise.race([provider.port.check(email), timeout]);
+      return { provider, index, verdict };
+    } catch (error) {
+      return { provider, index, error: error instanceof Error ? error : new Error(String(error)) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // True when the providers not asked yet could not change the decision
+  private canStop(outcomes: ProviderOutcome[]): boolean {
+    if (!this.shortCircuit) {
+      return false;
+    }
+    const answered = outcomes.filter(isAnswered);
+
+    switch (this.strategy) {
+      case 'any-blocks':
+        return answered.some(outcome => isBlockedVerdict(outcome.verdict));
+      case 'majority':
+        return answered.filter(outcome => isBlockedVerdict(outcome.verdict)).length > this.providers.length / 2;
+      case 'weighted':
+        // Even if every remaining provider scored 0, the mean would stay above the threshold
+        return this.weightedSum(answered) / this.totalWeight >= this.thresholds.block;
+    }
+  }
+
+  private decide(answered: AnsweredOutcome[]): Decision {
+    if (answered.length === 0) {
+      return { decision: 'allowed', score: 0, decidedBy: [] };
+    }
+
+    switch (this.strategy) {
+      case 'any-blocks':
+        return this.decideAnyBlocks(answered);
+      case 'majority':
+        return this.decideByMajority(answered);
+      case 'weighted':
+        return this.decideByWeight(answered);
+    }
+  }
+
+  private decideAnyBlocks(answered: AnsweredOutcome[]): Decision {
+    const score = Math.max(...answered.map(outcome => outcome.verdict.score));
+    for (const decision of ['blocked', 'review'] as const) {
+      const deciding = answered.find(outcome => outcome.verdict.decision === decision);
+      if (deciding) {
+        return { decision, score, decidedBy: [deciding.provider.name] };
+      }
+    }
+    return { decision: 'allowed', score, decidedBy: namesOf(answered) };
+  }
+
+  private decideByMajority(answered: AnsweredOutcome[]): Decision {
+    const score = answered.reduce((sum, outcome) => sum + outcome.verdict.score, 0) / answered.length;
+    const blocking = answered.filter(outcome => outcome.verdict.decision === 'blocked');
+    if (blocking.length > answered.length / 2) {
+      return { decision: 'blocked', score, decidedBy: namesOf(blocking) };
+    }
+    // Blocking votes still count as suspicious when they are not enough to block
+    const suspicious = answered.filter(outcome => outcome.verdict.decision !== 'allowed');
+    if (suspicious.length > answered.length / 2) {
+      return { decision: 'review', score, decidedBy: namesOf(suspicious) };
+    }
+    return {
+      decision: 'allowed',
+      score,
+      decidedBy: namesOf(answered.filter(outcome => outcome.verdict.decision === 'allowed')),
+    };
+  }
+
+  private decideByWeight(answered: AnsweredOutcome[]): Decision {
+    const weight = answered.reduce((sum, outcome) => sum + (outcome.provider.weight ?? 1), 0);
+    const score = this.weightedSum(answered) / weight;
+    const decision: AntiSpamDecision = score >= this.thresholds.block
+      ? 'blocked'
+      : score >= this.thresholds.review ? 'review' : 'allowed';
+
+    // The provider that pushed the score the most in the direction of the decision
+    const contribution = (outcome: AnsweredOutcome) => (outcome.provider.weight ?? 1) * outcome.verdict.score;
+    const driver = answered.reduce((best, outcome) => {
+      const better = decision === 'allowed'
+        ? contribution(outcome) < contribution(best)
+        : contribution(outcome) > contribution(best);
+      return better ? outcome : best;
+    });
+    return { decision, score, decidedBy: [driver.provider.name] };
+  }
+
+  private weightedSum(answered: AnsweredOutcome[]): number {
+    return answered.reduce((sum, outcome) => sum + (outcome.provider.weight ?? 1) * outcome.verdict.score, 0);
+  }
+}
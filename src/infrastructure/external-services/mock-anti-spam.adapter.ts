@@ -1,4 +1,16 @@
-import { AntiSpamPort } from '../../domain/ports/anti-spam.port.js';
+import {
+  AntiSpamRules,
+  RuleBasedAntiSpamAdapter,
+  RuleBasedAntiSpamAdapterOptions,
+} from './rule-based-anti-spam.adapter.js';
+
+export const DEFAULT_MOCK_ANTI_SPAM_RULES: AntiSpamRules = {
+  deny: {
+    domains: ['spam.com', 'fake.com', 'bot.net'],
+    patterns: ['blocked@', 'spam@'],
+  },
+  disposableDomains: ['mailinator.com', 'tempmail.com'],
+};
 
 /**
  * MockAntiSpamAdapter - Test Double Implementation
@@ -6,38 +18,21 @@ import { AntiSpamPort } from '../../domain/ports/anti-spam.port.js';
  * This adapter is used in UNIT TESTS.
  * It provides fast, deterministic behavior without calling external APIs.
  *
- * Blocks emails with:
+ * By default it blocks emails with:
  * - Specific patterns (e.g., "blocked@", "spam@")
  * - Blocked domains (e.g., "spam.com", "fake.com")
  *
+ * and sends emails from disposable domains (e.g., "mailinator.com") to review.
+ * Pass other rules to test a different policy without writing a new double.
+ *
  * This allows us to test the Email and User creation logic
  * without depending on external services.
  */
-export class MockAntiSpamAdapter implements AntiSpamPort {
-  private readonly blockedDomains = ['spam.com', 'fake.com', 'bot.net'];
-  private readonly blockedPatterns = ['blocked@', 'spam@'];
-
-  /**
-   * Checks if an email is blocked using mock rules
-   *
-   * @param email - The email address to check
-   * @returns Promise<boolean> - true if blocked, false if allowed
-   */
-  async isBlocked(email: string): Promise<boolean> {
-    // Check blocked patterns first
-    for (const pattern of this.blockedPatterns) {
-      if (email.includes(pattern)) {
-        return true;
-      }
-    }
-
-    // Check blocked domains
-    const domain = email.split('@')[1];
-    if (domain && this.blockedDomains.includes(domain)) {
-      return true;
-    }
-
-    // Email is allowed
-    return false;
+export class MockAntiSpamAdapter extends RuleBasedAntiSpamAdapter {
+  constructor(
+    rules: AntiSpamRules = DEFAULT_MOCK_ANTI_SPAM_RULES,
+    options: RuleBasedAntiSpamAdapterOptions = {}
+  ) {
+    super(rules, { providerName: 'mock', ...options });
   }
 }
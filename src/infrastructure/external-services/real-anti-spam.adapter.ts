@@ -1,4 +1,111 @@
-import { AntiSpamPort } from '../../domain/ports/anti-spam.port.js';
+import { z } from 'zod';
+import {
+  AntiSpamPort,
+  AntiSpamReason,
+  AntiSpamReasonCode,
+  AntiSpamVerdict,
+  isBlockedVerdict,
+} from '../../domain/ports/anti-spam.port.js';
+import { LoggerPort } from '../../application/ports/logger.port.js';
+import { currentCorrelationId } from '../../shared/correlation.js';
+import { JsonLinesLogger } from '../logging/json-lines-logger.js';
+import { retry, RetryOptions } from '../resilience/retry.js';
+import { TtlCache } from '../resilience/ttl-cache.js';
+import { CircuitBreaker, CircuitBreakerOptions } from '../resilience/circuit-breaker.js';
+
+/**
+ * What to answer when the anti-spam service cannot be reached:
+ * - fail-open: allow the email (never lose a signup to an outage)
+ * - fail-closed: block the email (never let spam in during an outage)
+ */
+export type FailurePolicy = 'fail-open' | 'fail-closed';
+
+export interface RealAntiSpamAdapterOptions {
+  baseUrl?: string;
+  // Per attempt, not for the whole call
+  timeoutMs?: number;
+  retry?: Partial<Omit<RetryOptions, 'shouldRetry'>>;
+  // How long a verdict is reused for the same address (0 disables caching)
+  cacheTtlMs?: number;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  failurePolicy?: FailurePolicy;
+  fetch?: typeof fetch;
+  now?: () => number;
+  // Outages and failures are reported there (default: JSON lines on stdout)
+  logger?: LoggerPort;
+}
+
+/**
+ * The service answered with a non-2xx status
+ */
+export class AntiSpamHttpError extends Error {
+  constructor(public readonly status: number, statusText: string) {
+    super(`API error: ${status} ${statusText}`);
+    this.name = 'AntiSpamHttpError';
+  }
+}
+
+/**
+ * The service did not answer within timeoutMs
+ */
+export class AntiSpamTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`API timeout after ${timeoutMs}ms`);
+    this.name = 'AntiSpamTimeoutError';
+  }
+}
+
+/**
+ * The service answered 2xx with a body that is not a valid /check response
+ */
+export class AntiSpamResponseError extends Error {
+  constructor(reason: string) {
+    super(`Invalid API response: ${reason}`);
+    this.name = 'AntiSpamResponseError';
+  }
+}
+
+/**
+ * Body of a successful /check response. Only `blocked` is guaranteed;
+ * richer providers also send a decision, a score and reasons. Anything
+ * else is rejected: a verdict we cannot read must not count as allowed.
+ */
+const CheckResponseSchema = z.object({
+  blocked: z.boolean(),
+  decision: z.enum(['allowed', 'review', 'blocked']).optional(),
+  score: z.number().min(0).max(1).optional(),
+  reasons: z.array(z.union([z.string(), z.object({ code: z.string(), message: z.string().optional() })])).optional(),
+});
+
+type CheckResponse = z.infer<typeof CheckResponseSchema>;
+
+const PROVIDER_NAME = 'remote';
+
+const KNOWN_REASON_CODES: readonly string[] = [
+  'DISPOSABLE_DOMAIN',
+  'BLOCKED_EMAIL',
+  'BLOCKED_DOMAIN',
+  'BLACKLISTED_PATTERN',
+  'PROVIDER_FLAGGED',
+  'PROVIDER_OUTAGE',
+];
+
+// Reasons we do not know are kept, under PROVIDER_FLAGGED
+const toReason = (raw: string | { code: string; message?: string }): AntiSpamReason => {
+  const code = typeof raw === 'string' ? raw : raw.code;
+  const message = typeof raw === 'string' ? raw : raw.message ?? raw.code;
+  return KNOWN_REASON_CODES.includes(code)
+    ? { code: code as AntiSpamReasonCode, message }
+    : { code: 'PROVIDER_FLAGGED', message };
+};
+
+// Only outages are worth retrying: a 4xx or a malformed body will fail the same way again
+const isTransient = (error: unknown): boolean => {
+  if (error instanceof AntiSpamHttpError) {
+    return error.status >= 500;
+  }
+  return !(error instanceof AntiSpamResponseError);
+};
 
 /**
  * RealAntiSpamAdapter - Production Implementation
@@ -11,52 +118,150 @@ import { AntiSpamPort } from '../../domain/ports/anti-spam.port.js';
  * - Spamhaus (https://www.spamhaus.org)
  * - Custom internal service
  *
- * This adapter demonstrates how to integrate external services
- * while maintaining clean architecture principles.
+ * Every call is protected by:
+ * - a per-attempt timeout (AbortController)
+ * - retries with exponential backoff, on 5xx and network errors only
+ * - validation of the response body: a malformed one is an outage
+ * - a TTL cache of verdicts, keyed by the normalized address
+ * - a circuit breaker that stops calling a service that keeps failing
+ * - an explicit failure policy when no verdict can be obtained
  */
 export class RealAntiSpamAdapter implements AntiSpamPort {
-  constructor(private readonly apiKey: string) {}
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly retryOptions: Partial<RetryOptions>;
+  private readonly failurePolicy: FailurePolicy;
+  private readonly fetch: typeof fetch;
+  private readonly cache: TtlCache<string, AntiSpamVerdict>;
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly now: () => number;
+  private readonly logger: LoggerPort;
+
+  constructor(private readonly apiKey: string, options: RealAntiSpamAdapterOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.baseUrl = (options.baseUrl ?? 'https://api.antispam.example.com').replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? 2000;
+    this.retryOptions = { ...options.retry, shouldRetry: isTransient };
+    this.failurePolicy = options.failurePolicy ?? 'fail-open';
+    this.fetch = options.fetch ?? globalThis.fetch;
+    this.cache = new TtlCache(options.cacheTtlMs ?? 5 * 60_000, 10_000, this.now);
+    this.circuitBreaker = new CircuitBreaker(options.circuitBreaker, this.now);
+    this.logger = (options.logger ?? new JsonLinesLogger()).child({ component: 'anti-spam' });
+  }
 
   /**
-   * Checks if an email is blocked using a real anti-spam API
+   * Checks an email using a real anti-spam API
    *
    * @param email - The email address to check
-   * @returns Promise<boolean> - true if blocked, false if allowed
-   *
-   * @throws Error if API communication fails unexpectedly
+   * @returns Promise<AntiSpamVerdict> - the provider's verdict. When the
+   * service is unavailable, the failure policy decides and the verdict
+   * carries a PROVIDER_OUTAGE reason.
+   */
+  async check(email: string): Promise<AntiSpamVerdict> {
+    const key = email.trim().toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return { ...cached, provider: { ...cached.provider, metadata: { ...cached.provider.metadata, cached: true } } };
+    }
+
+    if (!this.circuitBreaker.allowRequest()) {
+      this.logger.warn('Anti-spam circuit is open, applying the failure policy', { failurePolicy: this.failurePolicy });
+      return this.fallbackVerdict('circuit open');
+    }
+
+    const started = this.now();
+    let attempts = 0;
+    try {
+      const response = await retry(attempt => {
+        attempts = attempt + 1;
+        return this.request(key);
+      }, this.retryOptions);
+      this.circuitBreaker.recordSuccess();
+
+      const verdict = RealAntiSpamAdapter.toVerdict(response, {
+        cached: false,
+        attempts,
+        latencyMs: this.now() - started,
+      });
+      this.cache.set(key, verdict);
+      return verdict;
+    } catch (error) {
+      this.circuitBreaker.recordFailure();
+      this.logger.error('Anti-spam check failed, applying the failure policy', {
+        failurePolicy: this.failurePolicy,
+        attempts,
+        error,
+      });
+      return this.fallbackVerdict(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Checks if an email is blocked using a real anti-spam API
    *
-   * Note: This is a simplified example. In production, you would:
-   * - Add retry logic for transient failures
-   * - Add request timeouts
-   * - Add rate limiting
-   * - Add caching for performance
-   * - Add monitoring and logging
+   * @param email - The email address to check
+   * @returns Promise<boolean> - true if blocked, false if allowed.
+   * When the service is unavailable, the failure policy decides.
    */
   async isBlocked(email: string): Promise<boolean> {
+    return isBlockedVerdict(await this.check(email));
+  }
+
+  private async request(email: string): Promise<CheckResponse> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    const correlationId = currentCorrelationId();
+
     try {
-      // Call to a real anti-spam API
-      // This is a placeholder - replace with actual API endpoint
-      const response = await fetch('https://api.antispam.example.com/check', {
+      const response = await this.fetch(`${this.baseUrl}/check`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${this.apiKey}`,
           'Content-Type': 'application/json',
+          // Lets the provider's logs be matched with ours
+          ...(correlationId === undefined ? {} : { 'X-Correlation-Id': correlationId }),
         },
         body: JSON.stringify({ email }),
+        signal: controller.signal,
       });
 
       if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
+        throw new AntiSpamHttpError(response.status, response.statusText);
       }
 
-      const data = await response.json() as { blocked: boolean };
-      return data.blocked;
+      const parsed = CheckResponseSchema.safeParse(await response.json().catch(() => undefined));
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new AntiSpamResponseError(`${issue.path.join('.') || 'body'}: ${issue.message}`);
+      }
+      return parsed.data;
     } catch (error) {
-      // Error handling strategy: Fail Open (allow email)
-      // This means if the anti-spam service is down, we allow the email
-      // Alternative: Fail Closed (block email) - more conservative but may reject valid users
-      console.error('Anti-spam check failed:', error);
-      return false; // Allow email if service is down
+      if (controller.signal.aborted) {
+        throw new AntiSpamTimeoutError(this.timeoutMs);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
     }
   }
+
+  private fallbackVerdict(cause: string): AntiSpamVerdict {
+    const blocked = this.failurePolicy === 'fail-closed';
+    return {
+      decision: blocked ? 'blocked' : 'allowed',
+      score: blocked ? 1 : 0,
+      reasons: [{ code: 'PROVIDER_OUTAGE', message: `Anti-spam service unavailable: ${cause}` }],
+      provider: { name: PROVIDER_NAME, metadata: { failurePolicy: this.failurePolicy } },
+    };
+  }
+
+  private static toVerdict(response: CheckResponse, metadata: Record<string, unknown>): AntiSpamVerdict {
+    const decision = response.decision ?? (response.blocked ? 'blocked' : 'allowed');
+    return {
+      decision,
+      score: response.score ?? (decision === 'blocked' ? 1 : 0),
+      reasons: (response.reasons ?? []).map(toReason),
+      provider: { name: PROVIDER_NAME, metadata },
+    };
+  }
 }
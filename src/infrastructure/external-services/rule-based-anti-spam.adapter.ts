@@ -0,0 +1,262 @@
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { types } from 'node:util';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import {
+  AntiSpamPort,
+  AntiSpamReason,
+  AntiSpamVerdict,
+  isBlockedVerdict,
+} from '../../domain/ports/anti-spam.port.js';
+
+/**
+ * One list of rules. Every entry is matched case-insensitively.
+ * - emails: exact addresses
+ * - domains: exact domains, or `*.bot.net` for any subdomain of bot.net
+ * - patterns: regular expressions tested against the whole address
+ */
+export interface AntiSpamRuleSet {
+  emails?: string[];
+  domains?: string[];
+  patterns?: string[];
+}
+
+export interface AntiSpamRules {
+  // Always accepted, whatever the other lists say
+  allow?: AntiSpamRuleSet;
+  // Rejected
+  deny?: AntiSpamRuleSet;
+  // Accepted but sent to review
+  disposableDomains?: string[];
+}
+
+export interface RuleBasedAntiSpamAdapterOptions {
+  // Reported as verdict.provider.name
+  providerName?: string;
+  // Keep every call in `calls`, for tests to assert on
+  recordCalls?: boolean;
+}
+
+export interface RecordedAntiSpamCall {
+  method: 'check' | 'isBlocked';
+  email: string;
+  verdict: AntiSpamVerdict;
+}
+
+/**
+ * The rules file could not be read or does not describe valid rules
+ */
+export class InvalidAntiSpamRulesError extends Error {
+  constructor(source: string, reason: string) {
+    super(`Invalid anti-spam rules in ${source}: ${reason}`);
+    this.name = 'InvalidAntiSpamRulesError';
+  }
+}
+
+const isValidRegExp = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const RuleSetSchema = z.object({
+  emails: z.array(z.string()).optional(),
+  domains: z.array(z.string()).optional(),
+  patterns: z.array(z.string().refine(isValidRegExp, 'Invalid regular expression')).optional(),
+}).strict();
+
+const RulesSchema = z.object({
+  allow: RuleSetSchema.optional(),
+  deny: RuleSetSchema.optional(),
+  disposableDomains: z.array(z.string()).optional(),
+}).strict();
+
+/**
+ * A rule set compiled once, so checks do not re-parse patterns
+ */
+class CompiledRuleSet {
+  private readonly emails: Set<string>;
+  private readonly domains: Set<string>;
+  private readonly wildcardSuffixes: string[];
+  private readonly patterns: RegExp[];
+
+  constructor(rules: AntiSpamRuleSet = {}) {
+    this.emails = new Set((rules.emails ?? []).map(email => email.trim().toLowerCase()));
+    const domains = (rules.domains ?? []).map(domain => domain.trim().toLowerCase());
+    this.domains = new Set(domains.filter(domain => !domain.startsWith('*.')));
+    this.wildcardSuffixes = domains.filter(domain => domain.startsWith('*.')).map(domain => domain.slice(1));
+    this.patterns = (rules.patterns ?? []).map(pattern => new RegExp(pattern, 'i'));
+  }
+
+  matchesEmail(email: string): boolean {
+    return this.emails.has(email);
+  }
+
+  matchingDomain(domain: string): string | undefined {
+    if (this.domains.has(domain)) {
+      return domain;
+    }
+    const suffix = this.wildcardSuffixes.find(candidate => domain.endsWith(candidate));
+    return suffix === undefined ? undefined : `*${suffix}`;
+  }
+
+  matchingPatterns(email: string): RegExp[] {
+    return this.patterns.filter(pattern => pattern.test(email));
+  }
+}
+
+/**
+ * RuleBasedAntiSpamAdapter - Local Implementation
+ *
+ * Decides from allow/deny lists instead of calling an external API, so it
+ * works offline and is fully deterministic. Rules come from the constructor
+ * or from a JSON/YAML file (see fromFile).
+ *
+ * Precedence:
+ * 1. allowlist - allowed, nothing else is looked at
+ * 2. denylist - blocked, with one reason per matching rule
+ * 3. disposable domains - sent to review
+ * 4. anything else - allowed
+ */
+export class RuleBasedAntiSpamAdapter implements AntiSpamPort {
+  private readonly allow: CompiledRuleSet;
+  private readonly deny: CompiledRuleSet;
+  private readonly disposableDomains: CompiledRuleSet;
+  private readonly providerName: string;
+  private readonly recordCalls: boolean;
+  private readonly recorded: RecordedAntiSpamCall[] = [];
+
+  constructor(rules: AntiSpamRules = {}, options: RuleBasedAntiSpamAdapterOptions = {}) {
+    const parsed = RulesSchema.safeParse(rules);
+    if (!parsed.success) {
+      throw new InvalidAntiSpamRulesError('options', parsed.error.issues[0].message);
+    }
+    this.allow = new CompiledRuleSet(rules.allow);
+    this.deny = new CompiledRuleSet(rules.deny);
+    this.disposableDomains = new CompiledRuleSet({ domains: rules.disposableDomains });
+    this.providerName = options.providerName ?? 'rules';
+    this.recordCalls = options.recordCalls ?? false;
+  }
+
+  /**
+   * Loads the rules from a .json, .yaml or .yml file
+   *
+   * @throws InvalidAntiSpamRulesError if the file cannot be read or parsed, or the rules are invalid
+   */
+  static async fromFile(
+    path: string,
+    options: RuleBasedAntiSpamAdapterOptions = {}
+  ): Promise<RuleBasedAntiSpamAdapter> {
+    const extension = extname(path).toLowerCase();
+
+    let raw: unknown;
+    try {
+      const content = await readFile(path, 'utf8');
+      if (extension === '.json') {
+        raw = JSON.parse(content);
+      } else if (extension === '.yaml' || extension === '.yml') {
+        raw = parseYaml(content);
+      } else {
+        throw new Error(`unsupported file type "${extension}"`);
+      }
+    } catch (error) {
+      // isNativeError: fs errors can come from another realm and fail instanceof
+      const reason = error instanceof Error || types.isNativeError(error) ? error.message : String(error);
+      throw new InvalidAntiSpamRulesError(path, reason);
+    }
+
+    const parsed = RulesSchema.safeParse(raw ?? {});
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new InvalidAntiSpamRulesError(path, `${issue.path.join('.')}: ${issue.message}`);
+    }
+    return new RuleBasedAntiSpamAdapter(parsed.data, options);
+  }
+
+  /**
+   * Every call received so far (empty unless recordCalls is enabled)
+   */
+  get calls(): readonly RecordedAntiSpamCall[] {
+    return this.recorded;
+  }
+
+  clearCalls(): void {
+    this.recorded.length = 0;
+  }
+
+  /**
+   * Checks an email against the rules
+   *
+   * @param email - The email address to check
+   * @returns Promise<AntiSpamVerdict> - blocked, review or allowed, with reasons
+   */
+  async check(email: string): Promise<AntiSpamVerdict> {
+    const verdict = this.evaluate(email);
+    this.record('check', email, verdict);
+    return verdict;
+  }
+
+  /**
+   * Checks if an email is blocked by the rules
+   *
+   * @param email - The email address to check
+   * @returns Promise<boolean> - true if blocked, false if allowed
+   */
+  async isBlocked(email: string): Promise<boolean> {
+    const verdict = this.evaluate(email);
+    this.record('isBlocked', email, verdict);
+    return isBlockedVerdict(verdict);
+  }
+
+  private evaluate(email: string): AntiSpamVerdict {
+    const address = email.trim().toLowerCase();
+    const domain = address.split('@')[1] ?? '';
+
+    if (
+      this.allow.matchesEmail(address) ||
+      (domain && this.allow.matchingDomain(domain) !== undefined) ||
+      this.allow.matchingPatterns(address).length > 0
+    ) {
+      return this.verdict([], { allowlisted: true });
+    }
+
+    const reasons: AntiSpamReason[] = [];
+    if (this.deny.matchesEmail(address)) {
+      reasons.push({ code: 'BLOCKED_EMAIL', message: `Address "${address}" is blocked` });
+    }
+    for (const pattern of this.deny.matchingPatterns(address)) {
+      reasons.push({ code: 'BLACKLISTED_PATTERN', message: `Matches blocked pattern "${pattern.source}"` });
+    }
+    const blockedDomain = domain ? this.deny.matchingDomain(domain) : undefined;
+    if (blockedDomain !== undefined) {
+      const rule = blockedDomain === domain ? '' : ` by "${blockedDomain}"`;
+      reasons.push({ code: 'BLOCKED_DOMAIN', message: `Domain "${domain}" is blocked${rule}` });
+    }
+    const disposableDomain = domain ? this.disposableDomains.matchingDomain(domain) : undefined;
+    if (disposableDomain !== undefined) {
+      reasons.push({ code: 'DISPOSABLE_DOMAIN', message: `Domain "${domain}" is disposable` });
+    }
+
+    return this.verdict(reasons);
+  }
+
+  private verdict(reasons: AntiSpamReason[], metadata?: Record<string, unknown>): AntiSpamVerdict {
+    const blocked = reasons.some(reason => reason.code !== 'DISPOSABLE_DOMAIN');
+    return {
+      decision: blocked ? 'blocked' : reasons.length > 0 ? 'review' : 'allowed',
+      score: blocked ? 1 : reasons.length > 0 ? 0.5 : 0,
+      reasons,
+      provider: metadata ? { name: this.providerName, metadata } : { name: this.providerName },
+    };
+  }
+
+  private record(method: RecordedAntiSpamCall['method'], email: string, verdict: AntiSpamVerdict): void {
+    if (this.recordCalls) {
+      this.recorded.push({ method, email, verdict });
+    }
+  }
+}
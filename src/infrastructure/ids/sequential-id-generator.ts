@@ -0,0 +1,26 @@
+import { IdGeneratorPort } from '../../domain/ports/id-generator.port.js';
+
+/**
+ * SequentialIdGenerator - Test Double Implementation
+ *
+ * Valid version 4 UUIDs numbered from `first`:
+ * 00000000-0000-4000-8000-000000000001, then ...0002, and so on.
+ */
+export class SequentialIdGenerator implements IdGeneratorPort {
+  private counter: number;
+
+  constructor(first = 1) {
+    this.counter = first;
+  }
+
+  generate(): string {
+    return SequentialIdGenerator.idAt(this.counter++);
+  }
+
+  /**
+   * The id generated for number `position`, to assert on it
+   */
+  static idAt(position: number): string {
+    return `00000000-0000-4000-8000-${position.toString(16).padStart(12, '0')}`;
+  }
+}
@@ -0,0 +1,68 @@
+import { LogFields, LogLevel, LoggerPort } from '../../application/ports/logger.port.js';
+import { currentCorrelationId } from '../../shared/correlation.js';
+
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  // The child bindings merged with the fields of the call, unredacted
+  fields: LogFields;
+  correlationId?: string;
+}
+
+/**
+ * InMemoryLogger - Test Double Implementation
+ *
+ * Captures every entry, at every level, in `entries`. Child loggers write
+ * to the same entries as their parent.
+ */
+export class InMemoryLogger implements LoggerPort {
+  constructor(
+    private readonly captured: LogEntry[] = [],
+    private readonly bindings: LogFields = {}
+  ) {}
+
+  get entries(): readonly LogEntry[] {
+    return this.captured;
+  }
+
+  /**
+   * The entries at `level`, optionally only those whose message contains `message`
+   */
+  find(level: LogLevel, message?: string): LogEntry[] {
+    return this.captured.filter(entry =>
+      entry.level === level && (message === undefined || entry.message.includes(message)));
+  }
+
+  clear(): void {
+    this.captured.length = 0;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  child(fields: LogFields): LoggerPort {
+    return new InMemoryLogger(this.captured, { ...this.bindings, ...fields });
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    this.captured.push({
+      level,
+      message,
+      fields: { ...this.bindings, ...fields },
+      correlationId: currentCorrelationId(),
+    });
+  }
+}
@@ -0,0 +1,85 @@
+import { LOG_LEVELS, LogFields, LogLevel, LoggerPort } from '../../application/ports/logger.port.js';
+import { ClockPort, SYSTEM_CLOCK } from '../../domain/ports/clock.port.js';
+import { currentCorrelationId } from '../../shared/correlation.js';
+import { DEFAULT_PERSONAL_FIELDS, maskEmails, redact } from './redaction.js';
+
+export interface JsonLinesLoggerOptions {
+  // Entries below it are dropped (default info)
+  level?: LogLevel;
+  // Receives one JSON document per entry, without the newline
+  write?: (line: string) => void;
+  // Stamps the entries (default the system clock)
+  clock?: ClockPort;
+  // Redacted wherever they appear, in addition to secrets and emails
+  personalFields?: readonly string[];
+}
+
+// Written by the logger itself; fields with these names are dropped
+const RESERVED_FIELDS = ['time', 'level', 'message', 'correlationId'];
+
+interface Settings {
+  minimum: number;
+  write: (line: string) => void;
+  clock: ClockPort;
+  personalFields: readonly string[];
+}
+
+/**
+ * JsonLinesLogger - Production Implementation
+ *
+ * Writes one JSON object per line to stdout, the format log collectors
+ * ingest as-is:
+ *
+ *   {"time":"...","level":"info","message":"User registered","correlationId":"...","userId":"..."}
+ *
+ * Secrets, personal fields and email addresses are redacted before
+ * anything is written (see redact()).
+ */
+export class JsonLinesLogger implements LoggerPort {
+  private readonly settings: Settings;
+
+  constructor(private readonly options: JsonLinesLoggerOptions = {}, private readonly bindings: LogFields = {}) {
+    this.settings = {
+      minimum: LOG_LEVELS.indexOf(options.level ?? 'info'),
+      write: options.write ?? (line => process.stdout.write(`${line}\n`)),
+      clock: options.clock ?? SYSTEM_CLOCK,
+      personalFields: options.personalFields ?? DEFAULT_PERSONAL_FIELDS,
+    };
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  child(fields: LogFields): LoggerPort {
+    return new JsonLinesLogger(this.options, { ...this.bindings, ...fields });
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LOG_LEVELS.indexOf(level) < this.settings.minimum) {
+      return;
+    }
+    const context = redact({ ...this.bindings, ...fields }, this.settings.personalFields) as LogFields;
+    RESERVED_FIELDS.forEach(field => delete context[field]);
+
+    this.settings.write(JSON.stringify({
+      time: this.settings.clock.now().toISOString(),
+      level,
+      message: maskEmails(message),
+      correlationId: currentCorrelationId(),
+      ...context,
+    }));
+  }
+}
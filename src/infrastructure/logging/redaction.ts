@@ -0,0 +1,96 @@
+import { types } from 'node:util';
+
+export const REDACTED = '[redacted]';
+
+// Fields never logged, whatever they hold
+const SECRET_FIELD = /password|secret|token|api[-_]?key|authorization|cookie/i;
+
+// Fields holding personal data; email fields are matched by name (see isEmailField)
+export const DEFAULT_PERSONAL_FIELDS: readonly string[] = [
+  'name',
+  'previousName',
+  'fullName',
+  'firstName',
+  'lastName',
+  'phone',
+  'address',
+];
+
+const isEmailField = (key: string): boolean => /email/i.test(key);
+
+const EMAIL_IN_TEXT = /([^\s@<>"'(),;:]+)@([^\s@<>"'(),;:]+\.[^\s@<>"'(),;:]+)/g;
+
+// Nested deeper than this, values are not logged
+const MAX_DEPTH = 8;
+
+/**
+ * Keeps the first character and the domain: "john@example.com" becomes
+ * "j***@example.com", still enough to tell providers apart when debugging.
+ */
+export const maskEmails = (text: string): string =>
+  text.replace(EMAIL_IN_TEXT, (_match, local: string, domain: string) => `${local[0]}***@${domain}`);
+
+/**
+ * A copy of `value` that is safe to log and to serialize as JSON:
+ * - secret fields (password, token, apiKey...) and personal fields are replaced
+ * - email addresses are masked wherever they appear, messages included
+ * - errors become { type, message, stack, code?, cause? }
+ * - cycles and deep nesting are cut; an object reached twice without a
+ *   cycle (shared by two fields) is copied both times
+ */
+export function redact(value: unknown, personalFields: readonly string[] = DEFAULT_PERSONAL_FIELDS): unknown {
+  // The objects on the path to the current one, not every object visited
+  const ancestors = new WeakSet<object>();
+
+  const visit = (current: unknown, depth: number, key?: string): unknown => {
+    if (key !== undefined && (SECRET_FIELD.test(key) || personalFields.includes(key))) {
+      return REDACTED;
+    }
+    if (typeof current === 'string') {
+      return key !== undefined && isEmailField(key) && !current.includes('@') ? REDACTED : maskEmails(current);
+    }
+    if (typeof current === 'bigint') {
+      return current.toString();
+    }
+    if (current === null || typeof current !== 'object') {
+      return current;
+    }
+    if (current instanceof Date) {
+      return current.toISOString();
+    }
+    if (ancestors.has(current)) {
+      return '[circular]';
+    }
+    if (depth >= MAX_DEPTH) {
+      return '[truncated]';
+    }
+    ancestors.add(current);
+    try {
+      return copy(current, depth);
+    } finally {
+      ancestors.delete(current);
+    }
+  };
+
+  const copy = (current: object, depth: number): unknown => {
+    // isNativeError: errors from another realm (fetch, vm) fail instanceof
+    if (current instanceof Error || types.isNativeError(current)) {
+      const code = (current as { code?: unknown }).code;
+      return {
+        type: current.name,
+        message: maskEmails(current.message),
+        ...(code === undefined ? {} : { code: visit(code, depth + 1) }),
+        stack: current.stack === undefined ? undefined : maskEmails(current.stack),
+        ...(current.cause === undefined ? {} : { cause: visit(current.cause, depth + 1) }),
+      };
+    }
+    if (Array.isArray(current)) {
+      return current.map(item => visit(item, depth + 1));
+    }
+    return Object.fromEntries(
+      Object.entries(current).map(([field, item]) => [field, visit(item, depth + 1, field)])
+    );
+  };
+
+  return visit(value, 0);
+}
@@ -0,0 +1,91 @@
+import { OutboxMessage } from '../../application/ports/outbox.port.js';
+import { SqlExecutor } from '../database/sql-executor.js';
+
+/**
+ * Remembers which messages each consumer has handled
+ */
+export interface ProcessedMessageStore {
+  /**
+   * Records the message as handled by the consumer
+   *
+   * @returns false if it already was (or is being handled right now)
+   */
+  claim(consumer: string, messageId: string): Promise<boolean>;
+
+  /**
+   * Forgets a claim, so the message can be handled again
+   */
+  release(consumer: string, messageId: string): Promise<void>;
+}
+
+export type MessageConsumer = (message: OutboxMessage) => Promise<void>;
+
+/**
+ * Wraps a consumer so a redelivered message (same id) is only handled once.
+ * The message is claimed before `consume` runs and released if it throws,
+ * so a failed message is handled again on redelivery.
+ *
+ * @returns a consumer resolving to false when the message was a duplicate
+ */
+export const idempotent = (
+  consumer: string,
+  consume: MessageConsumer,
+  store: ProcessedMessageStore
+) => async (message: OutboxMessage): Promise<boolean> => {
+  if (!(await store.claim(consumer, message.id))) {
+    return false;
+  }
+  try {
+    await consume(message);
+    return true;
+  } catch (error) {
+    await store.release(consumer, message.id);
+    throw error;
+  }
+};
+
+export class InMemoryProcessedMessageStore implements ProcessedMessageStore {
+  private readonly processed = new Set<string>();
+
+  async claim(consumer: string, messageId: string): Promise<boolean> {
+    const key = `${consumer}:${messageId}`;
+    if (this.processed.has(key)) {
+      return false;
+    }
+    this.processed.add(key);
+    return true;
+  }
+
+  async release(consumer: string, messageId: string): Promise<void> {
+    this.processed.delete(`${consumer}:${messageId}`);
+  }
+}
+
+/**
+ * Claims are rows of the `processed_messages` table (migration 003);
+ * its primary key settles concurrent deliveries of the same message.
+ */
+export class PostgresProcessedMessageStore implements ProcessedMessageStore {
+  constructor(
+    private readonly db: SqlExecutor,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  async claim(consumer: string, messageId: string): Promise<boolean> {
+    const { rows } = await this.db.query(
+      `INSERT INTO processed_messages (consumer, message_id, processed_at)
+       VALUES ($1, $2, $3)
+       ON CONFLICT DO NOTHING
+       RETURNING message_id`,
+      [consumer, messageId, this.now()]
+    );
+    return rows.length === 1;
+  }
+
+  async release(consumer: string, messageId: string): Promise<void> {
+    await this.db.query(
+      'DELETE FROM processed_messages WHERE consumer = $1 AND message_id = $2',
+      [consumer, messageId]
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { AnyDomainEvent } from '../../domain/events/index.js';
+import { OutboxMessage, OutboxStore } from '../../application/ports/outbox.port.js';
+import { Result, success, failure } from '../../shared/types/result.js';
+import { TransactionParticipant } from '../unit-of-work/in-memory-unit-of-work.js';
+import { toOutboxMessage } from './outbox-message.js';
+
+/**
+ * InMemoryOutboxStore - Test Double Implementation
+ *
+ * Keeps messages in a Map, keyed by event id. Appending an event twice
+ * keeps the first copy, like the unique key of the SQL table. Like a SQL
+ * sequence, numbers used by a rolled back append are not given again.
+ */
+export class InMemoryOutboxStore implements OutboxStore, TransactionParticipant {
+  private readonly store = new Map<string, OutboxMessage>();
+  private lastSequence = 0;
+  private lease: { holder: string; expiresAt: Date } | undefined;
+
+  /**
+   * Every message, in insertion order (copies)
+   */
+  get messages(): OutboxMessage[] {
+    return [...this.store.values()].map(message => ({ ...message }));
+  }
+
+  async append(events: readonly AnyDomainEvent[]): Promise<Result<void, Error>> {
+    for (const event of events) {
+      if (!this.store.has(event.eventId)) {
+        this.store.set(event.eventId, { ...toOutboxMessage(event), sequence: ++this.lastSequence });
+      }
+    }
+    return success(undefined);
+  }
+
+  async fetchDue(now: Date, limit: number): Promise<Result<OutboxMessage[], Error>> {
+    const undelivered = [...this.store.values()]
+      .filter(message => message.status !== 'dispatched')
+      .sort((a, b) => a.sequence - b.sequence);
+
+    // Aggregates with a dead message or one waiting for a retry
+    const blocked = new Set<string>();
+    const due: OutboxMessage[] = [];
+    for (const message of undelivered) {
+      if (blocked.has(message.aggregateId)) {
+        continue;
+      }
+      if (message.status === 'dead' || message.nextAttemptAt > now) {
+        blocked.add(message.aggregateId);
+        continue;
+      }
+      due.push({ ...message });
+    }
+    return success(due.slice(0, limit));
+  }
+
+  async markDispatched(id: string, at: Date): Promise<Result<void, Error>> {
+    return this.update(id, message => ({
+      ...message,
+      status: 'dispatched',
+      attempts: message.attempts + 1,
+      dispatchedAt: at,
+    }));
+  }
+
+  async markFailed(id: string, error: string, retryAt: Date | null): Promise<Result<void, Error>> {
+    return this.update(id, message => ({
+      ...message,
+      status: retryAt ? 'pending' : 'dead',
+      attempts: message.attempts + 1,
+      nextAttemptAt: retryAt ?? message.nextAttemptAt,
+      lastError: error,
+    }));
+  }
+
+  async acquireRelayLease(holder: string, now: Date, until: Date): Promise<Result<boolean, Error>> {
+    if (this.lease && this.lease.holder !== holder && this.lease.expiresAt > now) {
+      return success(false);
+    }
+    this.lease = { holder, expiresAt: until };
+    return success(true);
+  }
+
+  snapshot(): () => void {
+    const messages = new Map(this.store);
+    return () => {
+      this.store.clear();
+      messages.forEach((message, id) => this.store.set(id, message));
+    };
+  }
+
+  private update(id: string, change: (message: OutboxMessage) => OutboxMessage): Result<void, Error> {
+    const message = this.store.get(id);
+    if (!message) {
+      return failure(new Error(`Unknown outbox message: ${id}`));
+    }
+    this.store.set(id, change(message));
+    return success(undefined);
+  }
+}
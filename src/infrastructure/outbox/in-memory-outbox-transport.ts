@@ -0,0 +1,24 @@
+import { OutboxMessage, OutboxTransport } from '../../application/ports/outbox.port.js';
+
+/**
+ * InMemoryOutboxTransport - Test Double Implementation
+ *
+ * Keeps every message it accepts in `sent`. failNext() makes the next
+ * sends throw, to exercise the relay's retries.
+ */
+export class InMemoryOutboxTransport implements OutboxTransport {
+  public readonly sent: OutboxMessage[] = [];
+  private failures: Error[] = [];
+
+  failNext(count = 1, error = new Error('Transport unavailable')): void {
+    this.failures.push(...Array.from({ length: count }, () => error));
+  }
+
+  async send(message: OutboxMessage): Promise<void> {
+    const failure = this.failures.shift();
+    if (failure) {
+      throw failure;
+    }
+    this.sent.push({ ...message });
+  }
+}
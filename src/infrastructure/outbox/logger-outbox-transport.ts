@@ -0,0 +1,23 @@
+import { OutboxMessage, OutboxTransport } from '../../application/ports/outbox.port.js';
+import { LoggerPort } from '../../application/ports/logger.port.js';
+
+/**
+ * LoggerOutboxTransport - Local Implementation
+ *
+ * Writes each message as a log entry instead of sending it to a broker,
+ * so the events leaving the outbox can be followed from the server output.
+ */
+export class LoggerOutboxTransport implements OutboxTransport {
+  constructor(private readonly logger: LoggerPort) {}
+
+  async send(message: OutboxMessage): Promise<void> {
+    this.logger.info('Outbox message', {
+      id: message.id,
+      sequence: message.sequence,
+      type: message.type,
+      aggregateId: message.aggregateId,
+      payload: message.payload,
+      occurredAt: message.occurredAt.toISOString(),
+    });
+  }
+}
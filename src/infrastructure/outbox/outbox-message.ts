@@ -0,0 +1,19 @@
+import { AnyDomainEvent } from '../../domain/events/index.js';
+import { OutboxMessage } from '../../application/ports/outbox.port.js';
+
+/**
+ * A freshly recorded event: pending, due immediately. The store gives it
+ * its sequence number when appending it.
+ */
+export const toOutboxMessage = (event: AnyDomainEvent): Omit<OutboxMessage, 'sequence'> => ({
+  id: event.eventId,
+  type: event.type,
+  aggregateId: event.aggregateId,
+  payload: { ...event.payload },
+  occurredAt: event.occurredAt,
+  status: 'pending',
+  attempts: 0,
+  nextAttemptAt: event.occurredAt,
+  dispatchedAt: null,
+  lastError: null,
+});
@@ -0,0 +1,178 @@
+import { randomUUID } from 'node:crypto';
+import { OutboxStore, OutboxTransport } from '../../application/ports/outbox.port.js';
+import { LoggerPort } from '../../application/ports/logger.port.js';
+import { Result, success, failure } from '../../shared/types/result.js';
+import { JsonLinesLogger } from '../logging/json-lines-logger.js';
+import { backoffDelay } from '../resilience/retry.js';
+
+export interface OutboxRelayOptions {
+  // Messages fetched per pass
+  batchSize: number;
+  pollIntervalMs: number;
+  // Attempts before a message is marked dead
+  maxAttempts: number;
+  backoff: { initialDelayMs: number; factor: number; maxDelayMs: number };
+  // How long a pass keeps other relays out; longer than any pass takes
+  leaseMs: number;
+  // Identifies this relay in the lease (default a random UUID)
+  holder?: string;
+  now: () => Date;
+  // Where failed passes are reported (default a JsonLinesLogger)
+  logger?: LoggerPort;
+}
+
+export const DEFAULT_OUTBOX_RELAY_OPTIONS: OutboxRelayOptions = {
+  batchSize: 50,
+  pollIntervalMs: 1000,
+  maxAttempts: 10,
+  backoff: { initialDelayMs: 1000, factor: 2, maxDelayMs: 60_000 },
+  leaseMs: 30_000,
+  now: () => new Date(),
+};
+
+export interface DispatchReport {
+  dispatched: number;
+  // Will be retried
+  failed: number;
+  // Gave up on
+  dead: number;
+}
+
+/**
+ * OutboxRelay - Sends stored events through a transport
+ *
+ * Each pass fetches the due messages, in append order, and sends them one
+ * by one. A failed message is retried later with exponential backoff, then
+ * marked dead after maxAttempts. Once a message of an aggregate fails, the
+ * later messages of that aggregate wait until it is sent: skipped for the
+ * rest of the pass, then not fetched while it waits for its retry (or for
+ * good once it is dead), so consumers see each user's events in order.
+ *
+ * Only one relay sends at a time, across processes: each pass first takes
+ * or renews the store's relay lease, and is skipped while another relay
+ * holds it. A relay that stops sending loses the lease after leaseMs.
+ */
+export class OutboxRelay {
+  private readonly options: OutboxRelayOptions;
+  private readonly holder: string;
+  private readonly logger: LoggerPort;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  // The pass the timer started, until it ends
+  private pass: Promise<void> | undefined;
+  private running = false;
+
+  constructor(
+    private readonly store: OutboxStore,
+    private readonly transport: OutboxTransport,
+    options: Partial<OutboxRelayOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OUTBOX_RELAY_OPTIONS, ...options };
+    this.holder = options.holder ?? randomUUID();
+    this.logger = (options.logger ?? new JsonLinesLogger()).child({ component: 'outbox-relay' });
+  }
+
+  /**
+   * Runs one pass over the due messages, unless another relay holds the lease
+   *
+   * @returns what happened to the messages, or the store error that stopped the pass
+   */
+  async dispatchPending(): Promise<Result<DispatchReport, Error>> {
+    const report: DispatchReport = { dispatched: 0, failed: 0, dead: 0 };
+    const now = this.options.now();
+    const leased = await this.store.acquireRelayLease(
+      this.holder,
+      now,
+      new Date(now.getTime() + this.options.leaseMs)
+    );
+    if (leased.isFailure) {
+      return failure(leased.error);
+    }
+    if (!leased.value) {
+      return success(report);
+    }
+
+    const due = await this.store.fetchDue(now, this.options.batchSize);
+    if (due.isFailure) {
+      return failure(due.error);
+    }
+
+    const blocked = new Set<string>();
+
+    for (const message of due.value) {
+      if (blocked.has(message.aggregateId)) {
+        continue;
+      }
+
+      try {
+        await this.transport.send(message);
+      } catch (error) {
+        blocked.add(message.aggregateId);
+        const attempts = message.attempts + 1;
+        const retryAt = attempts < this.options.maxAttempts
+          ? new Date(this.options.now().getTime() + backoffDelay(attempts, this.options.backoff))
+          : null;
+        const marked = await this.store.markFailed(
+          message.id,
+          error instanceof Error ? error.message : String(error),
+          retryAt
+        );
+        if (marked.isFailure) {
+          return failure(marked.error);
+        }
+        report[retryAt ? 'failed' : 'dead']++;
+        continue;
+      }
+
+      // Sent but not marked: it will be sent again, which idempotent consumers tolerate
+      const marked = await this.store.markDispatched(message.id, this.options.now());
+      if (marked.isFailure) {
+        return failure(marked.error);
+      }
+      report.dispatched++;
+    }
+
+    return success(report);
+  }
+
+  /**
+   * Polls the outbox every pollIntervalMs until stop() is called, logging
+   * the passes that fail. The timer does not keep the process alive.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedule();
+  }
+
+  /**
+   * Stops polling; resolves once the pass in progress, if any, is over,
+   * so the store can be closed after it
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.pass;
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => {
+      this.pass = this.poll().finally(() => {
+        this.pass = undefined;
+      });
+    }, this.options.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    const pass = await this.dispatchPending();
+    if (pass.isFailure) {
+      this.logger.error('Outbox pass failed', { error: pass.error });
+    }
+    if (this.running) {
+      this.schedule();
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { AnyDomainEvent } from '../../domain/events/index.js';
+import { OutboxMessage, OutboxMessageStatus, OutboxStore } from '../../application/ports/outbox.port.js';
+import { SqlExecutor } from '../database/sql-executor.js';
+import { Result, success, failure } from '../../shared/types/result.js';
+import { toOutboxMessage } from './outbox-message.js';
+
+interface OutboxRow {
+  id: string;
+  // BIGINT: node-postgres returns it as a string
+  sequence: string | number;
+  type: string;
+  aggregate_id: string;
+  payload: Record<string, unknown>;
+  occurred_at: Date;
+  status: OutboxMessageStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  dispatched_at: Date | null;
+  last_error: string | null;
+}
+
+// Written on insert; `sequence` comes from the column default
+const INSERTED_COLUMNS = [
+  'id', 'type', 'aggregate_id', 'payload', 'occurred_at', 'status', 'attempts', 'next_attempt_at', 'dispatched_at',
+  'last_error',
+];
+
+const COLUMNS = ['sequence', ...INSERTED_COLUMNS];
+
+const toError = (error: unknown): Error => error instanceof Error ? error : new Error(String(error));
+
+/**
+ * PostgresOutboxStore - Production Implementation
+ *
+ * Stores messages in the `outbox_messages` table (migrations 003 and 008),
+ * and the relay lease in `outbox_relay_lease` (migration 009).
+ * Repositories call appendIn() with their own transaction, so events are
+ * only stored if the change that produced them commits. Appending an event
+ * twice keeps the first copy.
+ */
+export class PostgresOutboxStore implements OutboxStore {
+  constructor(private readonly db: SqlExecutor) {}
+
+  async append(events: readonly AnyDomainEvent[]): Promise<Result<void, Error>> {
+    try {
+      await this.appendIn(this.db, events);
+      return success(undefined);
+    } catch (error) {
+      return failure(toError(error));
+    }
+  }
+
+  /**
+   * Inserts the events through `executor`, typically a transaction
+   *
+   * @throws the database error, for the caller to roll back
+   */
+  async appendIn(executor: SqlExecutor, events: readonly AnyDomainEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+    const values: unknown[] = [];
+    const tuples = events.map(toOutboxMessage).map(message => {
+      const row = [
+        message.id, message.type, message.aggregateId, JSON.stringify(message.payload), message.occurredAt,
+        message.status, message.attempts, message.nextAttemptAt, message.dispatchedAt, message.lastError,
+      ];
+      const placeholders = row.map((_, index) => `$${values.length + index + 1}`);
+      values.push(...row);
+      return `(${placeholders.join(', ')})`;
+    });
+    await executor.query(
+      `INSERT INTO outbox_messages (${INSERTED_COLUMNS.join(', ')}) VALUES ${tuples.join(', ')}
+       ON CONFLICT (id) DO NOTHING`,
+      values
+    );
+  }
+
+  async fetchDue(now: Date, limit: number): Promise<Result<OutboxMessage[], Error>> {
+    try {
+      // blocker: per aggregate, the first message that is dead or waiting for a retry
+      const { rows } = await this.db.query<OutboxRow>(
+        `SELECT ${COLUMNS.map(column => `message.${column}`).join(', ')}
+         FROM outbox_messages message
+         LEFT JOIN (
+           SELECT aggregate_id, MIN(sequence) AS sequence FROM outbox_messages
+           WHERE status = 'dead' OR (status = 'pending' AND next_attempt_at > $1)
+           GROUP BY aggregate_id
+         ) blocker ON blocker.aggregate_id = message.aggregate_id
+         WHERE message.status = 'pending' AND message.next_attempt_at <= $1
+           AND (blocker.sequence IS NULL OR message.sequence < blocker.sequence)
+         ORDER BY message.sequence
+         LIMIT $2`,
+        [now, limit]
+      );
+      return success(rows.map(PostgresOutboxStore.toMessage));
+    } catch (error) {
+      return failure(toError(error));
+    }
+  }
+
+  async markDispatched(id: string, at: Date): Promise<Result<void, Error>> {
+    return this.update(
+      `UPDATE outbox_messages SET status = 'dispatched', attempts = attempts + 1, dispatched_at = $2
+       WHERE id = $1`,
+      [id, at]
+    );
+  }
+
+  async markFailed(id: string, error: string, retryAt: Date | null): Promise<Result<void, Error>> {
+    const status: OutboxMessageStatus = retryAt ? 'pending' : 'dead';
+    return this.update(
+      `UPDATE outbox_messages
+       SET status = $2, attempts = attempts + 1, next_attempt_at = COALESCE($3, next_attempt_at), last_error = $4
+       WHERE id = $1`,
+      [id, status, retryAt, error]
+    );
+  }
+
+  // The row lock taken by UPDATE settles two relays asking at once
+  async acquireRelayLease(holder: string, now: Date, until: Date): Promise<Result<boolean, Error>> {
+    try {
+      const { rowCount } = await this.db.query(
+        `UPDATE outbox_relay_lease SET holder = $1, expires_at = $3
+         WHERE id = 1 AND (holder = $1 OR expires_at <= $2)`,
+        [holder, now, until]
+      );
+      return success(rowCount === 1);
+    } catch (error) {
+      return failure(toError(error));
+    }
+  }
+
+  private async update(sql: string, values: unknown[]): Promise<Result<void, Error>> {
+    try {
+      const { rowCount } = await this.db.query(sql, values);
+      return rowCount === 0 ? failure(new Error(`Unknown outbox message: ${values[0]}`)) : success(undefined);
+    } catch (error) {
+      return failure(toError(error));
+    }
+  }
+
+  private static toMessage(row: OutboxRow): OutboxMessage {
+    return {
+      id: row.id,
+      sequence: Number(row.sequence),
+      type: row.type,
+      aggregateId: row.aggregate_id,
+      payload: row.payload,
+      occurredAt: new Date(row.occurred_at),
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: new Date(row.next_attempt_at),
+      dispatchedAt: row.dispatched_at ? new Date(row.dispatched_at) : null,
+      lastError: row.last_error,
+    };
+  }
+}
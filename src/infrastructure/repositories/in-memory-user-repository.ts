@@ -0,0 +1,175 @@
+import { User } from '../../domain/entities/user.js';
+import { UserId } from '../../domain/value-objects/user-id.js';
+import { Email } from '../../domain/value-objects/email.js';
+import {
+  ConcurrencyConflictError,
+  DuplicateEmailError,
+  FindUserOptions,
+  UserRepository,
+} from '../../domain/repositories/user-repository.js';
+import {
+  Page,
+  UserCursor,
+  UserFilter,
+  UserQuery,
+  UserSort,
+  encodeUserCursor,
+  normalizeUserQuery,
+  sortValueOf,
+} from '../../domain/repositories/user-query.js';
+import { OutboxStore } from '../../application/ports/outbox.port.js';
+import { TransactionParticipant } from '../unit-of-work/in-memory-unit-of-work.js';
+import { Result, success, failure } from '../../shared/types/result.js';
+
+const compareStrings = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * InMemoryUserRepository - Test Double Implementation
+ *
+ * This adapter is used in UNIT TESTS and local development.
+ * It keeps users in a Map, keyed by id, and honours the full
+ * UserRepository contract:
+ * - Emails are unique across users, compared in canonical form
+ * - Soft-deleted users are hidden from reads, but keep their email
+ * - A user is only saved over the version it was loaded at
+ * - Stored and returned users are copies, so callers can never
+ *   mutate what the repository holds
+ * - With an outbox, the events recorded by a saved user are appended
+ *   to it; the user is only stored once they are
+ * - Its changes are undone when an InMemoryUnitOfWork rolls back
+ */
+export class InMemoryUserRepository implements UserRepository, TransactionParticipant {
+  private readonly users = new Map<string, User>();
+
+  constructor(private readonly outbox?: OutboxStore) {}
+
+  async save(user: User): Promise<Result<User, Error>> {
+    const stored = this.users.get(user.id.getValue());
+    if ((stored?.version ?? 0) !== user.persistedVersion) {
+      return failure(new ConcurrencyConflictError(user.id.getValue(), user.persistedVersion, stored?.version ?? null));
+    }
+
+    const owner = this.findOwnerOf(user.email);
+    if (owner && !owner.id.equals(user.id)) {
+      return failure(new DuplicateEmailError(user.email.getValue()));
+    }
+
+    if (this.outbox) {
+      const appended = await this.outbox.append(user.peekDomainEvents());
+      if (appended.isFailure) {
+        return failure(appended.error);
+      }
+    }
+
+    this.users.set(user.id.getValue(), InMemoryUserRepository.copy(user));
+    return success(InMemoryUserRepository.copy(user));
+  }
+
+  async findById(id: UserId, options?: FindUserOptions): Promise<Result<User | null, Error>> {
+    const user = InMemoryUserRepository.visible(this.users.get(id.getValue()), options);
+    return success(user ? InMemoryUserRepository.copy(user) : null);
+  }
+
+  async findByEmail(email: Email, options?: FindUserOptions): Promise<Result<User | null, Error>> {
+    const user = InMemoryUserRepository.visible(this.findOwnerOf(email), options);
+    return success(user ? InMemoryUserRepository.copy(user) : null);
+  }
+
+  async findAll(query?: UserQuery): Promise<Result<Page<User>, Error>> {
+    const normalized = normalizeUserQuery(query);
+    if (normalized.isFailure) {
+      return failure(normalized.error);
+    }
+    const { filter, sort, limit, offset, after } = normalized.value;
+
+    const matching = [...this.users.values()]
+      .filter(user => InMemoryUserRepository.matches(user, filter))
+      .sort((a, b) => InMemoryUserRepository.compare(a, sortValueOf(b, sort.key), b.id.getValue(), sort));
+    const start = after
+      ? matching.filter(user => InMemoryUserRepository.compare(user, after.value, after.id, sort) <= 0).length
+      : offset;
+    const items = matching.slice(start, start + limit);
+    const hasMore = start + limit < matching.length;
+
+    return success({
+      items: items.map(InMemoryUserRepository.copy),
+      total: matching.length,
+      nextCursor: hasMore ? encodeUserCursor(items[items.length - 1], sort) : null,
+    });
+  }
+
+  async delete(id: UserId): Promise<Result<void, Error>> {
+    this.users.delete(id.getValue());
+    return success(undefined);
+  }
+
+  async purge(deletedBefore: Date): Promise<Result<number, Error>> {
+    let purged = 0;
+    for (const [id, user] of this.users) {
+      if (user.deletedAt && user.deletedAt < deletedBefore) {
+        this.users.delete(id);
+        purged++;
+      }
+    }
+    return success(purged);
+  }
+
+  async exists(id: UserId, options?: FindUserOptions): Promise<Result<boolean, Error>> {
+    return success(InMemoryUserRepository.visible(this.users.get(id.getValue()), options) !== undefined);
+  }
+
+  snapshot(): () => void {
+    const users = new Map(this.users);
+    return () => {
+      this.users.clear();
+      users.forEach((user, id) => this.users.set(id, user));
+    };
+  }
+
+  private findOwnerOf(email: Email): User | undefined {
+    for (const user of this.users.values()) {
+      if (user.email.isSameMailboxAs(email)) {
+        return user;
+      }
+    }
+    return undefined;
+  }
+
+  private static visible(user: User | undefined, options?: FindUserOptions): User | undefined {
+    return user?.status === 'deleted' && !options?.includeDeleted ? undefined : user;
+  }
+
+  private static matches(user: User, filter: UserFilter): boolean {
+    const inRange = (date: Date, range?: { from?: Date; to?: Date }) =>
+      (!range?.from || date >= range.from) && (!range?.to || date < range.to);
+
+    return (filter.status ? user.status === filter.status : user.status !== 'deleted') &&
+      (!filter.emailDomain || user.email.getDomain() === filter.emailDomain) &&
+      (!filter.namePrefix || user.name.getValue().toLowerCase().startsWith(filter.namePrefix)) &&
+      inRange(user.createdAt, filter.createdAt) &&
+      inRange(user.updatedAt, filter.updatedAt);
+  }
+
+  // Orders `user` against the position (value, id): by sort value, then by id
+  private static compare(user: User, value: string, id: UserCursor['id'], sort: UserSort): number {
+    const own = sortValueOf(user, sort.key);
+    const order = own === value ? compareStrings(user.id.getValue(), id) : compareStrings(own, value);
+    return sort.direction === 'asc' ? order : -order;
+  }
+
+  // Value objects are immutable, but Date is not: clone the timestamps
+  private static copy(user: User): User {
+    return User.reconstitute({
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      createdAt: new Date(user.createdAt.getTime()),
+      updatedAt: new Date(user.updatedAt.getTime()),
+      version: user.version,
+      status: user.status,
+      suspensionReason: user.suspensionReason,
+      deletedAt: user.deletedAt && new Date(user.deletedAt.getTime()),
+      emailVerifiedAt: user.emailVerifiedAt && new Date(user.emailVerifiedAt.getTime()),
+    });
+  }
+}
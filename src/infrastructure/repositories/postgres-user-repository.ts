@@ -0,0 +1,346 @@
+import { User } from '../../domain/entities/user.js';
+import { UserId } from '../../domain/value-objects/user-id.js';
+import { Email } from '../../domain/value-objects/email.js';
+import { NameOrder, UserName } from '../../domain/value-objects/user-name.js';
+import { UserStatus } from '../../domain/value-objects/user-status.js';
+import {
+  ConcurrencyConflictError,
+  DuplicateEmailError,
+  FindUserOptions,
+  UserRepository,
+} from '../../domain/repositories/user-repository.js';
+import {
+  NormalizedUserQuery,
+  Page,
+  UserQuery,
+  UserSortKey,
+  encodeUserCursor,
+  normalizeUserQuery,
+} from '../../domain/repositories/user-query.js';
+import { SqlExecutor, isUniqueViolation, withinTransaction } from '../database/sql-executor.js';
+import { PostgresOutboxStore } from '../outbox/postgres-outbox-store.js';
+import { Result, success, failure } from '../../shared/types/result.js';
+
+interface UserRow {
+  id: string;
+  email: string;
+  name: string;
+  // NULL for users saved before names had parts (migration 007)
+  name_given: string | null;
+  name_family: string | null;
+  name_order: NameOrder | null;
+  created_at: Date;
+  updated_at: Date;
+  version: number;
+  status: UserStatus;
+  suspension_reason: string | null;
+  deleted_at: Date | null;
+  email_verified_at: Date | null;
+}
+
+const COLUMNS = [
+  'id', 'email', 'name', 'name_given', 'name_family', 'name_order', 'created_at', 'updated_at', 'version',
+  'status', 'suspension_reason', 'deleted_at', 'email_verified_at',
+].join(', ');
+
+// Appended to reads that leave soft-deleted users out
+const NOT_DELETED = "status <> 'deleted'";
+
+// Must order rows exactly like sortValueOf() orders users
+const SORT_EXPRESSIONS: Record<UserSortKey, string> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  name: 'lower(name)',
+};
+
+/**
+ * SQL conditions with numbered placeholders, and their values
+ */
+class Conditions {
+  readonly clauses: string[] = [];
+  readonly values: unknown[] = [];
+
+  add(clause: (...placeholders: string[]) => string, ...values: unknown[]): void {
+    const placeholders = values.map((_, index) => `$${this.values.length + index + 1}`);
+    this.values.push(...values);
+    this.clauses.push(clause(...placeholders));
+  }
+
+  get where(): string {
+    return this.clauses.length > 0 ? `WHERE ${this.clauses.join(' AND ')}` : '';
+  }
+}
+
+/**
+ * PostgresUserRepository - Production Implementation
+ *
+ * Persists users in the `users` table created by the migrations in
+ * `infrastructure/database/migrations`. Run `migrate()` before use.
+ *
+ * Database errors never escape as exceptions: they come back as
+ * Failure results, and a violation of the unique email index becomes
+ * a DuplicateEmailError, exactly like the in-memory adapter. Emails are
+ * unique and looked up in canonical form (`email_canonical`). Rows are
+ * only written over the version the user was loaded at (`version`).
+ * Soft-deleted rows stay in the table, keeping their email, until purged.
+ *
+ * With an outbox, save() writes the user and the events it recorded in
+ * one transaction. Give it a PostgresUnitOfWork as `db` to take part in
+ * the caller's transactions.
+ */
+export class PostgresUserRepository implements UserRepository {
+  constructor(
+    private readonly db: SqlExecutor,
+    private readonly outbox?: PostgresOutboxStore
+  ) {}
+
+  async save(user: User): Promise<Result<User, Error>> {
+    const events = user.peekDomainEvents();
+    const write = async (executor: SqlExecutor): Promise<UserRow> => {
+      const rows = user.persistedVersion === 0
+        ? await PostgresUserRepository.insert(executor, user)
+        : await PostgresUserRepository.update(executor, user);
+      if (rows.length === 0) {
+        const { rows: stored } = await executor.query<{ version: number }>(
+          'SELECT version FROM users WHERE id = $1',
+          [user.id.getValue()]
+        );
+        throw new ConcurrencyConflictError(user.id.getValue(), user.persistedVersion, stored[0]?.version ?? null);
+      }
+      await this.outbox?.appendIn(executor, events);
+      return rows[0];
+    };
+
+    try {
+      const row = this.outbox && events.length > 0
+        ? await withinTransaction(this.db, write)
+        : await write(this.db);
+      return success(PostgresUserRepository.toDomain(row));
+    } catch (error) {
+      if (error instanceof ConcurrencyConflictError) {
+        return failure(error);
+      }
+      if (isUniqueViolation(error)) {
+        return failure(new DuplicateEmailError(user.email.getValue()));
+      }
+      return failure(PostgresUserRepository.toError(error));
+    }
+  }
+
+  async findById(id: UserId, options?: FindUserOptions): Promise<Result<User | null, Error>> {
+    return this.findOne(
+      `SELECT ${COLUMNS} FROM users WHERE id = $1${PostgresUserRepository.visible(options)}`,
+      [id.getValue()]
+    );
+  }
+
+  async findByEmail(email: Email, options?: FindUserOptions): Promise<Result<User | null, Error>> {
+    return this.findOne(
+      `SELECT ${COLUMNS} FROM users WHERE email_canonical = $1${PostgresUserRepository.visible(options)}`,
+      [email.getCanonicalValue()]
+    );
+  }
+
+  async findAll(query?: UserQuery): Promise<Result<Page<User>, Error>> {
+    const normalized = normalizeUserQuery(query);
+    if (normalized.isFailure) {
+      return failure(normalized.error);
+    }
+    const { sort, limit, offset, after } = normalized.value;
+
+    const conditions = PostgresUserRepository.filterConditions(normalized.value);
+    const sortBy = SORT_EXPRESSIONS[sort.key];
+    const direction = sort.direction === 'asc' ? 'ASC' : 'DESC';
+
+    try {
+      const { rows: [{ total }] } = await this.db.query<{ total: number }>(
+        `SELECT count(*)::int AS total FROM users ${conditions.where}`,
+        conditions.values
+      );
+
+      if (after) {
+        const operator = sort.direction === 'asc' ? '>' : '<';
+        const value = sort.key === 'name' ? after.value : new Date(after.value);
+        conditions.add(
+          ($value, $id) => `(${sortBy} ${operator} ${$value} OR (${sortBy} = ${$value} AND id ${operator} ${$id}))`,
+          value,
+          after.id
+        );
+      }
+      // One row more than asked tells whether there is a next page
+      const { rows } = await this.db.query<UserRow>(
+        `SELECT ${COLUMNS} FROM users ${conditions.where}
+         ORDER BY ${sortBy} ${direction}, id ${direction}
+         LIMIT ${limit + 1} OFFSET ${offset}`,
+        conditions.values
+      );
+
+      const items = rows.slice(0, limit).map(PostgresUserRepository.toDomain);
+      return success({
+        items,
+        total,
+        nextCursor: rows.length > limit ? encodeUserCursor(items[items.length - 1], sort) : null,
+      });
+    } catch (error) {
+      return failure(PostgresUserRepository.toError(error));
+    }
+  }
+
+  async delete(id: UserId): Promise<Result<void, Error>> {
+    try {
+      await this.db.query('DELETE FROM users WHERE id = $1', [id.getValue()]);
+      return success(undefined);
+    } catch (error) {
+      return failure(PostgresUserRepository.toError(error));
+    }
+  }
+
+  async purge(deletedBefore: Date): Promise<Result<number, Error>> {
+    try {
+      const { rowCount } = await this.db.query(
+        "DELETE FROM users WHERE status = 'deleted' AND deleted_at < $1",
+        [deletedBefore]
+      );
+      return success(rowCount ?? 0);
+    } catch (error) {
+      return failure(PostgresUserRepository.toError(error));
+    }
+  }
+
+  async exists(id: UserId, options?: FindUserOptions): Promise<Result<boolean, Error>> {
+    try {
+      const { rows } = await this.db.query(
+        `SELECT 1 FROM users WHERE id = $1${PostgresUserRepository.visible(options)}`,
+        [id.getValue()]
+      );
+      return success(rows.length > 0);
+    } catch (error) {
+      return failure(PostgresUserRepository.toError(error));
+    }
+  }
+
+  private async findOne(sql: string, values: unknown[]): Promise<Result<User | null, Error>> {
+    try {
+      const { rows } = await this.db.query<UserRow>(sql, values);
+      return success(rows.length > 0 ? PostgresUserRepository.toDomain(rows[0]) : null);
+    } catch (error) {
+      return failure(PostgresUserRepository.toError(error));
+    }
+  }
+
+  private static visible(options?: FindUserOptions): string {
+    return options?.includeDeleted ? '' : ` AND ${NOT_DELETED}`;
+  }
+
+  private static filterConditions({ filter }: NormalizedUserQuery): Conditions {
+    const conditions = new Conditions();
+    if (filter.status) {
+      conditions.add($status => `status = ${$status}`, filter.status);
+    } else {
+      conditions.add(() => NOT_DELETED);
+    }
+    if (filter.emailDomain) {
+      // Valid domains never contain the LIKE wildcards % and _
+      conditions.add($pattern => `email LIKE ${$pattern}`, `%@${filter.emailDomain}`);
+    }
+    if (filter.namePrefix) {
+      conditions.add(
+        ($length, $prefix) => `substring(lower(name) from 1 for ${$length}) = ${$prefix}`,
+        [...filter.namePrefix].length,
+        filter.namePrefix
+      );
+    }
+    for (const [column, range] of [['created_at', filter.createdAt], ['updated_at', filter.updatedAt]] as const) {
+      if (range?.from) {
+        conditions.add($from => `${column} >= ${$from}`, range.from);
+      }
+      if (range?.to) {
+        conditions.add($to => `${column} < ${$to}`, range.to);
+      }
+    }
+    return conditions;
+  }
+
+  // Nothing is inserted when the id is taken: saving the same new user twice is a conflict.
+  // The casts type the parameters, which INSERT ... SELECT does not infer from the columns
+  private static async insert(executor: SqlExecutor, user: User): Promise<UserRow[]> {
+    const row = PostgresUserRepository.toRow(user);
+    const { rows } = await executor.query<UserRow>(
+      `INSERT INTO users (${COLUMNS}, email_canonical)
+       SELECT $1::uuid, $2, $3, $4, $5, $6, $7::timestamptz, $8::timestamptz, $9::integer,
+              $10, $11, $12::timestamptz, $13::timestamptz, $14
+       WHERE NOT EXISTS (SELECT 1 FROM users WHERE id = $1)
+       RETURNING ${COLUMNS}`,
+      [
+        row.id, row.email, row.name, row.name_given, row.name_family, row.name_order,
+        row.created_at, row.updated_at, row.version,
+        row.status, row.suspension_reason, row.deleted_at, row.email_verified_at, user.email.getCanonicalValue(),
+      ]
+    );
+    return rows;
+  }
+
+  // Nothing is updated when the stored version is not the one the user was loaded at
+  private static async update(executor: SqlExecutor, user: User): Promise<UserRow[]> {
+    const row = PostgresUserRepository.toRow(user);
+    const { rows } = await executor.query<UserRow>(
+      `UPDATE users
+       SET email = $2, email_canonical = $3, name = $4, name_given = $5, name_family = $6, name_order = $7,
+           updated_at = $8, version = $9,
+           status = $10, suspension_reason = $11, deleted_at = $12, email_verified_at = $13
+       WHERE id = $1 AND version = $14
+       RETURNING ${COLUMNS}`,
+      [
+        row.id, row.email, user.email.getCanonicalValue(), row.name, row.name_given, row.name_family, row.name_order,
+        row.updated_at, row.version,
+        row.status, row.suspension_reason, row.deleted_at, row.email_verified_at, user.persistedVersion,
+      ]
+    );
+    return rows;
+  }
+
+  private static toRow(user: User): UserRow {
+    const json = user.toJSON();
+    return {
+      id: json.id,
+      email: json.email,
+      name: json.name,
+      name_given: user.name.getGivenName(),
+      name_family: user.name.getFamilyName(),
+      name_order: user.name.getOrder(),
+      created_at: new Date(json.createdAt),
+      updated_at: new Date(json.updatedAt),
+      version: json.version,
+      status: json.status,
+      suspension_reason: json.suspensionReason,
+      deleted_at: json.deletedAt === null ? null : new Date(json.deletedAt),
+      email_verified_at: json.emailVerifiedAt === null ? null : new Date(json.emailVerifiedAt),
+    };
+  }
+
+  private static toDomain(row: UserRow): User {
+    return User.reconstitute({
+      id: UserId.create(row.id),
+      // Stored addresses are not validated again: the parser may have become stricter since
+      email: Email.reconstitute(row.email),
+      name: PostgresUserRepository.nameOf(row),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      version: row.version,
+      status: row.status,
+      suspensionReason: row.suspension_reason ?? undefined,
+      deletedAt: row.deleted_at === null ? undefined : new Date(row.deleted_at),
+      emailVerifiedAt: row.email_verified_at === null ? undefined : new Date(row.email_verified_at),
+    });
+  }
+
+  private static nameOf(row: UserRow): UserName {
+    return row.name_given === null || row.name_order === null
+      ? UserName.create(row.name)
+      : UserName.fromParts({ given: row.name_given, family: row.name_family ?? '', order: row.name_order });
+  }
+
+  private static toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+}
@@ -0,0 +1,79 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before letting a trial call through
+  resetTimeoutMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+};
+
+/**
+ * Circuit breaker
+ *
+ * - closed: calls go through; consecutive failures are counted
+ * - open: calls are refused until resetTimeoutMs has elapsed
+ * - half-open: a single trial call goes through, the others are refused
+ *   until it is reported; its success closes the circuit, its failure
+ *   opens it for another resetTimeoutMs
+ *
+ * The breaker does not run anything itself: callers ask `allowRequest()`
+ * and report the outcome with `recordSuccess()` / `recordFailure()`.
+ * A trial call never reported stops counting after resetTimeoutMs, and
+ * another one is let through.
+ */
+export class CircuitBreaker {
+  private readonly options: CircuitBreakerOptions;
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  // When the half-open trial call was let through
+  private trialStartedAt: number | null = null;
+
+  constructor(
+    options: Partial<CircuitBreakerOptions> = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return this.now() - this.openedAt >= this.options.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  allowRequest(): boolean {
+    const state = this.state;
+    if (state !== 'half-open') {
+      return state === 'closed';
+    }
+    if (this.trialStartedAt !== null && this.now() - this.trialStartedAt < this.options.resetTimeoutMs) {
+      return false;
+    }
+    this.trialStartedAt = this.now();
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialStartedAt = null;
+  }
+
+  recordFailure(): void {
+    if (this.state === 'half-open') {
+      this.openedAt = this.now();
+      this.trialStartedAt = null;
+      return;
+    }
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+}
@@ -0,0 +1,50 @@
+export interface RetryOptions {
+  // Attempts after the first one (0 disables retrying)
+  retries: number;
+  initialDelayMs: number;
+  factor: number;
+  maxDelayMs: number;
+  // Decides whether an error is worth another attempt
+  shouldRetry: (error: unknown) => boolean;
+  sleep: (ms: number) => Promise<void>;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  initialDelayMs: 100,
+  factor: 2,
+  maxDelayMs: 1000,
+  shouldRetry: () => true,
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+/**
+ * Delay before retry number `attempt` (1-based): initialDelayMs, then
+ * multiplied by `factor` each time, capped at maxDelayMs.
+ */
+export const backoffDelay = (attempt: number, options: Pick<RetryOptions, 'initialDelayMs' | 'factor' | 'maxDelayMs'>): number =>
+  Math.min(options.initialDelayMs * Math.pow(options.factor, attempt - 1), options.maxDelayMs);
+
+/**
+ * Runs `operation` until it resolves, retrying with exponential backoff.
+ *
+ * @throws the last error once retries are exhausted, or the first error
+ * that `shouldRetry` rejects
+ */
+export async function retry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: Partial<RetryOptions> = {}
+): Promise<T> {
+  const settings = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= settings.retries || !settings.shouldRetry(error)) {
+        throw error;
+      }
+      await settings.sleep(backoffDelay(attempt + 1, settings));
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import {
+  InvalidVerificationTokenError,
+  IssuedVerificationToken,
+  VerificationClaims,
+  VerificationTokenPort,
+} from '../../application/ports/verification-token.port.js';
+import { Result, success, failure } from '../../shared/types/result.js';
+import { ClockPort, SYSTEM_CLOCK } from '../../domain/ports/clock.port.js';
+
+export const MIN_SECRET_LENGTH = 32;
+
+export interface HmacVerificationTokenOptions {
+  // How long a token stays valid (default 24 hours)
+  ttlMs?: number;
+  // Expiry dates are computed and checked against it (default the system clock)
+  clock?: ClockPort;
+}
+
+// Signed along with the claims, so a token issued for anything else never verifies
+const PURPOSE = 'email-verification';
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * HmacVerificationTokenService - Production Implementation
+ *
+ * A token is `<claims>.<signature>`, both base64url: the claims are
+ * readable by anyone but cannot be changed without the secret
+ * (HMAC-SHA256). Signatures are compared in constant time.
+ *
+ * Rotating the secret invalidates every token issued before.
+ */
+export class HmacVerificationTokenService implements VerificationTokenPort {
+  private readonly ttlMs: number;
+  private readonly clock: ClockPort;
+
+  constructor(private readonly secret: string, options: HmacVerificationTokenOptions = {}) {
+    if (secret.length < MIN_SECRET_LENGTH) {
+      throw new Error(`The verification token secret must be at least ${MIN_SECRET_LENGTH} characters long`);
+    }
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.clock = options.clock ?? SYSTEM_CLOCK;
+  }
+
+  issue(userId: string, email: string): IssuedVerificationToken {
+    const expiresAt = new Date(this.clock.now().getTime() + this.ttlMs);
+    const claims = Buffer.from(JSON.stringify([PURPOSE, userId, email, expiresAt.getTime()])).toString('base64url');
+    return { token: `${claims}.${this.sign(claims)}`, expiresAt };
+  }
+
+  verify(token: string): Result<VerificationClaims, InvalidVerificationTokenError> {
+    const parts = typeof token === 'string' ? token.split('.') : [];
+    if (parts.length !== 2 || parts.some(part => part.length === 0)) {
+      return failure(new InvalidVerificationTokenError('malformed'));
+    }
+    const [claims, signature] = parts;
+
+    const expected = Buffer.from(this.sign(claims), 'base64url');
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return failure(new InvalidVerificationTokenError('invalid-signature'));
+    }
+
+    const decoded = HmacVerificationTokenService.decode(claims);
+    if (decoded === null) {
+      return failure(new InvalidVerificationTokenError('malformed'));
+    }
+    if (decoded.expiresAt.getTime() <= this.clock.now().getTime()) {
+      return failure(new InvalidVerificationTokenError('expired'));
+    }
+    return success(decoded);
+  }
+
+  private sign(claims: string): string {
+    return createHmac('sha256', this.secret).update(claims).digest('base64url');
+  }
+
+  private static decode(claims: string): VerificationClaims | null {
+    try {
+      const decoded: unknown = JSON.parse(Buffer.from(claims, 'base64url').toString('utf8'));
+      if (!Array.isArray(decoded) || decoded.length !== 4) {
+        return null;
+      }
+      const [purpose, userId, email, expiresAt] = decoded as unknown[];
+      if (purpose !== PURPOSE || typeof userId !== 'string' || typeof email !== 'string' ||
+        typeof expiresAt !== 'number') {
+        return null;
+      }
+      return { userId, email, expiresAt: new Date(expiresAt) };
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { ClockPort } from '../../domain/ports/clock.port.js';
+
+/**
+ * FixedClock - Test Double Implementation
+ *
+ * Always tells the same time, until moved with set() or advance().
+ */
+export class FixedClock implements ClockPort {
+  private current: Date;
+
+  constructor(at: Date | string) {
+    this.current = new Date(at);
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(at: Date | string): void {
+    this.current = new Date(at);
+  }
+
+  advance(ms: number): void {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+}
@@ -0,0 +1,21 @@
+import { ClockPort } from '../../domain/ports/clock.port.js';
+
+/**
+ * SteppingClock - Test Double Implementation
+ *
+ * Starts at `start` and moves forward by `stepMs` after every reading, so
+ * two successive timestamps always differ, by a known amount.
+ */
+export class SteppingClock implements ClockPort {
+  private next: number;
+
+  constructor(start: Date | string, private readonly stepMs = 1000) {
+    this.next = new Date(start).getTime();
+  }
+
+  now(): Date {
+    const now = new Date(this.next);
+    this.next += this.stepMs;
+    return now;
+  }
+}
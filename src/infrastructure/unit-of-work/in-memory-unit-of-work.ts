@@ -0,0 +1,56 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { UnitOfWork } from '../../application/ports/unit-of-work.port.js';
+import { Result, failure } from '../../shared/types/result.js';
+
+/**
+ * An in-memory store that can be put back the way it was
+ */
+export interface TransactionParticipant {
+  /**
+   * Captures the current state
+   *
+   * @returns a function restoring it
+   */
+  snapshot(): () => void;
+}
+
+/**
+ * InMemoryUnitOfWork - Test Double Implementation
+ *
+ * Snapshots every participant when a transaction starts and restores them
+ * on rollback. Transactions run one at a time, but are not isolated from
+ * writes made outside runInTransaction(): a rollback undoes those too.
+ */
+export class InMemoryUnitOfWork implements UnitOfWork {
+  private readonly context = new AsyncLocalStorage<true>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly participants: readonly TransactionParticipant[]) {}
+
+  async runInTransaction<T, E>(work: () => PromiseLike<Result<T, E>>): Promise<Result<T, E | Error>> {
+    if (this.context.getStore()) {
+      return this.attempt(work);
+    }
+
+    const transaction = this.queue.then(() => this.context.run(true, () => this.execute(work)));
+    this.queue = transaction.catch(() => undefined);
+    return transaction;
+  }
+
+  private async execute<T, E>(work: () => PromiseLike<Result<T, E>>): Promise<Result<T, E | Error>> {
+    const restores = this.participants.map(participant => participant.snapshot());
+    const result = await this.attempt(work);
+    if (result.isFailure) {
+      restores.forEach(restore => restore());
+    }
+    return result;
+  }
+
+  private async attempt<T, E>(work: () => PromiseLike<Result<T, E>>): Promise<Result<T, E | Error>> {
+    try {
+      return await work();
+    } catch (error) {
+      return failure(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { QueryResult, QueryResultRow } from 'pg';
+import { UnitOfWork } from '../../application/ports/unit-of-work.port.js';
+import {
+  SqlExecutor,
+  SqlPool,
+  TransactionalSqlExecutor,
+  inTransaction,
+} from '../database/sql-executor.js';
+import { Failure, Result, failure } from '../../shared/types/result.js';
+
+// Carries a Failure out of inTransaction(), which rolls back on throw
+class Rollback<E> extends Error {
+  constructor(readonly result: Failure<E, never>) {
+    super('Transaction rolled back');
+  }
+}
+
+/**
+ * PostgresUnitOfWork - Production Implementation
+ *
+ * Also the SqlExecutor to give repositories: a statement goes through the
+ * connection of the transaction its caller is in (tracked per async call
+ * chain), or through the pool outside of any transaction.
+ *
+ * @example
+ * const unitOfWork = new PostgresUnitOfWork(pool);
+ * const users = new PostgresUserRepository(unitOfWork, new PostgresOutboxStore(unitOfWork));
+ */
+export class PostgresUnitOfWork implements UnitOfWork, TransactionalSqlExecutor {
+  private readonly context = new AsyncLocalStorage<SqlExecutor>();
+
+  constructor(private readonly pool: SqlPool) {}
+
+  query<R extends QueryResultRow = QueryResultRow>(text: string, values?: unknown[]): Promise<QueryResult<R>> {
+    return (this.context.getStore() ?? this.pool).query<R>(text, values);
+  }
+
+  transaction<T>(work: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+    const current = this.context.getStore();
+    if (current) {
+      return work(current);
+    }
+    return inTransaction(this.pool, tx => this.context.run(tx, () => work(tx)));
+  }
+
+  async runInTransaction<T, E>(work: () => PromiseLike<Result<T, E>>): Promise<Result<T, E | Error>> {
+    try {
+      return await this.transaction(async () => {
+        const result = await work();
+        if (result.isFailure) {
+          throw new Rollback(failure(result.error));
+        }
+        return result;
+      });
+    } catch (error) {
+      if (error instanceof Rollback) {
+        return (error as Rollback<E>).result;
+      }
+      return failure(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { inject, injectable } from 'tsyringe';
+import { CreateUserUseCase } from '../../application/use-cases/create-user.use-case.js';
+import { GetUserUseCase } from '../../application/use-cases/get-user.use-case.js';
+import { UpdateUserUseCase } from '../../application/use-cases/update-user.use-case.js';
+import { DeleteUserUseCase } from '../../application/use-cases/delete-user.use-case.js';
+import { ListUsersUseCase } from '../../application/use-cases/list-users.use-case.js';
+import {
+  ChangeUserStatusUseCase,
+  UserStatusChange,
+} from '../../application/use-cases/change-user-status.use-case.js';
+import { RequestEmailVerificationUseCase } from '../../application/use-cases/request-email-verification.use-case.js';
+import { ConfirmEmailUseCase } from '../../application/use-cases/confirm-email.use-case.js';
+import {
+  ConfirmEmailBodySchema,
+  CreateUserBodySchema,
+  EmailVerificationResponseSchema,
+  FindUsersQuerySchema,
+  IfMatchHeaderSchema,
+  ListUsersQuerySchema,
+  SuspendUserBodySchema,
+  UpdateUserBodySchema,
+  UserListResponse,
+  UserListResponseSchema,
+  UserParamsSchema,
+  UserResponseSchema,
+  toETag,
+} from '../schemas/user.schemas.js';
+import { sendUseCaseError } from '../middlewares/error-handler.js';
+
+/**
+ * UserController - HTTP Adapter
+ *
+ * Parses requests with the Zod schemas, delegates to the use cases and
+ * turns their Results into HTTP responses. No business rules live here.
+ */
+@injectable()
+export class UserController {
+  constructor(
+    @inject(CreateUserUseCase) private readonly createUser: CreateUserUseCase,
+    @inject(GetUserUseCase) private readonly getUser: GetUserUseCase,
+    @inject(UpdateUserUseCase) private readonly updateUser: UpdateUserUseCase,
+    @inject(DeleteUserUseCase) private readonly deleteUser: DeleteUserUseCase,
+    @inject(ListUsersUseCase) private readonly listUsers: ListUsersUseCase,
+    @inject(ChangeUserStatusUseCase) private readonly changeUserStatus: ChangeUserStatusUseCase,
+    @inject(RequestEmailVerificationUseCase) private readonly requestEmailVerification: RequestEmailVerificationUseCase,
+    @inject(ConfirmEmailUseCase) private readonly confirmEmail: ConfirmEmailUseCase
+  ) {}
+
+  async create(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    const body = CreateUserBodySchema.parse(request.body);
+
+    const result = await this.createUser.execute(body);
+    if (result.isFailure) {
+      return sendUseCaseError(reply, result.error);
+    }
+
+    return reply
+      .status(201)
+      .header('location', `/users/${result.value.id}`)
+      .header('etag', toETag(result.value.version))
+      .send(UserResponseSchema.parse(result.value));
+  }
+
+  async getById(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    const { id } = UserParamsSchema.parse(request.params);
+
+    const result = await this.getUser.execute({ id });
+    if (result.isFailure) {
+      return sendUseCaseError(reply, result.error);
+    }
+
+    return reply.header('etag', toETag(result.value.version)).send(UserResponseSchema.parse(result.value));
+  }
+
+  // GET /users?email= looks one mailbox up and takes no other parameter;
+  // any other query lists users page by page
+  async find(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    const query = (request.query ?? {}) as Record<string, unknown>;
+    return 'email' in query ? this.findByEmail(query, reply) : this.list(query, reply);
+  }
+
+  private async findByEmail(query: unknown, reply: FastifyReply): Promise<FastifyReply> {
+    const { email } = FindUsersQuerySchema.parse(query);
+
+    const result = await this.getUser.execute({ email });
+    if (result.isFailure && result.error.code !== 'USER_NOT_FOUND') {
+      return sendUseCaseError(reply, result.error);
+    }
+
+    const items = result.isSuccess ? [result.value] : [];
+    const body: UserListResponse = { items, total: items.length, nextCursor: null };
+    return reply.send(UserListResponseSchema.parse(body));
+  }
+
+  private async list(query: unknown, reply: FastifyReply): Promise<FastifyReply> {
+    const result = await this.listUsers.execute(ListUsersQuerySchema.parse(query));
+    if (result.isFailure) {
+      return sendUseCaseError(reply, result.error);
+    }
+
+    return reply.send(UserListResponseSchema.parse(result.value));
+  }
+
+  async update(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    const { id } = UserParamsSchema.parse(request.params);
+    const body = UpdateUserBodySchema.parse(request.body);
+    const expectedVersion = IfMatchHeaderSchema.parse(request.headers['if-match']);
+
+    const result = await this.updateUser.execute({ id, ...body, expectedVersion });
+    if (result.isFailure) {
+      return sendUseCaseError(reply, result.error);
+    }
+
+    return reply.header('etag', toETag(result.value.version)).send(UserResponseSchema.parse(result.value));
+  }
+
+  async activate(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    return this.changeStatus(request, reply, { transition: 'activate' });
+  }
+
+  async suspend(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    const { reason } = SuspendUserBodySchema.parse(request.body);
+    return this.changeStatus(request, reply, { transition: 'suspend', reason });
+  }
+
+  async reactivate(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    return this.changeStatus(request, reply, { transition: 'reactivate' });
+  }
+
+  private async changeStatus(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    change: UserStatusChange
+  ): Promise<FastifyReply> {
+    const { id } = UserParamsSchema.parse(request.params);
+    const expectedVersion = IfMatchHeaderSchema.parse(request.headers['if-match']);
+
+    const result = await this.changeUserStatus.execute({ id, expectedVersion, ...change });
+    if (result.isFailure) {
+      return sendUseCaseError(reply, result.error);
+    }
+
+    return reply.header('etag', toETag(result.value.version)).send(UserResponseSchema.parse(result.value));
+  }
+
+  async sendVerificationEmail(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    const { id } = UserParamsSchema.parse(request.params);
+
+    const result = await this.requestEmailVerification.execute({ id });
+    if (result.isFailure) {
+      return sendUseCaseError(reply, result.error);
+    }
+
+    return reply.status(202).send(EmailVerificationResponseSchema.parse(result.value));
+  }
+
+  async verifyEmail(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    const { token } = ConfirmEmailBodySchema.parse(request.body);
+
+    const result = await this.confirmEmail.execute({ token });
+    if (result.isFailure) {
+      return sendUseCaseError(reply, result.error);
+    }
+
+    return reply.header('etag', toETag(result.value.version)).send(UserResponseSchema.parse(result.value));
+  }
+
+  async delete(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> {
+    const { id } = UserParamsSchema.parse(request.params);
+    const expectedVersion = IfMatchHeaderSchema.parse(request.headers['if-match']);
+
+    const result = await this.deleteUser.execute({ id, expectedVersion });
+    if (result.isFailure) {
+      return sendUseCaseError(reply, result.error);
+    }
+
+    return reply.status(204).send();
+  }
+}
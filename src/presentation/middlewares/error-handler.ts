@@ -0,0 +1,74 @@
+import { FastifyError, FastifyReply, FastifyRequest } from 'fastify';
+import { ZodError } from 'zod';
+import { UseCaseError, UseCaseErrorCode } from '../../application/errors/use-case-error.js';
+import { LoggerPort } from '../../application/ports/logger.port.js';
+import { TOKENS } from '../../shared/container.js';
+import { ErrorResponse } from '../schemas/user.schemas.js';
+
+const STATUS_BY_CODE: Record<UseCaseErrorCode, number> = {
+  VALIDATION_ERROR: 422,
+  EMAIL_BLOCKED: 422,
+  EMAIL_ALREADY_IN_USE: 409,
+  USER_NOT_FOUND: 404,
+  CONCURRENCY_CONFLICT: 409,
+  PRECONDITION_FAILED: 412,
+  INVALID_STATUS_TRANSITION: 409,
+  EMAIL_ALREADY_VERIFIED: 409,
+  INVALID_VERIFICATION_TOKEN: 400,
+  UNEXPECTED_ERROR: 500,
+};
+
+// Only the server sees the details of a 500
+const logFailure = (request: FastifyRequest, error: Error): void => {
+  request.container.resolve<LoggerPort>(TOKENS.LOGGER_SERVICE).error('Request failed', {
+    method: request.method,
+    path: request.url.split('?')[0],
+    error,
+  });
+};
+
+export const statusFor = (error: UseCaseError): number => STATUS_BY_CODE[error.code];
+
+export function sendUseCaseError(reply: FastifyReply, error: UseCaseError): FastifyReply {
+  if (error.code === 'UNEXPECTED_ERROR') {
+    logFailure(reply.request, error);
+  }
+  // Never leak infrastructure messages to clients
+  const body: ErrorResponse = error.code === 'UNEXPECTED_ERROR'
+    ? { error: { code: error.code, message: 'Internal server error' } }
+    : { error: { code: error.code, message: error.message, details: error.details } };
+  return reply.status(statusFor(error)).send(body);
+}
+
+/**
+ * Fastify error handler
+ *
+ * - ZodError (malformed request) → 400 with the failing fields
+ * - Errors carrying a 4xx statusCode (e.g. invalid JSON) → passed through
+ * - Anything else → 500, details logged but not sent
+ */
+export function errorHandler(
+  error: FastifyError | ZodError,
+  request: FastifyRequest,
+  reply: FastifyReply
+): FastifyReply {
+  if (error instanceof ZodError) {
+    const body: ErrorResponse = {
+      error: {
+        code: 'BAD_REQUEST',
+        message: 'Request validation failed',
+        details: error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+      },
+    };
+    return reply.status(400).send(body);
+  }
+
+  if (error.statusCode && error.statusCode >= 400 && error.statusCode < 500) {
+    const body: ErrorResponse = { error: { code: 'BAD_REQUEST', message: error.message } };
+    return reply.status(error.statusCode).send(body);
+  }
+
+  logFailure(request, error);
+  const body: ErrorResponse = { error: { code: 'UNEXPECTED_ERROR', message: 'Internal server error' } };
+  return reply.status(500).send(body);
+}
@@ -0,0 +1,53 @@
+import { FastifyInstance } from 'fastify';
+import { DependencyContainer } from 'tsyringe';
+import { LoggerPort } from '../../application/ports/logger.port.js';
+import { isCorrelationId, newCorrelationId, runWithCorrelationId } from '../../shared/correlation.js';
+
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Child of the server's container, disposed with the request
+    container: DependencyContainer;
+    // From the x-correlation-id header when it is a valid one, generated otherwise
+    correlationId: string;
+  }
+}
+
+/**
+ * Gives every request its own child container and correlation id, and
+ * logs it once answered.
+ *
+ * The correlation id is echoed in the response and made current (see
+ * shared/correlation) while the route handler runs, so everything the
+ * handler calls logs it.
+ */
+export function registerRequestContext(app: FastifyInstance, container: DependencyContainer, logger: LoggerPort): void {
+  app.decorateRequest('container', null as unknown as DependencyContainer);
+  app.decorateRequest('correlationId', '');
+
+  app.addHook('onRequest', async (request, reply) => {
+    const header = request.headers[CORRELATION_ID_HEADER];
+    request.correlationId = isCorrelationId(header) ? header : newCorrelationId();
+    request.container = container.createChildContainer();
+    reply.header(CORRELATION_ID_HEADER, request.correlationId);
+  });
+
+  // Entered here rather than in onRequest: reading the body would lose it
+  app.addHook('preHandler', (request, _reply, done) => {
+    runWithCorrelationId(request.correlationId, done);
+  });
+
+  app.addHook('onResponse', async (request, reply) => {
+    runWithCorrelationId(request.correlationId, () => {
+      logger.info('Request completed', {
+        method: request.method,
+        // Without the query string, which can hold personal data
+        path: request.url.split('?')[0],
+        statusCode: reply.statusCode,
+        durationMs: Math.round(reply.elapsedTime),
+      });
+    });
+    await request.container.dispose();
+  });
+}
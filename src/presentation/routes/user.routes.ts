@@ -0,0 +1,20 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { UserController } from '../controllers/user.controller.js';
+
+// The controller is resolved per request (see buildServer)
+export function registerUserRoutes(
+  app: FastifyInstance,
+  controllerFor: (request: FastifyRequest) => UserController
+): void {
+  app.post('/users', (request, reply) => controllerFor(request).create(request, reply));
+  app.get('/users', (request, reply) => controllerFor(request).find(request, reply));
+  app.get('/users/:id', (request, reply) => controllerFor(request).getById(request, reply));
+  app.patch('/users/:id', (request, reply) => controllerFor(request).update(request, reply));
+  app.post('/users/verify-email', (request, reply) => controllerFor(request).verifyEmail(request, reply));
+  app.post('/users/:id/verification-email', (request, reply) =>
+    controllerFor(request).sendVerificationEmail(request, reply));
+  app.post('/users/:id/activate', (request, reply) => controllerFor(request).activate(request, reply));
+  app.post('/users/:id/suspend', (request, reply) => controllerFor(request).suspend(request, reply));
+  app.post('/users/:id/reactivate', (request, reply) => controllerFor(request).reactivate(request, reply));
+  app.delete('/users/:id', (request, reply) => controllerFor(request).delete(request, reply));
+}
@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import { Email } from '../../domain/value-objects/email.js';
+import { UserId } from '../../domain/value-objects/user-id.js';
+import { UserName } from '../../domain/value-objects/user-name.js';
+import { MAX_PAGE_SIZE, UserSortKey } from '../../domain/repositories/user-query.js';
+import { USER_STATUSES } from '../../domain/value-objects/user-status.js';
+
+// Field schemas reuse the value objects' own rules, so HTTP validation
+// can never drift from what the domain accepts.
+export const EmailSchema = z.string().trim().refine(Email.isValid, 'Invalid email format');
+export const UserNameSchema = z.string().refine(UserName.isValid, 'Invalid user name');
+export const UserIdSchema = z.string().refine(UserId.isValid, 'Invalid UserId format');
+
+export const UserParamsSchema = z.object({
+  id: UserIdSchema,
+});
+
+export const CreateUserBodySchema = z.object({
+  email: EmailSchema,
+  name: UserNameSchema,
+}).strict();
+
+export const UpdateUserBodySchema = z.object({
+  email: EmailSchema.optional(),
+  name: UserNameSchema.optional(),
+}).strict().refine(
+  body => body.email !== undefined || body.name !== undefined,
+  'At least one of email or name is required'
+);
+
+export const SuspendUserBodySchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+}).strict();
+
+export const ConfirmEmailBodySchema = z.object({
+  token: z.string().min(1),
+}).strict();
+
+// Alone: list parameters (limit, sort...) make no sense for a single mailbox
+export const FindUsersQuerySchema = z.object({
+  email: EmailSchema,
+}).strict();
+
+const DateParamSchema = z.string().datetime({ offset: true }).transform(value => new Date(value));
+
+const range = (from?: Date, to?: Date) => (from || to ? { from, to } : undefined);
+
+// sort=name (ascending) or sort=-name (descending)
+const SortParamSchema = z.string().regex(/^-?(createdAt|updatedAt|name)$/, 'Expected [-]createdAt, updatedAt or name')
+  .transform(value => value.startsWith('-')
+    ? { key: value.slice(1) as UserSortKey, direction: 'desc' as const }
+    : { key: value as UserSortKey, direction: 'asc' as const });
+
+export const ListUsersQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+  cursor: z.string().min(1).optional(),
+  sort: SortParamSchema.optional(),
+  emailDomain: z.string().min(1).optional(),
+  namePrefix: z.string().min(1).optional(),
+  // Soft-deleted users are only listed with status=deleted
+  status: z.enum(USER_STATUSES).optional(),
+  createdFrom: DateParamSchema.optional(),
+  createdTo: DateParamSchema.optional(),
+  updatedFrom: DateParamSchema.optional(),
+  updatedTo: DateParamSchema.optional(),
+}).strict().refine(
+  query => query.cursor === undefined || query.offset === undefined,
+  'Use either cursor or offset, not both'
+).transform(query => ({
+  limit: query.limit,
+  offset: query.offset,
+  cursor: query.cursor,
+  sort: query.sort,
+  filter: {
+    emailDomain: query.emailDomain,
+    namePrefix: query.namePrefix,
+    status: query.status,
+    createdAt: range(query.createdFrom, query.createdTo),
+    updatedAt: range(query.updatedFrom, query.updatedTo),
+  },
+}));
+
+// The ETag of a user is its version: "3"
+export const toETag = (version: number): string => `"${version}"`;
+
+// If-Match: "3" (only this version) or * (any version). Lists and weak tags are not supported.
+export const IfMatchHeaderSchema = z.union([
+  z.literal('*').transform(() => undefined),
+  z.string().regex(/^"\d+"$/, 'Expected an ETag such as "3", or *').transform(tag => Number(tag.slice(1, -1))),
+]).optional();
+
+export const UserResponseSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string(),
+  name: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  version: z.number().int(),
+  status: z.enum(USER_STATUSES),
+  suspensionReason: z.string().nullable(),
+  deletedAt: z.string().datetime().nullable(),
+  emailVerifiedAt: z.string().datetime().nullable(),
+});
+
+export const EmailVerificationResponseSchema = z.object({
+  email: z.string(),
+  expiresAt: z.string().datetime(),
+});
+
+export const UserListResponseSchema = z.object({
+  items: z.array(UserResponseSchema),
+  total: z.number().int(),
+  nextCursor: z.string().nullable(),
+});
+
+export const ErrorResponseSchema = z.object({
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    details: z.unknown().optional(),
+  }),
+});
+
+export type UserParams = z.infer<typeof UserParamsSchema>;
+export type CreateUserBody = z.infer<typeof CreateUserBodySchema>;
+export type UpdateUserBody = z.infer<typeof UpdateUserBodySchema>;
+export type SuspendUserBody = z.infer<typeof SuspendUserBodySchema>;
+export type ConfirmEmailBody = z.infer<typeof ConfirmEmailBodySchema>;
+export type FindUsersQuery = z.infer<typeof FindUsersQuerySchema>;
+export type ListUsersQuery = z.infer<typeof ListUsersQuerySchema>;
+export type UserResponse = z.infer<typeof UserResponseSchema>;
+export type UserListResponse = z.infer<typeof UserListResponseSchema>;
+export type EmailVerificationResponse = z.infer<typeof EmailVerificationResponseSchema>;
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
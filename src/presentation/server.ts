@@ -0,0 +1,32 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { DependencyContainer } from 'tsyringe';
+import { LoggerPort } from '../application/ports/logger.port.js';
+import { TOKENS } from '../shared/container.js';
+import { UserController } from './controllers/user.controller.js';
+import { registerUserRoutes } from './routes/user.routes.js';
+import { errorHandler } from './middlewares/error-handler.js';
+import { registerRequestContext } from './middlewares/request-context.js';
+
+export interface ServerOptions {
+  // Container with every port the use cases need already registered
+  container: DependencyContainer;
+}
+
+/**
+ * Builds the Fastify application without listening, so tests can drive
+ * it with `app.inject()` and the entry point can call `listen()`.
+ *
+ * Each request resolves its controller from its own child container, so
+ * request-scoped registrations never leak into other requests. Requests
+ * are logged through the LoggerPort, not Fastify's own logger.
+ */
+export function buildServer(options: ServerOptions): FastifyInstance {
+  const app = Fastify({ logger: false });
+  const logger = options.container.resolve<LoggerPort>(TOKENS.LOGGER_SERVICE).child({ component: 'http' });
+
+  registerRequestContext(app, options.container, logger);
+  app.setErrorHandler(errorHandler);
+  registerUserRoutes(app, request => request.container.resolve(UserController));
+
+  return app;
+}
@@ -1,8 +1,8 @@
 import 'reflect-metadata';
 import { container } from 'tsyringe';
 
-// Dependency injection container configuration
-// This file will be extended as we add more dependencies
+// Dependency injection container. What gets registered under each token
+// is decided by the composition root (src/composition-root.ts).
 
 export { container };
 
@@ -10,9 +10,32 @@ export { container };
 export const TOKENS = {
   // Repository tokens
   USER_REPOSITORY: Symbol.for('UserRepository'),
-  PRODUCT_REPOSITORY: Symbol.for('ProductRepository'),
-  
+  UNIT_OF_WORK: Symbol.for('UnitOfWork'),
+  // OutboxStore
+  OUTBOX_STORE: Symbol.for('OutboxStore'),
+  // pg.Pool, only registered with the Postgres database: closed on shutdown
+  DATABASE_POOL: Symbol.for('DatabasePool'),
+
   // Service tokens
+  // EmailSenderPort
   EMAIL_SERVICE: Symbol.for('EmailService'),
+  VERIFICATION_TOKENS: Symbol.for('VerificationTokens'),
+  EMAIL_VERIFICATION_SETTINGS: Symbol.for('EmailVerificationSettings'),
+  // AntiSpamPort
+  ANTI_SPAM_SERVICE: Symbol.for('AntiSpamService'),
+  // LoggerPort
   LOGGER_SERVICE: Symbol.for('LoggerService'),
+  // ClockPort
+  CLOCK: Symbol.for('Clock'),
+  // IdGeneratorPort
+  ID_GENERATOR: Symbol.for('IdGenerator'),
+
+  // Event tokens
+  EVENT_BUS: Symbol.for('EventBus'),
+  // OutboxTransport: where the outbox relay sends stored events
+  OUTBOX_TRANSPORT: Symbol.for('OutboxTransport'),
+  // OutboxRelay, started and stopped by the entry point
+  OUTBOX_RELAY: Symbol.for('OutboxRelay'),
+  // Multi-registration: every handler registered under it receives its events
+  DOMAIN_EVENT_HANDLER: Symbol.for('DomainEventHandler'),
 } as const;
@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+const storage = new AsyncLocalStorage<string>();
+
+// Accepted from callers: short, and safe to print in a log line
+const CORRELATION_ID = /^[\w.:-]{1,128}$/;
+
+export const isCorrelationId = (value: unknown): value is string =>
+  typeof value === 'string' && CORRELATION_ID.test(value);
+
+export const newCorrelationId = (): string => randomUUID();
+
+/**
+ * Runs `work` with `correlationId` as the current correlation id. It
+ * follows every async call made from there (use cases, adapters, event
+ * handlers) without being passed around.
+ */
+export const runWithCorrelationId = <T>(correlationId: string, work: () => T): T =>
+  storage.run(correlationId, work);
+
+/**
+ * The correlation id of the request being served, if any
+ */
+export const currentCorrelationId = (): string | undefined => storage.getStore();
@@ -1,2 +1,2 @@
-export * from './common';
-export {Result} from "@shared/types/result";
+export * from './common.js';
+export * from './result.js';
@@ -1,23 +1,237 @@
 // Result pattern for error handling
+//
+// A Result is either a Success holding a value or a Failure holding an
+// error. Both variants expose the same combinators, so a chain of steps
+// reads top to bottom instead of as nested `if (r.isFailure)` blocks:
+//
+//   UserId.tryCreate(input.id)
+//     .mapError(UseCaseError.fromDomainError)
+//     .flatMap(id => ...)
+//     .match({ success: ..., failure: ... });
+//
+// `isSuccess` / `isFailure` are literal types, so checking either one
+// narrows the union and gives access to `value` or `error`.
 
 
-export type Result<T, E = Error> = Success<T> | Failure<E>;
+export type Result<T, E = Error> = Success<T, E> | Failure<E, T>;
 
+type MaybePromise<T> = T | PromiseLike<T>;
 
+export interface ResultHandlers<T, E, R> {
+    success: (value: T) => R;
+    failure: (error: E) => R;
+}
 
-export class Success<T> {
+export class Success<T, E = never> {
     readonly isSuccess = true;
     readonly isFailure = false;
 
     constructor(public readonly value: T) {}
+
+    map<U>(fn: (value: T) => U): Result<U, E> {
+        return new Success(fn(this.value));
+    }
+
+    mapError<F>(_fn: (error: E) => F): Result<T, F> {
+        return new Success(this.value);
+    }
+
+    flatMap<U, F>(fn: (value: T) => Result<U, F>): Result<U, E | F> {
+        return fn(this.value);
+    }
+
+    match<R>(handlers: ResultHandlers<T, E, R>): R {
+        return handlers.success(this.value);
+    }
+
+    unwrapOr<U>(_fallback: U): T | U {
+        return this.value;
+    }
+
+    unwrap(): T {
+        return this.value;
+    }
+
+    toAsync(): AsyncResult<T, E> {
+        return AsyncResult.from<T, E>(this);
+    }
 }
 
-export class Failure<E> {
+export class Failure<E, T = never> {
     readonly isSuccess = false;
     readonly isFailure = true;
 
     constructor(public readonly error: E) {}
+
+    map<U>(_fn: (value: T) => U): Result<U, E> {
+        return new Failure(this.error);
+    }
+
+    mapError<F>(fn: (error: E) => F): Result<T, F> {
+        return new Failure(fn(this.error));
+    }
+
+    flatMap<U, F>(_fn: (value: T) => Result<U, F>): Result<U, E | F> {
+        return new Failure(this.error);
+    }
+
+    match<R>(handlers: ResultHandlers<T, E, R>): R {
+        return handlers.failure(this.error);
+    }
+
+    unwrapOr<U>(fallback: U): T | U {
+        return fallback;
+    }
+
+    /**
+     * @throws the error itself when it is an Error, wrapped otherwise
+     */
+    unwrap(): T {
+        throw this.error instanceof Error ? this.error : new Error(String(this.error));
+    }
+
+    toAsync(): AsyncResult<T, E> {
+        return AsyncResult.from<T, E>(this);
+    }
 }
 
 export const success = <T>(value: T): Success<T> => new Success(value);
-export const failure = <E>(error: E): Failure<E> => new Failure(error);
\ No newline at end of file
+export const failure = <E>(error: E): Failure<E> => new Failure(error);
+
+/**
+ * A Result that is still being computed.
+ *
+ * Offers the same combinators as Result, each accepting sync or async
+ * callbacks, and is awaitable: `await asyncResult` yields the Result.
+ */
+export class AsyncResult<T, E = Error> implements PromiseLike<Result<T, E>> {
+    private constructor(private readonly promise: Promise<Result<T, E>>) {}
+
+    static from<T, E>(result: MaybePromise<Result<T, E>>): AsyncResult<T, E> {
+        return new AsyncResult(Promise.resolve(result));
+    }
+
+    then<R1 = Result<T, E>, R2 = never>(
+        onFulfilled?: ((result: Result<T, E>) => R1 | PromiseLike<R1>) | null,
+        onRejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+    ): PromiseLike<R1 | R2> {
+        return this.promise.then(onFulfilled, onRejected);
+    }
+
+    map<U>(fn: (value: T) => MaybePromise<U>): AsyncResult<U, E> {
+        return new AsyncResult(this.promise.then(async (result): Promise<Result<U, E>> =>
+            result.isSuccess ? new Success(await fn(result.value)) : new Failure(result.error)
+        ));
+    }
+
+    mapError<F>(fn: (error: E) => MaybePromise<F>): AsyncResult<T, F> {
+        return new AsyncResult(this.promise.then(async (result): Promise<Result<T, F>> =>
+            result.isFailure ? new Failure(await fn(result.error)) : new Success(result.value)
+        ));
+    }
+
+    flatMap<U, F>(fn: (value: T) => MaybePromise<Result<U, F>>): AsyncResult<U, E | F> {
+        return new AsyncResult(this.promise.then((result): MaybePromise<Result<U, E | F>> =>
+            result.isSuccess ? fn(result.value) : new Failure(result.error)
+        ));
+    }
+
+    match<R>(handlers: ResultHandlers<T, E, MaybePromise<R>>): Promise<R> {
+        return this.promise.then(result =>
+            result.isSuccess ? handlers.success(result.value) : handlers.failure(result.error)
+        );
+    }
+
+    unwrapOr<U>(fallback: U): Promise<T | U> {
+        return this.promise.then(result => result.unwrapOr(fallback));
+    }
+}
+
+type SuccessValues<R extends readonly Result<unknown, unknown>[]> = {
+    -readonly [K in keyof R]: R[K] extends Result<infer T, unknown> ? T : never;
+};
+
+type FailureError<R extends readonly Result<unknown, unknown>[]> =
+    R[number] extends Result<unknown, infer E> ? E : never;
+
+const toError = (error: unknown): Error =>
+    error instanceof Error ? error : new Error(String(error));
+
+/**
+ * Result helpers, merged with the Result type so both read the same:
+ * `Result.combine([...])`, `Result.fromPromise(...)`.
+ */
+export const Result = {
+    success,
+    failure,
+
+    /**
+     * Collects the values of several Results, stopping at the first Failure.
+     * Tuples keep their per-position types.
+     */
+    combine<R extends readonly Result<unknown, unknown>[]>(
+        results: readonly [...R]
+    ): Result<SuccessValues<R>, FailureError<R>> {
+        const values: unknown[] = [];
+        for (const result of results) {
+            if (result.isFailure) {
+                return new Failure(result.error as FailureError<R>);
+            }
+            values.push(result.value);
+        }
+        return new Success(values as SuccessValues<R>);
+    },
+
+    /**
+     * Like combine(), but reports every Failure instead of the first one
+     * (useful to validate a whole form at once).
+     */
+    all<R extends readonly Result<unknown, unknown>[]>(
+        results: readonly [...R]
+    ): Result<SuccessValues<R>, FailureError<R>[]> {
+        const values: unknown[] = [];
+        const errors: unknown[] = [];
+        for (const result of results) {
+            if (result.isFailure) {
+                errors.push(result.error);
+            } else {
+                values.push(result.value);
+            }
+        }
+        if (errors.length > 0) {
+            return new Failure(errors as FailureError<R>[]);
+        }
+        return new Success(values as SuccessValues<R>);
+    },
+
+    /**
+     * Runs `fn` and captures a thrown exception as a Failure.
+     */
+    fromThrowable<T, E = Error>(
+        fn: () => T,
+        mapError: (error: unknown) => E = toError as (error: unknown) => E
+    ): Result<T, E> {
+        try {
+            return new Success(fn());
+        } catch (error) {
+            return new Failure(mapError(error));
+        }
+    },
+
+    /**
+     * Turns a promise into an AsyncResult; a rejection becomes a Failure.
+     */
+    fromPromise<T, E = Error>(
+        promise: PromiseLike<T>,
+        mapError: (error: unknown) => E = toError as (error: unknown) => E
+    ): AsyncResult<T, E> {
+        return AsyncResult.from(Promise.resolve(promise).then(
+            (value): Result<T, E> => new Success(value),
+            (error): Result<T, E> => new Failure(mapError(error))
+        ));
+    },
+
+    isResult(value: unknown): value is Result<unknown, unknown> {
+        return value instanceof Success || value instanceof Failure;
+    },
+};
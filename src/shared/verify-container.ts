@@ -0,0 +1,94 @@
+import { DependencyContainer, InjectionToken } from 'tsyringe';
+import { TOKENS } from './container.js';
+import { Result, success, failure } from './types/result.js';
+
+export type ContainerProblemKind = 'missing' | 'circular' | 'failed';
+
+export interface ContainerProblem {
+  // Token or class that could not be resolved
+  target: string;
+  kind: ContainerProblemKind;
+  message: string;
+}
+
+/**
+ * Some tokens or classes cannot be resolved. Lists every problem at once.
+ */
+export class ContainerVerificationError extends Error {
+  constructor(public readonly problems: readonly ContainerProblem[]) {
+    super(`The container cannot build the application:\n${problems
+      .map(problem => `  - ${problem.target} (${problem.kind}): ${problem.message}`)
+      .join('\n')}`);
+    this.name = 'ContainerVerificationError';
+  }
+}
+
+// Tokens the application works without: the bus simply has no handlers,
+// and there is no pool to close with the in-memory database
+const OPTIONAL_TOKENS: readonly symbol[] = [TOKENS.DOMAIN_EVENT_HANDLER, TOKENS.DATABASE_POOL];
+
+const MULTI_TOKENS: readonly symbol[] = [TOKENS.DOMAIN_EVENT_HANDLER];
+
+const describe = (target: InjectionToken): string =>
+  typeof target === 'function' ? target.name : String(target);
+
+/**
+ * tsyringe reports a dependency cycle as a stack overflow (factories,
+ * delay()) or as an undefined constructor (classes importing each other)
+ */
+const kindOf = (error: unknown): ContainerProblemKind => {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof RangeError || /circular/i.test(message)) {
+    return 'circular';
+  }
+  return /unregistered dependency token/.test(message) ? 'missing' : 'failed';
+};
+
+// The innermost reason, without tsyringe's "Cannot inject..." wrapping
+const reasonOf = (error: unknown): string => {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.split('\n').map(line => line.trim()).filter(Boolean).at(-1) ?? message;
+};
+
+/**
+ * Resolves every token in TOKENS and every class in `roots` (typically
+ * the controllers and anything the entry point resolves itself), so a
+ * missing or circular registration is found at startup rather than by
+ * the first request that needs it.
+ *
+ * Resolving builds the instances: run it once the container is complete.
+ */
+export function verifyContainer(
+  container: DependencyContainer,
+  roots: readonly InjectionToken[] = []
+): Result<void, ContainerVerificationError> {
+  const problems: ContainerProblem[] = [];
+
+  for (const token of Object.values(TOKENS)) {
+    if (!container.isRegistered(token, true)) {
+      if (!OPTIONAL_TOKENS.includes(token)) {
+        problems.push({ target: describe(token), kind: 'missing', message: 'Nothing is registered' });
+      }
+      continue;
+    }
+    try {
+      if (MULTI_TOKENS.includes(token)) {
+        container.resolveAll(token);
+      } else {
+        container.resolve(token);
+      }
+    } catch (error) {
+      problems.push({ target: describe(token), kind: kindOf(error), message: reasonOf(error) });
+    }
+  }
+
+  for (const root of roots) {
+    try {
+      container.resolve(root);
+    } catch (error) {
+      problems.push({ target: describe(root), kind: kindOf(error), message: reasonOf(error) });
+    }
+  }
+
+  return problems.length === 0 ? success(undefined) : failure(new ContainerVerificationError(problems));
+}
@@ -0,0 +1,219 @@
+import { User } from 'domain/entities/user';
+import { Email } from 'domain/value-objects/email';
+import { UserName } from 'domain/value-objects/user-name';
+import { UserDomainEvent, UserNameChanged, UserRegistered } from 'domain/events/user-events';
+import { OutboxStore } from 'application/ports/outbox.port';
+import { IdGeneratorPort } from 'domain/ports/id-generator.port';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+import { Result } from 'shared/types/result';
+
+/**
+ * OutboxStore contract test suite, run by every OutboxStore adapter
+ *
+ * @example
+ * describeOutboxStoreContract('InMemoryOutboxStore', {
+ *   create: async () => new InMemoryOutboxStore(),
+ * });
+ */
+export interface OutboxStoreContractHooks {
+  // Returns a fresh, empty store for each test
+  create(): Promise<OutboxStore>;
+  teardown?(): Promise<void>;
+}
+
+const valueOf = <T>(result: Result<T, Error>): T => {
+  if (result.isFailure) {
+    throw result.error;
+  }
+  return result.value;
+};
+
+const clock = new FixedClock('2024-01-01T00:00:00.000Z');
+// Numbered from 1 again for each test
+let ids: IdGeneratorPort;
+
+const registration = (email = 'john.doe@example.com'): UserDomainEvent =>
+  User.create(Email.create(email), UserName.create('John Doe'), clock, ids).pullDomainEvents()[0];
+
+// Two events of one aggregate, recorded at the same time by one call
+const registrationAndRename = (
+  userId: string,
+  at: Date,
+  eventIds: IdGeneratorPort = ids
+): [UserDomainEvent, UserDomainEvent] => [
+  new UserRegistered(userId, { email: `${userId}@example.com`, name: 'John Doe' }, at, eventIds.generate()),
+  new UserNameChanged(userId, { previousName: 'John Doe', name: 'Johnny Doe' }, at, eventIds.generate()),
+];
+
+const later = (date: Date, ms: number): Date => new Date(date.getTime() + ms);
+
+export function describeOutboxStoreContract(adapterName: string, hooks: OutboxStoreContractHooks): void {
+  describe(`${adapterName} (OutboxStore contract)`, () => {
+    let store: OutboxStore;
+
+    beforeEach(async () => {
+      ids = new SequentialIdGenerator();
+      store = await hooks.create();
+    });
+
+    afterEach(async () => {
+      await hooks.teardown?.();
+    });
+
+    it('should store appended events as pending messages', async () => {
+      const event = registration();
+
+      valueOf(await store.append([event]));
+
+      const due = valueOf(await store.fetchDue(later(event.occurredAt, 1), 10));
+      expect(due).toEqual([{
+        id: event.eventId,
+        sequence: expect.any(Number),
+        type: 'UserRegistered',
+        aggregateId: event.aggregateId,
+        payload: event.payload,
+        occurredAt: event.occurredAt,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: event.occurredAt,
+        dispatchedAt: null,
+        lastError: null,
+      }]);
+    });
+
+    it('should keep the first copy of an event appended twice', async () => {
+      const event = registration();
+
+      valueOf(await store.append([event]));
+      valueOf(await store.append([event]));
+
+      expect(valueOf(await store.fetchDue(later(event.occurredAt, 1), 10))).toHaveLength(1);
+    });
+
+    it('should fetch due messages in append order, up to the limit', async () => {
+      const first = registration('first@example.com');
+      const second = registration('second@example.com');
+      const third = registration('third@example.com');
+      valueOf(await store.append([third, first]));
+      valueOf(await store.append([second]));
+
+      const due = valueOf(await store.fetchDue(later(second.occurredAt, 1), 2));
+
+      expect(due.map(message => message.id)).toEqual([third.eventId, first.eventId]);
+      expect(due[0].sequence).toBeLessThan(due[1].sequence);
+    });
+
+    it('should keep the order of events recorded at the same time, whatever their ids', async () => {
+      const at = new Date();
+      let position = 100;
+      // Each event id sorts before the ones recorded earlier
+      const descending: IdGeneratorPort = { generate: () => SequentialIdGenerator.idAt(position--) };
+      for (let round = 0; round < 5; round++) {
+        const events = registrationAndRename(`user-${round}`, at, descending);
+        valueOf(await store.append(events));
+      }
+
+      const due = valueOf(await store.fetchDue(later(at, 1), 10));
+
+      expect(due.map(message => message.type)).toEqual(Array(5).fill(['UserRegistered', 'UserNameChanged']).flat());
+    });
+
+    it('should not fetch dispatched messages again', async () => {
+      const event = registration();
+      valueOf(await store.append([event]));
+      const at = later(event.occurredAt, 5);
+
+      valueOf(await store.markDispatched(event.eventId, at));
+
+      expect(valueOf(await store.fetchDue(later(at, 1), 10))).toEqual([]);
+    });
+
+    it('should postpone a failed message until its retry date', async () => {
+      const event = registration();
+      valueOf(await store.append([event]));
+      const retryAt = later(event.occurredAt, 1000);
+
+      valueOf(await store.markFailed(event.eventId, 'Transport unavailable', retryAt));
+
+      expect(valueOf(await store.fetchDue(later(retryAt, -1), 10))).toEqual([]);
+      const [message] = valueOf(await store.fetchDue(retryAt, 10));
+      expect(message).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        nextAttemptAt: retryAt,
+        lastError: 'Transport unavailable',
+      });
+    });
+
+    it('should never fetch a dead message again', async () => {
+      const event = registration();
+      valueOf(await store.append([event]));
+
+      valueOf(await store.markFailed(event.eventId, 'Rejected', null));
+
+      expect(valueOf(await store.fetchDue(later(event.occurredAt, 60_000), 10))).toEqual([]);
+    });
+
+    it('should hold back the later messages of an aggregate until its failed one is due', async () => {
+      const at = new Date();
+      const [registered, renamed] = registrationAndRename('user-1', at);
+      const [other] = registrationAndRename('user-2', at);
+      valueOf(await store.append([registered, renamed, other]));
+      const retryAt = later(at, 1000);
+
+      valueOf(await store.markFailed(registered.eventId, 'Transport unavailable', retryAt));
+
+      const early = valueOf(await store.fetchDue(later(retryAt, -500), 10));
+      expect(early.map(message => message.id)).toEqual([other.eventId]);
+      const due = valueOf(await store.fetchDue(retryAt, 10));
+      expect(due.map(message => message.id)).toEqual([registered.eventId, renamed.eventId, other.eventId]);
+    });
+
+    it('should hold back the later messages of an aggregate behind a dead one for good', async () => {
+      const at = new Date();
+      const [registered, renamed] = registrationAndRename('user-1', at);
+      valueOf(await store.append([registered, renamed]));
+
+      valueOf(await store.markFailed(registered.eventId, 'Rejected', null));
+
+      expect(valueOf(await store.fetchDue(later(at, 60_000), 10))).toEqual([]);
+    });
+
+    it('should not hold anything back behind a dispatched message', async () => {
+      const at = new Date();
+      const [registered, renamed] = registrationAndRename('user-1', at);
+      valueOf(await store.append([registered, renamed]));
+
+      valueOf(await store.markDispatched(registered.eventId, at));
+
+      const due = valueOf(await store.fetchDue(later(at, 1), 10));
+      expect(due.map(message => message.id)).toEqual([renamed.eventId]);
+    });
+
+    it('should fail to mark an unknown message', async () => {
+      const result = await store.markDispatched('00000000-0000-4000-8000-000000000000', new Date());
+
+      expect(result.isFailure).toBe(true);
+    });
+
+    describe('relay lease', () => {
+      const t0 = new Date('2024-01-01T00:00:00.000Z');
+
+      it('should grant the lease to one relay at a time, until it expires', async () => {
+        expect(valueOf(await store.acquireRelayLease('relay-a', t0, later(t0, 1000)))).toBe(true);
+
+        expect(valueOf(await store.acquireRelayLease('relay-b', later(t0, 999), later(t0, 1999)))).toBe(false);
+        expect(valueOf(await store.acquireRelayLease('relay-b', later(t0, 1000), later(t0, 2000)))).toBe(true);
+        expect(valueOf(await store.acquireRelayLease('relay-a', later(t0, 1500), later(t0, 2500)))).toBe(false);
+      });
+
+      it('should let the holder renew its lease', async () => {
+        valueOf(await store.acquireRelayLease('relay-a', t0, later(t0, 1000)));
+
+        expect(valueOf(await store.acquireRelayLease('relay-a', later(t0, 500), later(t0, 1500)))).toBe(true);
+        expect(valueOf(await store.acquireRelayLease('relay-b', later(t0, 1200), later(t0, 2200)))).toBe(false);
+      });
+    });
+  });
+}
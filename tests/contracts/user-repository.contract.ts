@@ -0,0 +1,576 @@
+import { User } from 'domain/entities/user';
+import { UserId } from 'domain/value-objects/user-id';
+import { Email } from 'domain/value-objects/email';
+import { UserName } from 'domain/value-objects/user-name';
+import {
+  ConcurrencyConflictError,
+  DuplicateEmailError,
+  UserRepository,
+} from 'domain/repositories/user-repository';
+import { Page } from 'domain/repositories/user-query';
+import { InvalidUserQueryError } from 'domain/errors/invalid-user-query.error';
+import { Result } from 'shared/types/result';
+import { IdGeneratorPort } from 'domain/ports/id-generator.port';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+import { SteppingClock } from 'infrastructure/time/stepping-clock';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+
+/**
+ * UserRepository contract test suite
+ *
+ * Every UserRepository adapter must behave the same way from the
+ * domain's point of view. Adapters prove it by running this suite
+ * against themselves:
+ *
+ * @example
+ * describeUserRepositoryContract('InMemoryUserRepository', {
+ *   create: async () => new InMemoryUserRepository(),
+ * });
+ */
+export interface UserRepositoryContractHooks {
+  // Returns a fresh, empty repository for each test
+  create(): Promise<UserRepository>;
+  // Releases whatever create() acquired (connections, tables...)
+  teardown?(): Promise<void>;
+}
+
+const valueOf = <T>(result: Result<T, Error>): T => {
+  if (result.isFailure) {
+    throw result.error;
+  }
+  return result.value;
+};
+
+// Both start over for each test
+let clock: SteppingClock;
+let ids: IdGeneratorPort;
+
+const aUser = (email = 'john.doe@example.com', name = 'John Doe'): User =>
+  User.create(Email.create(email), UserName.create(name), clock, ids);
+
+export function describeUserRepositoryContract(
+  adapterName: string,
+  hooks: UserRepositoryContractHooks
+): void {
+  describe(`${adapterName} (UserRepository contract)`, () => {
+    let repository: UserRepository;
+
+    beforeEach(async () => {
+      clock = new SteppingClock('2024-01-01T00:00:00.000Z');
+      ids = new SequentialIdGenerator();
+      repository = await hooks.create();
+    });
+
+    afterEach(async () => {
+      await hooks.teardown?.();
+    });
+
+    describe('save', () => {
+      it('should persist a new user and return it', async () => {
+        const user = aUser();
+
+        const saved = valueOf(await repository.save(user));
+
+        expect(saved.equals(user)).toBe(true);
+        expect(saved.toJSON()).toEqual(user.toJSON());
+      });
+
+      it('should update an existing user with the same id', async () => {
+        const user = aUser();
+        const saved = valueOf(await repository.save(user));
+
+        const renamed = saved.updateName(UserName.create('Jane Doe'), clock, ids);
+        valueOf(await repository.save(renamed));
+
+        const found = valueOf(await repository.findById(user.id));
+        expect(found?.name.getValue()).toBe('Jane Doe');
+        expect(valueOf(await repository.findAll()).total).toBe(1);
+      });
+
+      it('should reject a different user with an email already in use', async () => {
+        valueOf(await repository.save(aUser('taken@example.com', 'John Doe')));
+
+        const result = await repository.save(aUser('taken@example.com', 'Jane Doe'));
+
+        expect(result.isFailure).toBe(true);
+        if (result.isFailure) {
+          expect(result.error).toBeInstanceOf(DuplicateEmailError);
+        }
+      });
+
+      it('should reject an email reaching the same mailbox as one in use', async () => {
+        valueOf(await repository.save(aUser('jdoe@gmail.com', 'John Doe')));
+
+        const result = await repository.save(aUser('J.Doe+x@googlemail.com', 'Jane Doe'));
+
+        expect(result.isFailure && result.error).toBeInstanceOf(DuplicateEmailError);
+      });
+
+      it('should keep the email as written', async () => {
+        const user = aUser('J.Doe@Example.com');
+        valueOf(await repository.save(user));
+
+        const found = valueOf(await repository.findById(user.id));
+
+        expect(found?.email.getValue()).toBe('J.Doe@example.com');
+      });
+
+      it('should let a user keep its own email when saved again', async () => {
+        const saved = valueOf(await repository.save(aUser('taken@example.com')));
+
+        const result = await repository.save(saved.updateName(UserName.create('Jane Doe'), clock, ids));
+
+        expect(result.isSuccess).toBe(true);
+      });
+
+      it('should free the old email when a user changes address', async () => {
+        const saved = valueOf(await repository.save(aUser('old@example.com')));
+        valueOf(await repository.save(saved.updateEmail(Email.create('new@example.com'), clock, ids)));
+
+        const result = await repository.save(aUser('old@example.com', 'Jane Doe'));
+
+        expect(result.isSuccess).toBe(true);
+      });
+    });
+
+    describe('optimistic concurrency', () => {
+      it('should store a new user at version 1 and increment it on every save', async () => {
+        const saved = valueOf(await repository.save(aUser()));
+        expect(saved.version).toBe(1);
+        expect(saved.persistedVersion).toBe(1);
+
+        const renamed = valueOf(await repository.save(saved.updateName(UserName.create('Jane Doe'), clock, ids)));
+
+        expect(renamed.version).toBe(2);
+        expect(valueOf(await repository.findById(saved.id))?.version).toBe(2);
+      });
+
+      it('should reject a user changed from a stale copy', async () => {
+        const saved = valueOf(await repository.save(aUser()));
+        const stale = valueOf(await repository.findById(saved.id))!;
+        valueOf(await repository.save(saved.updateName(UserName.create('Jane Doe'), clock, ids)));
+
+        const result = await repository.save(stale.updateName(UserName.create('Jack Doe'), clock, ids));
+
+        expect(result.isFailure && result.error).toBeInstanceOf(ConcurrencyConflictError);
+        if (result.isFailure && result.error instanceof ConcurrencyConflictError) {
+          expect(result.error.details).toEqual({ id: saved.id.getValue(), expectedVersion: 1, actualVersion: 2 });
+        }
+        expect(valueOf(await repository.findById(saved.id))?.name.getValue()).toBe('Jane Doe');
+      });
+
+      it('should reject saving the same new user twice', async () => {
+        const user = aUser();
+        valueOf(await repository.save(user));
+
+        const result = await repository.save(user);
+
+        expect(result.isFailure && result.error).toBeInstanceOf(ConcurrencyConflictError);
+      });
+
+      it('should reject saving a user deleted in the meantime', async () => {
+        const saved = valueOf(await repository.save(aUser()));
+        valueOf(await repository.delete(saved.id));
+
+        const result = await repository.save(saved.updateName(UserName.create('Jane Doe'), clock, ids));
+
+        expect(result.isFailure && result.error).toBeInstanceOf(ConcurrencyConflictError);
+        if (result.isFailure && result.error instanceof ConcurrencyConflictError) {
+          expect(result.error.details.actualVersion).toBeNull();
+        }
+        expect(valueOf(await repository.exists(saved.id))).toBe(false);
+      });
+    });
+
+    describe('findById', () => {
+      it('should return the stored user', async () => {
+        const user = aUser();
+        valueOf(await repository.save(user));
+
+        const found = valueOf(await repository.findById(user.id));
+
+        expect(found?.toJSON()).toEqual(user.toJSON());
+      });
+
+      it('should keep the name parts and their display order', async () => {
+        const user = User.create(
+          Email.create('li.lei@example.com'),
+          UserName.fromParts({ given: 'Lei', family: 'Li', order: 'family-first' }),
+          clock,
+          ids
+        );
+        valueOf(await repository.save(user));
+
+        const found = valueOf(await repository.findById(user.id));
+
+        expect(found?.name.equals(user.name)).toBe(true);
+        expect(found?.name.getFirstName()).toBe('Lei');
+      });
+
+      it('should return null for an unknown id', async () => {
+        const found = valueOf(await repository.findById(UserId.generate()));
+
+        expect(found).toBeNull();
+      });
+    });
+
+    describe('findByEmail', () => {
+      it('should return the user owning the email', async () => {
+        const user = aUser('owner@example.com');
+        valueOf(await repository.save(user));
+
+        const found = valueOf(await repository.findByEmail(Email.create('OWNER@example.com')));
+
+        expect(found?.id.equals(user.id)).toBe(true);
+      });
+
+      it('should find the user from any address of the same mailbox', async () => {
+        const user = aUser('jdoe@gmail.com');
+        valueOf(await repository.save(user));
+
+        const found = valueOf(await repository.findByEmail(Email.create('J.Doe+x@gmail.com')));
+
+        expect(found?.id.equals(user.id)).toBe(true);
+      });
+
+      it('should return null for an unknown email', async () => {
+        const found = valueOf(await repository.findByEmail(Email.create('nobody@example.com')));
+
+        expect(found).toBeNull();
+      });
+    });
+
+    describe('findAll', () => {
+      const at = (day: number) => new Date(Date.UTC(2024, 0, day));
+
+      // A new user, created (and last updated) at the given days of January 2024
+      const aUserCreatedOn = (day: number, email: string, name = 'John Doe', updatedDay = day): User => {
+        const user = User.create(Email.create(email), UserName.create(name), new FixedClock(at(day)), ids);
+        return updatedDay === day ? user : user.updateName(user.name, new FixedClock(at(updatedDay)), ids);
+      };
+
+      const saveAll = async (...users: User[]) => {
+        for (const user of users) {
+          valueOf(await repository.save(user));
+        }
+        return users;
+      };
+
+      const emailsOf = (page: Page<User>) => page.items.map(user => user.email.getValue());
+
+      it('should return an empty page when no users exist', async () => {
+        expect(valueOf(await repository.findAll())).toEqual({ items: [], total: 0, nextCursor: null });
+      });
+
+      it('should return every stored user, oldest first by default', async () => {
+        await saveAll(aUserCreatedOn(2, 'jane@example.com'), aUserCreatedOn(1, 'john@example.com'));
+
+        const page = valueOf(await repository.findAll());
+
+        expect(emailsOf(page)).toEqual(['john@example.com', 'jane@example.com']);
+        expect(page.total).toBe(2);
+        expect(page.nextCursor).toBeNull();
+      });
+
+      it('should sort by name, ignoring case, in both directions', async () => {
+        await saveAll(
+          aUserCreatedOn(1, 'bob@example.com', 'bob Martin'),
+          aUserCreatedOn(2, 'alice@example.com', 'Alice Smith'),
+          aUserCreatedOn(3, 'carol@example.com', 'Carol King')
+        );
+
+        const ascending = valueOf(await repository.findAll({ sort: { key: 'name', direction: 'asc' } }));
+        const descending = valueOf(await repository.findAll({ sort: { key: 'name', direction: 'desc' } }));
+
+        expect(emailsOf(ascending)).toEqual(['alice@example.com', 'bob@example.com', 'carol@example.com']);
+        expect(emailsOf(descending)).toEqual(['carol@example.com', 'bob@example.com', 'alice@example.com']);
+      });
+
+      it('should sort by last update', async () => {
+        await saveAll(
+          aUserCreatedOn(1, 'john@example.com', 'John Doe', 5),
+          aUserCreatedOn(2, 'jane@example.com', 'Jane Doe', 3)
+        );
+
+        const page = valueOf(await repository.findAll({ sort: { key: 'updatedAt', direction: 'desc' } }));
+
+        expect(emailsOf(page)).toEqual(['john@example.com', 'jane@example.com']);
+      });
+
+      it('should page with limit and offset', async () => {
+        await saveAll(...[1, 2, 3, 4, 5].map(day => aUserCreatedOn(day, `user${day}@example.com`)));
+
+        const page = valueOf(await repository.findAll({ limit: 2, offset: 2 }));
+
+        expect(emailsOf(page)).toEqual(['user3@example.com', 'user4@example.com']);
+        expect(page.total).toBe(5);
+        expect(page.nextCursor).not.toBeNull();
+      });
+
+      it('should walk every page with cursors', async () => {
+        await saveAll(...[1, 2, 3, 4, 5].map(day => aUserCreatedOn(day, `user${day}@example.com`)));
+        const sort = { key: 'createdAt', direction: 'desc' } as const;
+
+        const seen: string[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = valueOf(await repository.findAll({ sort, limit: 2, cursor }));
+          seen.push(...emailsOf(page));
+          cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+
+        expect(seen).toEqual([5, 4, 3, 2, 1].map(day => `user${day}@example.com`));
+      });
+
+      it('should neither skip nor repeat users added behind the cursor', async () => {
+        await saveAll(...[2, 4, 6].map(day => aUserCreatedOn(day, `user${day}@example.com`)));
+        const first = valueOf(await repository.findAll({ limit: 2 }));
+
+        await saveAll(aUserCreatedOn(1, 'user1@example.com'));
+        const second = valueOf(await repository.findAll({ limit: 2, cursor: first.nextCursor ?? undefined }));
+
+        expect(emailsOf(second)).toEqual(['user6@example.com']);
+        expect(second.nextCursor).toBeNull();
+      });
+
+      it('should break ties on the sort value by id', async () => {
+        const users = await saveAll(...[1, 2, 3].map(n => aUserCreatedOn(1, `user${n}@example.com`)));
+        const first = valueOf(await repository.findAll({ limit: 2 }));
+        const second = valueOf(await repository.findAll({ limit: 2, cursor: first.nextCursor ?? undefined }));
+
+        const ids = [...first.items, ...second.items].map(user => user.id.getValue());
+        expect(ids).toEqual(users.map(user => user.id.getValue()).sort());
+      });
+
+      it('should filter by email domain, in either form and any case', async () => {
+        await saveAll(
+          aUserCreatedOn(1, 'john@example.com'),
+          aUserCreatedOn(2, 'jane@münchen.de'),
+          aUserCreatedOn(3, 'joe@sub.example.com')
+        );
+
+        const plain = valueOf(await repository.findAll({ filter: { emailDomain: 'EXAMPLE.com' } }));
+        const unicode = valueOf(await repository.findAll({ filter: { emailDomain: 'MÜNCHEN.de' } }));
+        const ascii = valueOf(await repository.findAll({ filter: { emailDomain: 'xn--mnchen-3ya.de' } }));
+
+        expect(emailsOf(plain)).toEqual(['john@example.com']);
+        expect(emailsOf(unicode)).toEqual(['jane@münchen.de']);
+        expect(emailsOf(ascii)).toEqual(['jane@münchen.de']);
+      });
+
+      it('should filter by name prefix, ignoring case', async () => {
+        await saveAll(
+          aUserCreatedOn(1, 'john@example.com', 'John Doe'),
+          aUserCreatedOn(2, 'johanna@example.com', 'Johanna Berg'),
+          aUserCreatedOn(3, 'jane@example.com', 'Jane Doe')
+        );
+
+        const page = valueOf(await repository.findAll({ filter: { namePrefix: 'jOH' } }));
+
+        expect(emailsOf(page)).toEqual(['john@example.com', 'johanna@example.com']);
+      });
+
+      it('should filter by date ranges, from inclusive to exclusive', async () => {
+        await saveAll(
+          aUserCreatedOn(1, 'user1@example.com', 'John Doe', 9),
+          aUserCreatedOn(2, 'user2@example.com', 'John Doe', 2),
+          aUserCreatedOn(3, 'user3@example.com', 'John Doe', 9)
+        );
+
+        const created = valueOf(await repository.findAll({ filter: { createdAt: { from: at(2), to: at(3) } } }));
+        const updated = valueOf(await repository.findAll({ filter: { updatedAt: { from: at(9) } } }));
+
+        expect(emailsOf(created)).toEqual(['user2@example.com']);
+        expect(emailsOf(updated)).toEqual(['user1@example.com', 'user3@example.com']);
+      });
+
+      it('should count every matching user in total, not just the page', async () => {
+        await saveAll(
+          ...[1, 2, 3].map(day => aUserCreatedOn(day, `user${day}@example.com`)),
+          aUserCreatedOn(4, 'user4@example.org')
+        );
+
+        const page = valueOf(await repository.findAll({ filter: { emailDomain: 'example.com' }, limit: 1 }));
+
+        expect(page.items).toHaveLength(1);
+        expect(page.total).toBe(3);
+      });
+
+      it.each([
+        ['a limit above the maximum', { limit: 1000 }],
+        ['a negative offset', { offset: -1 }],
+        ['a malformed cursor', { cursor: 'not-a-cursor' }],
+        ['both a cursor and an offset', { cursor: 'x', offset: 0 }],
+        ['an invalid domain', { filter: { emailDomain: 'not a domain' } }],
+      ])('should reject %s with InvalidUserQueryError', async (_, query) => {
+        const result = await repository.findAll(query);
+
+        expect(result.isFailure && result.error).toBeInstanceOf(InvalidUserQueryError);
+      });
+
+      it('should reject a cursor issued for another sort', async () => {
+        await saveAll(...[1, 2].map(day => aUserCreatedOn(day, `user${day}@example.com`)));
+        const { nextCursor } = valueOf(await repository.findAll({ limit: 1 }));
+
+        const result = await repository.findAll({
+          sort: { key: 'name', direction: 'asc' },
+          cursor: nextCursor ?? undefined,
+        });
+
+        expect(result.isFailure && result.error).toBeInstanceOf(InvalidUserQueryError);
+      });
+    });
+
+    describe('delete', () => {
+      it('should remove the user', async () => {
+        const user = aUser();
+        valueOf(await repository.save(user));
+
+        valueOf(await repository.delete(user.id));
+
+        expect(valueOf(await repository.findById(user.id))).toBeNull();
+        expect(valueOf(await repository.exists(user.id))).toBe(false);
+      });
+
+      it('should succeed for an unknown id', async () => {
+        const result = await repository.delete(UserId.generate());
+
+        expect(result.isSuccess).toBe(true);
+      });
+    });
+
+    describe('exists', () => {
+      it('should return true for a stored user', async () => {
+        const user = aUser();
+        valueOf(await repository.save(user));
+
+        expect(valueOf(await repository.exists(user.id))).toBe(true);
+      });
+
+      it('should return false for an unknown id', async () => {
+        expect(valueOf(await repository.exists(UserId.generate()))).toBe(false);
+      });
+    });
+
+    describe('lifecycle', () => {
+      const change = (result: Result<User, Error>): User => valueOf(result);
+
+      // A stored user, soft-deleted at the given date
+      const aDeletedUser = async (email: string, deletedAt: Date): Promise<User> => {
+        const saved = valueOf(await repository.save(aUser(email)));
+        return valueOf(await repository.save(change(saved.softDelete(new FixedClock(deletedAt), ids))));
+      };
+
+      it('should store a new user as pending verification', async () => {
+        const user = aUser();
+        valueOf(await repository.save(user));
+
+        expect(valueOf(await repository.findById(user.id))?.status).toBe('pending-verification');
+      });
+
+      it('should keep the status and suspension reason', async () => {
+        const saved = valueOf(await repository.save(aUser()));
+        valueOf(await repository.save(change(saved.suspend('Spam', clock, ids))));
+
+        const found = valueOf(await repository.findById(saved.id));
+
+        expect(found?.status).toBe('suspended');
+        expect(found?.suspensionReason).toBe('Spam');
+        expect(found?.deletedAt).toBeUndefined();
+      });
+
+      it('should keep when the email was verified', async () => {
+        const saved = valueOf(await repository.save(aUser()));
+        const verified = valueOf(await repository.save(saved.confirmEmail(clock, ids)));
+
+        const found = valueOf(await repository.findById(saved.id));
+
+        expect(found?.status).toBe('active');
+        expect(found?.emailVerifiedAt).toEqual(verified.emailVerifiedAt);
+        expect(found?.isEmailVerified).toBe(true);
+      });
+
+      it('should hide soft-deleted users from every read by default', async () => {
+        const deleted = await aDeletedUser('gone@example.com', new Date());
+        valueOf(await repository.save(aUser('kept@example.com')));
+
+        expect(valueOf(await repository.findById(deleted.id))).toBeNull();
+        expect(valueOf(await repository.findByEmail(Email.create('gone@example.com')))).toBeNull();
+        expect(valueOf(await repository.exists(deleted.id))).toBe(false);
+        const page = valueOf(await repository.findAll());
+        expect(page.items.map(user => user.email.getValue())).toEqual(['kept@example.com']);
+        expect(page.total).toBe(1);
+      });
+
+      it('should still return soft-deleted users when asked to', async () => {
+        const deleted = await aDeletedUser('gone@example.com', new Date('2024-01-01T00:00:00.000Z'));
+
+        const found = valueOf(await repository.findById(deleted.id, { includeDeleted: true }));
+        expect(found?.status).toBe('deleted');
+        expect(found?.deletedAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+        expect(valueOf(await repository.findByEmail(deleted.email, { includeDeleted: true }))?.id.equals(deleted.id))
+          .toBe(true);
+        expect(valueOf(await repository.exists(deleted.id, { includeDeleted: true }))).toBe(true);
+        const page = valueOf(await repository.findAll({ filter: { status: 'deleted' } }));
+        expect(page.items.map(user => user.id.getValue())).toEqual([deleted.id.getValue()]);
+      });
+
+      it('should filter by status', async () => {
+        const active = valueOf(await repository.save(aUser('active@example.com')));
+        valueOf(await repository.save(active.confirmEmail(clock, ids)));
+        valueOf(await repository.save(aUser('pending@example.com')));
+
+        const page = valueOf(await repository.findAll({ filter: { status: 'active' } }));
+
+        expect(page.items.map(user => user.email.getValue())).toEqual(['active@example.com']);
+      });
+
+      it('should keep the email of a soft-deleted user taken', async () => {
+        await aDeletedUser('taken@example.com', new Date());
+
+        const result = await repository.save(aUser('taken@example.com', 'Jane Doe'));
+
+        expect(result.isFailure && result.error).toBeInstanceOf(DuplicateEmailError);
+      });
+
+      it('should purge users soft-deleted before the cutoff, and only them', async () => {
+        const old = await aDeletedUser('old@example.com', new Date('2024-01-01T00:00:00.000Z'));
+        const recent = await aDeletedUser('recent@example.com', new Date('2024-03-01T00:00:00.000Z'));
+        const live = aUser('live@example.com');
+        valueOf(await repository.save(live));
+
+        expect(valueOf(await repository.purge(new Date('2024-02-01T00:00:00.000Z')))).toBe(1);
+
+        expect(valueOf(await repository.exists(old.id, { includeDeleted: true }))).toBe(false);
+        expect(valueOf(await repository.exists(recent.id, { includeDeleted: true }))).toBe(true);
+        expect(valueOf(await repository.exists(live.id))).toBe(true);
+        expect(valueOf(await repository.save(aUser('old@example.com'))).email.getValue()).toBe('old@example.com');
+      });
+    });
+
+    describe('defensive copies', () => {
+      it('should not share timestamps with the saved instance', async () => {
+        const user = aUser();
+        const saved = valueOf(await repository.save(user));
+
+        saved.updatedAt.setFullYear(1999);
+        user.createdAt.setFullYear(1999);
+
+        const found = valueOf(await repository.findById(user.id));
+        expect(found?.updatedAt.getFullYear()).not.toBe(1999);
+        expect(found?.createdAt.getFullYear()).not.toBe(1999);
+      });
+
+      it('should return a new instance on every read', async () => {
+        const user = aUser();
+        valueOf(await repository.save(user));
+
+        const first = valueOf(await repository.findById(user.id));
+        const second = valueOf(await repository.findById(user.id));
+
+        expect(first).not.toBe(second);
+        expect(first).not.toBe(user);
+      });
+    });
+  });
+}
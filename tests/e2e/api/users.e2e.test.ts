@@ -0,0 +1,565 @@
+import { FastifyInstance } from 'fastify';
+import { TOKENS } from 'shared/container';
+import { composeContainer } from 'composition-root';
+import { buildServer } from 'presentation/server';
+import { InMemoryUserRepository } from 'infrastructure/repositories/in-memory-user-repository';
+import { InMemoryEmailSender } from 'infrastructure/email/in-memory-email-sender';
+import { InMemoryLogger } from 'infrastructure/logging/in-memory-logger';
+import { UserId } from 'domain/value-objects/user-id';
+import { failure } from 'shared/types/result';
+
+describe('User API (E2E)', () => {
+  let app: FastifyInstance;
+  let userRepository: InMemoryUserRepository;
+  let emailSender: InMemoryEmailSender;
+  let logger: InMemoryLogger;
+
+  beforeEach(async () => {
+    const container = await composeContainer({ profile: 'test' });
+    userRepository = container.resolve(TOKENS.USER_REPOSITORY);
+    emailSender = container.resolve(TOKENS.EMAIL_SERVICE);
+    logger = container.resolve(TOKENS.LOGGER_SERVICE);
+
+    app = buildServer({ container });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const createUser = (payload: object) =>
+    app.inject({ method: 'POST', url: '/users', payload });
+
+  describe('POST /users', () => {
+    it('should create a user and return 201', async () => {
+      const response = await createUser({ email: 'test@example.com', name: 'Test User' });
+
+      expect(response.statusCode).toBe(201);
+      const body = response.json();
+      expect(body).toMatchObject({ email: 'test@example.com', name: 'Test User' });
+      expect(response.headers.location).toBe(`/users/${body.id}`);
+    });
+
+    it('should accept names in any script', async () => {
+      const response = await createUser({ email: 'lei@example.com', name: '  李雷  ' });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json()).toMatchObject({ name: '李雷' });
+    });
+
+    it('should return 400 for a malformed body', async () => {
+      const response = await createUser({ email: 'not-an-email' });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('BAD_REQUEST');
+      expect(response.json().error.details).toEqual(
+        expect.arrayContaining([expect.objectContaining({ path: 'email' }), expect.objectContaining({ path: 'name' })])
+      );
+    });
+
+    it('should return 400 for unknown fields', async () => {
+      const response = await createUser({ email: 'test@example.com', name: 'Test User', admin: true });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 400 for invalid JSON', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users',
+        headers: { 'content-type': 'application/json' },
+        payload: '{"email":',
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 422 for a blocked email', async () => {
+      const response = await createUser({ email: 'user@spam.com', name: 'Test User' });
+
+      expect(response.statusCode).toBe(422);
+      expect(response.json().error.code).toBe('EMAIL_BLOCKED');
+    });
+
+    it('should return 409 for an email already in use', async () => {
+      await createUser({ email: 'test@example.com', name: 'Test User' });
+
+      const response = await createUser({ email: 'test@example.com', name: 'Other User' });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json().error.code).toBe('EMAIL_ALREADY_IN_USE');
+    });
+
+    it('should return 500 without leaking details when the repository fails', async () => {
+      jest.spyOn(userRepository, 'save').mockResolvedValueOnce(failure(new Error('db password is hunter2')));
+
+      const response = await createUser({ email: 'test@example.com', name: 'Test User' });
+
+      expect(response.statusCode).toBe(500);
+      expect(response.body).not.toContain('hunter2');
+      expect(logger.find('error', 'Request failed')[0]).toMatchObject({
+        correlationId: response.headers['x-correlation-id'],
+        fields: { method: 'POST', path: '/users' },
+      });
+    });
+  });
+
+  describe('GET /users/:id', () => {
+    it('should return the user', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+
+      const response = await app.inject({ method: 'GET', url: `/users/${created.id}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(created);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      const response = await app.inject({ method: 'GET', url: `/users/${UserId.generate().getValue()}` });
+
+      expect(response.statusCode).toBe(404);
+      expect(response.json().error.code).toBe('USER_NOT_FOUND');
+    });
+
+    it('should return 400 for a malformed id', async () => {
+      const response = await app.inject({ method: 'GET', url: '/users/not-a-uuid' });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /users?email=', () => {
+    it('should return the matching user', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+
+      const response = await app.inject({ method: 'GET', url: '/users?email=TEST@example.com' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ items: [created], total: 1, nextCursor: null });
+    });
+
+    it('should return an empty list when nobody matches', async () => {
+      const response = await app.inject({ method: 'GET', url: '/users?email=nobody@example.com' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ items: [], total: 0, nextCursor: null });
+    });
+
+    it('should return 400 for an invalid email', async () => {
+      const response = await app.inject({ method: 'GET', url: '/users?email=nope' });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 400 rather than ignore list parameters', async () => {
+      await createUser({ email: 'test@example.com', name: 'Test User' });
+
+      const response = await app.inject({ method: 'GET', url: '/users?email=test@example.com&limit=5&sort=-name' });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /users', () => {
+    const createUsers = async (...names: string[]) => {
+      const created = [];
+      for (const [index, name] of names.entries()) {
+        created.push((await createUser({ email: `user${index}@example.com`, name })).json());
+      }
+      return created;
+    };
+
+    it('should return the first page with the total', async () => {
+      const [first] = await createUsers('Ann Lee', 'Bob Ray', 'Cy Young');
+
+      const response = await app.inject({ method: 'GET', url: '/users?limit=1&sort=name' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ items: [first], total: 3, nextCursor: expect.any(String) });
+    });
+
+    it('should follow the next cursor to the following pages', async () => {
+      await createUsers('Ann Lee', 'Bob Ray', 'Cy Young');
+      const names: string[] = [];
+
+      let url = '/users?limit=2&sort=-name';
+      for (;;) {
+        const body = (await app.inject({ method: 'GET', url })).json();
+        names.push(...body.items.map((user: { name: string }) => user.name));
+        if (!body.nextCursor) {
+          break;
+        }
+        url = `/users?limit=2&sort=-name&cursor=${body.nextCursor}`;
+      }
+
+      expect(names).toEqual(['Cy Young', 'Bob Ray', 'Ann Lee']);
+    });
+
+    it('should filter by name prefix and email domain', async () => {
+      await createUsers('Ann Lee', 'Annie Hall');
+      await createUser({ email: 'ann@example.org', name: 'Anna Bell' });
+
+      const response = await app.inject({ method: 'GET', url: '/users?namePrefix=ann&emailDomain=example.org' });
+
+      expect(response.json().items.map((user: { name: string }) => user.name)).toEqual(['Anna Bell']);
+    });
+
+    it('should filter by creation date', async () => {
+      await createUsers('Ann Lee');
+
+      const response = await app.inject({ method: 'GET', url: '/users?createdFrom=2999-01-01T00:00:00Z' });
+
+      expect(response.json()).toEqual({ items: [], total: 0, nextCursor: null });
+    });
+
+    it.each([
+      ['an unknown sort key', 'sort=email'],
+      ['a limit above the maximum', 'limit=1000'],
+      ['both a cursor and an offset', 'cursor=abc&offset=2'],
+      ['an unknown parameter', 'page=2'],
+      ['a malformed date', 'createdFrom=yesterday'],
+    ])('should return 400 for %s', async (_, query) => {
+      const response = await app.inject({ method: 'GET', url: `/users?${query}` });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 422 for a cursor it did not issue', async () => {
+      const response = await app.inject({ method: 'GET', url: '/users?cursor=not-a-cursor' });
+
+      expect(response.statusCode).toBe(422);
+      expect(response.json().error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('PATCH /users/:id', () => {
+    it('should update the user', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/${created.id}`,
+        payload: { name: 'Renamed User' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().name).toBe('Renamed User');
+    });
+
+    it('should return 400 for an empty body', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+
+      const response = await app.inject({ method: 'PATCH', url: `/users/${created.id}`, payload: {} });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 409 when the new email is taken', async () => {
+      await createUser({ email: 'taken@example.com', name: 'Other User' });
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/${created.id}`,
+        payload: { email: 'taken@example.com' },
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should return the new version as the ETag', async () => {
+      const created = await createUser({ email: 'test@example.com', name: 'Test User' });
+      expect(created.headers.etag).toBe('"1"');
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/${created.json().id}`,
+        headers: { 'if-match': created.headers.etag as string },
+        payload: { name: 'Renamed User' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers.etag).toBe('"2"');
+      expect(response.json().version).toBe(2);
+      const found = await app.inject({ method: 'GET', url: `/users/${created.json().id}` });
+      expect(found.headers.etag).toBe('"2"');
+    });
+
+    it('should return 412 for a stale If-Match and keep the user', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+      await app.inject({ method: 'PATCH', url: `/users/${created.id}`, payload: { name: 'Renamed User' } });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/${created.id}`,
+        headers: { 'if-match': '"1"' },
+        payload: { name: 'Stale User' },
+      });
+
+      expect(response.statusCode).toBe(412);
+      expect(response.json().error.code).toBe('PRECONDITION_FAILED');
+      const found = await app.inject({ method: 'GET', url: `/users/${created.id}` });
+      expect(found.json().name).toBe('Renamed User');
+    });
+
+    it('should accept If-Match: * for any version', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/${created.id}`,
+        headers: { 'if-match': '*' },
+        payload: { name: 'Renamed User' },
+      });
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('should return 400 for a malformed If-Match', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/${created.id}`,
+        headers: { 'if-match': 'W/"1"' },
+        payload: { name: 'Renamed User' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/${UserId.generate().getValue()}`,
+        payload: { name: 'Renamed User' },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /users/:id/{activate,suspend,reactivate}', () => {
+    it('should walk a user through its lifecycle', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+      expect(created.status).toBe('pending-verification');
+
+      // Only verifying the email activates the user
+      const activated = await app.inject({ method: 'POST', url: `/users/${created.id}/activate` });
+      expect(activated.statusCode).toBe(409);
+      expect(activated.json().error.code).toBe('INVALID_STATUS_TRANSITION');
+
+      const suspended = await app.inject({
+        method: 'POST',
+        url: `/users/${created.id}/suspend`,
+        payload: { reason: 'Spam' },
+      });
+      expect(suspended.statusCode).toBe(200);
+      expect(suspended.json()).toMatchObject({ status: 'suspended', suspensionReason: 'Spam' });
+
+      const reactivated = await app.inject({ method: 'POST', url: `/users/${created.id}/reactivate` });
+      expect(reactivated.statusCode).toBe(200);
+      // The email was never verified
+      expect(reactivated.json()).toMatchObject({ status: 'pending-verification', suspensionReason: null });
+      expect(reactivated.headers.etag).toBe('"3"');
+    });
+
+    it('should return 409 for a transition the status does not allow', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+
+      const response = await app.inject({ method: 'POST', url: `/users/${created.id}/reactivate` });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json().error.code).toBe('INVALID_STATUS_TRANSITION');
+    });
+
+    it('should return 400 for a suspension without a reason', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+
+      const response = await app.inject({ method: 'POST', url: `/users/${created.id}/suspend`, payload: {} });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('DELETE /users/:id', () => {
+    it('should delete the user and return 204', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+
+      const response = await app.inject({ method: 'DELETE', url: `/users/${created.id}` });
+
+      expect(response.statusCode).toBe(204);
+      const after = await app.inject({ method: 'GET', url: `/users/${created.id}` });
+      expect(after.statusCode).toBe(404);
+    });
+
+    it('should return 412 for a stale If-Match and keep the user', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+      await app.inject({ method: 'PATCH', url: `/users/${created.id}`, payload: { name: 'Renamed User' } });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/users/${created.id}`,
+        headers: { 'if-match': '"1"' },
+      });
+
+      expect(response.statusCode).toBe(412);
+      const after = await app.inject({ method: 'GET', url: `/users/${created.id}` });
+      expect(after.statusCode).toBe(200);
+    });
+
+    it('should keep the user listed as deleted until it is purged', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+      await app.inject({ method: 'DELETE', url: `/users/${created.id}` });
+
+      const listed = await app.inject({ method: 'GET', url: '/users' });
+      const deleted = await app.inject({ method: 'GET', url: '/users?status=deleted' });
+
+      expect(listed.json().total).toBe(0);
+      expect(deleted.json().items).toEqual([
+        expect.objectContaining({ id: created.id, status: 'deleted', deletedAt: expect.any(String) }),
+      ]);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      const response = await app.inject({ method: 'DELETE', url: `/users/${UserId.generate().getValue()}` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('email verification', () => {
+    const lastToken = (): string =>
+      new URL(/https?:\/\/\S+/.exec(emailSender.sent[emailSender.sent.length - 1].text)![0]).searchParams.get('token')!;
+
+    const verifyEmail = (token: string) =>
+      app.inject({ method: 'POST', url: '/users/verify-email', payload: { token } });
+
+    it('should email a link on registration that activates the user', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+      expect(emailSender.sent).toEqual([expect.objectContaining({ to: 'test@example.com' })]);
+
+      const response = await verifyEmail(lastToken());
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ id: created.id, status: 'active', emailVerifiedAt: expect.any(String) });
+      expect(response.headers.etag).toBe('"2"');
+    });
+
+    it('should refuse a link once it has been used', async () => {
+      await createUser({ email: 'test@example.com', name: 'Test User' });
+      const token = lastToken();
+      await verifyEmail(token);
+
+      const response = await verifyEmail(token);
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toMatchObject({ code: 'INVALID_VERIFICATION_TOKEN', details: { reason: 'used' } });
+    });
+
+    it('should refuse a tampered token', async () => {
+      await createUser({ email: 'test@example.com', name: 'Test User' });
+
+      const response = await verifyEmail(`${lastToken()}x`);
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.details).toEqual({ reason: 'invalid-signature' });
+    });
+
+    it('should send a new link on request and return 202', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+
+      const response = await app.inject({ method: 'POST', url: `/users/${created.id}/verification-email` });
+
+      expect(response.statusCode).toBe(202);
+      expect(response.json()).toEqual({ email: 'test@example.com', expiresAt: expect.any(String) });
+      expect(emailSender.sent).toHaveLength(2);
+    });
+
+    it('should return 409 when the email is already verified', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+      await verifyEmail(lastToken());
+
+      const response = await app.inject({ method: 'POST', url: `/users/${created.id}/verification-email` });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json().error.code).toBe('EMAIL_ALREADY_VERIFIED');
+    });
+
+    it('should ask to verify a changed email again', async () => {
+      const created = (await createUser({ email: 'test@example.com', name: 'Test User' })).json();
+      const oldToken = lastToken();
+      await verifyEmail(oldToken);
+
+      const updated = await app.inject({
+        method: 'PATCH',
+        url: `/users/${created.id}`,
+        payload: { email: 'new@example.com' },
+      });
+
+      expect(updated.json()).toMatchObject({ status: 'pending-verification', emailVerifiedAt: null });
+      const activated = await app.inject({ method: 'POST', url: `/users/${created.id}/activate` });
+      expect(activated.json().error.code).toBe('INVALID_STATUS_TRANSITION');
+      expect(emailSender.sent[emailSender.sent.length - 1].to).toBe('new@example.com');
+      expect((await verifyEmail(oldToken)).json().error.details).toEqual({ reason: 'superseded' });
+      expect((await verifyEmail(lastToken())).json()).toMatchObject({ email: 'new@example.com', status: 'active' });
+    });
+  });
+
+  describe('correlation ids', () => {
+    it('should give each request a correlation id', async () => {
+      const first = await app.inject({ method: 'GET', url: '/users' });
+      const second = await app.inject({ method: 'GET', url: '/users' });
+
+      expect(first.headers['x-correlation-id']).toEqual(expect.any(String));
+      expect(first.headers['x-correlation-id']).not.toBe(second.headers['x-correlation-id']);
+    });
+
+    it('should keep the correlation id sent by the caller', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/users',
+        headers: { 'x-correlation-id': 'upstream-trace-1' },
+      });
+
+      expect(response.headers['x-correlation-id']).toBe('upstream-trace-1');
+    });
+
+    it('should replace a correlation id that is unsafe to log', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/users',
+        headers: { 'x-correlation-id': 'a'.repeat(200) },
+      });
+
+      expect(response.headers['x-correlation-id']).not.toBe('a'.repeat(200));
+    });
+
+    it('should log the completed request with its correlation id, without the query string', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/users?email=john@example.com',
+        headers: { 'x-correlation-id': 'upstream-trace-1' },
+      });
+
+      expect(logger.find('info', 'Request completed')).toEqual([expect.objectContaining({
+        correlationId: 'upstream-trace-1',
+        fields: expect.objectContaining({
+          component: 'http',
+          method: 'GET',
+          path: '/users',
+          statusCode: response.statusCode,
+          durationMs: expect.any(Number),
+        }),
+      })]);
+    });
+
+    it('should stamp the logs of the use cases with the correlation id', async () => {
+      const response = await createUser({ email: 'test@example.com', name: 'Test User' });
+
+      const correlationIds = new Set(logger.entries.map(entry => entry.correlationId));
+      expect(correlationIds).toEqual(new Set([response.headers['x-correlation-id']]));
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { composeContainer, profileFor, verifyComposition } from 'composition-root';
+import { TOKENS } from 'shared/container';
+import { parseConfig } from 'infrastructure/config/app-config';
+import { buildServer } from 'presentation/server';
+import { InMemoryUserRepository } from 'infrastructure/repositories/in-memory-user-repository';
+import { InMemoryEmailSender } from 'infrastructure/email/in-memory-email-sender';
+import { ConsoleEmailSender } from 'infrastructure/email/console-email-sender';
+import { FileEmailSender } from 'infrastructure/email/file-email-sender';
+import { MockAntiSpamAdapter } from 'infrastructure/external-services/mock-anti-spam.adapter';
+import { RealAntiSpamAdapter } from 'infrastructure/external-services/real-anti-spam.adapter';
+import { InProcessEventBus } from 'infrastructure/events/in-process-event-bus';
+import { InMemoryOutboxStore } from 'infrastructure/outbox/in-memory-outbox-store';
+import { InMemoryOutboxTransport } from 'infrastructure/outbox/in-memory-outbox-transport';
+import { LoggerOutboxTransport } from 'infrastructure/outbox/logger-outbox-transport';
+import { OutboxRelay } from 'infrastructure/outbox/outbox-relay';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+import { SYSTEM_CLOCK } from 'domain/ports/clock.port';
+import { RANDOM_ID_GENERATOR } from 'domain/ports/id-generator.port';
+
+describe('composition root', () => {
+  describe('test profile', () => {
+    it('should register an in-memory double for every port', async () => {
+      const container = await composeContainer({ profile: 'test' });
+
+      expect(verifyComposition(container).isSuccess).toBe(true);
+      expect(container.resolve(TOKENS.USER_REPOSITORY)).toBeInstanceOf(InMemoryUserRepository);
+      expect(container.resolve(TOKENS.EMAIL_SERVICE)).toBeInstanceOf(InMemoryEmailSender);
+      expect(container.resolve(TOKENS.ANTI_SPAM_SERVICE)).toBeInstanceOf(MockAntiSpamAdapter);
+      expect(container.resolve(TOKENS.EVENT_BUS)).toBeInstanceOf(InProcessEventBus);
+      expect(container.resolve(TOKENS.OUTBOX_STORE)).toBeInstanceOf(InMemoryOutboxStore);
+      expect(container.resolve(TOKENS.OUTBOX_TRANSPORT)).toBeInstanceOf(InMemoryOutboxTransport);
+      expect(container.resolve(TOKENS.OUTBOX_RELAY)).toBeInstanceOf(OutboxRelay);
+      expect(container.isRegistered(TOKENS.DATABASE_POOL, true)).toBe(false);
+    });
+
+    it('should store the events of saved users in the outbox', async () => {
+      const container = await composeContainer({ profile: 'test' });
+      const app = buildServer({ container });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users',
+        payload: { email: 'john@example.com', name: 'John Doe' },
+      });
+      await app.close();
+
+      expect(container.resolve<InMemoryOutboxStore>(TOKENS.OUTBOX_STORE).messages).toEqual([
+        expect.objectContaining({ type: 'UserRegistered', aggregateId: response.json().id, status: 'pending' }),
+      ]);
+    });
+
+    it('should relay the outbox of the container through its transport', async () => {
+      const container = await composeContainer({ profile: 'test' });
+      const app = buildServer({ container });
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users',
+        payload: { email: 'john@example.com', name: 'John Doe' },
+      });
+      await app.close();
+
+      await container.resolve<OutboxRelay>(TOKENS.OUTBOX_RELAY).dispatchPending();
+
+      expect(container.resolve<InMemoryOutboxTransport>(TOKENS.OUTBOX_TRANSPORT).sent).toEqual([
+        expect.objectContaining({ type: 'UserRegistered', aggregateId: response.json().id }),
+      ]);
+    });
+
+    it('should ignore the configured adapters', async () => {
+      const config = parseConfig({ ANTI_SPAM_API_KEY: 'key', EMAIL_OUTBOX_DIR: '/tmp/emails' });
+
+      const container = await composeContainer({ profile: 'test', config });
+
+      expect(container.resolve(TOKENS.ANTI_SPAM_SERVICE)).toBeInstanceOf(MockAntiSpamAdapter);
+      expect(container.resolve(TOKENS.EMAIL_SERVICE)).toBeInstanceOf(InMemoryEmailSender);
+    });
+
+    it('should give every container its own doubles', async () => {
+      const first = await composeContainer({ profile: 'test' });
+      const second = await composeContainer({ profile: 'test' });
+
+      expect(first.resolve(TOKENS.USER_REPOSITORY)).not.toBe(second.resolve(TOKENS.USER_REPOSITORY));
+    });
+
+    it('should let a child container override one registration', async () => {
+      const container = await composeContainer({ profile: 'test' });
+      const override = container.createChildContainer();
+      const emailSender = new InMemoryEmailSender();
+
+      override.registerInstance(TOKENS.EMAIL_SERVICE, emailSender);
+
+      expect(override.resolve(TOKENS.EMAIL_SERVICE)).toBe(emailSender);
+      expect(override.resolve(TOKENS.USER_REPOSITORY)).toBe(container.resolve(TOKENS.USER_REPOSITORY));
+      expect(container.resolve(TOKENS.EMAIL_SERVICE)).not.toBe(emailSender);
+    });
+  });
+
+  describe('dev profile', () => {
+    it('should register the configured adapters', async () => {
+      const config = parseConfig({ ANTI_SPAM_API_KEY: 'key', EMAIL_OUTBOX_DIR: '/tmp/emails' });
+
+      const container = await composeContainer({ profile: 'dev', config });
+
+      expect(verifyComposition(container).isSuccess).toBe(true);
+      expect(container.resolve(TOKENS.ANTI_SPAM_SERVICE)).toBeInstanceOf(RealAntiSpamAdapter);
+      expect(container.resolve(TOKENS.EMAIL_SERVICE)).toBeInstanceOf(FileEmailSender);
+      expect(container.resolve(TOKENS.OUTBOX_TRANSPORT)).toBeInstanceOf(LoggerOutboxTransport);
+    });
+
+    it('should fall back to local adapters', async () => {
+      const container = await composeContainer({ profile: 'dev' });
+
+      expect(container.resolve(TOKENS.USER_REPOSITORY)).toBeInstanceOf(InMemoryUserRepository);
+      expect(container.resolve(TOKENS.ANTI_SPAM_SERVICE)).toBeInstanceOf(MockAntiSpamAdapter);
+      expect(container.resolve(TOKENS.EMAIL_SERVICE)).toBeInstanceOf(ConsoleEmailSender);
+      expect(container.resolve(TOKENS.OUTBOX_STORE)).toBeInstanceOf(InMemoryOutboxStore);
+    });
+  });
+
+  describe('prod profile', () => {
+    it('should refuse an in-memory database', async () => {
+      const config = parseConfig({ EMAIL_VERIFICATION_SECRET: 's'.repeat(32) });
+
+      await expect(composeContainer({ profile: 'prod', config })).rejects.toThrow('DATABASE_DRIVER=postgres');
+    });
+
+    it('should refuse a missing token secret', async () => {
+      const config = parseConfig({ DATABASE_DRIVER: 'postgres', DATABASE_URL: 'postgres://db/users' });
+
+      await expect(composeContainer({ profile: 'prod', config })).rejects.toThrow('EMAIL_VERIFICATION_SECRET');
+    });
+
+    it('should refuse the mock anti-spam', async () => {
+      const config = parseConfig({
+        DATABASE_DRIVER: 'postgres',
+        DATABASE_URL: 'postgres://db/users',
+        EMAIL_VERIFICATION_SECRET: 's'.repeat(32),
+        ANTI_SPAM_DRIVER: 'mock',
+      });
+
+      await expect(composeContainer({ profile: 'prod', config })).rejects.toThrow('ANTI_SPAM_API_KEY');
+    });
+  });
+
+  describe('clock and ids', () => {
+    it('should default to the system clock and random UUIDs', async () => {
+      const container = await composeContainer({ profile: 'test' });
+
+      expect(container.resolve(TOKENS.CLOCK)).toBe(SYSTEM_CLOCK);
+      expect(container.resolve(TOKENS.ID_GENERATOR)).toBe(RANDOM_ID_GENERATOR);
+    });
+
+    it('should stamp users created over HTTP with the given clock and ids', async () => {
+      const container = await composeContainer({
+        profile: 'test',
+        clock: new FixedClock('2024-05-01T12:00:00.000Z'),
+        ids: new SequentialIdGenerator(),
+      });
+      const app = buildServer({ container });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/users',
+        payload: { email: 'john@example.com', name: 'John Doe' },
+      });
+      await app.close();
+
+      expect(response.json()).toMatchObject({
+        id: SequentialIdGenerator.idAt(1),
+        createdAt: '2024-05-01T12:00:00.000Z',
+      });
+    });
+  });
+
+  it('should map each environment to its profile', () => {
+    expect(profileFor('development')).toBe('dev');
+    expect(profileFor('test')).toBe('test');
+    expect(profileFor('production')).toBe('prod');
+  });
+
+  it('should give each request its own child container', async () => {
+    const container = await composeContainer({ profile: 'test' });
+    const app = buildServer({ container });
+    const seen: unknown[] = [];
+    const repository = container.resolve(TOKENS.USER_REPOSITORY);
+    app.get('/probe', async request => {
+      seen.push(request.container);
+      return { sameRepository: request.container.resolve(TOKENS.USER_REPOSITORY) === repository };
+    });
+
+    const first = await app.inject({ method: 'GET', url: '/probe' });
+    await app.inject({ method: 'GET', url: '/probe' });
+    await app.close();
+
+    expect(first.json()).toEqual({ sameRepository: true });
+    expect(seen).toHaveLength(2);
+    expect(seen[0]).not.toBe(seen[1]);
+    expect(seen[0]).not.toBe(container);
+  });
+});
@@ -0,0 +1,169 @@
+import { Pool, PoolClient } from 'pg';
+import { migrate } from 'infrastructure/database/migrator';
+import { MIGRATIONS } from 'infrastructure/database/migrations';
+import { createTestDatabase } from '../../support/postgres';
+
+describe('migrate', () => {
+  let pool: Pool;
+
+  beforeEach(() => {
+    pool = createTestDatabase().pool;
+  });
+
+  afterEach(async () => {
+    await pool.end();
+  });
+
+  it('should apply every migration on an empty database', async () => {
+    const result = await migrate(pool);
+
+    expect(result.isSuccess).toBe(true);
+    if (result.isSuccess) {
+      expect(result.value).toEqual(MIGRATIONS.map(migration => migration.version));
+    }
+    const { rows } = await pool.query('SELECT version, name FROM schema_migrations ORDER BY version');
+    expect(rows.map(row => row.name)).toEqual(MIGRATIONS.map(migration => migration.name));
+  });
+
+  it('should be a no-op when the schema is up to date', async () => {
+    await migrate(pool);
+
+    const result = await migrate(pool);
+
+    expect(result.isSuccess).toBe(true);
+    if (result.isSuccess) {
+      expect(result.value).toEqual([]);
+    }
+  });
+
+  it('should only apply migrations newer than the recorded ones', async () => {
+    await migrate(pool, MIGRATIONS.slice(0, 1));
+    const extra = { version: 999, name: 'add_test_table', up: 'CREATE TABLE test_only (id INTEGER);' };
+
+    const result = await migrate(pool, [...MIGRATIONS, extra]);
+
+    expect(result.isSuccess).toBe(true);
+    if (result.isSuccess) {
+      expect(result.value).toEqual([...MIGRATIONS.slice(1).map(m => m.version), 999]);
+    }
+  });
+
+  it('should backfill the canonical email of existing users', async () => {
+    await migrate(pool, MIGRATIONS.slice(0, 1));
+    await pool.query(
+      `INSERT INTO users (id, email, name, created_at, updated_at)
+       VALUES ('5b0f1e58-2f0a-4c43-9a3c-1f3f6c0e9d11', 'John@Example.com', 'John Doe', now(), now())`
+    );
+
+    await migrate(pool);
+
+    const { rows } = await pool.query('SELECT email, email_canonical FROM users');
+    expect(rows).toEqual([{ email: 'John@Example.com', email_canonical: 'john@example.com' }]);
+  });
+
+  it('should backfill legacy gmail addresses with the provider rules', async () => {
+    await migrate(pool, MIGRATIONS.slice(0, 1));
+    await pool.query(
+      `INSERT INTO users (id, email, name, created_at, updated_at)
+       VALUES ('5b0f1e58-2f0a-4c43-9a3c-1f3f6c0e9d11', 'J.Doe+news@googlemail.com', 'John Doe', now(), now())`
+    );
+
+    await migrate(pool);
+
+    const { rows } = await pool.query('SELECT email_canonical FROM users');
+    expect(rows).toEqual([{ email_canonical: 'jdoe@gmail.com' }]);
+    await expect(pool.query(
+      `INSERT INTO users (id, email, email_canonical, name, created_at, updated_at)
+       VALUES ('0f8fad5b-d9cb-469f-a165-70867728950e', 'jdoe@gmail.com', 'jdoe@gmail.com', 'Jane Doe', now(), now())`
+    )).rejects.toMatchObject({ code: '23505' });
+  });
+
+  it('should backfill legacy addresses the parser now rejects', async () => {
+    await migrate(pool, MIGRATIONS.slice(0, 1));
+    await pool.query(
+      `INSERT INTO users (id, email, name, created_at, updated_at)
+       VALUES ('5b0f1e58-2f0a-4c43-9a3c-1f3f6c0e9d11', 'J.Doe+X@Localhost', 'John Doe', now(), now())`
+    );
+
+    await migrate(pool);
+
+    const { rows } = await pool.query('SELECT email_canonical FROM users');
+    expect(rows).toEqual([{ email_canonical: 'j.doe+x@localhost' }]);
+  });
+
+  it('should fail, recording nothing, when two legacy users share a mailbox', async () => {
+    await migrate(pool, MIGRATIONS.slice(0, 1));
+    await pool.query(
+      `INSERT INTO users (id, email, name, created_at, updated_at) VALUES
+       ('5b0f1e58-2f0a-4c43-9a3c-1f3f6c0e9d11', 'j.doe@gmail.com', 'John Doe', now(), now()),
+       ('0f8fad5b-d9cb-469f-a165-70867728950e', 'jdoe@gmail.com', 'John Doe', now(), now())`
+    );
+
+    const result = await migrate(pool);
+
+    expect(result.isFailure).toBe(true);
+    const { rows } = await pool.query('SELECT version FROM schema_migrations');
+    expect(rows).toEqual([{ version: 1 }]);
+  });
+
+  it('should number undelivered outbox messages oldest first, then continue after them', async () => {
+    await migrate(pool, MIGRATIONS.filter(migration => migration.version < 8));
+    const insert = (id: string, status: string, at: string) => pool.query(
+      `INSERT INTO outbox_messages (id, type, aggregate_id, payload, occurred_at, status, attempts, next_attempt_at)
+       VALUES ($1, 'UserRegistered', 'user-1', '{}', $2, $3, 0, $2)`,
+      [id, at, status]
+    );
+    await insert('00000000-0000-4000-8000-000000000003', 'pending', '2024-01-03T00:00:00.000Z');
+    await insert('00000000-0000-4000-8000-000000000001', 'dispatched', '2024-01-01T00:00:00.000Z');
+    await insert('00000000-0000-4000-8000-000000000002', 'dead', '2024-01-02T00:00:00.000Z');
+
+    await migrate(pool);
+    await insert('00000000-0000-4000-8000-000000000004', 'pending', '2024-01-04T00:00:00.000Z');
+
+    const { rows } = await pool.query('SELECT id, sequence FROM outbox_messages ORDER BY sequence');
+    expect(rows.map(row => [row.id.slice(-1), Number(row.sequence)])).toEqual([['2', 1], ['3', 2], ['1', 3], ['4', 4]]);
+  });
+
+  it('should return a Failure and record nothing when a migration is broken', async () => {
+    const broken = { version: 999, name: 'broken', up: 'CREATE TABLE nope (' };
+
+    const result = await migrate(pool, [broken]);
+
+    expect(result.isFailure).toBe(true);
+    const { rows } = await pool.query('SELECT version FROM schema_migrations');
+    expect(rows).toEqual([]);
+  });
+
+  it('should roll back a failed migration on its own connection and release it', async () => {
+    const statements: string[] = [];
+    let checkedOut = 0;
+    const connect = pool.connect.bind(pool) as () => Promise<PoolClient>;
+    jest.spyOn(pool, 'connect').mockImplementation((async () => {
+      const client = await connect();
+      checkedOut++;
+      const { query, release } = client;
+      return Object.assign(Object.create(client), {
+        query: (sql: string, ...rest: unknown[]) => {
+          statements.push(sql);
+          return (query as (...args: unknown[]) => unknown).call(client, sql, ...rest);
+        },
+        release: () => {
+          checkedOut--;
+          release.call(client);
+        },
+      });
+    }) as never);
+    const created = { version: 1, name: 'create_test_table', up: 'CREATE TABLE test_only (id INTEGER);' };
+    const broken = { version: 2, name: 'broken', up: 'INSERT INTO test_only (id) VALUES (1); SELECT * FROM nope;' };
+
+    const result = await migrate(pool, [created, broken]);
+
+    expect(result.isFailure).toBe(true);
+    expect(statements.filter(sql => sql === 'BEGIN')).toHaveLength(2);
+    expect(statements.slice(-1)).toEqual(['ROLLBACK']);
+    expect(checkedOut).toBe(0);
+    const { rows } = await pool.query('SELECT version FROM schema_migrations');
+    expect(rows).toEqual([{ version: 1 }]);
+    expect((await pool.query('SELECT id FROM test_only')).rows).toEqual([]);
+  });
+});
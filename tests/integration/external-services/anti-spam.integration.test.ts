@@ -1,5 +1,6 @@
 import { Email } from '../../../src/domain/value-objects/email.js';
 import { RealAntiSpamAdapter } from '../../../src/infrastructure/external-services/real-anti-spam.adapter.js';
+import { InMemoryLogger } from '../../../src/infrastructure/logging/in-memory-logger.js';
 
 describe('Email with Real Anti-Spam Service (Integration)', () => {
   let realAntiSpam: RealAntiSpamAdapter;
@@ -7,7 +8,7 @@ describe('Email with Real Anti-Spam Service (Integration)', () => {
   beforeEach(() => {
     // In real scenario, get API key from environment
     const apiKey = process.env.ANTI_SPAM_API_KEY || 'test-key';
-    realAntiSpam = new RealAntiSpamAdapter(apiKey);
+    realAntiSpam = new RealAntiSpamAdapter(apiKey, { logger: new InMemoryLogger() });
   });
 
   describe('createWithAntiSpamCheck() with real service', () => {
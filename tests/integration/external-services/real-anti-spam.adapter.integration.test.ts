@@ -0,0 +1,280 @@
+import { RealAntiSpamAdapter, RealAntiSpamAdapterOptions } from '../../../src/infrastructure/external-services/real-anti-spam.adapter.js';
+import { InMemoryLogger } from '../../../src/infrastructure/logging/in-memory-logger.js';
+import { HttpStub, json, startHttpStub } from '../../support/http-stub';
+
+describe('RealAntiSpamAdapter against a local stub (Integration)', () => {
+  let stub: HttpStub;
+  let logger: InMemoryLogger;
+
+  const adapter = (options: RealAntiSpamAdapterOptions = {}) =>
+    new RealAntiSpamAdapter('test-key', {
+      baseUrl: stub.url,
+      retry: { initialDelayMs: 1, maxDelayMs: 5 },
+      logger,
+      ...options,
+    });
+
+  beforeEach(async () => {
+    stub = await startHttpStub();
+    logger = new InMemoryLogger();
+  });
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  describe('happy path', () => {
+    it('should return the verdict of the API', async () => {
+      stub.handle((request, response) => json(response, 200, { blocked: request.body.includes('spam') }));
+      const antiSpam = adapter();
+
+      expect(await antiSpam.isBlocked('spam@example.com')).toBe(true);
+      expect(await antiSpam.isBlocked('user@example.com')).toBe(false);
+    });
+
+    it('should authenticate and send the normalized address', async () => {
+      stub.handle((_request, response) => json(response, 200, { blocked: false }));
+
+      await adapter().isBlocked('  User@Example.COM ');
+
+      expect(stub.requests[0]).toMatchObject({ method: 'POST', url: '/check' });
+      expect(stub.requests[0].headers.authorization).toBe('Bearer test-key');
+      expect(JSON.parse(stub.requests[0].body)).toEqual({ email: 'user@example.com' });
+    });
+  });
+
+  describe('verdicts', () => {
+    it('should map a rich response to a verdict', async () => {
+      stub.handle((_request, response) => json(response, 200, {
+        blocked: false,
+        decision: 'review',
+        score: 0.6,
+        reasons: ['DISPOSABLE_DOMAIN', { code: 'SUSPICIOUS_IP', message: 'Signup from a known proxy' }],
+      }));
+
+      const verdict = await adapter().check('user@example.com');
+
+      expect(verdict).toMatchObject({
+        decision: 'review',
+        score: 0.6,
+        reasons: [
+          { code: 'DISPOSABLE_DOMAIN', message: 'DISPOSABLE_DOMAIN' },
+          { code: 'PROVIDER_FLAGGED', message: 'Signup from a known proxy' },
+        ],
+        provider: { name: 'remote', metadata: { cached: false, attempts: 1 } },
+      });
+    });
+
+    it('should derive the decision and score from a bare blocked flag', async () => {
+      stub.handle((_request, response) => json(response, 200, { blocked: true }));
+
+      expect(await adapter().check('user@example.com')).toMatchObject({ decision: 'blocked', score: 1, reasons: [] });
+    });
+
+    it('should flag cached verdicts in the metadata', async () => {
+      stub.handle((_request, response) => json(response, 200, { blocked: false }));
+      const antiSpam = adapter();
+
+      await antiSpam.check('user@example.com');
+      const verdict = await antiSpam.check('user@example.com');
+
+      expect(verdict.provider.metadata).toMatchObject({ cached: true });
+    });
+
+    it('should report a provider outage as a reason', async () => {
+      stub.handle((_request, response) => json(response, 503, {}));
+
+      const verdict = await adapter({ retry: { retries: 0 } }).check('user@example.com');
+
+      expect(verdict.decision).toBe('allowed');
+      expect(verdict.reasons.map(reason => reason.code)).toEqual(['PROVIDER_OUTAGE']);
+      expect(verdict.provider.metadata).toEqual({ failurePolicy: 'fail-open' });
+    });
+  });
+
+  describe('caching', () => {
+    it('should reuse a verdict for the same normalized address', async () => {
+      stub.handle((_request, response) => json(response, 200, { blocked: true }));
+      const antiSpam = adapter();
+
+      await antiSpam.isBlocked('user@example.com');
+      await antiSpam.isBlocked('USER@example.com');
+
+      expect(stub.requests).toHaveLength(1);
+    });
+
+    it('should call the API again once the entry has expired', async () => {
+      stub.handle((_request, response) => json(response, 200, { blocked: false }));
+      let now = 0;
+      const antiSpam = adapter({ cacheTtlMs: 1000, now: () => now });
+
+      await antiSpam.isBlocked('user@example.com');
+      now = 1001;
+      await antiSpam.isBlocked('user@example.com');
+
+      expect(stub.requests).toHaveLength(2);
+    });
+
+    it('should not cache the fallback verdict of a failed call', async () => {
+      stub.handle((_request, response) => json(response, 400, {}));
+      const antiSpam = adapter();
+
+      await antiSpam.isBlocked('user@example.com');
+      await antiSpam.isBlocked('user@example.com');
+
+      expect(stub.requests).toHaveLength(2);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry a 5xx and use the eventual answer', async () => {
+      let calls = 0;
+      stub.handle((_request, response) => (++calls < 3 ? json(response, 503, {}) : json(response, 200, { blocked: true })));
+
+      expect(await adapter({ retry: { retries: 2, initialDelayMs: 1 } }).isBlocked('user@example.com')).toBe(true);
+      expect(stub.requests).toHaveLength(3);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      stub.handle((_request, response) => json(response, 500, {}));
+
+      await adapter({ retry: { retries: 2, initialDelayMs: 1 } }).isBlocked('user@example.com');
+
+      expect(stub.requests).toHaveLength(3);
+    });
+
+    it('should not retry a 4xx', async () => {
+      stub.handle((_request, response) => json(response, 401, {}));
+
+      await adapter({ retry: { retries: 2, initialDelayMs: 1 } }).isBlocked('user@example.com');
+
+      expect(stub.requests).toHaveLength(1);
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should abort a slow request and apply the failure policy', async () => {
+      stub.handle((_request, response) => {
+        setTimeout(() => json(response, 200, { blocked: false }), 500);
+      });
+      const antiSpam = adapter({ timeoutMs: 20, retry: { retries: 0 }, failurePolicy: 'fail-closed' });
+
+      const started = Date.now();
+      const blocked = await antiSpam.isBlocked('user@example.com');
+
+      expect(blocked).toBe(true);
+      expect(Date.now() - started).toBeLessThan(400);
+    });
+
+    it('should retry a timed out attempt', async () => {
+      let calls = 0;
+      stub.handle((_request, response) => {
+        if (++calls === 1) {
+          setTimeout(() => json(response, 200, { blocked: false }), 1000);
+        } else {
+          json(response, 200, { blocked: true });
+        }
+      });
+
+      expect(await adapter({ timeoutMs: 250, retry: { retries: 1, initialDelayMs: 1 } }).isBlocked('user@example.com')).toBe(true);
+    });
+  });
+
+  describe('failure policy', () => {
+    beforeEach(() => {
+      stub.handle((_request, response) => json(response, 503, {}));
+    });
+
+    it('should allow the email when failing open (default)', async () => {
+      expect(await adapter({ retry: { retries: 0 } }).isBlocked('user@example.com')).toBe(false);
+    });
+
+    it('should block the email when failing closed', async () => {
+      expect(await adapter({ retry: { retries: 0 }, failurePolicy: 'fail-closed' }).isBlocked('user@example.com')).toBe(true);
+    });
+
+    it('should apply the policy on network errors', async () => {
+      const unreachable = new RealAntiSpamAdapter('test-key', {
+        baseUrl: 'http://127.0.0.1:1',
+        retry: { retries: 1, initialDelayMs: 1 },
+        failurePolicy: 'fail-closed',
+        logger,
+      });
+
+      expect(await unreachable.isBlocked('user@example.com')).toBe(true);
+      expect(logger.find('error', 'Anti-spam check failed')[0]?.fields).toMatchObject({
+        component: 'anti-spam',
+        failurePolicy: 'fail-closed',
+        attempts: 2,
+      });
+    });
+  });
+
+  describe('malformed responses', () => {
+    it.each([
+      ['an unknown decision', { blocked: true, decision: 'BLOCKED' }],
+      ['a non-numeric score', { blocked: false, score: 'high' }],
+      ['a score out of range', { blocked: false, score: 7 }],
+      ['a missing blocked flag', { decision: 'allowed' }],
+      ['malformed reasons', { blocked: false, reasons: [42] }],
+    ])('should apply the failure policy to a 200 with %s, without retrying', async (_, body) => {
+      stub.handle((_request, response) => json(response, 200, body));
+
+      const verdict = await adapter({ failurePolicy: 'fail-closed' }).check('user@example.com');
+
+      expect(verdict).toMatchObject({ decision: 'blocked', reasons: [{ code: 'PROVIDER_OUTAGE' }] });
+      expect(verdict.reasons[0].message).toContain('Invalid API response');
+      expect(stub.requests).toHaveLength(1);
+    });
+
+    it('should apply the failure policy to a body that is not JSON', async () => {
+      stub.handle((_request, response) => {
+        response.writeHead(200, { 'content-type': 'text/html' }).end('<html>maintenance</html>');
+      });
+
+      expect(await adapter({ failurePolicy: 'fail-closed', retry: { retries: 0 } }).isBlocked('user@example.com')).toBe(true);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should stop calling the API once the circuit opens, then probe after the reset timeout', async () => {
+      stub.handle((_request, response) => json(response, 500, {}));
+      let now = 0;
+      const antiSpam = adapter({
+        retry: { retries: 0 },
+        circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 10_000 },
+        now: () => now,
+      });
+
+      await antiSpam.isBlocked('a@example.com');
+      await antiSpam.isBlocked('b@example.com');
+      await antiSpam.isBlocked('c@example.com');
+      expect(stub.requests).toHaveLength(2);
+
+      stub.handle((_request, response) => json(response, 200, { blocked: false }));
+      now = 10_000;
+      await antiSpam.isBlocked('d@example.com');
+      await antiSpam.isBlocked('e@example.com');
+      expect(stub.requests).toHaveLength(4);
+    });
+
+    it('should send a single trial call when concurrent checks arrive half-open', async () => {
+      stub.handle((_request, response) => json(response, 500, {}));
+      let now = 0;
+      const antiSpam = adapter({
+        retry: { retries: 0 },
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 10_000 },
+        now: () => now,
+      });
+      await antiSpam.isBlocked('a@example.com');
+
+      now = 10_000;
+      const verdicts = await Promise.all(
+        ['b', 'c', 'd', 'e'].map(name => antiSpam.check(`${name}@example.com`))
+      );
+
+      expect(stub.requests).toHaveLength(2);
+      expect(verdicts.filter(verdict => verdict.reasons[0]?.message.endsWith('circuit open'))).toHaveLength(3);
+    });
+  });
+});
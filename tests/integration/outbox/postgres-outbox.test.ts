@@ -0,0 +1,152 @@
+import { Pool } from 'pg';
+import { User } from 'domain/entities/user';
+import { Email } from 'domain/value-objects/email';
+import { UserName } from 'domain/value-objects/user-name';
+import { DuplicateEmailError } from 'domain/repositories/user-repository';
+import { migrate } from 'infrastructure/database/migrator';
+import { SqlClient, SqlPool } from 'infrastructure/database/sql-executor';
+import { PostgresOutboxStore } from 'infrastructure/outbox/postgres-outbox-store';
+import { PostgresProcessedMessageStore, idempotent } from 'infrastructure/outbox/idempotent-consumer';
+import { toOutboxMessage } from 'infrastructure/outbox/outbox-message';
+import { PostgresUserRepository } from 'infrastructure/repositories/postgres-user-repository';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+import { describeOutboxStoreContract } from '../../contracts/outbox-store.contract';
+import { createTestDatabase } from '../../support/postgres';
+
+const clock = new FixedClock('2024-01-01T00:00:00.000Z');
+const ids = new SequentialIdGenerator();
+
+const migratedPool = async (): Promise<Pool> => {
+  const { pool } = createTestDatabase();
+  const migrated = await migrate(pool);
+  if (migrated.isFailure) {
+    throw migrated.error;
+  }
+  return pool;
+};
+
+describe('PostgresOutboxStore', () => {
+  let pool: Pool;
+
+  describeOutboxStoreContract('PostgresOutboxStore', {
+    create: async () => {
+      pool = await migratedPool();
+      return new PostgresOutboxStore(pool);
+    },
+    teardown: async () => {
+      await pool.end();
+    },
+  });
+});
+
+describe('PostgresUserRepository with an outbox', () => {
+  let pool: Pool;
+
+  beforeEach(async () => {
+    pool = await migratedPool();
+  });
+
+  afterEach(async () => {
+    await pool.end();
+  });
+
+  it('should store the events of a saved user', async () => {
+    const repository = new PostgresUserRepository(pool, new PostgresOutboxStore(pool));
+    const user = User.create(Email.create('john@example.com'), UserName.create('John Doe'), clock, ids);
+
+    await repository.save(user);
+
+    const { rows } = await pool.query('SELECT id, type, aggregate_id, status FROM outbox_messages');
+    expect(rows).toEqual([{
+      id: user.peekDomainEvents()[0].eventId,
+      type: 'UserRegistered',
+      aggregate_id: user.id.getValue(),
+      status: 'pending',
+    }]);
+  });
+
+  it('should store no event when the user is rejected', async () => {
+    const repository = new PostgresUserRepository(pool, new PostgresOutboxStore(pool));
+    await repository.save(User.create(Email.create('taken@example.com'), UserName.create('John Doe'), clock, ids));
+
+    const result = await repository.save(User.create(Email.create('taken@example.com'), UserName.create('Jane Doe'), clock, ids));
+
+    expect(result.isFailure && result.error).toBeInstanceOf(DuplicateEmailError);
+    const { rows } = await pool.query('SELECT aggregate_id FROM outbox_messages');
+    expect(rows).toHaveLength(1);
+  });
+
+  describe('transaction', () => {
+    // Records the statements sent through the pool's connections
+    const recordingPool = (statements: string[]): SqlPool => ({
+      query: (text, values) => pool.query(text, values),
+      connect: async (): Promise<SqlClient> => {
+        const client = await pool.connect();
+        return {
+          query: async (text: string, values?: unknown[]) => {
+            statements.push(text.trim().split(/\s+/).slice(0, 3).join(' '));
+            return client.query(text, values);
+          },
+          release: () => client.release(),
+        } as SqlClient;
+      },
+    } as SqlPool);
+
+    it('should write the user and its events in one transaction', async () => {
+      const statements: string[] = [];
+      const repository = new PostgresUserRepository(recordingPool(statements), new PostgresOutboxStore(pool));
+
+      await repository.save(User.create(Email.create('john@example.com'), UserName.create('John Doe'), clock, ids));
+
+      expect(statements).toEqual(['BEGIN', 'INSERT INTO users', 'INSERT INTO outbox_messages', 'COMMIT']);
+    });
+
+    it('should roll back the user when its events cannot be stored', async () => {
+      const statements: string[] = [];
+      const repository = new PostgresUserRepository(recordingPool(statements), new PostgresOutboxStore(pool));
+      await pool.query('DROP TABLE outbox_messages');
+
+      const result = await repository.save(User.create(Email.create('john@example.com'), UserName.create('John Doe'), clock, ids));
+
+      expect(result.isFailure).toBe(true);
+      expect(statements).toEqual(['BEGIN', 'INSERT INTO users', 'INSERT INTO outbox_messages', 'ROLLBACK']);
+    });
+  });
+});
+
+describe('PostgresProcessedMessageStore', () => {
+  let pool: Pool;
+
+  beforeEach(async () => {
+    pool = await migratedPool();
+  });
+
+  afterEach(async () => {
+    await pool.end();
+  });
+
+  it('should handle a redelivered message only once', async () => {
+    const user = User.create(Email.create('john@example.com'), UserName.create('John Doe'), clock, ids);
+    const message = { ...toOutboxMessage(user.pullDomainEvents()[0]), sequence: 1 };
+    const consume = jest.fn().mockResolvedValue(undefined);
+    const handle = idempotent('welcome-email', consume, new PostgresProcessedMessageStore(pool));
+
+    await expect(handle(message)).resolves.toBe(true);
+    await expect(handle(message)).resolves.toBe(false);
+
+    expect(consume).toHaveBeenCalledTimes(1);
+  });
+
+  it('should release the claim when the consumer fails', async () => {
+    const user = User.create(Email.create('john@example.com'), UserName.create('John Doe'), clock, ids);
+    const message = { ...toOutboxMessage(user.pullDomainEvents()[0]), sequence: 1 };
+    const store = new PostgresProcessedMessageStore(pool);
+
+    await expect(idempotent('crm-sync', jest.fn().mockRejectedValue(new Error('down')), store)(message))
+      .rejects.toThrow('down');
+
+    await expect(idempotent('crm-sync', jest.fn().mockResolvedValue(undefined), store)(message))
+      .resolves.toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+import { Pool } from 'pg';
+import { User } from 'domain/entities/user';
+import { Email } from 'domain/value-objects/email';
+import { UserName } from 'domain/value-objects/user-name';
+import { DuplicateEmailError } from 'domain/repositories/user-repository';
+import { PostgresUserRepository } from 'infrastructure/repositories/postgres-user-repository';
+import { migrate } from 'infrastructure/database/migrator';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+import { describeUserRepositoryContract } from '../../contracts/user-repository.contract';
+import { createTestDatabase } from '../../support/postgres';
+
+const clock = new FixedClock('2024-01-01T00:00:00.000Z');
+const ids = new SequentialIdGenerator();
+
+describe('PostgresUserRepository', () => {
+  let pool: Pool;
+
+  describeUserRepositoryContract('PostgresUserRepository', {
+    create: async () => {
+      pool = createTestDatabase().pool;
+      const migrated = await migrate(pool);
+      if (migrated.isFailure) {
+        throw migrated.error;
+      }
+      return new PostgresUserRepository(pool);
+    },
+    teardown: async () => {
+      await pool.end();
+    },
+  });
+
+  describe('legacy rows', () => {
+    let repository: PostgresUserRepository;
+
+    beforeEach(async () => {
+      pool = createTestDatabase().pool;
+      await migrate(pool);
+      repository = new PostgresUserRepository(pool);
+    });
+
+    afterEach(async () => {
+      await pool.end();
+    });
+
+    it('should split a name saved without its parts positionally', async () => {
+      const user = User.create(Email.create('john@example.com'), UserName.create('John Michael Doe'), clock, ids);
+      await repository.save(user);
+      await pool.query('UPDATE users SET name_given = NULL, name_family = NULL, name_order = NULL');
+
+      const found = await repository.findById(user.id);
+
+      expect(found.isSuccess && found.value?.name.getGivenName()).toBe('John Michael');
+      expect(found.isSuccess && found.value?.name.getFamilyName()).toBe('Doe');
+    });
+
+    it('should read an email saved before the parser rejected it', async () => {
+      const user = User.create(Email.create('john@example.com'), UserName.create('John Doe'), clock, ids);
+      await repository.save(user);
+      await repository.save(User.create(Email.create('jane@example.com'), UserName.create('Jane Doe'), clock, ids));
+      await pool.query("UPDATE users SET email = 'John..Doe@localhost' WHERE id = $1", [user.id.getValue()]);
+
+      const found = await repository.findById(user.id);
+      const page = await repository.findAll();
+
+      expect(found.isSuccess && found.value?.email.getValue()).toBe('John..Doe@localhost');
+      expect(page.isSuccess && page.value.items.map(item => item.email.getValue()).sort())
+        .toEqual(['John..Doe@localhost', 'jane@example.com']);
+    });
+  });
+
+  describe('error handling', () => {
+    let repository: PostgresUserRepository;
+
+    beforeEach(async () => {
+      pool = createTestDatabase().pool;
+      await migrate(pool);
+      repository = new PostgresUserRepository(pool);
+    });
+
+    afterEach(async () => {
+      await pool.end();
+    });
+
+    it('should map the unique email index violation to DuplicateEmailError', async () => {
+      const john = User.create(Email.create('taken@example.com'), UserName.create('John Doe'), clock, ids);
+      const jane = User.create(Email.create('taken@example.com'), UserName.create('Jane Doe'), clock, ids);
+      await repository.save(john);
+
+      const result = await repository.save(jane);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(DuplicateEmailError);
+        expect(result.error.message).toContain('taken@example.com');
+      }
+    });
+
+    it('should return a Failure instead of throwing when the table is missing', async () => {
+      await pool.query('DROP TABLE users');
+
+      const result = await repository.findAll();
+
+      expect(result.isFailure).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { Pool } from 'pg';
+import { User } from 'domain/entities/user';
+import { Email } from 'domain/value-objects/email';
+import { UserName } from 'domain/value-objects/user-name';
+import { migrate } from 'infrastructure/database/migrator';
+import { SqlClient, SqlPool } from 'infrastructure/database/sql-executor';
+import { PostgresOutboxStore } from 'infrastructure/outbox/postgres-outbox-store';
+import { PostgresUserRepository } from 'infrastructure/repositories/postgres-user-repository';
+import { PostgresUnitOfWork } from 'infrastructure/unit-of-work/postgres-unit-of-work';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+import { Result, failure, success } from 'shared/types/result';
+import { createTestDatabase } from '../../support/postgres';
+
+const clock = new FixedClock('2024-01-01T00:00:00.000Z');
+const ids = new SequentialIdGenerator();
+
+const aUser = (email = 'john@example.com') => User.create(Email.create(email), UserName.create('John Doe'), clock, ids);
+
+// pg-mem does not undo statements on ROLLBACK, so these tests assert on
+// the statements each connection received instead of on the data
+describe('PostgresUnitOfWork', () => {
+  let pool: Pool;
+  let log: string[];
+  let unitOfWork: PostgresUnitOfWork;
+  let users: PostgresUserRepository;
+
+  // Tags every statement with the connection it went through
+  const recordingPool = (): SqlPool => {
+    let connections = 0;
+    const summary = (text: string) => text.trim().split(/\s+/).slice(0, 3).join(' ');
+    return {
+      query: (text: string, values?: unknown[]) => {
+        log.push(`pool: ${summary(text)}`);
+        return pool.query(text, values);
+      },
+      connect: async (): Promise<SqlClient> => {
+        const client = await pool.connect();
+        const name = `client${++connections}`;
+        return {
+          query: (text: string, values?: unknown[]) => {
+            log.push(`${name}: ${summary(text)}`);
+            return client.query(text, values);
+          },
+          release: () => client.release(),
+        } as SqlClient;
+      },
+    } as SqlPool;
+  };
+
+  beforeEach(async () => {
+    pool = createTestDatabase().pool;
+    await migrate(pool);
+    log = [];
+    unitOfWork = new PostgresUnitOfWork(recordingPool());
+    users = new PostgresUserRepository(unitOfWork, new PostgresOutboxStore(unitOfWork));
+  });
+
+  afterEach(async () => {
+    await pool.end();
+  });
+
+  it('should run statements outside of a transaction through the pool', async () => {
+    await users.findById(aUser().id);
+
+    expect(log).toEqual(['pool: SELECT id, email,']);
+  });
+
+  it('should commit when the work returns a Success', async () => {
+    const result = await unitOfWork.runInTransaction(() => users.save(aUser()));
+
+    expect(result.isSuccess).toBe(true);
+    expect(log).toEqual([
+      'client1: BEGIN',
+      'client1: INSERT INTO users',
+      'client1: INSERT INTO outbox_messages',
+      'client1: COMMIT',
+    ]);
+  });
+
+  it('should roll back when the work returns a Failure', async () => {
+    const result = await unitOfWork.runInTransaction(async () => {
+      await users.save(aUser());
+      return failure(new Error('audit log unavailable'));
+    });
+
+    expect(result.isFailure && result.error.message).toBe('audit log unavailable');
+    expect(log[log.length - 1]).toBe('client1: ROLLBACK');
+  });
+
+  it('should roll back and return a Failure when the work throws', async () => {
+    const result = await unitOfWork.runInTransaction(async (): Promise<Result<void, Error>> => {
+      throw new Error('bug');
+    });
+
+    expect(result.isFailure && result.error.message).toBe('bug');
+    expect(log).toEqual(['client1: BEGIN', 'client1: ROLLBACK']);
+  });
+
+  it('should return a Failure when the transaction cannot start', async () => {
+    unitOfWork = new PostgresUnitOfWork({
+      query: pool.query.bind(pool),
+      connect: () => Promise.reject(new Error('too many connections')),
+    } as unknown as SqlPool);
+
+    const result = await unitOfWork.runInTransaction(async () => success(undefined));
+
+    expect(result.isFailure && result.error.message).toBe('too many connections');
+  });
+
+  it('should let nested calls join the outer transaction', async () => {
+    const result = await unitOfWork.runInTransaction(async () => {
+      await unitOfWork.runInTransaction(() => users.save(aUser('inner@example.com')));
+      return failure(new Error('outer failed'));
+    });
+
+    expect(result.isFailure).toBe(true);
+    expect(log.filter(entry => /BEGIN|COMMIT|ROLLBACK/.test(entry))).toEqual(['client1: BEGIN', 'client1: ROLLBACK']);
+    expect(log.every(entry => entry.startsWith('client1'))).toBe(true);
+  });
+
+  it('should give concurrent transactions their own connection', async () => {
+    await Promise.all([
+      unitOfWork.runInTransaction(() => users.save(aUser('first@example.com'))),
+      unitOfWork.runInTransaction(() => users.save(aUser('second@example.com'))),
+    ]);
+
+    const first = log.filter(entry => entry.startsWith('client1'));
+    const second = log.filter(entry => entry.startsWith('client2'));
+    expect(first).toHaveLength(4);
+    expect(second).toHaveLength(4);
+  });
+
+  it('should keep the data written by a committed transaction', async () => {
+    const user = aUser();
+
+    await unitOfWork.runInTransaction(() => users.save(user));
+
+    const found = await users.findById(user.id);
+    expect(found.isSuccess && found.value?.email.getValue()).toBe('john@example.com');
+  });
+});
@@ -8,13 +8,3 @@ beforeAll(() => {
 afterAll(() => {
   // Cleanup global test environment
 });
-
-// Mock console methods to reduce noise in tests
-global.console = {
-  ...console,
-  log: jest.fn(),
-  debug: jest.fn(),
-  info: jest.fn(),
-  warn: jest.fn(),
-  error: jest.fn(),
-};
@@ -0,0 +1,172 @@
+import fc from 'fast-check';
+import { Email } from 'domain/value-objects/email';
+import { UserId } from 'domain/value-objects/user-id';
+import { UserName } from 'domain/value-objects/user-name';
+
+/**
+ * fast-check arbitraries for the value objects.
+ *
+ * valid* arbitraries only produce accepted inputs; nearlyValid* ones take
+ * a valid input and break one rule, so a property failing on them
+ * points at that rule. Everything is built from combinators (no filter on
+ * whole values), so counterexamples shrink to the smallest input that
+ * still fails.
+ */
+
+const chars = (alphabet: string): fc.Arbitrary<string> => fc.constantFrom(...alphabet);
+
+const join = (parts: readonly string[], separator = ''): string => parts.join(separator);
+
+const textOf = (character: fc.Arbitrary<string>, minLength: number, maxLength: number): fc.Arbitrary<string> =>
+  fc.array(character, { minLength, maxLength }).map(characters => join(characters));
+
+// Emails
+
+const ALPHANUMERIC = 'abcdefghijklmnopqrstuvwxyz0123456789';
+// atext characters besides letters and digits (RFC 5322 §3.2.3)
+const ATEXT_SYMBOLS = "!#$%&'*+/=?^_`{|}~-";
+const PROVIDER_DOMAINS = ['gmail.com', 'googlemail.com', 'outlook.com', 'icloud.com', 'proton.me'];
+
+const atom = fc.tuple(
+  textOf(chars(ALPHANUMERIC), 1, 8),
+  fc.option(textOf(chars(ATEXT_SYMBOLS), 1, 2), { nil: '' }),
+  textOf(chars(ALPHANUMERIC), 0, 4)
+).map(parts => join(parts));
+
+const localPart = fc.array(atom, { minLength: 1, maxLength: 3 }).map(atoms => join(atoms, '.'));
+
+// At most one inner hyphen: "xn--" prefixes are IDNA-encoded labels
+const label = fc.tuple(
+  chars('abcdefghijklmnopqrstuvwxyz'),
+  textOf(chars(ALPHANUMERIC), 0, 8),
+  fc.option(textOf(chars(ALPHANUMERIC), 1, 4).map(tail => `-${tail}`), { nil: '' })
+).map(parts => join(parts));
+
+const domain = fc.oneof(
+  fc.tuple(fc.array(label, { minLength: 1, maxLength: 3 }), fc.constantFrom('com', 'org', 'io', 'co.uk', 'de'))
+    .map(([labels, topLevel]) => `${join(labels, '.')}.${topLevel}`),
+  fc.constantFrom(...PROVIDER_DOMAINS)
+);
+
+export const validEmail: fc.Arbitrary<string> = fc.tuple(localPart, domain)
+  .map(([local, host]) => `${local}@${host}`);
+
+export const email: fc.Arbitrary<Email> = validEmail.map(value => Email.create(value));
+
+const splitEmail = (value: string): [string, string] => {
+  const at = value.lastIndexOf('@');
+  return [value.slice(0, at), value.slice(at + 1)];
+};
+
+export const nearlyValidEmail: fc.Arbitrary<string> = fc.tuple(validEmail, fc.nat()).map(([value, pick]) => {
+  const [local, host] = splitEmail(value);
+  const mutations = [
+    `${local}${host}`,
+    `@${host}`,
+    `${local}@`,
+    `${local}@@${host}`,
+    `.${local}@${host}`,
+    `${local}.@${host}`,
+    `${local}..x@${host}`,
+    `${local} x@${host}`,
+    `${local}@${host.split('.')[0]}`,
+    `${local}@-${host}`,
+    `${local}@${host}.`,
+    `${local}@${host}.123`,
+    `${local}@${host.replace('.', '..')}`,
+    `${'a'.repeat(65)}@${host}`,
+  ];
+  return mutations[pick % mutations.length];
+});
+
+// User names
+
+// Letters of one script each, precomposed: one code point is one grapheme
+const SCRIPTS = {
+  latin: 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZéèêëüöäåøñçßÉÜÖ',
+  cyrillic: 'абвгдеёжзийклмнопрстуфхцчшщъыьэюяАБВГДЖЗИКЛМНОП',
+  greek: 'αβγδεζηθικλμνξοπρστυφχψωάέήίόύώΑΒΓΔΕΖΗΘ',
+  arabic: 'ابتثجحخدذرزسشصضطظعغفقكلمنهوي',
+  han: '山田太郎花子佐藤李雷王明',
+  hangul: '김이박민준서연지우',
+};
+
+const NAME_PUNCTUATION = "'’-.";
+
+// 2 to 15 letters, possibly joined by punctuation ("O'Connor")
+const nameWordOf = (letters: string): fc.Arbitrary<string> => fc.tuple(
+  textOf(chars(letters), 2, 8),
+  fc.option(fc.tuple(chars("'’-"), textOf(chars(letters), 1, 6)).map(parts => join(parts)), { nil: '' })
+).map(parts => join(parts));
+
+// At most 47 graphemes, under the default maximum of 50
+const nameOf = (letters: string): fc.Arbitrary<string> =>
+  fc.array(nameWordOf(letters), { minLength: 1, maxLength: 3 }).map(words => join(words, ' '));
+
+export const validUserName: fc.Arbitrary<string> = fc.oneof(...Object.values(SCRIPTS).map(nameOf));
+
+export const userName: fc.Arbitrary<UserName> = validUserName.map(value => UserName.create(value));
+
+/**
+ * A valid name written with extra whitespace: leading, trailing, repeated,
+ * tabs and no-break spaces. It normalizes to `name`.
+ */
+export const untidyUserName: fc.Arbitrary<{ name: string; untidy: string }> = fc.tuple(
+  validUserName,
+  fc.array(fc.constantFrom(' ', '  ', '\t', '\u00a0', '\u2003', ' \n '), { minLength: 2, maxLength: 10 })
+).map(([name, spaces]) => ({
+  name,
+  untidy: `${spaces[0]}${name.split(' ').join(spaces.slice(1).join('') || ' ')}${spaces.at(-1)}`,
+}));
+
+export const nearlyValidUserName: fc.Arbitrary<string> = fc.tuple(
+  nameOf(SCRIPTS.latin),
+  textOf(chars(SCRIPTS.cyrillic), 2, 8),
+  fc.integer({ min: 0, max: 9 }),
+  chars('@#$%&*!?_/+=<>'),
+  chars(NAME_PUNCTUATION),
+  fc.nat()
+).map(([name, cyrillic, digit, symbol, punctuation, pick]) => {
+  const mutations = [
+    name[0],
+    `${name} `.repeat(Math.ceil(52 / (name.length + 1))).trim(),
+    `${name}${digit}`,
+    `${name}${symbol}`,
+    `${symbol}${name}`,
+    `${punctuation}${name}`,
+    `${name.split(' ')[0]}${punctuation}${punctuation}${name.split(' ')[0]}`,
+    `${name.split(' ')[0]} ${cyrillic}`,
+    `${name}\u0000`,
+  ];
+  return mutations[pick % mutations.length];
+});
+
+// User ids
+
+export const validUserId: fc.Arbitrary<string> = fc.uuid();
+
+export const userId: fc.Arbitrary<UserId> = validUserId.map(value => UserId.create(value));
+
+const replaceAt = (text: string, index: number, character: string): string =>
+  `${text.slice(0, index)}${character}${text.slice(index + 1)}`;
+
+export const nearlyValidUserId: fc.Arbitrary<string> = fc.tuple(
+  validUserId,
+  fc.integer({ min: 0, max: 35 }),
+  chars('ghijklmnopqrstuvwxyz'),
+  chars('06789'),
+  chars('01234567cdef'),
+  fc.nat()
+).map(([value, index, notHex, version, variant, pick]) => {
+  const hexIndex = [8, 13, 18, 23].includes(index) ? index + 1 : index;
+  const mutations = [
+    replaceAt(value, hexIndex, notHex),
+    replaceAt(value, 14, version),
+    replaceAt(value, 19, variant),
+    value.slice(0, -1),
+    `${value}0`,
+    value.replace('-', ''),
+    ` ${value}`,
+  ];
+  return mutations[pick % mutations.length];
+});
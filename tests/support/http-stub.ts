@@ -0,0 +1,58 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+export type StubHandler = (request: RecordedRequest, response: ServerResponse) => void | Promise<void>;
+
+/**
+ * Local HTTP server standing in for a third-party API.
+ * Every request is recorded; `handler` decides the answer.
+ */
+export interface HttpStub {
+  url: string;
+  requests: RecordedRequest[];
+  handle(handler: StubHandler): void;
+  close(): Promise<void>;
+}
+
+export async function startHttpStub(): Promise<HttpStub> {
+  const requests: RecordedRequest[] = [];
+  let handler: StubHandler = (_request, response) => {
+    response.writeHead(404).end();
+  };
+
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const recorded = { method: req.method ?? '', url: req.url ?? '', headers: req.headers, body };
+      requests.push(recorded);
+      Promise.resolve(handler(recorded, res)).catch(() => res.destroy());
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    handle(next) {
+      handler = next;
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+export const json = (response: ServerResponse, status: number, body: unknown): void => {
+  response.writeHead(status, { 'content-type': 'application/json' }).end(JSON.stringify(body));
+};
@@ -0,0 +1,43 @@
+import { User } from 'domain/entities/user';
+import { Email } from 'domain/value-objects/email';
+import { UserName } from 'domain/value-objects/user-name';
+import { aUser } from './user-builder';
+
+/**
+ * Named, ready-made fixtures for the cases tests keep needing. Each call
+ * returns a new instance. Use aUser() for anything more specific.
+ */
+export const EmailMother = {
+  john: (): Email => Email.create('john@example.com'),
+  jane: (): Email => Email.create('jane@example.com'),
+  // Same mailbox as jdoe@gmail.com once canonicalized
+  gmailAlias: (): Email => Email.create('J.Doe+news@gmail.com'),
+  internationalized: (): Email => Email.create('jürgen@münchen.de'),
+};
+
+export const UserNameMother = {
+  john: (): UserName => UserName.create('John Doe'),
+  jane: (): UserName => UserName.create('Jane Doe'),
+  familyFirst: (): UserName => UserName.fromParts({ given: 'Lei', family: 'Li', order: 'family-first' }),
+  cyrillic: (): UserName => UserName.create('Иван Петров'),
+};
+
+/**
+ * Stored users, one per lifecycle status, with versions consistent with
+ * the path that leads there (see user-status.ts)
+ */
+export const UserMother = {
+  // Registered, never saved: carries its UserRegistered event
+  registered: (): User => aUser().buildNew(),
+  pendingVerification: (): User => aUser().build(),
+  active: (): User => aUser().verified().active().withVersion(2).build(),
+  suspended: (reason = 'Spam'): User =>
+    aUser().verified().suspended(reason).withVersion(3).updatedAt('2024-02-01T00:00:00.000Z').build(),
+  deleted: (): User =>
+    aUser().verified().deleted().withVersion(3).updatedAt('2024-03-01T00:00:00.000Z').build(),
+  jane: (): User => aUser()
+    .withId('0f8fad5b-d9cb-469f-a165-70867728950e')
+    .withEmail(EmailMother.jane())
+    .withName(UserNameMother.jane())
+    .build(),
+};
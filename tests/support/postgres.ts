@@ -0,0 +1,22 @@
+import { newDb, IMemoryDb } from 'pg-mem';
+import { Pool } from 'pg';
+
+/**
+ * In-process PostgreSQL for integration tests.
+ *
+ * pg-mem parses and executes real SQL with PostgreSQL semantics (types,
+ * unique indexes, SQLSTATE codes) without a server, so repository tests
+ * run offline and in milliseconds.
+ */
+export interface TestDatabase {
+  db: IMemoryDb;
+  pool: Pool;
+}
+
+export function createTestDatabase(): TestDatabase {
+  // pg-mem rejects a repeated CREATE TABLE IF NOT EXISTS unless the
+  // AST coverage check is off, and the migrator relies on that statement
+  const db = newDb({ noAstCoverageCheck: true });
+  const { Pool: MemPool } = db.adapters.createPg();
+  return { db, pool: new MemPool() as Pool };
+}
@@ -0,0 +1,48 @@
+/**
+ * Deterministic pseudo-random source for test fixtures: the same seed
+ * always yields the same sequence, so a failing fixture can be replayed.
+ * Not suitable for anything security related.
+ */
+export interface Random {
+  readonly seed: number;
+  // In [0, 1)
+  next(): number;
+  // In [min, max], both included
+  integer(min: number, max: number): number;
+  chance(probability: number): boolean;
+  pick<T>(items: readonly T[]): T;
+  string(alphabet: string, length: number): string;
+}
+
+/**
+ * mulberry32: 32 bits of state, fast, and well distributed enough for
+ * picking test data
+ */
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let mixed = state;
+    mixed = Math.imul(mixed ^ (mixed >>> 15), mixed | 1);
+    mixed ^= mixed + Math.imul(mixed ^ (mixed >>> 7), mixed | 61);
+    return ((mixed ^ (mixed >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const integer = (min: number, max: number): number => min + Math.floor(next() * (max - min + 1));
+
+  return {
+    seed,
+    next,
+    integer,
+    chance: probability => next() < probability,
+    pick: items => {
+      if (items.length === 0) {
+        throw new Error('Cannot pick from an empty list');
+      }
+      return items[integer(0, items.length - 1)];
+    },
+    string: (alphabet, length) =>
+      Array.from({ length }, () => alphabet[integer(0, alphabet.length - 1)]).join(''),
+  };
+}
@@ -0,0 +1,92 @@
+import { UserMother } from './object-mother';
+import { aRandomUser, aUser } from './user-builder';
+import { valueObjectGenerators } from './value-object-generators';
+
+describe('aUser', () => {
+  it('should build a stored user with the defaults', () => {
+    const user = aUser().build();
+
+    expect(user.toJSON()).toEqual({
+      id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+      email: 'john@example.com',
+      name: 'John Doe',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      version: 1,
+      status: 'pending-verification',
+      suspensionReason: null,
+      deletedAt: null,
+      emailVerifiedAt: null,
+    });
+    expect(user.persistedVersion).toBe(1);
+    expect(user.pullDomainEvents()).toEqual([]);
+  });
+
+  it('should apply every customization', () => {
+    const user = aUser()
+      .withEmail('jane@example.com')
+      .withName('Jane Doe')
+      .createdAt('2024-05-01T00:00:00.000Z')
+      .updatedAt('2024-06-01T00:00:00.000Z')
+      .verified('2024-05-02T00:00:00.000Z')
+      .suspended('Chargeback')
+      .withVersion(4)
+      .build();
+
+    expect(user.toJSON()).toMatchObject({
+      email: 'jane@example.com',
+      name: 'Jane Doe',
+      createdAt: '2024-05-01T00:00:00.000Z',
+      updatedAt: '2024-06-01T00:00:00.000Z',
+      emailVerifiedAt: '2024-05-02T00:00:00.000Z',
+      status: 'suspended',
+      suspensionReason: 'Chargeback',
+      version: 4,
+    });
+  });
+
+  it('should delete at the last update by default', () => {
+    const user = aUser().updatedAt('2024-03-01T00:00:00.000Z').deleted().build();
+
+    expect(user.status).toBe('deleted');
+    expect(user.deletedAt).toEqual(new Date('2024-03-01T00:00:00.000Z'));
+  });
+
+  it('should keep only the last status', () => {
+    const user = aUser().suspended().active().build();
+
+    expect(user.status).toBe('active');
+    expect(user.suspensionReason).toBeUndefined();
+  });
+
+  it('should build a new user that was never saved', () => {
+    const user = aUser().withEmail('jane@example.com').buildNew();
+
+    expect(user.persistedVersion).toBe(0);
+    expect(user.email.getValue()).toBe('jane@example.com');
+    expect(user.pullDomainEvents().map(event => event.type)).toEqual(['UserRegistered']);
+  });
+
+  it('should build the same random user from the same seed', () => {
+    const first = aRandomUser(valueObjectGenerators(3)).build();
+    const second = aRandomUser(valueObjectGenerators(3)).build();
+
+    expect(first.toJSON()).toEqual(second.toJSON());
+    expect(first.id.equals(aUser().build().id)).toBe(false);
+  });
+});
+
+describe('UserMother', () => {
+  it.each([
+    ['pendingVerification', 'pending-verification'],
+    ['active', 'active'],
+    ['suspended', 'suspended'],
+    ['deleted', 'deleted'],
+  ] as const)('should build a %s user', (fixture, status) => {
+    expect(UserMother[fixture]().status).toBe(status);
+  });
+
+  it('should build a new instance on every call', () => {
+    expect(UserMother.active()).not.toBe(UserMother.active());
+  });
+});
@@ -0,0 +1,129 @@
+import { User, UserProps } from 'domain/entities/user';
+import { ClockPort } from 'domain/ports/clock.port';
+import { IdGeneratorPort, RANDOM_ID_GENERATOR } from 'domain/ports/id-generator.port';
+import { Email } from 'domain/value-objects/email';
+import { UserId } from 'domain/value-objects/user-id';
+import { UserName } from 'domain/value-objects/user-name';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+import { ValueObjectGenerators } from './value-object-generators';
+
+const DEFAULT_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const DEFAULT_CREATED_AT = new Date('2024-01-01T00:00:00.000Z');
+
+const dateOf = (date: Date | string): Date => typeof date === 'string' ? new Date(date) : date;
+
+/**
+ * Fluent builder of users in any state, with fixed defaults: John Doe,
+ * john@example.com, pending verification, created on 2024-01-01.
+ *
+ *   aUser().withEmail('jane@example.com').suspended('Spam').build()
+ *
+ * build() gives a user as loaded from storage (no events, persistedVersion
+ * equal to its version); buildNew() a user just registered and never saved.
+ */
+export class UserBuilder {
+  private id: UserId = UserId.create(DEFAULT_ID);
+  private email: Email = Email.create('john@example.com');
+  private name: UserName = UserName.create('John Doe');
+  private created: Date = DEFAULT_CREATED_AT;
+  // Defaults to the creation date
+  private updated?: Date;
+  private version = 1;
+  private state: Pick<UserProps, 'status' | 'suspensionReason' | 'deletedAt'> = { status: 'pending-verification' };
+  private emailVerifiedAt?: Date;
+
+  withId(id: UserId | string): this {
+    this.id = typeof id === 'string' ? UserId.create(id) : id;
+    return this;
+  }
+
+  withEmail(email: Email | string): this {
+    this.email = typeof email === 'string' ? Email.create(email) : email;
+    return this;
+  }
+
+  withName(name: UserName | string): this {
+    this.name = typeof name === 'string' ? UserName.create(name) : name;
+    return this;
+  }
+
+  createdAt(date: Date | string): this {
+    this.created = dateOf(date);
+    return this;
+  }
+
+  updatedAt(date: Date | string): this {
+    this.updated = dateOf(date);
+    return this;
+  }
+
+  withVersion(version: number): this {
+    this.version = version;
+    return this;
+  }
+
+  pendingVerification(): this {
+    this.state = { status: 'pending-verification' };
+    return this;
+  }
+
+  active(): this {
+    this.state = { status: 'active' };
+    return this;
+  }
+
+  suspended(reason = 'Spam'): this {
+    this.state = { status: 'suspended', suspensionReason: reason };
+    return this;
+  }
+
+  /**
+   * Soft-deleted, at the last update unless `at` is given
+   */
+  deleted(at?: Date | string): this {
+    this.state = { status: 'deleted', deletedAt: at === undefined ? undefined : dateOf(at) };
+    return this;
+  }
+
+  /**
+   * Email confirmed, at the creation date unless `at` is given
+   */
+  verified(at?: Date | string): this {
+    this.emailVerifiedAt = at === undefined ? this.created : dateOf(at);
+    return this;
+  }
+
+  build(): User {
+    const updatedAt = this.updated ?? this.created;
+    return User.reconstitute({
+      id: this.id,
+      email: this.email,
+      name: this.name,
+      createdAt: this.created,
+      updatedAt,
+      version: this.version,
+      ...this.state,
+      ...(this.state.status === 'deleted' ? { deletedAt: this.state.deletedAt ?? updatedAt } : {}),
+      emailVerifiedAt: this.emailVerifiedAt,
+    });
+  }
+
+  /**
+   * Registers the user with User.create(): only the id, email and name
+   * are used, the rest is what registration gives (the time of `clock`,
+   * the creation date by default, pending, version 1). Event ids are
+   * random unless `ids` is given, so users built apart never share one.
+   */
+  buildNew(clock: ClockPort = new FixedClock(this.created), ids: IdGeneratorPort = RANDOM_ID_GENERATOR): User {
+    return User.create(this.email, this.name, clock, ids, this.id);
+  }
+}
+
+export const aUser = (): UserBuilder => new UserBuilder();
+
+/**
+ * A user with a generated id, email and name, e.g. to fill a repository
+ * with many distinct users
+ */
+export const aRandomUser = (generate: ValueObjectGenerators): UserBuilder =>
+  aUser().withId(generate.userId()).withEmail(generate.email()).withName(generate.userName());
@@ -0,0 +1,66 @@
+import { Email } from 'domain/value-objects/email';
+import { UserId } from 'domain/value-objects/user-id';
+import { UserName } from 'domain/value-objects/user-name';
+import { seededRandom } from './random';
+import { valueObjectGenerators } from './value-object-generators';
+
+const SEEDS = [1, 42, 20240101];
+const SAMPLES = 200;
+
+const sample = <T>(generate: () => T): T[] => Array.from({ length: SAMPLES }, generate);
+
+describe('seededRandom', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const first = seededRandom(7);
+    const second = seededRandom(7);
+
+    expect(sample(() => first.next())).toEqual(sample(() => second.next()));
+  });
+
+  it('should stay within the requested bounds', () => {
+    const random = seededRandom(7);
+
+    const integers = sample(() => random.integer(-2, 2));
+
+    expect(new Set(integers)).toEqual(new Set([-2, -1, 0, 1, 2]));
+  });
+});
+
+describe('valueObjectGenerators', () => {
+  it('should generate the same fixtures from the same seed', () => {
+    const first = valueObjectGenerators(42);
+    const second = valueObjectGenerators(42);
+
+    const fixtures = (generate: typeof first) =>
+      sample(() => [generate.validEmail(), generate.invalidUserName(), generate.userId().getValue()]);
+
+    expect(fixtures(first)).toEqual(fixtures(second));
+  });
+
+  it('should generate different fixtures from different seeds', () => {
+    expect(sample(valueObjectGenerators(1).validEmail)).not.toEqual(sample(valueObjectGenerators(2).validEmail));
+  });
+
+  describe.each(SEEDS)('with seed %d', seed => {
+    it('should generate valid and invalid emails', () => {
+      const generate = valueObjectGenerators(seed);
+
+      expect(sample(generate.validEmail).filter(email => !Email.isValid(email))).toEqual([]);
+      expect(sample(generate.invalidEmail).filter(email => Email.isValid(email))).toEqual([]);
+    });
+
+    it('should generate valid and invalid user names', () => {
+      const generate = valueObjectGenerators(seed);
+
+      expect(sample(generate.validUserName).filter(name => !UserName.isValid(name))).toEqual([]);
+      expect(sample(generate.invalidUserName).filter(name => UserName.isValid(name))).toEqual([]);
+    });
+
+    it('should generate valid and invalid user ids', () => {
+      const generate = valueObjectGenerators(seed);
+
+      expect(sample(generate.validUserId).filter(id => !UserId.isValid(id))).toEqual([]);
+      expect(sample(generate.invalidUserId).filter(id => UserId.isValid(id))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { Email } from 'domain/value-objects/email';
+import { UserId } from 'domain/value-objects/user-id';
+import { UserName } from 'domain/value-objects/user-name';
+import { Random, seededRandom } from './random';
+
+/**
+ * Seeded generators of valid and invalid raw values for the value objects.
+ * Two generators built from the same seed produce the same values in the
+ * same order.
+ *
+ * Invalid values each break exactly one rule, picked at random: a missing
+ * "@", a single-label domain, a digit in a name, a UUID of the wrong
+ * version...
+ */
+export interface ValueObjectGenerators {
+  readonly seed: number;
+  validEmail(): string;
+  invalidEmail(): string;
+  email(): Email;
+  validUserName(): string;
+  invalidUserName(): string;
+  userName(): UserName;
+  validUserId(): string;
+  invalidUserId(): string;
+  userId(): UserId;
+}
+
+const LOWERCASE = 'abcdefghijklmnopqrstuvwxyz';
+const ALPHANUMERIC = `${LOWERCASE}0123456789`;
+const HEX = '0123456789abcdef';
+const TOP_LEVEL_DOMAINS = ['com', 'org', 'net', 'io', 'dev', 'fr', 'de', 'co.uk'];
+
+interface NamePool {
+  given: readonly string[];
+  family: readonly string[];
+  // Family name first when displayed
+  familyFirst?: boolean;
+}
+
+// One script per pool: mixing scripts within a name is invalid
+const NAME_POOLS: readonly NamePool[] = [
+  {
+    given: ['John', 'Jane', 'Émilie', 'Jean-Pierre', 'Søren', 'Zoë', 'José', 'Mary Ann'],
+    family: ['Doe', "O'Connor", 'Müller', 'García', 'Nguyễn', 'Smith'],
+  },
+  { given: ['Иван', 'Ольга', 'Дмитрий'], family: ['Петров', 'Смирнова'] },
+  { given: ['Νίκος', 'Ελένη'], family: ['Παπαδόπουλος', 'Οικονόμου'] },
+  { given: ['محمد', 'فاطمة'], family: ['العلي', 'حداد'] },
+  { given: ['太郎', '花子'], family: ['山田', '佐藤'], familyFirst: true },
+  { given: ['민준', '서연'], family: ['김', '이'], familyFirst: true },
+];
+
+const word = (random: Random, alphabet: string, min: number, max: number): string =>
+  random.string(alphabet, random.integer(min, max));
+
+const generateValidEmail = (random: Random): string => {
+  const localPart = random.chance(0.3)
+    ? `${word(random, ALPHANUMERIC, 1, 8)}${random.pick(['.', '+', '_', '-'])}${word(random, ALPHANUMERIC, 1, 8)}`
+    : word(random, ALPHANUMERIC, 1, 12);
+  const labels = Array.from(
+    { length: random.integer(1, 2) },
+    () => `${random.pick([...LOWERCASE])}${word(random, ALPHANUMERIC, 0, 9)}`
+  );
+  return `${localPart}@${labels.join('.')}.${random.pick(TOP_LEVEL_DOMAINS)}`;
+};
+
+const INVALID_EMAILS: readonly ((random: Random) => string)[] = [
+  random => generateValidEmail(random).replace('@', ''),
+  random => `@${generateValidEmail(random).split('@')[1]}`,
+  random => generateValidEmail(random).replace('@', '@@'),
+  random => `.${generateValidEmail(random)}`,
+  random => generateValidEmail(random).replace('@', '..x@'),
+  random => generateValidEmail(random).replace('@', ' x@'),
+  random => `${generateValidEmail(random).split('@')[0]}@${word(random, LOWERCASE, 1, 10)}`,
+  random => `${generateValidEmail(random).split('@')[0]}@${word(random, LOWERCASE, 1, 10)}.${random.integer(0, 999)}`,
+  random => generateValidEmail(random).replace('@', '@-'),
+  random => `${'a'.repeat(65)}@${generateValidEmail(random).split('@')[1]}`,
+  random => random.pick(['', ' ', 'not an email']),
+];
+
+const generateValidUserName = (random: Random): string => {
+  const pool = random.pick(NAME_POOLS);
+  const given = random.pick(pool.given);
+  if (random.chance(0.2)) {
+    return given;
+  }
+  const family = random.pick(pool.family);
+  return pool.familyFirst ? `${family} ${given}` : `${given} ${family}`;
+};
+
+const INVALID_USER_NAMES: readonly ((random: Random) => string)[] = [
+  // Too short
+  random => random.pick([...'ABCDEFGHIJKLMNOPQRSTUVWXYZ']),
+  // Too long
+  random => Array.from({ length: 15 }, () => random.pick(NAME_POOLS[0].family)).join(' '),
+  random => `${generateValidUserName(random)}${random.integer(0, 99)}`,
+  random => `${random.pick(NAME_POOLS[0].given)}${random.pick([...'@#$%&*!?_/'])}${random.pick(NAME_POOLS[0].family)}`,
+  random => `-${random.pick(NAME_POOLS[0].given)}`,
+  // Latin and Cyrillic letters in one name
+  random => `${random.pick(NAME_POOLS[0].given)} ${random.pick(NAME_POOLS[1].family)}`,
+  random => random.pick(['', '   ', '\t']),
+];
+
+// A random version 4 UUID, the kind UserId.generate() makes
+const generateValidUserId = (random: Random): string => {
+  const hex = random.string(HEX, 32).split('');
+  hex[12] = '4';
+  hex[16] = random.pick([...'89ab']);
+  const digits = hex.join('');
+  return [
+    digits.slice(0, 8),
+    digits.slice(8, 12),
+    digits.slice(12, 16),
+    digits.slice(16, 20),
+    digits.slice(20),
+  ].join('-');
+};
+
+const replaceAt = (text: string, index: number, character: string): string =>
+  `${text.slice(0, index)}${character}${text.slice(index + 1)}`;
+
+const INVALID_USER_IDS: readonly ((random: Random) => string)[] = [
+  // Version 0
+  random => replaceAt(generateValidUserId(random), 14, '0'),
+  // Not the RFC 4122 variant
+  random => replaceAt(generateValidUserId(random), 19, random.pick([...'01234567cdef'])),
+  random => generateValidUserId(random).replaceAll('-', ''),
+  random => generateValidUserId(random).slice(0, -1),
+  random => replaceAt(generateValidUserId(random), 0, random.pick([...'ghijklmnopqrstuvwxyz'])),
+  random => random.pick(['', 'not-a-uuid', '12345']),
+];
+
+export function valueObjectGenerators(seed: number): ValueObjectGenerators {
+  const random = seededRandom(seed);
+
+  return {
+    seed,
+    validEmail: () => generateValidEmail(random),
+    invalidEmail: () => random.pick(INVALID_EMAILS)(random),
+    email: () => Email.create(generateValidEmail(random)),
+    validUserName: () => generateValidUserName(random),
+    invalidUserName: () => random.pick(INVALID_USER_NAMES)(random),
+    userName: () => UserName.create(generateValidUserName(random)),
+    validUserId: () => generateValidUserId(random),
+    invalidUserId: () => random.pick(INVALID_USER_IDS)(random),
+    userId: () => UserId.create(generateValidUserId(random)),
+  };
+}
@@ -0,0 +1,51 @@
+import {
+  SendVerificationEmailOnEmailChange,
+  SendVerificationEmailOnRegistration,
+} from 'application/event-handlers/send-verification-email.handler';
+import { RequestEmailVerificationUseCase } from 'application/use-cases/request-email-verification.use-case';
+import { UseCaseError } from 'application/errors/use-case-error';
+import { UserEmailChanged, UserRegistered } from 'domain/events';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+import { failure, success } from 'shared/types/result';
+
+describe('send verification email handlers', () => {
+  const id = '3b241101-e2bb-4255-8caf-4136c566a962';
+  const eventId = SequentialIdGenerator.idAt(1);
+  let requestVerification: jest.Mocked<Pick<RequestEmailVerificationUseCase, 'execute'>>;
+
+  beforeEach(() => {
+    requestVerification = {
+      execute: jest.fn().mockResolvedValue(success({ email: 'john@example.com', expiresAt: '2024-01-02T00:00:00.000Z' })),
+    };
+  });
+
+  const onRegistration = () =>
+    new SendVerificationEmailOnRegistration(requestVerification as unknown as RequestEmailVerificationUseCase);
+  const onEmailChange = () =>
+    new SendVerificationEmailOnEmailChange(requestVerification as unknown as RequestEmailVerificationUseCase);
+
+  it('should send a link when a user registers', async () => {
+    await onRegistration().handle(new UserRegistered(id, { email: 'john@example.com', name: 'John Doe' }, new Date(), eventId));
+
+    expect(requestVerification.execute).toHaveBeenCalledWith({ id });
+  });
+
+  it('should send a link when a user changes email', async () => {
+    await onEmailChange().handle(new UserEmailChanged(id, {
+      previousEmail: 'john@example.com',
+      email: 'new@example.com',
+    }, new Date(), eventId));
+
+    expect(requestVerification.execute).toHaveBeenCalledWith({ id });
+  });
+
+  it('should throw when the link cannot be sent, so the bus reports it', async () => {
+    const error = UseCaseError.unexpected(new Error('Email provider unavailable'));
+    requestVerification.execute.mockResolvedValueOnce(failure(error));
+
+    const registered = new UserRegistered(id, { email: 'john@example.com', name: 'John Doe' }, new Date(), eventId);
+
+    await expect(onRegistration().handle(registered))
+      .rejects.toBe(error);
+  });
+});
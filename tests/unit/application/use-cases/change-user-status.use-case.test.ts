@@ -0,0 +1,112 @@
+import { ChangeUserStatusUseCase } from 'application/use-cases/change-user-status.use-case';
+import { InMemoryUserRepository } from 'infrastructure/repositories/in-memory-user-repository';
+import { InMemoryUnitOfWork } from 'infrastructure/unit-of-work/in-memory-unit-of-work';
+import { InProcessEventBus } from 'infrastructure/events/in-process-event-bus';
+import { User } from 'domain/entities/user';
+import { UserId } from 'domain/value-objects/user-id';
+import { Email } from 'domain/value-objects/email';
+import { UserMother } from '../../../support/object-mother';
+import { aUser } from '../../../support/user-builder';
+import { SYSTEM_CLOCK } from 'domain/ports/clock.port';
+import { RANDOM_ID_GENERATOR } from 'domain/ports/id-generator.port';
+
+describe('ChangeUserStatusUseCase', () => {
+  let userRepository: InMemoryUserRepository;
+  let eventBus: InProcessEventBus;
+  let useCase: ChangeUserStatusUseCase;
+  let user: User;
+
+  beforeEach(async () => {
+    userRepository = new InMemoryUserRepository();
+    eventBus = new InProcessEventBus();
+    useCase = new ChangeUserStatusUseCase(
+      userRepository,
+      eventBus,
+      new InMemoryUnitOfWork([userRepository]),
+      SYSTEM_CLOCK,
+      RANDOM_ID_GENERATOR
+    );
+    user = UserMother.registered();
+    await userRepository.save(user);
+  });
+
+  const statusOf = async (id: UserId) => {
+    const stored = await userRepository.findById(id, { includeDeleted: true });
+    return stored.isSuccess ? stored.value?.status : undefined;
+  };
+
+  it('should not activate a user whose changed email is not verified yet', async () => {
+    const changed = user.confirmEmail(SYSTEM_CLOCK, RANDOM_ID_GENERATOR)
+      .updateEmail(Email.create('new@example.com'), SYSTEM_CLOCK, RANDOM_ID_GENERATOR);
+    await userRepository.save(changed);
+
+    const result = await useCase.execute({ id: user.id.getValue(), transition: 'activate' });
+
+    expect(result.isFailure && result.error.code).toBe('INVALID_STATUS_TRANSITION');
+    expect(await statusOf(user.id)).toBe('pending-verification');
+  });
+
+  it('should suspend with a reason, then reactivate', async () => {
+    user = aUser().withId(UserId.generate()).withEmail('jane@example.com').buildNew().confirmEmail(SYSTEM_CLOCK, RANDOM_ID_GENERATOR);
+    await userRepository.save(user);
+    const suspended = await useCase.execute({ id: user.id.getValue(), transition: 'suspend', reason: '  Spam  ' });
+    expect(suspended.isSuccess && suspended.value).toMatchObject({ status: 'suspended', suspensionReason: 'Spam' });
+
+    const reactivated = await useCase.execute({ id: user.id.getValue(), transition: 'reactivate' });
+
+    expect(reactivated.isSuccess && reactivated.value).toMatchObject({ status: 'active', suspensionReason: null });
+  });
+
+  it('should publish the event once the change commits', async () => {
+    const publish = jest.spyOn(eventBus, 'publish');
+
+    await useCase.execute({ id: user.id.getValue(), transition: 'suspend', reason: 'Spam' });
+
+    expect(publish).toHaveBeenCalledWith([expect.objectContaining({
+      type: 'UserSuspended',
+      aggregateId: user.id.getValue(),
+      payload: { reason: 'Spam' },
+    })]);
+  });
+
+  it('should return INVALID_STATUS_TRANSITION for a move the status does not allow', async () => {
+    const save = jest.spyOn(userRepository, 'save');
+
+    const result = await useCase.execute({ id: user.id.getValue(), transition: 'reactivate' });
+
+    expect(result.isFailure && result.error.code).toBe('INVALID_STATUS_TRANSITION');
+    expect(result.isFailure && result.error.details).toEqual({
+      id: user.id.getValue(),
+      status: 'pending-verification',
+      transition: 'reactivate',
+    });
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('should return VALIDATION_ERROR for a suspension without a reason', async () => {
+    const result = await useCase.execute({ id: user.id.getValue(), transition: 'suspend', reason: ' ' });
+
+    expect(result.isFailure && result.error.code).toBe('VALIDATION_ERROR');
+    expect(await statusOf(user.id)).toBe('pending-verification');
+  });
+
+  it('should return PRECONDITION_FAILED when the user is at another version', async () => {
+    const result = await useCase.execute({ id: user.id.getValue(), transition: 'activate', expectedVersion: 2 });
+
+    expect(result.isFailure && result.error.code).toBe('PRECONDITION_FAILED');
+  });
+
+  it('should return USER_NOT_FOUND for an unknown or deleted user', async () => {
+    const stored = await userRepository.findById(user.id);
+    const deleted = stored.isSuccess && stored.value ? stored.value.softDelete(SYSTEM_CLOCK, RANDOM_ID_GENERATOR) : undefined;
+    if (deleted?.isSuccess) {
+      await userRepository.save(deleted.value);
+    }
+
+    const unknown = await useCase.execute({ id: UserId.generate().getValue(), transition: 'activate' });
+    const gone = await useCase.execute({ id: user.id.getValue(), transition: 'activate' });
+
+    expect(unknown.isFailure && unknown.error.code).toBe('USER_NOT_FOUND');
+    expect(gone.isFailure && gone.error.code).toBe('USER_NOT_FOUND');
+  });
+});
@@ -0,0 +1,107 @@
+import { ConfirmEmailUseCase } from 'application/use-cases/confirm-email.use-case';
+import { InMemoryUserRepository } from 'infrastructure/repositories/in-memory-user-repository';
+import { InMemoryUnitOfWork } from 'infrastructure/unit-of-work/in-memory-unit-of-work';
+import { InProcessEventBus } from 'infrastructure/events/in-process-event-bus';
+import { HmacVerificationTokenService } from 'infrastructure/security/hmac-verification-token.service';
+import { User } from 'domain/entities/user';
+import { Email } from 'domain/value-objects/email';
+import { UserId } from 'domain/value-objects/user-id';
+import { UserMother } from '../../../support/object-mother';
+import { SYSTEM_CLOCK } from 'domain/ports/clock.port';
+import { RANDOM_ID_GENERATOR } from 'domain/ports/id-generator.port';
+
+describe('ConfirmEmailUseCase', () => {
+  let userRepository: InMemoryUserRepository;
+  let eventBus: InProcessEventBus;
+  let tokens: HmacVerificationTokenService;
+  let useCase: ConfirmEmailUseCase;
+  let user: User;
+
+  beforeEach(async () => {
+    userRepository = new InMemoryUserRepository();
+    eventBus = new InProcessEventBus();
+    tokens = new HmacVerificationTokenService('s'.repeat(32), { ttlMs: 60_000 });
+    useCase = new ConfirmEmailUseCase(
+      userRepository,
+      tokens,
+      eventBus,
+      new InMemoryUnitOfWork([userRepository]),
+      SYSTEM_CLOCK,
+      RANDOM_ID_GENERATOR
+    );
+    const saved = await userRepository.save(UserMother.registered());
+    if (saved.isFailure) {
+      throw saved.error;
+    }
+    user = saved.value;
+  });
+
+  const tokenFor = (target: User) => tokens.issue(target.id.getValue(), target.email.getValue()).token;
+
+  const reasonOf = (result: Awaited<ReturnType<ConfirmEmailUseCase['execute']>>) =>
+    result.isFailure ? { code: result.error.code, details: result.error.details } : undefined;
+
+  it('should verify the email and activate a pending user', async () => {
+    const result = await useCase.execute({ token: tokenFor(user) });
+
+    expect(result.isSuccess && result.value).toMatchObject({
+      status: 'active',
+      emailVerifiedAt: expect.any(String),
+      version: 2,
+    });
+    const stored = await userRepository.findById(user.id);
+    expect(stored.isSuccess && stored.value?.isEmailVerified).toBe(true);
+  });
+
+  it('should publish the events once the confirmation commits', async () => {
+    const publish = jest.spyOn(eventBus, 'publish');
+
+    await useCase.execute({ token: tokenFor(user) });
+
+    expect(publish).toHaveBeenCalledWith([
+      expect.objectContaining({ type: 'UserEmailVerified', payload: { email: 'john@example.com' } }),
+      expect.objectContaining({ type: 'UserActivated' }),
+    ]);
+  });
+
+  it('should refuse a token that was already used', async () => {
+    const token = tokenFor(user);
+    await useCase.execute({ token });
+
+    const result = await useCase.execute({ token });
+
+    expect(reasonOf(result)).toEqual({ code: 'INVALID_VERIFICATION_TOKEN', details: { reason: 'used' } });
+  });
+
+  it('should refuse a token issued for the previous email', async () => {
+    const token = tokenFor(user);
+    await userRepository.save(user.updateEmail(Email.create('new@example.com'), SYSTEM_CLOCK, RANDOM_ID_GENERATOR));
+
+    const result = await useCase.execute({ token });
+
+    expect(reasonOf(result)).toEqual({ code: 'INVALID_VERIFICATION_TOKEN', details: { reason: 'superseded' } });
+  });
+
+  it('should refuse an expired token', async () => {
+    const expired = new HmacVerificationTokenService('s'.repeat(32), { ttlMs: 0 })
+      .issue(user.id.getValue(), user.email.getValue());
+
+    const result = await useCase.execute({ token: expired.token });
+
+    expect(reasonOf(result)).toEqual({ code: 'INVALID_VERIFICATION_TOKEN', details: { reason: 'expired' } });
+  });
+
+  it('should refuse a malformed token', async () => {
+    const result = await useCase.execute({ token: 'garbage' });
+
+    expect(reasonOf(result)).toEqual({ code: 'INVALID_VERIFICATION_TOKEN', details: { reason: 'malformed' } });
+  });
+
+  it('should return USER_NOT_FOUND when the user no longer exists', async () => {
+    const token = tokens.issue(UserId.generate().getValue(), 'ghost@example.com').token;
+
+    const result = await useCase.execute({ token });
+
+    expect(result.isFailure && result.error.code).toBe('USER_NOT_FOUND');
+  });
+});
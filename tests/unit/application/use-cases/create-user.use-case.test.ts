@@ -0,0 +1,163 @@
+import { container, TOKENS } from 'shared/container';
+import { CreateUserUseCase } from 'application/use-cases/create-user.use-case';
+import { InMemoryUserRepository } from 'infrastructure/repositories/in-memory-user-repository';
+import { InMemoryUnitOfWork } from 'infrastructure/unit-of-work/in-memory-unit-of-work';
+import { InProcessEventBus } from 'infrastructure/events/in-process-event-bus';
+import { MockAntiSpamAdapter } from 'infrastructure/external-services/mock-anti-spam.adapter';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+import { Email } from 'domain/value-objects/email';
+import { UserId } from 'domain/value-objects/user-id';
+import { DuplicateEmailError } from 'domain/repositories/user-repository';
+import { failure } from 'shared/types/result';
+import { SYSTEM_CLOCK } from 'domain/ports/clock.port';
+import { RANDOM_ID_GENERATOR } from 'domain/ports/id-generator.port';
+
+describe('CreateUserUseCase', () => {
+  let userRepository: InMemoryUserRepository;
+  let eventBus: InProcessEventBus;
+  let useCase: CreateUserUseCase;
+
+  beforeEach(() => {
+    userRepository = new InMemoryUserRepository();
+    eventBus = new InProcessEventBus();
+    useCase = new CreateUserUseCase(
+      userRepository,
+      new MockAntiSpamAdapter(),
+      eventBus,
+      new InMemoryUnitOfWork([userRepository]),
+      SYSTEM_CLOCK,
+      RANDOM_ID_GENERATOR
+    );
+  });
+
+  it('should create and persist a user', async () => {
+    const result = await useCase.execute({ email: 'john@example.com', name: 'John Doe' });
+
+    expect(result.isSuccess).toBe(true);
+    if (result.isSuccess) {
+      expect(result.value).toMatchObject({ email: 'john@example.com', name: 'John Doe' });
+      expect(UserId.isValid(result.value.id)).toBe(true);
+
+      const stored = await userRepository.findByEmail(Email.create('john@example.com'));
+      expect(stored.isSuccess && stored.value?.id.getValue()).toBe(result.value.id);
+    }
+  });
+
+  it('should stamp the user with the injected clock and id generator', async () => {
+    const clock = new FixedClock('2024-05-01T12:00:00.000Z');
+    const stamped = new CreateUserUseCase(
+      userRepository,
+      new MockAntiSpamAdapter(),
+      eventBus,
+      new InMemoryUnitOfWork([userRepository]),
+      clock,
+      new SequentialIdGenerator()
+    );
+
+    const result = await stamped.execute({ email: 'john@example.com', name: 'John Doe' });
+
+    expect(result.isSuccess && result.value).toMatchObject({
+      id: SequentialIdGenerator.idAt(1),
+      createdAt: '2024-05-01T12:00:00.000Z',
+      updatedAt: '2024-05-01T12:00:00.000Z',
+    });
+  });
+
+  it('should publish UserRegistered once the user is saved', async () => {
+    const publish = jest.spyOn(eventBus, 'publish');
+
+    const result = await useCase.execute({ email: 'john@example.com', name: 'John Doe' });
+
+    expect(publish).toHaveBeenCalledTimes(1);
+    const [events] = publish.mock.calls[0];
+    expect(events.map(event => event.toJSON())).toEqual([expect.objectContaining({
+      type: 'UserRegistered',
+      aggregateId: result.isSuccess && result.value.id,
+      payload: { email: 'john@example.com', name: 'John Doe' },
+    })]);
+  });
+
+  it('should publish nothing when the user cannot be saved', async () => {
+    const publish = jest.spyOn(eventBus, 'publish');
+    jest.spyOn(userRepository, 'save').mockResolvedValueOnce(failure(new Error('connection lost')));
+
+    await useCase.execute({ email: 'john@example.com', name: 'John Doe' });
+
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid email with VALIDATION_ERROR', async () => {
+    const result = await useCase.execute({ email: 'not-an-email', name: 'John Doe' });
+
+    expect(result.isFailure && result.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should reject an invalid name with VALIDATION_ERROR', async () => {
+    const result = await useCase.execute({ email: 'john@example.com', name: 'J0hn' });
+
+    expect(result.isFailure && result.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should reject a blocked email with EMAIL_BLOCKED', async () => {
+    const result = await useCase.execute({ email: 'user@spam.com', name: 'John Doe' });
+
+    expect(result.isFailure && result.error.code).toBe('EMAIL_BLOCKED');
+    expect(result.isFailure && result.error.details).toEqual({ email: 'user@spam.com', reasons: ['BLOCKED_DOMAIN'] });
+  });
+
+  it('should treat an anti-spam outage as UNEXPECTED_ERROR, not bad input', async () => {
+    const antiSpam = new MockAntiSpamAdapter();
+    jest.spyOn(antiSpam, 'check').mockRejectedValueOnce(new Error('service down'));
+    useCase = new CreateUserUseCase(
+      userRepository,
+      antiSpam,
+      eventBus,
+      new InMemoryUnitOfWork([userRepository]),
+      SYSTEM_CLOCK,
+      RANDOM_ID_GENERATOR
+    );
+
+    const result = await useCase.execute({ email: 'john@example.com', name: 'John Doe' });
+
+    expect(result.isFailure && result.error.code).toBe('UNEXPECTED_ERROR');
+  });
+
+  it('should reject an email already in use with EMAIL_ALREADY_IN_USE', async () => {
+    await useCase.execute({ email: 'john@example.com', name: 'John Doe' });
+
+    const result = await useCase.execute({ email: 'JOHN@example.com', name: 'John Smith' });
+
+    expect(result.isFailure && result.error.code).toBe('EMAIL_ALREADY_IN_USE');
+  });
+
+  it('should map a duplicate detected by the repository to EMAIL_ALREADY_IN_USE', async () => {
+    jest.spyOn(userRepository, 'save')
+      .mockResolvedValueOnce(failure(new DuplicateEmailError('john@example.com')));
+
+    const result = await useCase.execute({ email: 'john@example.com', name: 'John Doe' });
+
+    expect(result.isFailure && result.error.code).toBe('EMAIL_ALREADY_IN_USE');
+  });
+
+  it('should wrap repository failures as UNEXPECTED_ERROR', async () => {
+    jest.spyOn(userRepository, 'findByEmail')
+      .mockResolvedValueOnce(failure(new Error('connection lost')));
+
+    const result = await useCase.execute({ email: 'john@example.com', name: 'John Doe' });
+
+    expect(result.isFailure && result.error.code).toBe('UNEXPECTED_ERROR');
+  });
+
+  it('should be resolvable from the container', () => {
+    const scope = container.createChildContainer();
+    scope.registerInstance(TOKENS.USER_REPOSITORY, userRepository);
+    scope.registerInstance(TOKENS.ANTI_SPAM_SERVICE, new MockAntiSpamAdapter());
+    scope.registerInstance(TOKENS.EVENT_BUS, eventBus);
+    scope.registerInstance(TOKENS.UNIT_OF_WORK, new InMemoryUnitOfWork([userRepository]));
+    scope.registerInstance(TOKENS.CLOCK, new FixedClock('2024-05-01T12:00:00.000Z'));
+    scope.registerInstance(TOKENS.ID_GENERATOR, new SequentialIdGenerator());
+
+    expect(scope.resolve(CreateUserUseCase)).toBeInstanceOf(CreateUserUseCase);
+  });
+});
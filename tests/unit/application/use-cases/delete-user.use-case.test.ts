@@ -0,0 +1,89 @@
+import { DeleteUserUseCase } from 'application/use-cases/delete-user.use-case';
+import { InMemoryUserRepository } from 'infrastructure/repositories/in-memory-user-repository';
+import { InMemoryUnitOfWork } from 'infrastructure/unit-of-work/in-memory-unit-of-work';
+import { InProcessEventBus } from 'infrastructure/events/in-process-event-bus';
+import { User } from 'domain/entities/user';
+import { UserId } from 'domain/value-objects/user-id';
+import { UserName } from 'domain/value-objects/user-name';
+import { failure } from 'shared/types/result';
+import { UserMother } from '../../../support/object-mother';
+import { SYSTEM_CLOCK } from 'domain/ports/clock.port';
+import { RANDOM_ID_GENERATOR } from 'domain/ports/id-generator.port';
+
+describe('DeleteUserUseCase', () => {
+  let userRepository: InMemoryUserRepository;
+  let eventBus: InProcessEventBus;
+  let useCase: DeleteUserUseCase;
+  let user: User;
+
+  beforeEach(async () => {
+    userRepository = new InMemoryUserRepository();
+    eventBus = new InProcessEventBus();
+    useCase = new DeleteUserUseCase(
+      userRepository,
+      eventBus,
+      new InMemoryUnitOfWork([userRepository]),
+      SYSTEM_CLOCK,
+      RANDOM_ID_GENERATOR
+    );
+    user = UserMother.registered();
+    await userRepository.save(user);
+  });
+
+  it('should soft-delete the user and return it', async () => {
+    const result = await useCase.execute({ id: user.id.getValue() });
+
+    expect(result.isSuccess && result.value).toMatchObject({ id: user.id.getValue(), status: 'deleted' });
+    const exists = await userRepository.exists(user.id);
+    expect(exists.isSuccess && exists.value).toBe(false);
+    const kept = await userRepository.findById(user.id, { includeDeleted: true });
+    expect(kept.isSuccess && kept.value?.status).toBe('deleted');
+  });
+
+  it('should publish UserDeleted once the user is gone', async () => {
+    const publish = jest.spyOn(eventBus, 'publish');
+
+    await useCase.execute({ id: user.id.getValue() });
+
+    expect(publish).toHaveBeenCalledWith([expect.objectContaining({
+      type: 'UserDeleted',
+      aggregateId: user.id.getValue(),
+      payload: { email: 'john@example.com', name: 'John Doe' },
+    })]);
+  });
+
+  it('should return USER_NOT_FOUND for an unknown user', async () => {
+    const result = await useCase.execute({ id: UserId.generate().getValue() });
+
+    expect(result.isFailure && result.error.code).toBe('USER_NOT_FOUND');
+  });
+
+  it('should return USER_NOT_FOUND for a user already deleted', async () => {
+    await useCase.execute({ id: user.id.getValue() });
+
+    const result = await useCase.execute({ id: user.id.getValue() });
+
+    expect(result.isFailure && result.error.code).toBe('USER_NOT_FOUND');
+  });
+
+  it('should wrap repository failures as UNEXPECTED_ERROR', async () => {
+    jest.spyOn(userRepository, 'save').mockResolvedValueOnce(failure(new Error('disk full')));
+
+    const result = await useCase.execute({ id: user.id.getValue() });
+
+    expect(result.isFailure && result.error.code).toBe('UNEXPECTED_ERROR');
+  });
+
+  it('should return PRECONDITION_FAILED and keep the user when it is at another version', async () => {
+    const stored = await userRepository.findById(user.id);
+    if (stored.isSuccess && stored.value) {
+      await userRepository.save(stored.value.updateName(UserName.create('Johnny Doe'), SYSTEM_CLOCK, RANDOM_ID_GENERATOR));
+    }
+
+    const result = await useCase.execute({ id: user.id.getValue(), expectedVersion: 1 });
+
+    expect(result.isFailure && result.error.code).toBe('PRECONDITION_FAILED');
+    const exists = await userRepository.exists(user.id);
+    expect(exists.isSuccess && exists.value).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { GetUserUseCase } from 'application/use-cases/get-user.use-case';
+import { InMemoryUserRepository } from 'infrastructure/repositories/in-memory-user-repository';
+import { User } from 'domain/entities/user';
+import { UserId } from 'domain/value-objects/user-id';
+import { UserMother } from '../../../support/object-mother';
+
+describe('GetUserUseCase', () => {
+  let userRepository: InMemoryUserRepository;
+  let useCase: GetUserUseCase;
+  let user: User;
+
+  beforeEach(async () => {
+    userRepository = new InMemoryUserRepository();
+    useCase = new GetUserUseCase(userRepository);
+    user = UserMother.registered();
+    await userRepository.save(user);
+  });
+
+  it('should find a user by id', async () => {
+    const result = await useCase.execute({ id: user.id.getValue() });
+
+    expect(result.isSuccess && result.value).toEqual(user.toJSON());
+  });
+
+  it('should find a user by email', async () => {
+    const result = await useCase.execute({ email: 'John@Example.com' });
+
+    expect(result.isSuccess && result.value.id).toBe(user.id.getValue());
+  });
+
+  it('should return USER_NOT_FOUND for an unknown id', async () => {
+    const result = await useCase.execute({ id: UserId.generate().getValue() });
+
+    expect(result.isFailure && result.error.code).toBe('USER_NOT_FOUND');
+  });
+
+  it.each(['not-a-uuid', ''])('should return VALIDATION_ERROR for the malformed id "%s"', async id => {
+    const result = await useCase.execute({ id });
+
+    expect(result.isFailure && result.error.code).toBe('VALIDATION_ERROR');
+  });
+});
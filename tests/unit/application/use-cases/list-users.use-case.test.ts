@@ -0,0 +1,38 @@
+import { ListUsersUseCase } from 'application/use-cases/list-users.use-case';
+import { InMemoryUserRepository } from 'infrastructure/repositories/in-memory-user-repository';
+import { failure } from 'shared/types/result';
+import { UserMother } from '../../../support/object-mother';
+
+describe('ListUsersUseCase', () => {
+  let userRepository: InMemoryUserRepository;
+  let useCase: ListUsersUseCase;
+
+  beforeEach(() => {
+    userRepository = new InMemoryUserRepository();
+    useCase = new ListUsersUseCase(userRepository);
+  });
+
+  it('should return a page of user DTOs', async () => {
+    const user = UserMother.registered();
+    await userRepository.save(user);
+
+    const result = await useCase.execute({ limit: 10 });
+
+    expect(result.isSuccess && result.value).toEqual({ items: [user.toJSON()], total: 1, nextCursor: null });
+  });
+
+  it('should return VALIDATION_ERROR for an invalid query', async () => {
+    const result = await useCase.execute({ cursor: 'not-a-cursor' });
+
+    expect(result.isFailure && result.error.code).toBe('VALIDATION_ERROR');
+    expect(result.isFailure && result.error.details).toMatchObject({ reason: 'INVALID_USER_QUERY', parameter: 'cursor' });
+  });
+
+  it('should wrap repository failures as UNEXPECTED_ERROR', async () => {
+    jest.spyOn(userRepository, 'findAll').mockResolvedValueOnce(failure(new Error('connection lost')));
+
+    const result = await useCase.execute();
+
+    expect(result.isFailure && result.error.code).toBe('UNEXPECTED_ERROR');
+  });
+});
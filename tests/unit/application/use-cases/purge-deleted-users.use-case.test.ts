@@ -0,0 +1,83 @@
+import { PurgeDeletedUsersUseCase } from 'application/use-cases/purge-deleted-users.use-case';
+import { InMemoryUserRepository } from 'infrastructure/repositories/in-memory-user-repository';
+import { User } from 'domain/entities/user';
+import { Email } from 'domain/value-objects/email';
+import { UserName } from 'domain/value-objects/user-name';
+import { failure } from 'shared/types/result';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+import { SYSTEM_CLOCK } from 'domain/ports/clock.port';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+
+describe('PurgeDeletedUsersUseCase', () => {
+  let userRepository: InMemoryUserRepository;
+  let useCase: PurgeDeletedUsersUseCase;
+  const ids = new SequentialIdGenerator();
+
+  beforeEach(() => {
+    userRepository = new InMemoryUserRepository();
+    useCase = new PurgeDeletedUsersUseCase(userRepository, SYSTEM_CLOCK);
+  });
+
+  // A user soft-deleted on the given day
+  const aUserDeletedOn = async (day: string, email: string): Promise<User> => {
+    const at = new FixedClock(`${day}T12:00:00.000Z`);
+    const deleted = User.create(Email.create(email), UserName.create('John Doe'), at, ids).softDelete(at, ids);
+    if (deleted.isFailure) {
+      throw deleted.error;
+    }
+    await userRepository.save(deleted.value);
+    return deleted.value;
+  };
+
+  const isStored = async (user: User): Promise<boolean> => {
+    const stored = await userRepository.findById(user.id, { includeDeleted: true });
+    return stored.isSuccess && stored.value !== null;
+  };
+
+  it('should purge the users deleted before the retention period only', async () => {
+    const old = await aUserDeletedOn('2024-01-01', 'old@example.com');
+    const recent = await aUserDeletedOn('2024-01-25', 'recent@example.com');
+    const kept = User.create(Email.create('kept@example.com'), UserName.create('Jane Doe'), SYSTEM_CLOCK, ids);
+    await userRepository.save(kept);
+
+    const result = await useCase.execute({ retentionDays: 30, now: new Date('2024-02-01T00:00:00.000Z') });
+
+    expect(result.isSuccess && result.value).toEqual({ purged: 1, deletedBefore: '2024-01-02T00:00:00.000Z' });
+    expect(await isStored(old)).toBe(false);
+    expect(await isStored(recent)).toBe(true);
+    expect(await isStored(kept)).toBe(true);
+  });
+
+  it('should count the retention period from the current time of the clock', async () => {
+    const clock = new FixedClock('2024-02-01T00:00:00.000Z');
+    const timed = new PurgeDeletedUsersUseCase(userRepository, clock);
+
+    const result = await timed.execute({ retentionDays: 30 });
+
+    expect(result.isSuccess && result.value.deletedBefore).toBe('2024-01-02T00:00:00.000Z');
+  });
+
+  it('should free the email of purged users', async () => {
+    await aUserDeletedOn('2024-01-01', 'old@example.com');
+
+    await useCase.execute({ retentionDays: 0 });
+
+    const jane = User.create(Email.create('old@example.com'), UserName.create('Jane Doe'), SYSTEM_CLOCK, ids);
+    const result = await userRepository.save(jane);
+    expect(result.isSuccess).toBe(true);
+  });
+
+  it('should reject a negative retention period', async () => {
+    const result = await useCase.execute({ retentionDays: -1 });
+
+    expect(result.isFailure && result.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should wrap repository failures as UNEXPECTED_ERROR', async () => {
+    jest.spyOn(userRepository, 'purge').mockResolvedValueOnce(failure(new Error('disk full')));
+
+    const result = await useCase.execute();
+
+    expect(result.isFailure && result.error.code).toBe('UNEXPECTED_ERROR');
+  });
+});
@@ -0,0 +1,72 @@
+import { RequestEmailVerificationUseCase } from 'application/use-cases/request-email-verification.use-case';
+import { InMemoryUserRepository } from 'infrastructure/repositories/in-memory-user-repository';
+import { InMemoryEmailSender } from 'infrastructure/email/in-memory-email-sender';
+import { HmacVerificationTokenService } from 'infrastructure/security/hmac-verification-token.service';
+import { User } from 'domain/entities/user';
+import { UserId } from 'domain/value-objects/user-id';
+import { UserMother } from '../../../support/object-mother';
+import { SYSTEM_CLOCK } from 'domain/ports/clock.port';
+import { RANDOM_ID_GENERATOR } from 'domain/ports/id-generator.port';
+
+describe('RequestEmailVerificationUseCase', () => {
+  let userRepository: InMemoryUserRepository;
+  let emailSender: InMemoryEmailSender;
+  let tokens: HmacVerificationTokenService;
+  let useCase: RequestEmailVerificationUseCase;
+  let user: User;
+
+  beforeEach(async () => {
+    userRepository = new InMemoryUserRepository();
+    emailSender = new InMemoryEmailSender();
+    tokens = new HmacVerificationTokenService('s'.repeat(32));
+    useCase = new RequestEmailVerificationUseCase(
+      userRepository,
+      tokens,
+      emailSender,
+      { confirmUrl: 'https://app.test/verify' }
+    );
+    const saved = await userRepository.save(UserMother.registered());
+    if (saved.isFailure) {
+      throw saved.error;
+    }
+    user = saved.value;
+  });
+
+  it('should email the user a link carrying a token for its email', async () => {
+    const result = await useCase.execute({ id: user.id.getValue() });
+
+    expect(result.isSuccess && result.value).toEqual({ email: 'john@example.com', expiresAt: expect.any(String) });
+    expect(emailSender.sent).toHaveLength(1);
+    const [message] = emailSender.sent;
+    expect(message).toMatchObject({ to: 'john@example.com', subject: 'Confirm your email address' });
+    expect(message.text).toContain('Hello John,');
+
+    const link = new URL(/https:\/\/\S+/.exec(message.text)![0]);
+    expect(link.origin + link.pathname).toBe('https://app.test/verify');
+    const claims = tokens.verify(link.searchParams.get('token')!);
+    expect(claims.isSuccess && claims.value).toMatchObject({ userId: user.id.getValue(), email: 'john@example.com' });
+  });
+
+  it('should return EMAIL_ALREADY_VERIFIED without sending anything', async () => {
+    await userRepository.save(user.confirmEmail(SYSTEM_CLOCK, RANDOM_ID_GENERATOR));
+
+    const result = await useCase.execute({ id: user.id.getValue() });
+
+    expect(result.isFailure && result.error.code).toBe('EMAIL_ALREADY_VERIFIED');
+    expect(emailSender.sent).toHaveLength(0);
+  });
+
+  it('should return USER_NOT_FOUND for an unknown user', async () => {
+    const result = await useCase.execute({ id: UserId.generate().getValue() });
+
+    expect(result.isFailure && result.error.code).toBe('USER_NOT_FOUND');
+  });
+
+  it('should return UNEXPECTED_ERROR when the email cannot be sent', async () => {
+    emailSender.failNext();
+
+    const result = await useCase.execute({ id: user.id.getValue() });
+
+    expect(result.isFailure && result.error.code).toBe('UNEXPECTED_ERROR');
+  });
+});
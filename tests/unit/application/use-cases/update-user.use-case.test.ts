@@ -0,0 +1,142 @@
+import { UpdateUserUseCase } from 'application/use-cases/update-user.use-case';
+import { InMemoryUserRepository } from 'infrastructure/repositories/in-memory-user-repository';
+import { InMemoryUnitOfWork } from 'infrastructure/unit-of-work/in-memory-unit-of-work';
+import { InProcessEventBus } from 'infrastructure/events/in-process-event-bus';
+import { MockAntiSpamAdapter } from 'infrastructure/external-services/mock-anti-spam.adapter';
+import { User } from 'domain/entities/user';
+import { Email } from 'domain/value-objects/email';
+import { UserId } from 'domain/value-objects/user-id';
+import { UserName } from 'domain/value-objects/user-name';
+import { ConcurrencyConflictError } from 'domain/errors/concurrency-conflict.error';
+import { failure } from 'shared/types/result';
+import { UserMother } from '../../../support/object-mother';
+import { SYSTEM_CLOCK } from 'domain/ports/clock.port';
+import { RANDOM_ID_GENERATOR } from 'domain/ports/id-generator.port';
+
+describe('UpdateUserUseCase', () => {
+  let userRepository: InMemoryUserRepository;
+  let eventBus: InProcessEventBus;
+  let useCase: UpdateUserUseCase;
+  let user: User;
+
+  beforeEach(async () => {
+    userRepository = new InMemoryUserRepository();
+    eventBus = new InProcessEventBus();
+    useCase = new UpdateUserUseCase(
+      userRepository,
+      new MockAntiSpamAdapter(),
+      eventBus,
+      new InMemoryUnitOfWork([userRepository]),
+      SYSTEM_CLOCK,
+      RANDOM_ID_GENERATOR
+    );
+    user = UserMother.registered();
+    await userRepository.save(user);
+  });
+
+  it('should update the name', async () => {
+    const result = await useCase.execute({ id: user.id.getValue(), name: 'Johnny Doe' });
+
+    expect(result.isSuccess && result.value.name).toBe('Johnny Doe');
+    const stored = await userRepository.findById(user.id);
+    expect(stored.isSuccess && stored.value?.name.getValue()).toBe('Johnny Doe');
+  });
+
+  it('should update the email', async () => {
+    const result = await useCase.execute({ id: user.id.getValue(), email: 'johnny@example.com' });
+
+    expect(result.isSuccess && result.value.email).toBe('johnny@example.com');
+  });
+
+  it('should publish one event per change, with the previous values', async () => {
+    const publish = jest.spyOn(eventBus, 'publish');
+
+    await useCase.execute({ id: user.id.getValue(), email: 'johnny@example.com', name: 'Johnny Doe' });
+
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(publish.mock.calls[0][0].map(event => event.toJSON())).toEqual([
+      expect.objectContaining({
+        type: 'UserEmailChanged',
+        payload: { previousEmail: 'john@example.com', email: 'johnny@example.com' },
+      }),
+      expect.objectContaining({
+        type: 'UserNameChanged',
+        payload: { previousName: 'John Doe', name: 'Johnny Doe' },
+      }),
+    ]);
+  });
+
+  it('should leave the user untouched when nothing changes', async () => {
+    const save = jest.spyOn(userRepository, 'save');
+    const publish = jest.spyOn(eventBus, 'publish');
+
+    const result = await useCase.execute({ id: user.id.getValue(), email: 'john@EXAMPLE.com', name: 'John Doe' });
+
+    expect(result.isSuccess && result.value).toEqual(user.toJSON());
+    expect(save).not.toHaveBeenCalled();
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('should let a user change how their own email is written', async () => {
+    const result = await useCase.execute({ id: user.id.getValue(), email: 'John@example.com' });
+
+    expect(result.isSuccess && result.value.email).toBe('John@example.com');
+  });
+
+  it('should reject an email owned by another user', async () => {
+    await userRepository.save(User.create(Email.create('jane@example.com'), UserName.create('Jane Doe'), SYSTEM_CLOCK, RANDOM_ID_GENERATOR));
+
+    const result = await useCase.execute({ id: user.id.getValue(), email: 'jane@example.com' });
+
+    expect(result.isFailure && result.error.code).toBe('EMAIL_ALREADY_IN_USE');
+  });
+
+  it('should reject a blocked email', async () => {
+    const result = await useCase.execute({ id: user.id.getValue(), email: 'spam@example.com' });
+
+    expect(result.isFailure && result.error.code).toBe('EMAIL_BLOCKED');
+  });
+
+  it('should reject invalid input with VALIDATION_ERROR', async () => {
+    const badEmail = await useCase.execute({ id: user.id.getValue(), email: 'invalid' });
+    const badName = await useCase.execute({ id: user.id.getValue(), name: 'X' });
+
+    expect(badEmail.isFailure && badEmail.error.code).toBe('VALIDATION_ERROR');
+    expect(badName.isFailure && badName.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should return USER_NOT_FOUND for an unknown user', async () => {
+    const result = await useCase.execute({ id: UserId.generate().getValue(), name: 'Jane Doe' });
+
+    expect(result.isFailure && result.error.code).toBe('USER_NOT_FOUND');
+  });
+
+  it('should update the user when it is still at the expected version', async () => {
+    const result = await useCase.execute({ id: user.id.getValue(), name: 'Johnny Doe', expectedVersion: 1 });
+
+    expect(result.isSuccess && result.value.version).toBe(2);
+  });
+
+  it('should return PRECONDITION_FAILED when the user is at another version', async () => {
+    const save = jest.spyOn(userRepository, 'save');
+
+    const result = await useCase.execute({ id: user.id.getValue(), name: 'Johnny Doe', expectedVersion: 2 });
+
+    expect(result.isFailure && result.error.code).toBe('PRECONDITION_FAILED');
+    expect(result.isFailure && result.error.details).toEqual({
+      id: user.id.getValue(),
+      expectedVersion: 2,
+      actualVersion: 1,
+    });
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('should return CONCURRENCY_CONFLICT when the user changed before it was saved', async () => {
+    jest.spyOn(userRepository, 'save')
+      .mockResolvedValueOnce(failure(new ConcurrencyConflictError(user.id.getValue(), 1, 2)));
+
+    const result = await useCase.execute({ id: user.id.getValue(), name: 'Johnny Doe' });
+
+    expect(result.isFailure && result.error.code).toBe('CONCURRENCY_CONFLICT');
+  });
+});
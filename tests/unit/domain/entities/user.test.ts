@@ -2,26 +2,57 @@ import { User } from 'domain/entities/user';
 import { UserId } from 'domain/value-objects/user-id';
 import { Email } from 'domain/value-objects/email';
 import { UserName } from 'domain/value-objects/user-name';
+import { InvalidStatusTransitionError } from 'domain/errors/invalid-status-transition.error';
+import {
+  UserActivated,
+  UserDeleted,
+  UserEmailChanged,
+  UserEmailVerified,
+  UserNameChanged,
+  UserReactivated,
+  UserRegistered,
+  UserSuspended,
+} from 'domain/events';
+import { Result } from 'shared/types/result';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+import { SteppingClock } from 'infrastructure/time/stepping-clock';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+import { aUser } from '../../../support/user-builder';
+import { EmailMother, UserNameMother } from '../../../support/object-mother';
+
+const valueOf = <T>(result: Result<T, Error>): T => {
+  if (result.isFailure) {
+    throw result.error;
+  }
+  return result.value;
+};
 
 describe('User Entity', () => {
-  const validEmail = Email.create('test@example.com');
-  const validName = UserName.create('John Doe');
+  const validEmail = EmailMother.john();
+  const validName = UserNameMother.john();
   const validId = UserId.generate();
+  // Both start over for each test, so dates and event ids are known in advance
+  let clock: SteppingClock;
+  let ids: SequentialIdGenerator;
+
+  beforeEach(() => {
+    clock = new SteppingClock('2024-01-01T00:00:00.000Z');
+    ids = new SequentialIdGenerator();
+  });
 
   describe('create', () => {
     it('should create a new user with generated ID', () => {
-      const user = User.create(validEmail, validName);
+      const user = User.create(validEmail, validName, clock, ids);
       
       expect(user.email).toBe(validEmail);
       expect(user.name).toBe(validName);
-      expect(user.id).toBeDefined();
-      expect(user.createdAt).toBeInstanceOf(Date);
-      expect(user.updatedAt).toBeInstanceOf(Date);
+      expect(user.id.getValue()).toBe(SequentialIdGenerator.idAt(1));
+      expect(user.createdAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
       expect(user.createdAt).toEqual(user.updatedAt);
     });
 
     it('should create a new user with provided ID', () => {
-      const user = User.create(validEmail, validName, validId);
+      const user = User.create(validEmail, validName, clock, ids, validId);
       
       expect(user.id).toBe(validId);
       expect(user.email).toBe(validEmail);
@@ -32,44 +63,72 @@ describe('User Entity', () => {
   describe('reconstitute', () => {
     it('should reconstitute user from props', () => {
       const now = new Date();
-      const props = {
-        id: validId,
-        email: validEmail,
-        name: validName,
-        createdAt: now,
-        updatedAt: now,
-      };
 
-      const user = User.reconstitute(props);
+      const user = aUser()
+        .withId(validId)
+        .withEmail(validEmail)
+        .withName(validName)
+        .createdAt(now)
+        .withVersion(3)
+        .suspended('Spam')
+        .build();
 
       expect(user.id).toBe(validId);
       expect(user.email).toBe(validEmail);
       expect(user.name).toBe(validName);
       expect(user.createdAt).toBe(now);
       expect(user.updatedAt).toBe(now);
+      expect(user.version).toBe(3);
+      expect(user.persistedVersion).toBe(3);
+      expect(user.status).toBe('suspended');
+      expect(user.suspensionReason).toBe('Spam');
+      expect(user.deletedAt).toBeUndefined();
+    });
+  });
+
+  describe('version', () => {
+    it('should start at 1 for a user that was never saved', () => {
+      const user = User.create(validEmail, validName, clock, ids);
+
+      expect(user.version).toBe(1);
+      expect(user.persistedVersion).toBe(0);
+    });
+
+    it('should increment with every change but keep the persisted version', () => {
+      const user = User.create(validEmail, validName, clock, ids)
+        .updateEmail(Email.create('new@example.com'), clock, ids)
+        .updateName(UserName.create('Jane Doe'), clock, ids);
+
+      expect(user.version).toBe(3);
+      expect(user.persistedVersion).toBe(0);
+    });
+
+    it('should increment with every lifecycle transition', () => {
+      const user = valueOf(User.create(validEmail, validName, clock, ids).suspend('Spam', clock, ids));
+
+      expect(user.version).toBe(2);
+      expect(valueOf(user.softDelete(clock, ids)).version).toBe(3);
     });
   });
 
   describe('updateEmail', () => {
     it('should update email and updatedAt timestamp', () => {
-      const user = User.create(validEmail, validName);
+      const user = User.create(validEmail, validName, clock, ids);
       const newEmail = Email.create('newemail@example.com');
-      const originalUpdatedAt = user.updatedAt;
 
-      // Wait a bit to ensure timestamp difference
-      const updatedUser = user.updateEmail(newEmail);
+      const updatedUser = user.updateEmail(newEmail, clock, ids);
 
       expect(updatedUser.email).toBe(newEmail);
-      expect(updatedUser.updatedAt.getTime()).toBeGreaterThanOrEqual(originalUpdatedAt.getTime());
+      expect(updatedUser.updatedAt).toEqual(new Date('2024-01-01T00:00:01.000Z'));
       expect(updatedUser.id).toBe(user.id); // ID should remain the same
       expect(updatedUser.name).toBe(user.name); // Name should remain the same
       expect(updatedUser.createdAt).toBe(user.createdAt); // CreatedAt should remain the same
     });
 
     it('should return a new instance (immutability)', () => {
-      const user = User.create(validEmail, validName);
+      const user = User.create(validEmail, validName, clock, ids);
       const newEmail = Email.create('newemail@example.com');
-      const updatedUser = user.updateEmail(newEmail);
+      const updatedUser = user.updateEmail(newEmail, clock, ids);
 
       expect(updatedUser).not.toBe(user); // Different instances
       expect(user.email).toBe(validEmail); // Original unchanged
@@ -78,23 +137,22 @@ describe('User Entity', () => {
 
   describe('updateName', () => {
     it('should update name and updatedAt timestamp', () => {
-      const user = User.create(validEmail, validName);
+      const user = User.create(validEmail, validName, clock, ids);
       const newName = UserName.create('Jane Smith');
-      const originalUpdatedAt = user.updatedAt;
 
-      const updatedUser = user.updateName(newName);
+      const updatedUser = user.updateName(newName, clock, ids);
 
       expect(updatedUser.name).toBe(newName);
-      expect(updatedUser.updatedAt.getTime()).toBe(originalUpdatedAt.getTime());
+      expect(updatedUser.updatedAt).toEqual(new Date('2024-01-01T00:00:01.000Z'));
       expect(updatedUser.id).toBe(user.id); // ID should remain the same
       expect(updatedUser.email).toBe(user.email); // Email should remain the same
       expect(updatedUser.createdAt).toBe(user.createdAt); // CreatedAt should remain the same
     });
 
     it('should return a new instance (immutability)', () => {
-      const user = User.create(validEmail, validName);
+      const user = User.create(validEmail, validName, clock, ids);
       const newName = UserName.create('Jane Smith');
-      const updatedUser = user.updateName(newName);
+      const updatedUser = user.updateName(newName, clock, ids);
 
       expect(updatedUser).not.toBe(user); // Different instances
       expect(user.name).toBe(validName); // Original unchanged
@@ -103,10 +161,12 @@ describe('User Entity', () => {
 
   describe('equals', () => {
     it('should return true for users with same ID', () => {
-      const user1 = User.create(validEmail, validName, validId);
+      const user1 = User.create(validEmail, validName, clock, ids, validId);
       const user2 = User.create(
         Email.create('different@example.com'),
         UserName.create('Different Name'),
+        clock,
+        ids,
         validId
       );
 
@@ -114,14 +174,14 @@ describe('User Entity', () => {
     });
 
     it('should return false for users with different IDs', () => {
-      const user1 = User.create(validEmail, validName);
-      const user2 = User.create(validEmail, validName);
+      const user1 = User.create(validEmail, validName, clock, ids);
+      const user2 = User.create(validEmail, validName, clock, ids);
 
       expect(user1.equals(user2)).toBe(false);
     });
 
     it('should return false when comparing with non-User entity', () => {
-      const user = User.create(validEmail, validName);
+      const user = User.create(validEmail, validName, clock, ids);
       const mockEntity = { id: user.id, equals: jest.fn() };
 
       expect(user.equals(mockEntity as any)).toBe(false);
@@ -130,7 +190,7 @@ describe('User Entity', () => {
 
   describe('toJSON', () => {
     it('should return JSON representation', () => {
-      const user = User.create(validEmail, validName, validId);
+      const user = User.create(validEmail, validName, clock, ids, validId);
       const json = user.toJSON();
 
       expect(json).toEqual({
@@ -139,7 +199,248 @@ describe('User Entity', () => {
         name: validName.getValue(),
         createdAt: user.createdAt.toISOString(),
         updatedAt: user.updatedAt.toISOString(),
+        version: 1,
+        status: 'pending-verification',
+        suspensionReason: null,
+        deletedAt: null,
+        emailVerifiedAt: null,
       });
     });
   });
+
+  describe('domain events', () => {
+    it('should record UserRegistered on creation', () => {
+      const user = User.create(validEmail, validName, clock, ids, validId);
+
+      const events = user.pullDomainEvents();
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(UserRegistered);
+      expect(events[0].toJSON()).toEqual({
+        eventId: SequentialIdGenerator.idAt(1),
+        type: 'UserRegistered',
+        aggregateId: validId.getValue(),
+        occurredAt: user.createdAt.toISOString(),
+        payload: { email: 'john@example.com', name: 'John Doe' },
+      });
+    });
+
+    it('should take the event ids from the generator', () => {
+      const user = User.create(validEmail, validName, clock, ids, validId)
+        .confirmEmail(clock, ids);
+
+      expect(user.pullDomainEvents().map(event => event.eventId)).toEqual([
+        SequentialIdGenerator.idAt(1),
+        SequentialIdGenerator.idAt(2),
+        SequentialIdGenerator.idAt(3),
+      ]);
+    });
+
+    it('should record no event when reconstituted', () => {
+      expect(aUser().build().pullDomainEvents()).toEqual([]);
+    });
+
+    it('should record changes with their previous values, after earlier events', () => {
+      const user = User.create(validEmail, validName, clock, ids, validId)
+        .updateEmail(Email.create('new@example.com'), clock, ids)
+        .updateName(UserName.create('Jane Doe'), clock, ids);
+
+      const events = user.pullDomainEvents();
+
+      expect(events.map(event => event.type)).toEqual(['UserRegistered', 'UserEmailChanged', 'UserNameChanged']);
+      expect(events[1]).toBeInstanceOf(UserEmailChanged);
+      expect(events[1].payload).toEqual({ previousEmail: 'john@example.com', email: 'new@example.com' });
+      expect(events[2]).toBeInstanceOf(UserNameChanged);
+      expect(events[2].payload).toEqual({ previousName: 'John Doe', name: 'Jane Doe' });
+      expect(events[2].occurredAt).toEqual(user.updatedAt);
+    });
+
+    it('should record UserDeleted', () => {
+      const user = User.create(validEmail, validName, clock, ids, validId);
+      user.pullDomainEvents();
+
+      const events = valueOf(user.softDelete(clock, ids)).pullDomainEvents();
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(UserDeleted);
+      expect(events[0].payload).toEqual({ email: 'john@example.com', name: 'John Doe' });
+    });
+
+    it('should hand out each event once', () => {
+      const user = User.create(validEmail, validName, clock, ids, validId);
+
+      user.pullDomainEvents();
+
+      expect(user.pullDomainEvents()).toEqual([]);
+    });
+
+    it('should not share events with the instance it was derived from', () => {
+      const user = User.create(validEmail, validName, clock, ids, validId);
+      user.updateName(UserName.create('Jane Doe'), clock, ids);
+
+      expect(user.pullDomainEvents().map(event => event.type)).toEqual(['UserRegistered']);
+    });
+  });
+
+  describe('lifecycle', () => {
+    const pending = () => User.create(validEmail, validName, clock, ids, validId);
+    // Pending, with an email verified before this rule existed
+    const pendingVerified = () => aUser().withId(validId).verified().build();
+    const active = () => valueOf(pendingVerified().activate(clock, ids));
+    const suspended = () => valueOf(pending().suspend('Spam', clock, ids));
+    const deleted = () => valueOf(active().softDelete(clock, ids));
+    const suspendedVerified = () => valueOf(pending().confirmEmail(clock, ids).suspend('Spam', clock, ids));
+
+    it('should start pending verification', () => {
+      expect(pending().status).toBe('pending-verification');
+    });
+
+    it('should activate a pending user', () => {
+      const user = active();
+
+      expect(user.status).toBe('active');
+      expect(user.pullDomainEvents().at(-1)).toBeInstanceOf(UserActivated);
+    });
+
+    it('should refuse to activate a user whose email is not verified', () => {
+      const changedEmail = pending().confirmEmail(clock, ids).updateEmail(Email.create('new@example.com'), clock, ids);
+
+      for (const user of [pending(), changedEmail]) {
+        const result = user.activate(clock, ids);
+
+        expect(result.isFailure && result.error).toBeInstanceOf(InvalidStatusTransitionError);
+        expect(result.isFailure && result.error.details).toEqual({
+          id: validId.getValue(),
+          status: 'pending-verification',
+          transition: 'activate',
+        });
+      }
+    });
+
+    it('should suspend a user with a reason, and reactivate it', () => {
+      const user = suspended();
+      expect(user.status).toBe('suspended');
+      expect(user.suspensionReason).toBe('Spam');
+      expect(user.peekDomainEvents().at(-1)).toBeInstanceOf(UserSuspended);
+      expect(user.peekDomainEvents().at(-1)?.payload).toEqual({ reason: 'Spam' });
+
+      const reactivated = valueOf(suspendedVerified().reactivate(clock, ids));
+
+      expect(reactivated.status).toBe('active');
+      expect(reactivated.suspensionReason).toBeUndefined();
+      expect(reactivated.peekDomainEvents().at(-1)).toBeInstanceOf(UserReactivated);
+      expect(reactivated.peekDomainEvents().at(-1)?.payload).toEqual({ previousReason: 'Spam' });
+    });
+
+    it('should reactivate a user whose email is not verified to pending verification', () => {
+      const changedEmail = suspendedVerified().updateEmail(Email.create('new@example.com'), clock, ids);
+
+      const reactivated = valueOf(changedEmail.reactivate(clock, ids));
+
+      expect(reactivated.status).toBe('pending-verification');
+      expect(reactivated.suspensionReason).toBeUndefined();
+      expect(reactivated.peekDomainEvents().at(-1)).toBeInstanceOf(UserReactivated);
+      expect(valueOf(suspended().reactivate(clock, ids)).status).toBe('pending-verification');
+    });
+
+    it('should soft-delete a user from any other status', () => {
+      for (const user of [pending(), active(), suspended()]) {
+        const result = user.softDelete(clock, ids);
+
+        expect(result.isSuccess && result.value.status).toBe('deleted');
+        expect(result.isSuccess && result.value.deletedAt).toEqual(result.isSuccess && result.value.updatedAt);
+        expect(result.isSuccess && result.value.suspensionReason).toBeUndefined();
+      }
+    });
+
+    it.each([
+      ['activate', 'active', () => active().activate(clock, ids)],
+      ['activate', 'suspended', () => suspended().activate(clock, ids)],
+      ['suspend', 'suspended', () => suspended().suspend('Again', clock, ids)],
+      ['reactivate', 'active', () => active().reactivate(clock, ids)],
+      ['reactivate', 'pending-verification', () => pending().reactivate(clock, ids)],
+      ['softDelete', 'deleted', () => deleted().softDelete(clock, ids)],
+      ['activate', 'deleted', () => deleted().activate(clock, ids)],
+    ] as const)('should refuse to %s a user that is %s', (transition, status, attempt) => {
+      const result = attempt();
+
+      expect(result.isFailure && result.error).toBeInstanceOf(InvalidStatusTransitionError);
+      expect(result.isFailure && result.error.details).toEqual({ id: validId.getValue(), status, transition });
+    });
+
+    it('should leave the user untouched when a transition is refused', () => {
+      const user = active();
+
+      user.reactivate(clock, ids);
+
+      expect(user.status).toBe('active');
+      expect(user.version).toBe(2);
+    });
+  });
+
+  describe('clock', () => {
+    const fixedClock = () => new FixedClock('2024-03-10T08:00:00.000Z');
+    const at = new Date('2024-03-10T08:00:00.000Z');
+
+    it('should stamp the creation and its event with the clock', () => {
+      const user = User.create(validEmail, validName, fixedClock(), ids, validId);
+
+      expect(user.createdAt).toEqual(at);
+      expect(user.updatedAt).toEqual(at);
+      expect(user.pullDomainEvents()[0].occurredAt).toEqual(at);
+    });
+
+    it('should stamp every change with the clock', () => {
+      const user = User.create(validEmail, validName, clock, ids, validId);
+
+      expect(user.updateEmail(Email.create('new@example.com'), fixedClock(), ids).updatedAt).toEqual(at);
+      expect(user.updateName(UserName.create('Jane Doe'), fixedClock(), ids).updatedAt).toEqual(at);
+      expect(user.confirmEmail(fixedClock(), ids).emailVerifiedAt).toEqual(at);
+      expect(valueOf(aUser().verified().build().activate(fixedClock(), ids)).updatedAt).toEqual(at);
+      expect(valueOf(user.suspend('Spam', fixedClock(), ids)).updatedAt).toEqual(at);
+      expect(valueOf(valueOf(user.suspend('Spam', clock, ids)).reactivate(fixedClock(), ids)).updatedAt).toEqual(at);
+      expect(valueOf(user.softDelete(fixedClock(), ids)).deletedAt).toEqual(at);
+    });
+  });
+
+  describe('email verification', () => {
+    it('should verify the email and activate a pending user', () => {
+      const user = User.create(validEmail, validName, clock, ids).confirmEmail(clock, ids);
+
+      expect(user.isEmailVerified).toBe(true);
+      expect(user.emailVerifiedAt).toEqual(user.updatedAt);
+      expect(user.status).toBe('active');
+      expect(user.version).toBe(2);
+      expect(user.pullDomainEvents().slice(1).map(event => event.constructor)).toEqual([
+        UserEmailVerified,
+        UserActivated,
+      ]);
+    });
+
+    it('should keep the status of a user that is not pending', () => {
+      const suspended = valueOf(User.create(validEmail, validName, clock, ids).suspend('Spam', clock, ids));
+
+      const user = suspended.confirmEmail(clock, ids);
+
+      expect(user.isEmailVerified).toBe(true);
+      expect(user.status).toBe('suspended');
+      expect(user.peekDomainEvents().at(-1)).toBeInstanceOf(UserEmailVerified);
+    });
+
+    it('should ask to verify a changed email again', () => {
+      const verified = User.create(validEmail, validName, clock, ids).confirmEmail(clock, ids);
+
+      const user = verified.updateEmail(Email.create('new@example.com'), clock, ids);
+
+      expect(user.isEmailVerified).toBe(false);
+      expect(user.emailVerifiedAt).toBeUndefined();
+      expect(user.status).toBe('pending-verification');
+    });
+
+    it('should keep a suspended user suspended when its email changes', () => {
+      const suspended = valueOf(User.create(validEmail, validName, clock, ids).confirmEmail(clock, ids).suspend('Spam', clock, ids));
+
+      expect(suspended.updateEmail(Email.create('new@example.com'), clock, ids).status).toBe('suspended');
+    });
+  });
 });
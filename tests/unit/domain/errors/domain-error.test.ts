@@ -0,0 +1,54 @@
+import {
+  DomainError,
+  DuplicateEmailError,
+  EmailBlockedError,
+  InvalidEmailError,
+  InvalidUserIdError,
+  InvalidUserNameError,
+} from 'domain/errors';
+
+describe('DomainError hierarchy', () => {
+  it.each([
+    [new InvalidEmailError('nope'), 'INVALID_EMAIL', { value: 'nope' }],
+    [new EmailBlockedError('spam@spam.com'), 'EMAIL_BLOCKED', { email: 'spam@spam.com', reasons: [] }],
+    [new InvalidUserNameError('J0hn'), 'INVALID_USER_NAME', { value: 'J0hn' }],
+    [new InvalidUserIdError('123'), 'INVALID_USER_ID', { value: '123' }],
+    [new DuplicateEmailError('taken@example.com'), 'DUPLICATE_EMAIL', { email: 'taken@example.com' }],
+  ])('%s should expose a stable code and structured details', (error, code, details) => {
+    expect(error).toBeInstanceOf(DomainError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.code).toBe(code);
+    expect(error.details).toEqual(details);
+  });
+
+  it('should explain a blocked email with the anti-spam verdict', () => {
+    const error = new EmailBlockedError('spam@spam.com', {
+      decision: 'blocked',
+      score: 0.9,
+      reasons: [{ code: 'BLOCKED_DOMAIN', message: 'Domain "spam.com" is blocked' }],
+      provider: { name: 'remote' },
+    });
+
+    expect(error.details).toEqual({
+      email: 'spam@spam.com',
+      reasons: ['BLOCKED_DOMAIN'],
+      score: 0.9,
+      provider: 'remote',
+    });
+  });
+
+  it('should name errors after their class', () => {
+    expect(new InvalidEmailError('nope').name).toBe('InvalidEmailError');
+    expect(new EmailBlockedError('spam@spam.com').name).toBe('EmailBlockedError');
+  });
+
+  it('should serialize code, message and details', () => {
+    const error = new InvalidUserIdError('123');
+
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      code: 'INVALID_USER_ID',
+      message: 'Invalid UserId format: 123',
+      details: { value: '123' },
+    });
+  });
+});
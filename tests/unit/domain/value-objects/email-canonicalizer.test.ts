@@ -0,0 +1,36 @@
+import { canonicalizeEmail } from 'domain/value-objects/email-canonicalizer';
+
+describe('canonicalizeEmail', () => {
+  it('should remove dots and tags from Gmail addresses', () => {
+    expect(canonicalizeEmail('J.Doe+news', 'gmail.com')).toBe('jdoe@gmail.com');
+  });
+
+  it('should map provider alias domains to one domain', () => {
+    expect(canonicalizeEmail('jdoe', 'googlemail.com')).toBe('jdoe@gmail.com');
+    expect(canonicalizeEmail('jdoe', 'me.com')).toBe('jdoe@icloud.com');
+  });
+
+  it('should strip tags but keep dots for providers that honour them', () => {
+    expect(canonicalizeEmail('j.doe+news', 'outlook.com')).toBe('j.doe@outlook.com');
+  });
+
+  it('should keep a local part that is nothing but a tag', () => {
+    expect(canonicalizeEmail('+news', 'gmail.com')).toBe('+news@gmail.com');
+  });
+
+  it('should only lowercase addresses of unknown providers', () => {
+    expect(canonicalizeEmail('J.Doe+news', 'example.com')).toBe('j.doe+news@example.com');
+  });
+
+  it('should remove quotes that are not needed', () => {
+    expect(canonicalizeEmail('"John"', 'example.com')).toBe('john@example.com');
+    expect(canonicalizeEmail('"john doe"', 'example.com')).toBe('"john doe"@example.com');
+  });
+
+  it('should use the given rules instead of the defaults', () => {
+    const rules = [{ domains: ['example.com'], ignoreDots: true }];
+
+    expect(canonicalizeEmail('j.doe', 'example.com', rules)).toBe('jdoe@example.com');
+    expect(canonicalizeEmail('j.doe', 'gmail.com', rules)).toBe('j.doe@gmail.com');
+  });
+});
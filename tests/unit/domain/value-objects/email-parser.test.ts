@@ -0,0 +1,104 @@
+import { parseEmailAddress } from 'domain/value-objects/email-parser';
+
+describe('parseEmailAddress', () => {
+  describe('valid addresses', () => {
+    it.each([
+      ['simple', 'john@example.com'],
+      ['dots in the local part', 'john.doe@example.com'],
+      ['special characters', "o'reilly!#$%&*+/=?^_`{|}~-@example.com"],
+      ['a sub-domain', 'john@mail.eu.example.co.uk'],
+      ['hyphens in labels', 'john@my-company.example'],
+      ['a quoted local part with spaces', '"john doe"@example.com'],
+      ['a quoted local part with an @', '"john@home"@example.com'],
+      ['escaped characters in quotes', '"john\\"doe\\\\"@example.com'],
+      ['a Unicode local part', 'josé@example.com'],
+      ['an IPv4 address literal', 'john@[192.0.2.1]'],
+      ['an IPv6 address literal', 'john@[IPv6:2001:db8::1]'],
+    ])('should accept %s', (_description, input) => {
+      expect(parseEmailAddress(input)).not.toBeNull();
+    });
+
+    it('should split the address and normalize only the domain', () => {
+      expect(parseEmailAddress('John.Doe@Example.COM')).toEqual({
+        localPart: 'John.Doe',
+        domain: 'example.com',
+        asciiDomain: 'example.com',
+      });
+    });
+
+    it('should convert an internationalized domain to ASCII', () => {
+      expect(parseEmailAddress('user@bücher.example')).toEqual({
+        localPart: 'user',
+        domain: 'bücher.example',
+        asciiDomain: 'xn--bcher-kva.example',
+      });
+    });
+
+    it('should show a punycode domain in Unicode', () => {
+      expect(parseEmailAddress('user@xn--bcher-kva.example')?.domain).toBe('bücher.example');
+    });
+
+    it('should split at the last @', () => {
+      expect(parseEmailAddress('"a@b"@example.com')?.localPart).toBe('"a@b"');
+    });
+  });
+
+  describe('invalid addresses', () => {
+    it.each([
+      ['an empty string', ''],
+      ['no @', 'john.example.com'],
+      ['no local part', '@example.com'],
+      ['no domain', 'john@'],
+      ['a leading dot', '.john@example.com'],
+      ['a trailing dot', 'john.@example.com'],
+      ['consecutive dots', 'john..doe@example.com'],
+      ['a space outside quotes', 'john doe@example.com'],
+      ['an unescaped quote inside quotes', '"john"doe"@example.com'],
+      ['an unescaped @ outside quotes', 'john@home@example.com'],
+      ['a single-label domain', 'john@localhost'],
+      ['an empty label', 'john@example..com'],
+      ['a label starting with a hyphen', 'john@-example.com'],
+      ['an underscore in the domain', 'john@my_company.com'],
+      ['a numeric top-level domain', 'john@192.0.2.1'],
+      ['an invalid address literal', 'john@[300.0.0.1]'],
+      ['an IPv6 literal without its tag', 'john@[2001:db8::1]'],
+    ])('should reject %s', (_description, input) => {
+      expect(parseEmailAddress(input)).toBeNull();
+    });
+
+    it('should reject non-string input', () => {
+      // @ts-ignore
+      expect(parseEmailAddress(42)).toBeNull();
+    });
+  });
+
+  describe('length limits', () => {
+    const label = (length: number) => 'a'.repeat(length);
+
+    it('should accept a local part of 64 octets', () => {
+      expect(parseEmailAddress(`${label(64)}@example.com`)).not.toBeNull();
+    });
+
+    it('should reject a local part over 64 octets', () => {
+      expect(parseEmailAddress(`${label(65)}@example.com`)).toBeNull();
+    });
+
+    it('should count octets, not characters', () => {
+      expect(parseEmailAddress(`${'é'.repeat(33)}@example.com`)).toBeNull();
+    });
+
+    it('should reject a label over 63 octets', () => {
+      expect(parseEmailAddress(`john@${label(64)}.com`)).toBeNull();
+    });
+
+    it('should reject a domain over 255 octets', () => {
+      const domain = [label(63), label(63), label(63), label(63), 'com'].join('.');
+      expect(parseEmailAddress(`j@${domain}`)).toBeNull();
+    });
+
+    it('should reject an address over 254 octets', () => {
+      const domain = [label(63), label(63), label(63), label(55), 'com'].join('.');
+      expect(parseEmailAddress(`john@${domain}`)).toBeNull();
+    });
+  });
+});
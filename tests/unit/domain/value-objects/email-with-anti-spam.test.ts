@@ -1,5 +1,6 @@
 import { Email } from '../../../../src/domain/value-objects/email.js';
 import { MockAntiSpamAdapter } from '../../../../src/infrastructure/external-services/mock-anti-spam.adapter.js';
+import { EmailBlockedError, InvalidEmailError } from '../../../../src/domain/errors/index.js';
 
 describe('Email with Anti-Spam Validation', () => {
   let mockAntiSpam: MockAntiSpamAdapter;
@@ -41,6 +42,44 @@ describe('Email with Anti-Spam Validation', () => {
     // What does this teach about side effects in value objects?
   });
 
+  describe('tryCreateWithAntiSpam()', () => {
+    it('should return a Success for an allowed email', async () => {
+      const result = await Email.tryCreateWithAntiSpam('user@gmail.com', mockAntiSpam);
+
+      expect(result.isSuccess && result.value.getValue()).toBe('user@gmail.com');
+    });
+
+    it('should return a Failure with EmailBlockedError for a blocked email', async () => {
+      const result = await Email.tryCreateWithAntiSpam('user@spam.com', mockAntiSpam);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(EmailBlockedError);
+        expect(result.error.details).toEqual({
+          email: 'user@spam.com',
+          reasons: ['BLOCKED_DOMAIN'],
+          score: 1,
+          provider: 'mock',
+        });
+      }
+    });
+
+    it('should not call the anti-spam service for a malformed email', async () => {
+      const check = jest.spyOn(mockAntiSpam, 'check');
+
+      const result = await Email.tryCreateWithAntiSpam('not-an-email', mockAntiSpam);
+
+      expect(result.isFailure && result.error).toBeInstanceOf(InvalidEmailError);
+      expect(check).not.toHaveBeenCalled();
+    });
+
+    it('should accept an email the service only sends to review', async () => {
+      const result = await Email.tryCreateWithAntiSpam('user@mailinator.com', mockAntiSpam);
+
+      expect(result.isSuccess).toBe(true);
+    });
+  });
+
   describe('create() vs createWithAntiSpam()', () => {
     // 🫵 CHECKPOINT 4.1.4: Compare behaviors
     // Write a test that shows:
@@ -0,0 +1,63 @@
+import fc from 'fast-check';
+import { Email } from 'domain/value-objects/email';
+import { InvalidEmailError } from 'domain/errors';
+import { email, nearlyValidEmail, validEmail } from '../../../support/arbitraries';
+
+describe('Email properties', () => {
+  it('should accept every valid address', () => {
+    fc.assert(fc.property(validEmail, value => {
+      expect(Email.isValid(value)).toBe(true);
+    }));
+  });
+
+  it('should reject addresses that break one rule', () => {
+    fc.assert(fc.property(nearlyValidEmail, value => {
+      const result = Email.tryCreate(value);
+
+      expect(Email.isValid(value)).toBe(false);
+      expect(result.isFailure && result.error).toBeInstanceOf(InvalidEmailError);
+    }));
+  });
+
+  it('should agree with tryCreate on any input, without throwing', () => {
+    fc.assert(fc.property(fc.oneof(fc.string(), fc.string({ unit: 'binary' }), validEmail), value => {
+      expect(Email.tryCreate(value).isSuccess).toBe(Email.isValid(value));
+    }));
+  });
+
+  it('should round-trip through its value', () => {
+    fc.assert(fc.property(email, address => {
+      const recreated = Email.create(address.getValue());
+
+      expect(recreated.equals(address)).toBe(true);
+      expect(recreated.getAsciiValue()).toBe(address.getAsciiValue());
+    }));
+  });
+
+  it('should normalize idempotently', () => {
+    fc.assert(fc.property(validEmail, fc.constantFrom(' ', '\t', '\n'), (value, space) => {
+      const [local, domain] = [value.slice(0, value.lastIndexOf('@')), value.slice(value.lastIndexOf('@') + 1)];
+      const normalized = Email.create(`${space}${local}@${domain.toUpperCase()}${space}`).getValue();
+
+      expect(normalized).toBe(value);
+      expect(Email.create(normalized).getValue()).toBe(normalized);
+    }));
+  });
+
+  it('should canonicalize to a fixed point of the same mailbox', () => {
+    fc.assert(fc.property(email, address => {
+      const canonical = Email.create(address.getCanonicalValue());
+
+      expect(canonical.getCanonicalValue()).toBe(address.getCanonicalValue());
+      expect(canonical.isSameMailboxAs(address)).toBe(true);
+    }));
+  });
+
+  it('should compare reflexively and symmetrically', () => {
+    fc.assert(fc.property(email, email, (first, second) => {
+      expect(first.equals(first)).toBe(true);
+      expect(first.equals(second)).toBe(second.equals(first));
+      expect(first.isSameMailboxAs(second)).toBe(second.isSameMailboxAs(first));
+    }));
+  });
+});
@@ -1,4 +1,5 @@
 import { Email } from 'domain/value-objects/email';
+import { InvalidEmailError } from 'domain/errors';
 
 describe('Email Value Object', () => {
   describe('constructor', () => {
@@ -7,9 +8,21 @@ describe('Email Value Object', () => {
       expect(email.getValue()).toBe('test@example.com');
     });
 
-    it('should normalize email to lowercase', () => {
+    it('should lowercase the domain but preserve the case of the local part', () => {
       const email = new Email('TEST@EXAMPLE.COM');
-      expect(email.getValue()).toBe('test@example.com');
+      expect(email.getValue()).toBe('TEST@example.com');
+    });
+
+    it('should accept a quoted local part', () => {
+      const email = new Email('"john doe"@example.com');
+      expect(email.getLocalPart()).toBe('"john doe"');
+    });
+
+    it('should keep an internationalized domain in Unicode form', () => {
+      const email = new Email('user@MÜNCHEN.de');
+      expect(email.getValue()).toBe('user@münchen.de');
+      expect(email.getAsciiDomain()).toBe('xn--mnchen-3ya.de');
+      expect(email.getAsciiValue()).toBe('user@xn--mnchen-3ya.de');
     });
 
     it('should trim whitespace', () => {
@@ -23,6 +36,10 @@ describe('Email Value Object', () => {
       expect(() => new Email('test@')).toThrow('Invalid email format');
       expect(() => new Email('@example.com')).toThrow('Invalid email format');
     });
+
+    it('should throw InvalidEmailError', () => {
+      expect(() => new Email('invalid-email')).toThrow(InvalidEmailError);
+    });
   });
 
   describe('isValid', () => {
@@ -50,13 +67,56 @@ describe('Email Value Object', () => {
     });
   });
 
+  describe('reconstitute', () => {
+    it('should rebuild a valid address like create()', () => {
+      expect(Email.reconstitute('J.Doe@GMAIL.com').equals(Email.create('J.Doe@GMAIL.com'))).toBe(true);
+    });
+
+    it('should keep a stored address the parser rejects', () => {
+      const email = Email.reconstitute('John..Doe@Localhost');
+
+      expect(email.getValue()).toBe('John..Doe@localhost');
+      expect(email.getCanonicalValue()).toBe('john..doe@localhost');
+    });
+  });
+
+  describe('tryCreate', () => {
+    it('should return a Success for a valid email', () => {
+      const result = Email.tryCreate('TEST@example.com');
+
+      expect(result.isSuccess).toBe(true);
+      expect(result.isSuccess && result.value.getValue()).toBe('TEST@example.com');
+    });
+
+    it('should return a Failure with InvalidEmailError instead of throwing', () => {
+      const result = Email.tryCreate('invalid-email');
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(InvalidEmailError);
+        expect(result.error.details).toEqual({ value: 'invalid-email' });
+      }
+    });
+
+    it('should return a Failure for non-string input', () => {
+      // @ts-ignore
+      expect(Email.tryCreate(undefined).isFailure).toBe(true);
+    });
+  });
+
   describe('equals', () => {
     it('should return true for equal emails', () => {
       const email1 = new Email('test@example.com');
-      const email2 = new Email('TEST@EXAMPLE.COM');
+      const email2 = new Email('test@EXAMPLE.COM');
       expect(email1.equals(email2)).toBe(true);
     });
 
+    it('should tell apart local parts that differ in case', () => {
+      const email1 = new Email('test@example.com');
+      const email2 = new Email('TEST@example.com');
+      expect(email1.equals(email2)).toBe(false);
+    });
+
     it('should return false for different emails', () => {
       const email1 = new Email('test1@example.com');
       const email2 = new Email('test2@example.com');
@@ -64,6 +124,28 @@ describe('Email Value Object', () => {
     });
   });
 
+  describe('getCanonicalValue', () => {
+    it('should apply the rules of the mail provider', () => {
+      expect(new Email('J.Doe+news@GoogleMail.com').getCanonicalValue()).toBe('jdoe@gmail.com');
+    });
+
+    it('should only lowercase addresses of other providers', () => {
+      expect(new Email('J.Doe+news@example.com').getCanonicalValue()).toBe('j.doe+news@example.com');
+    });
+
+    it('should accept custom rules', () => {
+      const rules = [{ domains: ['example.com'], tagSeparator: '-' }];
+      expect(new Email('jdoe-news@example.com').getCanonicalValue(rules)).toBe('jdoe@example.com');
+    });
+  });
+
+  describe('isSameMailboxAs', () => {
+    it('should compare canonical forms', () => {
+      expect(new Email('J.Doe+x@gmail.com').isSameMailboxAs(new Email('jdoe@gmail.com'))).toBe(true);
+      expect(new Email('jdoe@gmail.com').isSameMailboxAs(new Email('jdoe@example.com'))).toBe(false);
+    });
+  });
+
   // TODO: Exercise 3.c - Write tests for getDomain() and getLocalPart()
   // Remove the TODO comment and add your tests below
 });
@@ -0,0 +1,39 @@
+import fc from 'fast-check';
+import { UserId } from 'domain/value-objects/user-id';
+import { InvalidUserIdError } from 'domain/errors';
+import { nearlyValidUserId, userId, validUserId } from '../../../support/arbitraries';
+
+describe('UserId properties', () => {
+  it('should accept every UUID, whatever its case', () => {
+    fc.assert(fc.property(validUserId, value => {
+      expect(UserId.isValid(value)).toBe(true);
+      expect(UserId.isValid(value.toUpperCase())).toBe(true);
+    }));
+  });
+
+  it('should reject ids that break one rule', () => {
+    fc.assert(fc.property(nearlyValidUserId, value => {
+      expect(UserId.isValid(value)).toBe(false);
+      expect(() => UserId.create(value)).toThrow(InvalidUserIdError);
+    }));
+  });
+
+  it('should agree with tryCreate on any input, without throwing', () => {
+    fc.assert(fc.property(fc.oneof(fc.string(), validUserId), value => {
+      expect(UserId.tryCreate(value).isSuccess).toBe(UserId.isValid(value));
+    }));
+  });
+
+  it('should round-trip through its value', () => {
+    fc.assert(fc.property(userId, id => {
+      expect(UserId.create(id.getValue()).equals(id)).toBe(true);
+    }));
+  });
+
+  it('should compare reflexively and symmetrically', () => {
+    fc.assert(fc.property(userId, userId, (first, second) => {
+      expect(first.equals(first)).toBe(true);
+      expect(first.equals(second)).toBe(second.equals(first));
+    }));
+  });
+});
@@ -1,4 +1,6 @@
 import { UserId } from 'domain/value-objects/user-id';
+import { InvalidUserIdError } from 'domain/errors';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
 
 describe('UserId Value Object', () => {
   describe('constructor', () => {
@@ -42,6 +44,34 @@ describe('UserId Value Object', () => {
     });
   });
 
+  describe('tryCreate', () => {
+    it('should return a Success for a valid UUID', () => {
+      const validUuid = '123e4567-e89b-12d3-a456-426614174000';
+      const result = UserId.tryCreate(validUuid);
+
+      expect(result.isSuccess && result.value.getValue()).toBe(validUuid);
+    });
+
+    it('should return a Failure with InvalidUserIdError instead of throwing', () => {
+      const result = UserId.tryCreate('invalid-uuid');
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(InvalidUserIdError);
+        expect(result.error.details).toEqual({ value: 'invalid-uuid' });
+      }
+    });
+
+    it.each([
+      ['an empty id', ''],
+      ['a missing id', undefined],
+    ])('should return a Failure for %s', (_, id) => {
+      const result = UserId.tryCreate(id);
+
+      expect(result.isFailure && result.error).toBeInstanceOf(InvalidUserIdError);
+    });
+  });
+
   describe('generate', () => {
     it('should generate a valid UUID', () => {
       const userId = UserId.generate();
@@ -53,6 +83,13 @@ describe('UserId Value Object', () => {
       const userId2 = UserId.generate();
       expect(userId1.getValue()).not.toBe(userId2.getValue());
     });
+
+    it('should take its value from the given generator', () => {
+      const ids = new SequentialIdGenerator();
+
+      expect(UserId.generate(ids).getValue()).toBe('00000000-0000-4000-8000-000000000001');
+      expect(UserId.create(undefined, ids).getValue()).toBe('00000000-0000-4000-8000-000000000002');
+    });
   });
 
   describe('equals', () => {
@@ -0,0 +1,70 @@
+import fc from 'fast-check';
+import { UserName } from 'domain/value-objects/user-name';
+import { InvalidUserNameError } from 'domain/errors';
+import { nearlyValidUserName, untidyUserName, userName, validUserName } from '../../../support/arbitraries';
+
+const graphemeCount = (text: string): number =>
+  [...new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text)].length;
+
+describe('UserName properties', () => {
+  it('should accept every valid name', () => {
+    fc.assert(fc.property(validUserName, value => {
+      expect(UserName.isValid(value)).toBe(true);
+    }));
+  });
+
+  it('should reject names that break one rule', () => {
+    fc.assert(fc.property(nearlyValidUserName, value => {
+      expect(UserName.isValid(value)).toBe(false);
+      expect(() => UserName.create(value)).toThrow(InvalidUserNameError);
+    }));
+  });
+
+  it('should agree with tryCreate on any input, without throwing', () => {
+    fc.assert(fc.property(fc.oneof(fc.string(), fc.string({ unit: 'grapheme' }), validUserName), value => {
+      expect(UserName.tryCreate(value).isSuccess).toBe(UserName.isValid(value));
+    }));
+  });
+
+  it('should round-trip through its value', () => {
+    fc.assert(fc.property(userName, name => {
+      expect(UserName.create(name.getValue()).equals(name)).toBe(true);
+    }));
+  });
+
+  it('should normalize whitespace idempotently', () => {
+    fc.assert(fc.property(untidyUserName, ({ name, untidy }) => {
+      const normalized = UserName.create(untidy).getValue();
+
+      expect(normalized).toBe(name);
+      expect(UserName.create(normalized).getValue()).toBe(normalized);
+    }));
+  });
+
+  it('should normalize combining characters to the precomposed form', () => {
+    fc.assert(fc.property(validUserName, value => {
+      expect(UserName.create(value.normalize('NFD')).getValue()).toBe(value.normalize('NFC'));
+    }));
+  });
+
+  it('should have one initial per part of the name', () => {
+    fc.assert(fc.property(userName, name => {
+      expect(graphemeCount(name.getInitials())).toBe(name.getValue().split(' ').length);
+    }));
+  });
+
+  it('should split into a given and a family name that make up the whole name', () => {
+    fc.assert(fc.property(userName, name => {
+      const parts = [name.getGivenName(), name.getFamilyName()].filter(Boolean);
+
+      expect(parts.join(' ')).toBe(name.getValue());
+    }));
+  });
+
+  it('should compare reflexively and symmetrically', () => {
+    fc.assert(fc.property(userName, userName, (first, second) => {
+      expect(first.equals(first)).toBe(true);
+      expect(first.equals(second)).toBe(second.equals(first));
+    }));
+  });
+});
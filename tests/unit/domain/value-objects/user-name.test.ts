@@ -1,4 +1,5 @@
-import { UserName } from 'domain/value-objects/user-name';
+import { DEFAULT_USER_NAME_POLICY, UserName } from 'domain/value-objects/user-name';
+import { InvalidUserNameError } from 'domain/errors';
 
 describe('UserName Value Object', () => {
   describe('constructor', () => {
@@ -21,6 +22,130 @@ describe('UserName Value Object', () => {
     });
   });
 
+  describe('normalization', () => {
+    it('should collapse every run of whitespace into one space', () => {
+      expect(new UserName('John \t  Michael\u00A0Doe').getValue()).toBe('John Michael Doe');
+    });
+
+    it('should normalize to NFC', () => {
+      const decomposed = new UserName('Jose\u0301');
+      expect(decomposed.getValue()).toBe('Jos\u00E9');
+      expect(decomposed.equals(new UserName('José'))).toBe(true);
+    });
+  });
+
+  describe('Unicode names', () => {
+    it.each(['José', 'Zoë', '李雷', 'Søren Kierkegaard', 'Иван Петров', 'محمد علي', 'Nguyễn Văn An', '山田 たろう'])(
+      'should accept %s',
+      name => expect(UserName.isValid(name)).toBe(true)
+    );
+
+    it('should reject control and invisible characters', () => {
+      expect(UserName.isValid('John\u0000Doe')).toBe(false);
+      expect(UserName.isValid('John\u200BDoe')).toBe(false);
+    });
+
+    it('should reject letters from unrelated scripts in one name', () => {
+      // "а" is Cyrillic
+      const result = UserName.tryCreate('Pаul Smith');
+
+      expect(result.isFailure && result.error.details).toEqual({ value: 'Pаul Smith', violation: 'MIXED_SCRIPTS' });
+    });
+
+    it('should accept scripts that are written together', () => {
+      expect(UserName.isValid('田中 ひろし')).toBe(true);
+      expect(UserName.isValid('金 民國')).toBe(true);
+    });
+
+    it('should count grapheme clusters, not UTF-16 code units', () => {
+      // "ẹ́" has no precomposed form: one grapheme, two code points even after NFC
+      const name = 'ẹ́'.repeat(50);
+
+      expect(name.length).toBeGreaterThan(50);
+      expect(UserName.isValid(name)).toBe(true);
+      expect(UserName.isValid('李')).toBe(false);
+    });
+  });
+
+  describe('policy', () => {
+    it('should report which rule a name breaks', () => {
+      const violation = (name: string) => {
+        const result = UserName.tryCreate(name);
+        return result.isFailure ? result.error.details.violation : undefined;
+      };
+
+      expect(violation('A')).toBe('TOO_SHORT');
+      expect(violation('A'.repeat(51))).toBe('TOO_LONG');
+      expect(violation('John123')).toBe('INVALID_CHARACTERS');
+    });
+
+    it('should accept custom limits', () => {
+      const policy = { ...DEFAULT_USER_NAME_POLICY, minLength: 1, maxLength: 5 };
+
+      expect(UserName.isValid('李', policy)).toBe(true);
+      expect(UserName.isValid('Johnny', policy)).toBe(false);
+    });
+
+    it('should accept custom punctuation', () => {
+      const policy = { ...DEFAULT_USER_NAME_POLICY, punctuation: '' };
+
+      expect(UserName.isValid("O'Connor", policy)).toBe(false);
+      expect(UserName.isValid('J. Doe', policy)).toBe(false);
+      expect(UserName.isValid('J. Doe')).toBe(true);
+    });
+
+    it('should allow mixed scripts when asked to', () => {
+      const policy = { ...DEFAULT_USER_NAME_POLICY, allowMixedScripts: true };
+
+      expect(UserName.isValid('Li Lei 李雷', policy)).toBe(true);
+      expect(UserName.isValid('Li Lei 李雷')).toBe(false);
+    });
+
+    it('should only let punctuation join letters', () => {
+      expect(UserName.isValid("-John")).toBe(false);
+      expect(UserName.isValid("Jean--Pierre")).toBe(false);
+      expect(UserName.isValid("John'")).toBe(false);
+    });
+  });
+
+  describe('fromParts', () => {
+    it('should display the given name first by default', () => {
+      const name = UserName.fromParts({ given: 'John', family: 'Doe' });
+
+      expect(name.getValue()).toBe('John Doe');
+      expect(name.getOrder()).toBe('given-first');
+    });
+
+    it('should display the family name first when asked to', () => {
+      const name = UserName.fromParts({ given: 'Lei', family: 'Li', order: 'family-first' });
+
+      expect(name.getValue()).toBe('Li Lei');
+      expect(name.getGivenName()).toBe('Lei');
+      expect(name.getFamilyName()).toBe('Li');
+      expect(name.getFirstName()).toBe('Lei');
+      expect(name.getLastName()).toBe('Li');
+    });
+
+    it('should keep multi-word parts intact', () => {
+      const name = UserName.fromParts({ given: 'Maria', family: 'de la Cruz' });
+
+      expect(name.getFamilyName()).toBe('de la Cruz');
+      expect(name.getLastName()).toBe('de la Cruz');
+    });
+
+    it('should accept a given name alone', () => {
+      expect(UserName.fromParts({ given: 'Madonna' }).getFamilyName()).toBe('');
+    });
+
+    it('should reject a missing given name', () => {
+      expect(() => UserName.fromParts({ given: '  ', family: 'Doe' })).toThrow(InvalidUserNameError);
+    });
+
+    it('should validate the full name', () => {
+      expect(() => UserName.fromParts({ given: 'John', family: 'D0e' })).toThrow(InvalidUserNameError);
+    });
+  });
+
   describe('isValid', () => {
     it('should return true for valid names', () => {
       expect(UserName.isValid('John Doe')).toBe(true);
@@ -47,6 +172,24 @@ describe('UserName Value Object', () => {
     });
   });
 
+  describe('tryCreate', () => {
+    it('should return a Success for a valid name', () => {
+      const result = UserName.tryCreate('John Doe');
+
+      expect(result.isSuccess && result.value.getValue()).toBe('John Doe');
+    });
+
+    it('should return a Failure with InvalidUserNameError instead of throwing', () => {
+      const result = UserName.tryCreate('John123');
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(InvalidUserNameError);
+        expect(result.error.code).toBe('INVALID_USER_NAME');
+      }
+    });
+  });
+
   describe('getFirstName', () => {
     it('should return the first name', () => {
       const userName = new UserName('John Doe');
@@ -91,6 +234,20 @@ describe('UserName Value Object', () => {
       const userName = new UserName('John');
       expect(userName.getInitials()).toBe('J');
     });
+
+    it('should follow the display order of the parts', () => {
+      expect(UserName.fromParts({ given: 'Lei', family: 'Li', order: 'family-first' }).getInitials()).toBe('LL');
+      expect(UserName.fromParts({ given: 'Hiroshi', family: 'Tanaka', order: 'family-first' }).getInitials()).toBe('TH');
+    });
+
+    it('should take whole grapheme clusters and uppercase them', () => {
+      expect(new UserName('émile zola').getInitials()).toBe('ÉZ');
+      expect(new UserName('李雷').getInitials()).toBe('李');
+    });
+
+    it('should keep letters whose uppercase is several letters', () => {
+      expect(new UserName('ßaa Doe').getInitials()).toBe('ßD');
+    });
   });
 
   describe('equals', () => {
@@ -105,5 +262,14 @@ describe('UserName Value Object', () => {
       const userName2 = new UserName('Jane Doe');
       expect(userName1.equals(userName2)).toBe(false);
     });
+
+    it('should compare the parts and order, not only the displayed name', () => {
+      const familyFirst = UserName.fromParts({ given: 'Lei', family: 'Li', order: 'family-first' });
+
+      expect(familyFirst.equals(new UserName('Li Lei'))).toBe(false);
+      expect(UserName.fromParts({ given: 'Maria', family: 'de la Cruz' }).equals(new UserName('Maria de la Cruz')))
+        .toBe(false);
+      expect(UserName.fromParts({ given: 'John', family: 'Doe' }).equals(new UserName('John Doe'))).toBe(true);
+    });
   });
 });
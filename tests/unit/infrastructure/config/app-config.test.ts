@@ -0,0 +1,127 @@
+import { ConfigError, REDACTED, parseConfig, redactConfig } from 'infrastructure/config/app-config';
+
+const SECRET = 's'.repeat(32);
+
+describe('parseConfig', () => {
+  const issuesOf = (env: Record<string, string>) => {
+    try {
+      parseConfig(env);
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        return error.issues;
+      }
+      throw error;
+    }
+    throw new Error('Expected a ConfigError');
+  };
+
+  it('should default to an in-memory development setup', () => {
+    expect(parseConfig({})).toEqual({
+      env: 'development',
+      server: { host: '0.0.0.0', port: 3000 },
+      log: { level: 'info' },
+      database: { driver: 'memory' },
+      antiSpam: { driver: 'mock' },
+      email: { outboxDir: undefined },
+      emailVerification: { secret: undefined, confirmUrl: 'http://localhost:3000/users/verify-email' },
+    });
+  });
+
+  it('should read a full production setup', () => {
+    const config = parseConfig({
+      NODE_ENV: 'production',
+      HOST: '127.0.0.1',
+      PORT: '8080',
+      LOG_LEVEL: 'warn',
+      DATABASE_DRIVER: 'postgres',
+      DATABASE_URL: 'postgres://app:secret@db:5432/users',
+      ANTI_SPAM_API_KEY: 'key',
+      ANTI_SPAM_TIMEOUT_MS: '500',
+      ANTI_SPAM_FAILURE_POLICY: 'fail-closed',
+      EMAIL_VERIFICATION_SECRET: SECRET,
+      EMAIL_VERIFICATION_URL: 'https://app.example.com/verify',
+    });
+
+    expect(config).toMatchObject({
+      env: 'production',
+      server: { host: '127.0.0.1', port: 8080 },
+      log: { level: 'warn' },
+      database: { driver: 'postgres', url: 'postgres://app:secret@db:5432/users' },
+      antiSpam: { driver: 'real', apiKey: 'key', timeoutMs: 500, failurePolicy: 'fail-closed' },
+      emailVerification: { secret: SECRET, confirmUrl: 'https://app.example.com/verify' },
+    });
+  });
+
+  it('should use the real anti-spam service when a key is set, unless told otherwise', () => {
+    expect(parseConfig({ ANTI_SPAM_API_KEY: 'key' }).antiSpam.driver).toBe('real');
+    expect(parseConfig({ ANTI_SPAM_API_KEY: 'key', ANTI_SPAM_DRIVER: 'mock' }).antiSpam.driver).toBe('mock');
+  });
+
+  it('should treat empty values as unset', () => {
+    expect(parseConfig({ PORT: '', ANTI_SPAM_API_KEY: '' })).toMatchObject({
+      server: { port: 3000 },
+      antiSpam: { driver: 'mock' },
+    });
+  });
+
+  it('should report every invalid variable at once', () => {
+    expect(issuesOf({ PORT: 'eighty', DATABASE_DRIVER: 'mongo', EMAIL_VERIFICATION_URL: 'not a url' }))
+      .toEqual([
+        { key: 'PORT', message: expect.any(String) },
+        { key: 'DATABASE_DRIVER', message: expect.any(String) },
+        { key: 'EMAIL_VERIFICATION_URL', message: expect.any(String) },
+      ]);
+  });
+
+  it('should require the variables a setup depends on, along with the invalid ones', () => {
+    expect(issuesOf({ NODE_ENV: 'production', PORT: '-1', DATABASE_DRIVER: 'postgres', ANTI_SPAM_DRIVER: 'real' }))
+      .toEqual([
+        { key: 'PORT', message: expect.any(String) },
+        { key: 'DATABASE_URL', message: 'required when DATABASE_DRIVER is postgres' },
+        { key: 'ANTI_SPAM_API_KEY', message: 'required when ANTI_SPAM_DRIVER is real' },
+        { key: 'EMAIL_VERIFICATION_SECRET', message: 'required in production' },
+      ]);
+  });
+
+  it('should refuse a token secret that is too short', () => {
+    expect(issuesOf({ EMAIL_VERIFICATION_SECRET: 'short' })).toEqual([
+      { key: 'EMAIL_VERIFICATION_SECRET', message: 'must be at least 32 characters long' },
+    ]);
+  });
+
+  it('should list the issues in the error message without the values', () => {
+    const secret = 'short-but-secret';
+
+    expect(() => parseConfig({ EMAIL_VERIFICATION_SECRET: secret, PORT: 'x' })).toThrow(
+      expect.objectContaining({
+        message: expect.stringMatching(/^Invalid configuration:\n {2}- PORT: .+\n {2}- EMAIL_VERIFICATION_SECRET: /),
+      })
+    );
+    expect(() => parseConfig({ EMAIL_VERIFICATION_SECRET: secret })).toThrow(expect.objectContaining({
+      message: expect.not.stringContaining(secret),
+    }));
+  });
+});
+
+describe('redactConfig', () => {
+  it('should hide every secret and keep the rest', () => {
+    const config = parseConfig({
+      DATABASE_DRIVER: 'postgres',
+      DATABASE_URL: 'postgres://app:secret@db:5432/users',
+      ANTI_SPAM_API_KEY: 'key',
+      EMAIL_VERIFICATION_SECRET: SECRET,
+    });
+
+    const redacted = redactConfig(config);
+
+    expect(redacted.database).toEqual({ driver: 'postgres', url: `postgres://app:${REDACTED}@db:5432/users` });
+    expect(redacted.antiSpam).toMatchObject({ driver: 'real', apiKey: REDACTED });
+    expect(redacted.emailVerification.secret).toBe(REDACTED);
+    expect(JSON.stringify(redacted)).not.toMatch(/secret@|"key"|s{32}/);
+    expect(config.antiSpam).toMatchObject({ apiKey: 'key' });
+  });
+
+  it('should leave unset secrets unset', () => {
+    expect(redactConfig(parseConfig({})).emailVerification.secret).toBeUndefined();
+  });
+});
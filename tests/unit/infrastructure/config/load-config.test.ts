@@ -0,0 +1,75 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigError } from 'infrastructure/config/app-config';
+import { envFilesFor, loadConfig } from 'infrastructure/config/load-config';
+
+describe('loadConfig', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'config-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const write = (file: string, content: string) => writeFile(join(directory, file), content);
+
+  it('should work without any .env file', async () => {
+    const config = await loadConfig({ env: {}, directory });
+
+    expect(config.server.port).toBe(3000);
+  });
+
+  it('should let environment files override .env, and real variables override both', async () => {
+    await write('.env', 'PORT=4000\nHOST=localhost\nEMAIL_OUTBOX_DIR=./emails\n');
+    await write('.env.development', 'PORT=5000\nHOST=dev.local\n');
+    await write('.env.production', 'PORT=6000\n');
+
+    const config = await loadConfig({ env: { HOST: 'from-env' }, directory });
+
+    expect(config.server).toEqual({ host: 'from-env', port: 5000 });
+    expect(config.email.outboxDir).toBe('./emails');
+  });
+
+  it('should read the files of the NODE_ENV it is given', async () => {
+    await write('.env.test', 'PORT=7000\n');
+    await write('.env.local', 'PORT=9999\n');
+
+    const config = await loadConfig({ env: { NODE_ENV: 'test' }, directory });
+
+    expect(config).toMatchObject({ env: 'test', server: { port: 7000 } });
+  });
+
+  it('should parse quotes and comments like dotenv', async () => {
+    await write('.env', '# The API\nANTI_SPAM_API_KEY="a key with spaces"\n');
+
+    const config = await loadConfig({ env: {}, directory });
+
+    expect(config.antiSpam).toMatchObject({ driver: 'real', apiKey: 'a key with spaces' });
+  });
+
+  it('should fail with every issue, whichever file it came from', async () => {
+    await write('.env', 'PORT=abc\n');
+
+    await expect(loadConfig({ env: { DATABASE_DRIVER: 'postgres' }, directory })).rejects.toMatchObject({
+      issues: [expect.objectContaining({ key: 'PORT' }), expect.objectContaining({ key: 'DATABASE_URL' })],
+    });
+  });
+
+  it('should refuse an unknown NODE_ENV before reading any file', async () => {
+    await expect(loadConfig({ env: { NODE_ENV: 'staging' }, directory })).rejects.toBeInstanceOf(ConfigError);
+  });
+});
+
+describe('envFilesFor', () => {
+  it('should list the files lowest precedence first', () => {
+    expect(envFilesFor('production')).toEqual(['.env', '.env.local', '.env.production', '.env.production.local']);
+  });
+
+  it('should skip .env.local in test', () => {
+    expect(envFilesFor('test')).toEqual(['.env', '.env.test', '.env.test.local']);
+  });
+});
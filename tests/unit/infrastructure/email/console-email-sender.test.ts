@@ -0,0 +1,15 @@
+import { ConsoleEmailSender } from 'infrastructure/email/console-email-sender';
+
+describe('ConsoleEmailSender', () => {
+  it('should print the recipient, subject and body', async () => {
+    const lines: string[] = [];
+    const sender = new ConsoleEmailSender(line => lines.push(line));
+
+    await sender.send({ to: 'john@example.com', subject: 'Hello', text: 'Open this link:\nhttps://app.test' });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toContain('john@example.com');
+    expect(lines[0]).toContain('Hello');
+    expect(lines[0]).toContain('   https://app.test');
+  });
+});
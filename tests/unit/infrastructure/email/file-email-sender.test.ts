@@ -0,0 +1,43 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileEmailSender } from 'infrastructure/email/file-email-sender';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+
+describe('FileEmailSender', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'emails-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write each email to its own .eml file', async () => {
+    const sender = new FileEmailSender(join(directory, 'outbox'));
+
+    await sender.send({ to: 'john@example.com', subject: 'Hello', text: 'First line\nSecond line' });
+    await sender.send({ to: 'jane@example.com', subject: 'Hi', text: 'Body' });
+
+    const files = await readdir(join(directory, 'outbox'));
+    expect(files).toHaveLength(2);
+    expect(files.every(file => file.endsWith('.eml'))).toBe(true);
+
+    const contents = await Promise.all(files.map(file => readFile(join(directory, 'outbox', file), 'utf8')));
+    const john = contents.find(content => content.includes('To: john@example.com'));
+    expect(john).toContain('Subject: Hello\r\n');
+    expect(john).toContain('\r\n\r\nFirst line\nSecond line');
+  });
+
+  it('should date the emails by the given clock', async () => {
+    const sender = new FileEmailSender(directory, new FixedClock('2024-03-10T08:00:00.000Z'));
+
+    await sender.send({ to: 'john@example.com', subject: 'Hello', text: 'Body' });
+
+    const [file] = await readdir(directory);
+    expect(file).toMatch(/^2024-03-10T08-00-00-000Z-.+\.eml$/);
+    expect(await readFile(join(directory, file), 'utf8')).toContain('Date: Sun, 10 Mar 2024 08:00:00 GMT\r\n');
+  });
+});
@@ -0,0 +1,147 @@
+import { container, TOKENS } from 'shared/container';
+import { DomainEventHandler } from 'application/ports/event-bus.port';
+import { DomainEventOf, UserEmailChanged, UserRegistered } from 'domain/events';
+import { HandlerFailure, InProcessEventBus, reportTo } from 'infrastructure/events/in-process-event-bus';
+import { InMemoryLogger } from 'infrastructure/logging/in-memory-logger';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+
+const registered = new UserRegistered(
+  'user-1',
+  { email: 'john@example.com', name: 'John Doe' },
+  new Date(),
+  SequentialIdGenerator.idAt(1)
+);
+const emailChanged = new UserEmailChanged(
+  'user-1',
+  { previousEmail: 'john@example.com', email: 'johnny@example.com' },
+  new Date(),
+  SequentialIdGenerator.idAt(2)
+);
+
+class RecordingHandler implements DomainEventHandler<'UserRegistered'> {
+  readonly eventType = 'UserRegistered';
+  readonly received: DomainEventOf<'UserRegistered'>[] = [];
+
+  handle(event: DomainEventOf<'UserRegistered'>): void {
+    this.received.push(event);
+  }
+}
+
+class FailingHandler implements DomainEventHandler<'UserRegistered'> {
+  readonly eventType = 'UserRegistered';
+
+  handle(): void {
+    throw new Error('mail server down');
+  }
+}
+
+describe('InProcessEventBus', () => {
+  it('should deliver an event to every handler of its type only', async () => {
+    const first = new RecordingHandler();
+    const second = new RecordingHandler();
+    const bus = new InProcessEventBus([first, second]);
+
+    await bus.publish([registered, emailChanged]);
+
+    expect(first.received).toEqual([registered]);
+    expect(second.received).toEqual([registered]);
+  });
+
+  it('should deliver events in order', async () => {
+    const types: string[] = [];
+    const bus = new InProcessEventBus();
+    bus.subscribe({ eventType: 'UserRegistered', handle: async event => { types.push(event.type); } });
+    bus.subscribe({ eventType: 'UserEmailChanged', handle: event => { types.push(event.payload.email); } });
+
+    await bus.publish([registered, emailChanged]);
+
+    expect(types).toEqual(['UserRegistered', 'johnny@example.com']);
+  });
+
+  it('should isolate a failing handler from the others', async () => {
+    const failures: HandlerFailure[] = [];
+    const recording = new RecordingHandler();
+    const bus = new InProcessEventBus([new FailingHandler(), recording], failure => failures.push(failure));
+
+    await expect(bus.publish([registered])).resolves.toBeUndefined();
+
+    expect(recording.received).toEqual([registered]);
+    expect(failures).toEqual([{ event: registered, handler: 'FailingHandler', error: new Error('mail server down') }]);
+  });
+
+  it('should isolate a handler that rejects', async () => {
+    const onHandlerError = jest.fn();
+    const bus = new InProcessEventBus([], onHandlerError);
+    bus.subscribe({ eventType: 'UserRegistered', handle: () => Promise.reject(new Error('timeout')) });
+
+    await bus.publish([registered]);
+
+    expect(onHandlerError).toHaveBeenCalledWith(expect.objectContaining({ error: new Error('timeout') }));
+  });
+
+  it('should stop delivering to an unsubscribed handler', async () => {
+    const handler = new RecordingHandler();
+    const bus = new InProcessEventBus();
+    const unsubscribe = bus.subscribe(handler);
+
+    unsubscribe();
+    await bus.publish([registered]);
+
+    expect(handler.received).toEqual([]);
+  });
+
+  describe('fromContainer', () => {
+    it('should subscribe every handler registered in the container', async () => {
+      const scope = container.createChildContainer();
+      const handler = new RecordingHandler();
+      scope.register(TOKENS.DOMAIN_EVENT_HANDLER, { useValue: handler });
+      scope.register(TOKENS.DOMAIN_EVENT_HANDLER, { useClass: RecordingHandler });
+
+      await InProcessEventBus.fromContainer(scope).publish([registered]);
+
+      expect(handler.received).toEqual([registered]);
+    });
+
+    it('should report failures to the registered logger', async () => {
+      const scope = container.createChildContainer();
+      const logger = new InMemoryLogger();
+      scope.registerInstance(TOKENS.LOGGER_SERVICE, logger);
+      scope.register(TOKENS.DOMAIN_EVENT_HANDLER, { useClass: FailingHandler });
+
+      await InProcessEventBus.fromContainer(scope).publish([registered]);
+
+      expect(logger.find('error', 'Event handler failed')[0]?.fields).toMatchObject({
+        component: 'event-bus',
+        handler: 'FailingHandler',
+      });
+    });
+
+    it('should work without any handler registered', async () => {
+      const bus = InProcessEventBus.fromContainer(container.createChildContainer());
+
+      await expect(bus.publish([registered])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('reportTo', () => {
+    it('should log the failure with the event identifiers', () => {
+      const logger = new InMemoryLogger();
+      const error = new Error('mail server down');
+
+      reportTo(logger)({ event: registered, handler: 'FailingHandler', error });
+
+      expect(logger.entries).toEqual([{
+        level: 'error',
+        message: 'Event handler failed',
+        fields: {
+          handler: 'FailingHandler',
+          eventType: 'UserRegistered',
+          eventId: registered.eventId,
+          aggregateId: 'user-1',
+          error,
+        },
+        correlationId: undefined,
+      }]);
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { AntiSpamDecision, AntiSpamPort, AntiSpamVerdict } from 'domain/ports/anti-spam.port';
+import {
+  CompositeAntiSpamAdapter,
+  CompositeProvider,
+} from 'infrastructure/external-services/composite-anti-spam.adapter';
+import { RuleBasedAntiSpamAdapter } from 'infrastructure/external-services/rule-based-anti-spam.adapter';
+
+const SCORES: Record<AntiSpamDecision, number> = { allowed: 0, review: 0.5, blocked: 1 };
+
+const verdict = (decision: AntiSpamDecision, score = SCORES[decision]): AntiSpamVerdict => ({
+  decision,
+  score,
+  reasons: decision === 'allowed' ? [] : [{ code: 'PROVIDER_FLAGGED', message: `flagged (${decision})` }],
+  provider: { name: 'stub' },
+});
+
+// A port that answers with a fixed verdict, optionally after a delay
+const stubPort = (answer: AntiSpamVerdict | Error, delayMs = 0) => {
+  const check = jest.fn((_email: string) => new Promise<AntiSpamVerdict>((resolve, reject) => {
+    setTimeout(() => (answer instanceof Error ? reject(answer) : resolve(answer)), delayMs);
+  }));
+  const port: AntiSpamPort = {
+    check,
+    isBlocked: async (email: string) => (await check(email)).decision === 'blocked',
+  };
+  return { port, check };
+};
+
+const provider = (name: string, answer: AntiSpamVerdict | Error, extra: Partial<CompositeProvider> = {}) =>
+  ({ name, ...stubPort(answer), ...extra });
+
+describe('CompositeAntiSpamAdapter', () => {
+  describe('configuration', () => {
+    it('should need at least one provider', () => {
+      expect(() => new CompositeAntiSpamAdapter([])).toThrow('at least one provider');
+    });
+
+    it('should need unique provider names', () => {
+      const { port } = stubPort(verdict('allowed'));
+      expect(() => new CompositeAntiSpamAdapter([{ name: 'a', port }, { name: 'a', port }])).toThrow('unique');
+    });
+
+    it('should need positive weights', () => {
+      const { port } = stubPort(verdict('allowed'));
+      expect(() => new CompositeAntiSpamAdapter([{ name: 'a', port, weight: 0 }])).toThrow('positive');
+    });
+  });
+
+  describe('any-blocks strategy', () => {
+    it('should block when one provider blocks and report it', async () => {
+      const composite = new CompositeAntiSpamAdapter([
+        provider('local', verdict('allowed')),
+        provider('remote', verdict('blocked')),
+      ]);
+
+      const result = await composite.check('user@example.com');
+
+      expect(result.decision).toBe('blocked');
+      expect(result.score).toBe(1);
+      expect(result.provider).toMatchObject({
+        name: 'composite',
+        metadata: { strategy: 'any-blocks', decidedBy: ['remote'] },
+      });
+    });
+
+    it('should send to review when a provider does and none blocks', async () => {
+      const composite = new CompositeAntiSpamAdapter([
+        provider('local', verdict('review')),
+        provider('remote', verdict('allowed')),
+      ]);
+
+      expect(await composite.check('user@example.com')).toMatchObject({
+        decision: 'review',
+        reasons: [{ code: 'PROVIDER_FLAGGED' }],
+      });
+    });
+
+    it('should allow when every provider allows', async () => {
+      const composite = new CompositeAntiSpamAdapter([
+        provider('local', verdict('allowed')),
+        provider('remote', verdict('allowed')),
+      ]);
+
+      expect(await composite.isBlocked('user@example.com')).toBe(false);
+    });
+  });
+
+  describe('majority strategy', () => {
+    it('should block only when most providers block', async () => {
+      const blocking = new CompositeAntiSpamAdapter([
+        provider('a', verdict('blocked')),
+        provider('b', verdict('blocked')),
+        provider('c', verdict('allowed')),
+      ], { strategy: 'majority', shortCircuit: false });
+      const outvoted = new CompositeAntiSpamAdapter([
+        provider('a', verdict('blocked')),
+        provider('b', verdict('allowed')),
+        provider('c', verdict('allowed')),
+      ], { strategy: 'majority' });
+
+      expect((await blocking.check('user@example.com')).provider.metadata).toMatchObject({
+        decidedBy: ['a', 'b'],
+      });
+      expect(await blocking.isBlocked('user@example.com')).toBe(true);
+      expect(await outvoted.check('user@example.com')).toMatchObject({
+        decision: 'allowed',
+        provider: { metadata: { decidedBy: ['b', 'c'] } },
+      });
+    });
+
+    it('should send to review when most providers find the email suspicious', async () => {
+      const composite = new CompositeAntiSpamAdapter([
+        provider('a', verdict('blocked')),
+        provider('b', verdict('review')),
+        provider('c', verdict('allowed')),
+      ], { strategy: 'majority' });
+
+      expect((await composite.check('user@example.com')).decision).toBe('review');
+    });
+
+    it('should only count the providers that answered', async () => {
+      const composite = new CompositeAntiSpamAdapter([
+        provider('a', verdict('blocked')),
+        provider('b', new Error('connection refused')),
+        provider('c', new Error('connection refused')),
+      ], { strategy: 'majority' });
+
+      expect(await composite.isBlocked('user@example.com')).toBe(true);
+    });
+  });
+
+  describe('weighted strategy', () => {
+    it('should decide from the weighted mean score', async () => {
+      const composite = new CompositeAntiSpamAdapter([
+        provider('local', verdict('blocked', 1), { weight: 1 }),
+        provider('remote', verdict('allowed', 0.2), { weight: 3 }),
+      ], { strategy: 'weighted' });
+
+      const result = await composite.check('user@example.com');
+
+      expect(result.score).toBeCloseTo(0.4);
+      expect(result.decision).toBe('review');
+      expect(result.provider.metadata).toMatchObject({ decidedBy: ['local'] });
+    });
+
+    it('should use custom thresholds', async () => {
+      const composite = new CompositeAntiSpamAdapter([
+        provider('local', verdict('review', 0.5)),
+      ], { strategy: 'weighted', thresholds: { block: 0.5, review: 0.2 } });
+
+      expect(await composite.isBlocked('user@example.com')).toBe(true);
+    });
+  });
+
+  describe('failures', () => {
+    it('should report a failing provider as an outage and decide without it', async () => {
+      const composite = new CompositeAntiSpamAdapter([
+        provider('remote', new Error('503 Service Unavailable')),
+        provider('local', verdict('allowed')),
+      ]);
+
+      const result = await composite.check('user@example.com');
+
+      expect(result.decision).toBe('allowed');
+      expect(result.reasons).toEqual([{ code: 'PROVIDER_OUTAGE', message: 'remote: 503 Service Unavailable' }]);
+      expect(result.provider.metadata).toMatchObject({
+        providers: { remote: { error: '503 Service Unavailable' }, local: { decision: 'allowed', score: 0 } },
+      });
+    });
+
+    it('should give up on a provider after its own timeout', async () => {
+      const slow = stubPort(verdict('blocked'), 200);
+      const composite = new CompositeAntiSpamAdapter([
+        { name: 'slow', port: slow.port, timeoutMs: 20 },
+        provider('local', verdict('allowed')),
+      ], { timeoutMs: 1000 });
+
+      const result = await composite.check('user@example.com');
+
+      expect(result.decision).toBe('allowed');
+      expect(result.reasons).toEqual([{ code: 'PROVIDER_OUTAGE', message: 'slow: API timeout after 20ms' }]);
+    });
+
+    it('should allow the email when no provider answers', async () => {
+      const composite = new CompositeAntiSpamAdapter([provider('remote', new Error('down'))]);
+
+      expect(await composite.check('user@example.com')).toMatchObject({
+        decision: 'allowed',
+        score: 0,
+        provider: { metadata: { decidedBy: [] } },
+      });
+    });
+  });
+
+  describe('short-circuiting', () => {
+    it('should stop asking in sequence once a provider blocks', async () => {
+      const local = provider('local', verdict('blocked'));
+      const remote = provider('remote', verdict('allowed'));
+      const composite = new CompositeAntiSpamAdapter([local, remote], { mode: 'sequential' });
+
+      const result = await composite.check('user@example.com');
+
+      expect(result.decision).toBe('blocked');
+      expect(remote.check).not.toHaveBeenCalled();
+      expect(result.provider.metadata).toMatchObject({ skipped: ['remote'] });
+    });
+
+    it('should not wait for slow providers in parallel once the outcome is known', async () => {
+      const slow = stubPort(verdict('allowed'), 500);
+      const composite = new CompositeAntiSpamAdapter([
+        { name: 'slow', port: slow.port },
+        provider('local', verdict('blocked')),
+      ]);
+
+      const started = Date.now();
+      const result = await composite.check('user@example.com');
+
+      expect(result.decision).toBe('blocked');
+      expect(Date.now() - started).toBeLessThan(400);
+      expect(result.provider.metadata).toMatchObject({ skipped: ['slow'] });
+    });
+
+    it('should stop a weighted check once the remaining weight cannot lower the score enough', async () => {
+      const remote = provider('remote', verdict('allowed'));
+      const composite = new CompositeAntiSpamAdapter([
+        provider('local', verdict('blocked'), { weight: 4 }),
+        remote,
+      ], { strategy: 'weighted', mode: 'sequential' });
+
+      expect(await composite.isBlocked('user@example.com')).toBe(true);
+      expect(remote.check).not.toHaveBeenCalled();
+    });
+
+    it('should ask every provider when disabled', async () => {
+      const remote = provider('remote', verdict('allowed'));
+      const composite = new CompositeAntiSpamAdapter([
+        provider('local', verdict('blocked')),
+        remote,
+      ], { mode: 'sequential', shortCircuit: false });
+
+      await composite.check('user@example.com');
+
+      expect(remote.check).toHaveBeenCalledWith('user@example.com');
+    });
+  });
+
+  it('should combine a local deny list with another provider', async () => {
+    const composite = new CompositeAntiSpamAdapter([
+      { name: 'deny-list', port: new RuleBasedAntiSpamAdapter({ deny: { domains: ['*.bot.net'] } }) },
+      provider('remote', verdict('allowed')),
+    ], { mode: 'sequential' });
+
+    expect(await composite.check('user@eu.bot.net')).toMatchObject({
+      decision: 'blocked',
+      reasons: [{ code: 'BLOCKED_DOMAIN' }],
+      provider: { metadata: { decidedBy: ['deny-list'] } },
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { MockAntiSpamAdapter } from 'infrastructure/external-services/mock-anti-spam.adapter';
+
+describe('MockAntiSpamAdapter', () => {
+  const antiSpam = new MockAntiSpamAdapter();
+
+  describe('check', () => {
+    it('should allow a regular email', async () => {
+      expect(await antiSpam.check('user@gmail.com')).toEqual({
+        decision: 'allowed',
+        score: 0,
+        reasons: [],
+        provider: { name: 'mock' },
+      });
+    });
+
+    it('should block a blacklisted pattern', async () => {
+      const verdict = await antiSpam.check('blocked@example.com');
+
+      expect(verdict.decision).toBe('blocked');
+      expect(verdict.score).toBe(1);
+      expect(verdict.reasons.map(reason => reason.code)).toEqual(['BLACKLISTED_PATTERN']);
+    });
+
+    it('should report every reason that applies', async () => {
+      const verdict = await antiSpam.check('spam@spam.com');
+
+      expect(verdict.reasons.map(reason => reason.code)).toEqual(['BLACKLISTED_PATTERN', 'BLOCKED_DOMAIN']);
+    });
+
+    it('should send a disposable domain to review', async () => {
+      const verdict = await antiSpam.check('user@mailinator.com');
+
+      expect(verdict.decision).toBe('review');
+      expect(verdict.reasons.map(reason => reason.code)).toEqual(['DISPOSABLE_DOMAIN']);
+    });
+  });
+
+  describe('isBlocked', () => {
+    it('should be true only for a blocked verdict', async () => {
+      expect(await antiSpam.isBlocked('user@spam.com')).toBe(true);
+      expect(await antiSpam.isBlocked('user@mailinator.com')).toBe(false);
+      expect(await antiSpam.isBlocked('user@gmail.com')).toBe(false);
+    });
+  });
+
+  describe('custom rules', () => {
+    it('should replace the default rules', async () => {
+      const antiSpam = new MockAntiSpamAdapter({ deny: { domains: ['example.com'] } });
+
+      expect(await antiSpam.isBlocked('user@example.com')).toBe(true);
+      expect(await antiSpam.isBlocked('user@spam.com')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { join } from 'node:path';
+import {
+  InvalidAntiSpamRulesError,
+  RuleBasedAntiSpamAdapter,
+} from 'infrastructure/external-services/rule-based-anti-spam.adapter';
+
+const fixture = (name: string) => join(__dirname, '../../../fixtures/anti-spam', name);
+
+const reasonCodes = async (antiSpam: RuleBasedAntiSpamAdapter, email: string) =>
+  (await antiSpam.check(email)).reasons.map(reason => reason.code);
+
+describe('RuleBasedAntiSpamAdapter', () => {
+  describe('deny rules', () => {
+    it('should block a denied address', async () => {
+      const antiSpam = new RuleBasedAntiSpamAdapter({ deny: { emails: ['Troll@Example.com'] } });
+
+      expect(await antiSpam.check('troll@example.com')).toMatchObject({ decision: 'blocked', score: 1 });
+      expect(await reasonCodes(antiSpam, 'troll@example.com')).toEqual(['BLOCKED_EMAIL']);
+      expect(await antiSpam.isBlocked('friend@example.com')).toBe(false);
+    });
+
+    it('should block an exact domain but not its subdomains', async () => {
+      const antiSpam = new RuleBasedAntiSpamAdapter({ deny: { domains: ['bot.net'] } });
+
+      expect(await antiSpam.isBlocked('user@bot.net')).toBe(true);
+      expect(await antiSpam.isBlocked('user@eu.bot.net')).toBe(false);
+    });
+
+    it('should block any subdomain matching a wildcard', async () => {
+      const antiSpam = new RuleBasedAntiSpamAdapter({ deny: { domains: ['*.bot.net'] } });
+
+      expect(await antiSpam.isBlocked('user@eu.bot.net')).toBe(true);
+      expect(await antiSpam.isBlocked('user@a.b.bot.net')).toBe(true);
+      expect(await antiSpam.isBlocked('user@bot.net')).toBe(false);
+      expect(await antiSpam.isBlocked('user@robot.net')).toBe(false);
+    });
+
+    it('should block an address matching a regex pattern, ignoring case', async () => {
+      const antiSpam = new RuleBasedAntiSpamAdapter({ deny: { patterns: ['^no-?reply@', '\\d{6,}@'] } });
+
+      expect(await antiSpam.isBlocked('NoReply@example.com')).toBe(true);
+      expect(await antiSpam.isBlocked('user1234567@example.com')).toBe(true);
+      expect(await antiSpam.isBlocked('reply@example.com')).toBe(false);
+    });
+
+    it('should send a disposable domain to review', async () => {
+      const antiSpam = new RuleBasedAntiSpamAdapter({ disposableDomains: ['mailinator.com'] });
+
+      expect(await antiSpam.check('user@mailinator.com')).toMatchObject({
+        decision: 'review',
+        score: 0.5,
+        reasons: [{ code: 'DISPOSABLE_DOMAIN' }],
+      });
+    });
+  });
+
+  describe('allow rules', () => {
+    it('should take precedence over every other rule', async () => {
+      const antiSpam = new RuleBasedAntiSpamAdapter({
+        allow: { emails: ['ceo@bot.net'], domains: ['*.partner.com'] },
+        deny: { domains: ['bot.net', '*.partner.com'], patterns: ['^ceo@'] },
+        disposableDomains: ['eu.partner.com'],
+      });
+
+      expect(await antiSpam.check('ceo@bot.net')).toEqual({
+        decision: 'allowed',
+        score: 0,
+        reasons: [],
+        provider: { name: 'rules', metadata: { allowlisted: true } },
+      });
+      expect(await antiSpam.isBlocked('sales@eu.partner.com')).toBe(false);
+      expect(await antiSpam.isBlocked('cto@bot.net')).toBe(true);
+    });
+  });
+
+  describe('invalid rules', () => {
+    it('should reject an invalid regular expression', () => {
+      expect(() => new RuleBasedAntiSpamAdapter({ deny: { patterns: ['(unclosed'] } }))
+        .toThrow(InvalidAntiSpamRulesError);
+    });
+  });
+
+  describe('fromFile', () => {
+    it('should load rules from a YAML file', async () => {
+      const antiSpam = await RuleBasedAntiSpamAdapter.fromFile(fixture('rules.yaml'));
+
+      expect(await reasonCodes(antiSpam, 'user@eu.bot.net')).toEqual(['BLOCKED_DOMAIN']);
+      expect(await reasonCodes(antiSpam, 'noreply@example.com')).toEqual(['BLACKLISTED_PATTERN']);
+      expect(await reasonCodes(antiSpam, 'user@mailinator.com')).toEqual(['DISPOSABLE_DOMAIN']);
+      expect(await antiSpam.isBlocked('ceo@bot.net')).toBe(false);
+    });
+
+    it('should load rules from a JSON file', async () => {
+      const antiSpam = await RuleBasedAntiSpamAdapter.fromFile(fixture('rules.json'));
+
+      expect(await antiSpam.isBlocked('troll@example.com')).toBe(true);
+    });
+
+    it('should report where invalid rules come from', async () => {
+      const path = fixture('invalid-rules.yaml');
+
+      await expect(RuleBasedAntiSpamAdapter.fromFile(path)).rejects.toThrow(
+        new InvalidAntiSpamRulesError(path, 'deny.patterns.0: Invalid regular expression')
+      );
+    });
+
+    it('should report a file that cannot be read as invalid rules', async () => {
+      const path = fixture('missing-rules.yaml');
+
+      const loading = RuleBasedAntiSpamAdapter.fromFile(path);
+
+      await expect(loading).rejects.toThrow(InvalidAntiSpamRulesError);
+      await expect(loading).rejects.toThrow(`Invalid anti-spam rules in ${path}: ENOENT: no such file or directory`);
+    });
+
+    it('should reject an unsupported file type', async () => {
+      await expect(RuleBasedAntiSpamAdapter.fromFile(__filename)).rejects.toThrow(InvalidAntiSpamRulesError);
+    });
+  });
+
+  describe('recording calls', () => {
+    it('should record every call with its verdict when enabled', async () => {
+      const antiSpam = new RuleBasedAntiSpamAdapter({ deny: { domains: ['spam.com'] } }, { recordCalls: true });
+
+      await antiSpam.check('user@gmail.com');
+      await antiSpam.isBlocked('user@spam.com');
+
+      expect(antiSpam.calls).toEqual([
+        { method: 'check', email: 'user@gmail.com', verdict: expect.objectContaining({ decision: 'allowed' }) },
+        { method: 'isBlocked', email: 'user@spam.com', verdict: expect.objectContaining({ decision: 'blocked' }) },
+      ]);
+    });
+
+    it('should start over after clearCalls()', async () => {
+      const antiSpam = new RuleBasedAntiSpamAdapter({}, { recordCalls: true });
+      await antiSpam.check('user@gmail.com');
+
+      antiSpam.clearCalls();
+
+      expect(antiSpam.calls).toEqual([]);
+    });
+
+    it('should not record anything by default', async () => {
+      const antiSpam = new RuleBasedAntiSpamAdapter();
+
+      await antiSpam.check('user@gmail.com');
+
+      expect(antiSpam.calls).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { UserId } from 'domain/value-objects/user-id';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+
+describe('SequentialIdGenerator', () => {
+  it('should number valid UUIDs from one', () => {
+    const ids = new SequentialIdGenerator();
+
+    const generated = [ids.generate(), ids.generate()];
+
+    expect(generated).toEqual(['00000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000002']);
+    expect(generated.every(UserId.isValid)).toBe(true);
+  });
+
+  it('should start from the given number', () => {
+    const ids = new SequentialIdGenerator(255);
+
+    expect(ids.generate()).toBe(SequentialIdGenerator.idAt(255));
+    expect(ids.generate()).toBe('00000000-0000-4000-8000-000000000100');
+  });
+});
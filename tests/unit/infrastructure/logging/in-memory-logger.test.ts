@@ -0,0 +1,38 @@
+import { InMemoryLogger } from 'infrastructure/logging/in-memory-logger';
+import { runWithCorrelationId } from 'shared/correlation';
+
+describe('InMemoryLogger', () => {
+  it('should capture entries of every level with their fields', () => {
+    const logger = new InMemoryLogger();
+
+    logger.debug('Checking', { step: 1 });
+    logger.error('Failed', { step: 2 });
+
+    expect(logger.entries).toEqual([
+      { level: 'debug', message: 'Checking', fields: { step: 1 }, correlationId: undefined },
+      { level: 'error', message: 'Failed', fields: { step: 2 }, correlationId: undefined },
+    ]);
+  });
+
+  it('should capture child entries in the parent, with the bindings', () => {
+    const logger = new InMemoryLogger();
+
+    runWithCorrelationId('request-1', () => logger.child({ component: 'http' }).info('Request completed'));
+
+    expect(logger.find('info', 'Request')).toEqual([{
+      level: 'info',
+      message: 'Request completed',
+      fields: { component: 'http' },
+      correlationId: 'request-1',
+    }]);
+  });
+
+  it('should forget entries when cleared', () => {
+    const logger = new InMemoryLogger();
+    logger.warn('Slow');
+
+    logger.clear();
+
+    expect(logger.entries).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import { JsonLinesLogger, JsonLinesLoggerOptions } from 'infrastructure/logging/json-lines-logger';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+import { runWithCorrelationId } from 'shared/correlation';
+
+describe('JsonLinesLogger', () => {
+  let lines: string[];
+
+  const logger = (options: JsonLinesLoggerOptions = {}) =>
+    new JsonLinesLogger({ write: line => lines.push(line), clock: new FixedClock('2024-01-01T00:00:00.000Z'), ...options });
+
+  const written = () => lines.map(line => JSON.parse(line));
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  it('should write one JSON object per entry', () => {
+    logger().info('User registered', { userId: 'user-1' });
+
+    expect(written()).toEqual([{
+      time: '2024-01-01T00:00:00.000Z',
+      level: 'info',
+      message: 'User registered',
+      userId: 'user-1',
+    }]);
+  });
+
+  it('should drop entries below the configured level', () => {
+    const warnings = logger({ level: 'warn' });
+
+    warnings.debug('debug');
+    warnings.info('info');
+    warnings.warn('warn');
+    warnings.error('error');
+
+    expect(written().map(entry => entry.level)).toEqual(['warn', 'error']);
+  });
+
+  it('should add the child bindings to every entry', () => {
+    const child = logger().child({ component: 'outbox' }).child({ batch: 3 });
+
+    child.info('Dispatched', { batch: 4 });
+
+    expect(written()[0]).toMatchObject({ component: 'outbox', batch: 4 });
+  });
+
+  it('should stamp entries with the current correlation id', () => {
+    runWithCorrelationId('request-1', () => logger().info('Inside'));
+    logger().info('Outside');
+
+    expect(written()[0].correlationId).toBe('request-1');
+    expect(written()[1]).not.toHaveProperty('correlationId');
+  });
+
+  it('should not let fields overwrite the entry fields', () => {
+    runWithCorrelationId('request-1', () =>
+      logger().info('Real message', { message: 'forged', level: 'error', correlationId: 'forged' }));
+
+    expect(written()[0]).toMatchObject({ message: 'Real message', level: 'info', correlationId: 'request-1' });
+  });
+
+  describe('redaction', () => {
+    it('should mask email addresses in messages and fields', () => {
+      logger().info('Sent to john@example.com', { to: 'john@example.com', email: 'john@example.com' });
+
+      expect(written()[0]).toMatchObject({
+        message: 'Sent to j***@example.com',
+        to: 'j***@example.com',
+        email: 'j***@example.com',
+      });
+      expect(lines[0]).not.toContain('john@');
+    });
+
+    it('should redact secrets and personal fields at any depth', () => {
+      logger().info('Registering', {
+        request: { name: 'John Doe', password: 'hunter2', headers: { authorization: 'Bearer abc' } },
+        apiKey: 'key',
+      });
+
+      expect(written()[0]).toMatchObject({
+        request: { name: '[redacted]', password: '[redacted]', headers: { authorization: '[redacted]' } },
+        apiKey: '[redacted]',
+      });
+    });
+
+    it('should redact additional personal fields', () => {
+      logger({ personalFields: ['nickname'] }).info('Renamed', { nickname: 'Johnny' });
+
+      expect(written()[0].nickname).toBe('[redacted]');
+    });
+
+    it('should serialize errors with their cause', () => {
+      const error = new Error('Query failed for john@example.com', { cause: new Error('connection reset') });
+
+      logger().error('Request failed', { error });
+
+      expect(written()[0].error).toMatchObject({
+        type: 'Error',
+        message: 'Query failed for j***@example.com',
+        stack: expect.any(String),
+        cause: { type: 'Error', message: 'connection reset' },
+      });
+    });
+
+    it('should cut cycles', () => {
+      const node: Record<string, unknown> = { id: 'root' };
+      node.self = node;
+
+      logger().info('Cyclic', { node });
+
+      expect(written()[0].node).toEqual({ id: 'root', self: '[circular]' });
+    });
+
+    it('should copy an object shared by two fields, which is not a cycle', () => {
+      const address = { city: 'Lyon' };
+      const nested = { home: address, work: { at: address } };
+
+      logger().info('Shared', { nested, again: nested });
+
+      const expected = { home: { city: 'Lyon' }, work: { at: { city: 'Lyon' } } };
+      expect(written()[0]).toMatchObject({ nested: expected, again: expected });
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { UserRegistered } from 'domain/events';
+import { InMemoryProcessedMessageStore, idempotent } from 'infrastructure/outbox/idempotent-consumer';
+import { toOutboxMessage } from 'infrastructure/outbox/outbox-message';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+
+const message = {
+  ...toOutboxMessage(new UserRegistered(
+    'user-1',
+    { email: 'john@example.com', name: 'John Doe' },
+    new Date(),
+    SequentialIdGenerator.idAt(1)
+  )),
+  sequence: 1,
+};
+
+describe('idempotent', () => {
+  it('should handle a redelivered message only once', async () => {
+    const consume = jest.fn().mockResolvedValue(undefined);
+    const handle = idempotent('welcome-email', consume, new InMemoryProcessedMessageStore());
+
+    await expect(handle(message)).resolves.toBe(true);
+    await expect(handle({ ...message })).resolves.toBe(false);
+
+    expect(consume).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore concurrent deliveries of the same message', async () => {
+    const consume = jest.fn().mockResolvedValue(undefined);
+    const handle = idempotent('welcome-email', consume, new InMemoryProcessedMessageStore());
+
+    const results = await Promise.all([handle(message), handle(message)]);
+
+    expect(results.sort()).toEqual([false, true]);
+    expect(consume).toHaveBeenCalledTimes(1);
+  });
+
+  it('should handle a message again after a failure', async () => {
+    const consume = jest.fn()
+      .mockRejectedValueOnce(new Error('mail server down'))
+      .mockResolvedValueOnce(undefined);
+    const handle = idempotent('welcome-email', consume, new InMemoryProcessedMessageStore());
+
+    await expect(handle(message)).rejects.toThrow('mail server down');
+    await expect(handle(message)).resolves.toBe(true);
+  });
+
+  it('should track each consumer separately', async () => {
+    const store = new InMemoryProcessedMessageStore();
+    const welcome = idempotent('welcome-email', jest.fn().mockResolvedValue(undefined), store);
+    const crm = idempotent('crm-sync', jest.fn().mockResolvedValue(undefined), store);
+
+    await welcome(message);
+
+    await expect(crm(message)).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,6 @@
+import { InMemoryOutboxStore } from 'infrastructure/outbox/in-memory-outbox-store';
+import { describeOutboxStoreContract } from '../../../contracts/outbox-store.contract';
+
+describeOutboxStoreContract('InMemoryOutboxStore', {
+  create: async () => new InMemoryOutboxStore(),
+});
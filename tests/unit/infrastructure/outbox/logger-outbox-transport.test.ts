@@ -0,0 +1,26 @@
+import { LoggerOutboxTransport } from 'infrastructure/outbox/logger-outbox-transport';
+import { InMemoryLogger } from 'infrastructure/logging/in-memory-logger';
+import { toOutboxMessage } from 'infrastructure/outbox/outbox-message';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+import { UserRegistered } from 'domain/events';
+
+describe('LoggerOutboxTransport', () => {
+  it('should log the message with its event', async () => {
+    const logger = new InMemoryLogger();
+    const event = new UserRegistered('user-1', { email: 'john@example.com', name: 'John Doe' },
+      new Date('2024-01-01T00:00:00.000Z'), SequentialIdGenerator.idAt(1));
+
+    await new LoggerOutboxTransport(logger).send({ ...toOutboxMessage(event), sequence: 7 });
+
+    expect(logger.find('info', 'Outbox message')).toEqual([expect.objectContaining({
+      fields: {
+        id: SequentialIdGenerator.idAt(1),
+        sequence: 7,
+        type: 'UserRegistered',
+        aggregateId: 'user-1',
+        payload: { email: 'john@example.com', name: 'John Doe' },
+        occurredAt: '2024-01-01T00:00:00.000Z',
+      },
+    })]);
+  });
+});
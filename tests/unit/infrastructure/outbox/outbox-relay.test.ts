@@ -0,0 +1,228 @@
+import { UserNameChanged, UserRegistered } from 'domain/events';
+import { InMemoryOutboxStore } from 'infrastructure/outbox/in-memory-outbox-store';
+import { InMemoryOutboxTransport } from 'infrastructure/outbox/in-memory-outbox-transport';
+import { OutboxRelay, OutboxRelayOptions } from 'infrastructure/outbox/outbox-relay';
+import { InMemoryLogger } from 'infrastructure/logging/in-memory-logger';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+import { failure } from 'shared/types/result';
+
+const T0 = new Date('2024-01-01T00:00:00.000Z');
+const ids = new SequentialIdGenerator();
+
+const registered = (userId: string, at = T0) =>
+  new UserRegistered(userId, { email: `${userId}@example.com`, name: 'John Doe' }, at, ids.generate());
+
+const renamed = (userId: string, at: Date) =>
+  new UserNameChanged(userId, { previousName: 'John Doe', name: 'Johnny Doe' }, at, ids.generate());
+
+describe('OutboxRelay', () => {
+  let store: InMemoryOutboxStore;
+  let transport: InMemoryOutboxTransport;
+  let now: Date;
+
+  const relay = (options: Partial<OutboxRelayOptions> = {}) =>
+    new OutboxRelay(store, transport, {
+      now: () => now,
+      backoff: { initialDelayMs: 1000, factor: 2, maxDelayMs: 5000 },
+      logger: new InMemoryLogger(),
+      // The same relay, for the lease, however many times it is built
+      holder: 'relay',
+      ...options,
+    });
+
+  beforeEach(() => {
+    store = new InMemoryOutboxStore();
+    transport = new InMemoryOutboxTransport();
+    now = new Date(T0.getTime() + 1);
+  });
+
+  it('should send due messages and mark them dispatched', async () => {
+    const event = registered('user-1');
+    await store.append([event]);
+
+    const result = await relay().dispatchPending();
+
+    expect(result.isSuccess && result.value).toEqual({ dispatched: 1, failed: 0, dead: 0 });
+    expect(transport.sent.map(message => message.id)).toEqual([event.eventId]);
+    expect(store.messages[0]).toMatchObject({ status: 'dispatched', attempts: 1, dispatchedAt: now });
+  });
+
+  it('should send each message only once', async () => {
+    await store.append([registered('user-1')]);
+    const outboxRelay = relay();
+
+    await outboxRelay.dispatchPending();
+    const second = await outboxRelay.dispatchPending();
+
+    expect(second.isSuccess && second.value).toEqual({ dispatched: 0, failed: 0, dead: 0 });
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  it('should retry a failed message with exponential backoff', async () => {
+    await store.append([registered('user-1')]);
+    const outboxRelay = relay();
+    transport.failNext(2);
+
+    await outboxRelay.dispatchPending();
+    expect(store.messages[0]).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      nextAttemptAt: new Date(now.getTime() + 1000),
+      lastError: 'Transport unavailable',
+    });
+
+    // Not due yet
+    await outboxRelay.dispatchPending();
+    expect(store.messages[0].attempts).toBe(1);
+
+    now = new Date(now.getTime() + 1000);
+    await outboxRelay.dispatchPending();
+    expect(store.messages[0]).toMatchObject({ attempts: 2, nextAttemptAt: new Date(now.getTime() + 2000) });
+
+    now = new Date(now.getTime() + 2000);
+    const result = await outboxRelay.dispatchPending();
+    expect(result.isSuccess && result.value).toEqual({ dispatched: 1, failed: 0, dead: 0 });
+    expect(store.messages[0]).toMatchObject({ status: 'dispatched', attempts: 3 });
+  });
+
+  it('should mark a message dead after maxAttempts', async () => {
+    await store.append([registered('user-1')]);
+    const outboxRelay = relay({ maxAttempts: 2 });
+    transport.failNext(2);
+
+    await outboxRelay.dispatchPending();
+    now = new Date(now.getTime() + 1000);
+    const result = await outboxRelay.dispatchPending();
+
+    expect(result.isSuccess && result.value).toEqual({ dispatched: 0, failed: 0, dead: 1 });
+    expect(store.messages[0]).toMatchObject({ status: 'dead', attempts: 2 });
+    now = new Date(now.getTime() + 60_000);
+    await outboxRelay.dispatchPending();
+    expect(transport.sent).toEqual([]);
+  });
+
+  it('should hold back the later messages of an aggregate whose message failed', async () => {
+    const first = registered('user-1', new Date(T0.getTime() - 2));
+    const second = renamed('user-1', new Date(T0.getTime() - 1));
+    const other = registered('user-2');
+    await store.append([first, second, other]);
+    transport.failNext();
+
+    const result = await relay().dispatchPending();
+
+    expect(result.isSuccess && result.value).toEqual({ dispatched: 1, failed: 1, dead: 0 });
+    expect(transport.sent.map(message => message.aggregateId)).toEqual(['user-2']);
+
+    now = new Date(now.getTime() + 1000);
+    await relay().dispatchPending();
+    expect(transport.sent.map(message => message.id)).toEqual([other.eventId, first.eventId, second.eventId]);
+  });
+
+  it('should not send the later messages of an aggregate before its failed message is retried', async () => {
+    const first = registered('user-1');
+    const second = renamed('user-1', T0);
+    await store.append([first, second]);
+    const outboxRelay = relay();
+    transport.failNext();
+
+    await outboxRelay.dispatchPending();
+    now = new Date(now.getTime() + 500);
+    const early = await outboxRelay.dispatchPending();
+
+    expect(early.isSuccess && early.value).toEqual({ dispatched: 0, failed: 0, dead: 0 });
+    expect(transport.sent).toEqual([]);
+
+    now = new Date(now.getTime() + 500);
+    await outboxRelay.dispatchPending();
+    expect(transport.sent.map(message => message.type)).toEqual(['UserRegistered', 'UserNameChanged']);
+  });
+
+  it('should return the store error that stopped the pass', async () => {
+    jest.spyOn(store, 'fetchDue').mockResolvedValue(failure(new Error('connection refused')));
+
+    const result = await relay().dispatchPending();
+
+    expect(result.isFailure && result.error.message).toBe('connection refused');
+  });
+
+  it('should leave the outbox to the relay holding the lease', async () => {
+    await store.append([registered('user-1')]);
+    const first = relay({ holder: 'relay-a', leaseMs: 1000 });
+    const second = relay({ holder: 'relay-b', leaseMs: 1000 });
+    await first.dispatchPending();
+    await store.append([registered('user-2')]);
+
+    const skipped = await second.dispatchPending();
+    expect(skipped.isSuccess && skipped.value).toEqual({ dispatched: 0, failed: 0, dead: 0 });
+
+    now = new Date(now.getTime() + 1000);
+    const taken = await second.dispatchPending();
+    expect(taken.isSuccess && taken.value).toEqual({ dispatched: 1, failed: 0, dead: 0 });
+    expect(transport.sent).toHaveLength(2);
+  });
+
+  it('should log the passes that fail while polling', async () => {
+    jest.useFakeTimers();
+    try {
+      const logger = new InMemoryLogger();
+      jest.spyOn(store, 'fetchDue').mockResolvedValue(failure(new Error('connection refused')));
+      const outboxRelay = relay({ pollIntervalMs: 100, logger });
+
+      outboxRelay.start();
+      await jest.advanceTimersByTimeAsync(100);
+      await outboxRelay.stop();
+
+      expect(logger.find('error', 'Outbox pass failed')).toEqual([expect.objectContaining({
+        fields: { component: 'outbox-relay', error: new Error('connection refused') },
+      })]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should poll until stopped', async () => {
+    jest.useFakeTimers();
+    try {
+      await store.append([registered('user-1')]);
+      const outboxRelay = relay({ pollIntervalMs: 100 });
+
+      outboxRelay.start();
+      await jest.advanceTimersByTimeAsync(100);
+      expect(transport.sent).toHaveLength(1);
+
+      await outboxRelay.stop();
+      await store.append([registered('user-2')]);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(transport.sent).toHaveLength(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should finish the pass in progress before it is stopped', async () => {
+    jest.useFakeTimers();
+    try {
+      await store.append([registered('user-1')]);
+      let release = () => {};
+      jest.spyOn(transport, 'send').mockImplementation(() => new Promise(resolve => {
+        release = resolve;
+      }));
+      const outboxRelay = relay({ pollIntervalMs: 100 });
+      outboxRelay.start();
+      await jest.advanceTimersByTimeAsync(100);
+
+      let stopped = false;
+      const stopping = outboxRelay.stop().then(() => {
+        stopped = true;
+      });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(stopped).toBe(false);
+
+      release();
+      await stopping;
+      expect(store.messages[0]).toMatchObject({ status: 'dispatched' });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import { User } from 'domain/entities/user';
+import { Email } from 'domain/value-objects/email';
+import { UserName } from 'domain/value-objects/user-name';
+import { InMemoryOutboxStore } from 'infrastructure/outbox/in-memory-outbox-store';
+import { InMemoryUserRepository } from 'infrastructure/repositories/in-memory-user-repository';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+import { failure } from 'shared/types/result';
+import { describeUserRepositoryContract } from '../../../contracts/user-repository.contract';
+
+const clock = new FixedClock('2024-01-01T00:00:00.000Z');
+const ids = new SequentialIdGenerator();
+
+describeUserRepositoryContract('InMemoryUserRepository', {
+  create: async () => new InMemoryUserRepository(),
+});
+
+describe('InMemoryUserRepository with an outbox', () => {
+  const aUser = () => User.create(Email.create('john@example.com'), UserName.create('John Doe'), clock, ids);
+
+  it('should append the events of a saved user', async () => {
+    const outbox = new InMemoryOutboxStore();
+    const user = aUser();
+
+    await new InMemoryUserRepository(outbox).save(user);
+
+    expect(outbox.messages.map(message => message.id)).toEqual(user.peekDomainEvents().map(event => event.eventId));
+  });
+
+  it('should not store the user when its events cannot be appended', async () => {
+    const outbox = new InMemoryOutboxStore();
+    jest.spyOn(outbox, 'append').mockResolvedValue(failure(new Error('outbox unavailable')));
+    const repository = new InMemoryUserRepository(outbox);
+    const user = aUser();
+
+    const result = await repository.save(user);
+
+    expect(result.isFailure).toBe(true);
+    const found = await repository.findById(user.id);
+    expect(found.isSuccess && found.value).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { CircuitBreaker } from 'infrastructure/resilience/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 }, () => now);
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      breaker.recordFailure();
+    }
+  };
+
+  it('should start closed', () => {
+    expect(breaker.state).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('should open after consecutive failures reach the threshold', () => {
+    fail(2);
+    expect(breaker.state).toBe('closed');
+
+    fail(1);
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should reset the failure count on success', () => {
+    fail(2);
+    breaker.recordSuccess();
+    fail(2);
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should go half-open after the reset timeout', () => {
+    fail(3);
+    now = 1000;
+
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('should let a single trial call through while half-open', () => {
+    fail(3);
+    now = 1000;
+
+    const allowed = [breaker.allowRequest(), breaker.allowRequest(), breaker.allowRequest()];
+
+    expect(allowed).toEqual([true, false, false]);
+    expect(breaker.state).toBe('half-open');
+    breaker.recordSuccess();
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('should let another trial call through once a failed one re-opened and timed out', () => {
+    fail(3);
+    now = 1000;
+    breaker.allowRequest();
+    breaker.recordFailure();
+
+    now = 2000;
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should give up on a trial call never reported after the reset timeout', () => {
+    fail(3);
+    now = 1000;
+    breaker.allowRequest();
+
+    now = 1999;
+    expect(breaker.allowRequest()).toBe(false);
+    now = 2000;
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('should close on a successful trial call', () => {
+    fail(3);
+    now = 1000;
+    breaker.recordSuccess();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should re-open immediately on a failed trial call', () => {
+    fail(3);
+    now = 1000;
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    now = 1999;
+    expect(breaker.state).toBe('open');
+    now = 2000;
+    expect(breaker.state).toBe('half-open');
+  });
+});
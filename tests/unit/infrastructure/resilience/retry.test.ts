@@ -0,0 +1,44 @@
+import { backoffDelay, retry } from 'infrastructure/resilience/retry';
+
+describe('retry', () => {
+  const noSleep = jest.fn(async () => undefined);
+
+  beforeEach(() => {
+    noSleep.mockClear();
+  });
+
+  it('should return the first successful result', async () => {
+    const operation = jest.fn()
+      .mockRejectedValueOnce(new Error('flaky'))
+      .mockResolvedValueOnce('ok');
+
+    await expect(retry(operation, { retries: 3, sleep: noSleep })).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should rethrow the last error once retries are exhausted', async () => {
+    const operation = jest.fn().mockRejectedValue(new Error('down'));
+
+    await expect(retry(operation, { retries: 2, sleep: noSleep })).rejects.toThrow('down');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop at the first error shouldRetry rejects', async () => {
+    const operation = jest.fn().mockRejectedValue(new Error('fatal'));
+
+    await expect(retry(operation, { retries: 5, sleep: noSleep, shouldRetry: () => false })).rejects.toThrow('fatal');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait with exponential backoff between attempts', async () => {
+    const operation = jest.fn().mockRejectedValue(new Error('down'));
+
+    await retry(operation, { retries: 3, initialDelayMs: 100, factor: 2, maxDelayMs: 1000, sleep: noSleep }).catch(() => undefined);
+
+    expect(noSleep.mock.calls).toEqual([[100], [200], [400]]);
+  });
+
+  it('should cap the delay at maxDelayMs', () => {
+    expect(backoffDelay(10, { initialDelayMs: 100, factor: 2, maxDelayMs: 1000 })).toBe(1000);
+  });
+});
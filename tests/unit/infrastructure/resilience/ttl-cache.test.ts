@@ -0,0 +1,37 @@
+import { TtlCache } from 'infrastructure/resilience/ttl-cache';
+
+describe('TtlCache', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('should return a value until it expires', () => {
+    const cache = new TtlCache<string, boolean>(1000, 10, () => now);
+    cache.set('key', true);
+
+    now = 999;
+    expect(cache.get('key')).toBe(true);
+    now = 1000;
+    expect(cache.get('key')).toBeUndefined();
+  });
+
+  it('should evict the oldest entry when full', () => {
+    const cache = new TtlCache<string, number>(1000, 2, () => now);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe(2);
+    expect(cache.size).toBe(2);
+  });
+
+  it('should not store anything when the ttl is 0', () => {
+    const cache = new TtlCache<string, number>(0);
+    cache.set('a', 1);
+
+    expect(cache.get('a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { createHmac } from 'node:crypto';
+import { HmacVerificationTokenService } from 'infrastructure/security/hmac-verification-token.service';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+
+const SECRET = 'a'.repeat(32);
+const USER_ID = '3b241101-e2bb-4255-8caf-4136c566a962';
+
+describe('HmacVerificationTokenService', () => {
+  const service = new HmacVerificationTokenService(SECRET, { ttlMs: 60_000 });
+
+  const reasonOf = (token: string) => {
+    const result = service.verify(token);
+    return result.isFailure ? result.error.reason : undefined;
+  };
+
+  it('should verify the tokens it issues', () => {
+    const { token, expiresAt } = service.issue(USER_ID, 'john@example.com');
+
+    const result = service.verify(token);
+
+    expect(result.isSuccess && result.value).toEqual({ userId: USER_ID, email: 'john@example.com', expiresAt });
+  });
+
+  it('should expire tokens after their time to live', () => {
+    const clock = new FixedClock('2024-01-01T00:00:00Z');
+    const timed = new HmacVerificationTokenService(SECRET, { ttlMs: 60_000, clock });
+    const { token, expiresAt } = timed.issue(USER_ID, 'john@example.com');
+    expect(expiresAt).toEqual(new Date('2024-01-01T00:01:00Z'));
+
+    clock.advance(59_999);
+    expect(timed.verify(token).isSuccess).toBe(true);
+
+    clock.advance(1);
+    const expired = timed.verify(token);
+    expect(expired.isFailure && expired.error.reason).toBe('expired');
+  });
+
+  it('should refuse claims that were changed', () => {
+    const { token } = service.issue(USER_ID, 'john@example.com');
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify(['email-verification', USER_ID, 'eve@example.com', Date.now() + 60_000]))
+      .toString('base64url');
+
+    expect(reasonOf(`${forged}.${signature}`)).toBe('invalid-signature');
+  });
+
+  it('should refuse tokens signed with another secret', () => {
+    const { token } = new HmacVerificationTokenService('b'.repeat(32)).issue(USER_ID, 'john@example.com');
+
+    expect(reasonOf(token)).toBe('invalid-signature');
+  });
+
+  it.each(['', 'no-dot', 'a.b.c', '.signature', 'claims.'])('should refuse the malformed token %p', token => {
+    expect(reasonOf(token)).toBe('malformed');
+  });
+
+  it('should refuse signed claims it cannot read', () => {
+    const claims = Buffer.from('not json').toString('base64url');
+    const signature = createHmac('sha256', SECRET).update(claims).digest('base64url');
+
+    expect(reasonOf(`${claims}.${signature}`)).toBe('malformed');
+  });
+
+  it('should refuse a secret shorter than 32 characters', () => {
+    expect(() => new HmacVerificationTokenService('too-short')).toThrow('at least 32 characters');
+  });
+});
@@ -0,0 +1,28 @@
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+
+describe('FixedClock', () => {
+  it('should always tell the same time', () => {
+    const clock = new FixedClock('2024-01-01T00:00:00.000Z');
+
+    expect(clock.now()).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+    expect(clock.now()).toEqual(clock.now());
+  });
+
+  it('should move only when told to', () => {
+    const clock = new FixedClock('2024-01-01T00:00:00.000Z');
+
+    clock.advance(90_000);
+    expect(clock.now()).toEqual(new Date('2024-01-01T00:01:30.000Z'));
+
+    clock.set('2025-06-01T00:00:00.000Z');
+    expect(clock.now()).toEqual(new Date('2025-06-01T00:00:00.000Z'));
+  });
+
+  it('should not be moved by changes to the dates it hands out', () => {
+    const clock = new FixedClock('2024-01-01T00:00:00.000Z');
+
+    clock.now().setFullYear(1999);
+
+    expect(clock.now()).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+  });
+});
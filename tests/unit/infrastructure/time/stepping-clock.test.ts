@@ -0,0 +1,21 @@
+import { SteppingClock } from 'infrastructure/time/stepping-clock';
+
+describe('SteppingClock', () => {
+  it('should move forward by one second after every reading by default', () => {
+    const clock = new SteppingClock('2024-01-01T00:00:00.000Z');
+
+    expect([clock.now(), clock.now(), clock.now()].map(date => date.toISOString())).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-01T00:00:01.000Z',
+      '2024-01-01T00:00:02.000Z',
+    ]);
+  });
+
+  it('should move by the given step', () => {
+    const clock = new SteppingClock(new Date('2024-01-01T00:00:00.000Z'), 5);
+
+    clock.now();
+
+    expect(clock.now()).toEqual(new Date('2024-01-01T00:00:00.005Z'));
+  });
+});
@@ -0,0 +1,120 @@
+import { User } from 'domain/entities/user';
+import { Email } from 'domain/value-objects/email';
+import { UserName } from 'domain/value-objects/user-name';
+import { InMemoryOutboxStore } from 'infrastructure/outbox/in-memory-outbox-store';
+import { InMemoryUserRepository } from 'infrastructure/repositories/in-memory-user-repository';
+import { InMemoryUnitOfWork } from 'infrastructure/unit-of-work/in-memory-unit-of-work';
+import { FixedClock } from 'infrastructure/time/fixed-clock';
+import { SequentialIdGenerator } from 'infrastructure/ids/sequential-id-generator';
+import { Result, failure, success } from 'shared/types/result';
+
+const clock = new FixedClock('2024-01-01T00:00:00.000Z');
+const ids = new SequentialIdGenerator();
+
+const aUser = (email = 'john@example.com') => User.create(Email.create(email), UserName.create('John Doe'), clock, ids);
+
+describe('InMemoryUnitOfWork', () => {
+  let outbox: InMemoryOutboxStore;
+  let users: InMemoryUserRepository;
+  let unitOfWork: InMemoryUnitOfWork;
+
+  const count = async () => {
+    const all = await users.findAll();
+    return all.isSuccess ? all.value.total : NaN;
+  };
+
+  beforeEach(() => {
+    outbox = new InMemoryOutboxStore();
+    users = new InMemoryUserRepository(outbox);
+    unitOfWork = new InMemoryUnitOfWork([users, outbox]);
+  });
+
+  it('should keep the changes when the work succeeds', async () => {
+    const result = await unitOfWork.runInTransaction(() => users.save(aUser()));
+
+    expect(result.isSuccess).toBe(true);
+    expect(await count()).toBe(1);
+    expect(outbox.messages).toHaveLength(1);
+  });
+
+  it('should undo the changes of every participant when the work returns a Failure', async () => {
+    const result = await unitOfWork.runInTransaction(async () => {
+      await users.save(aUser());
+      return failure(new Error('audit log unavailable'));
+    });
+
+    expect(result.isFailure && result.error.message).toBe('audit log unavailable');
+    expect(await count()).toBe(0);
+    expect(outbox.messages).toEqual([]);
+  });
+
+  it('should undo the changes and return a Failure when the work throws', async () => {
+    const result = await unitOfWork.runInTransaction(async (): Promise<Result<void, Error>> => {
+      await users.save(aUser());
+      throw new Error('bug');
+    });
+
+    expect(result.isFailure && result.error.message).toBe('bug');
+    expect(await count()).toBe(0);
+  });
+
+  it('should only undo what changed during the transaction', async () => {
+    const existing = aUser('existing@example.com');
+    await users.save(existing);
+
+    await unitOfWork.runInTransaction(async () => {
+      await users.delete(existing.id);
+      await users.save(aUser());
+      return failure('rejected');
+    });
+
+    const found = await users.findById(existing.id);
+    expect(found.isSuccess && found.value?.email.getValue()).toBe('existing@example.com');
+    expect(await count()).toBe(1);
+  });
+
+  describe('nested calls', () => {
+    it('should join the outer transaction, which decides for both', async () => {
+      const result = await unitOfWork.runInTransaction(async () => {
+        const inner = await unitOfWork.runInTransaction(() => users.save(aUser('inner@example.com')));
+        if (inner.isFailure) {
+          return inner;
+        }
+        await users.save(aUser('outer@example.com'));
+        return failure(new Error('outer failed'));
+      });
+
+      expect(result.isFailure).toBe(true);
+      expect(await count()).toBe(0);
+    });
+
+    it('should keep the inner changes when the outer work handles the inner Failure', async () => {
+      const result = await unitOfWork.runInTransaction(async () => {
+        await users.save(aUser('outer@example.com'));
+        const inner = await unitOfWork.runInTransaction(async () => {
+          await users.save(aUser('inner@example.com'));
+          return failure(new Error('inner failed'));
+        });
+        return success(inner.isFailure);
+      });
+
+      expect(result.isSuccess && result.value).toBe(true);
+      // Nothing is undone until the outermost call rolls back
+      expect(await count()).toBe(2);
+    });
+  });
+
+  it('should run concurrent transactions one at a time', async () => {
+    const steps: string[] = [];
+    const step = (name: string) => async () => {
+      steps.push(`${name}:start`);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      steps.push(`${name}:end`);
+      return success(name);
+    };
+
+    await Promise.all([unitOfWork.runInTransaction(step('a')), unitOfWork.runInTransaction(step('b'))]);
+
+    expect(steps).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+  });
+});
@@ -0,0 +1,40 @@
+import {
+  currentCorrelationId,
+  isCorrelationId,
+  newCorrelationId,
+  runWithCorrelationId,
+} from 'shared/correlation';
+
+describe('correlation', () => {
+  it('should have no correlation id outside of a run', () => {
+    expect(currentCorrelationId()).toBeUndefined();
+  });
+
+  it('should keep the correlation id across async calls', async () => {
+    const seen = await runWithCorrelationId('request-1', async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      return currentCorrelationId();
+    });
+
+    expect(seen).toBe('request-1');
+    expect(currentCorrelationId()).toBeUndefined();
+  });
+
+  it('should isolate concurrent runs', async () => {
+    const seen = await Promise.all(['a', 'b'].map(id => runWithCorrelationId(id, async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      return currentCorrelationId();
+    })));
+
+    expect(seen).toEqual(['a', 'b']);
+  });
+
+  it('should accept generated ids and reject unsafe ones', () => {
+    expect(isCorrelationId(newCorrelationId())).toBe(true);
+    expect(isCorrelationId('trace-1:span.2')).toBe(true);
+    expect(isCorrelationId('')).toBe(false);
+    expect(isCorrelationId('a'.repeat(129))).toBe(false);
+    expect(isCorrelationId('id\nforged line')).toBe(false);
+    expect(isCorrelationId(42)).toBe(false);
+  });
+});
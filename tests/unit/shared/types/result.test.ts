@@ -0,0 +1,186 @@
+import { AsyncResult, Failure, Result, Success, failure, success } from 'shared/types/result';
+
+describe('Result', () => {
+  const ok: Result<number, string> = success(2);
+  const ko: Result<number, string> = failure('boom');
+
+  describe('narrowing', () => {
+    it('should expose value on Success and error on Failure', () => {
+      expect(ok.isSuccess && ok.value).toBe(2);
+      expect(ko.isFailure && ko.error).toBe('boom');
+    });
+  });
+
+  describe('map', () => {
+    it('should transform the value of a Success', () => {
+      expect(ok.map(n => n * 10)).toEqual(success(20));
+    });
+
+    it('should leave a Failure untouched', () => {
+      const fn = jest.fn();
+
+      expect(ko.map(fn)).toEqual(failure('boom'));
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mapError', () => {
+    it('should transform the error of a Failure', () => {
+      expect(ko.mapError(message => new Error(message))).toEqual(failure(new Error('boom')));
+    });
+
+    it('should leave a Success untouched', () => {
+      expect(ok.mapError(message => message.length)).toEqual(success(2));
+    });
+  });
+
+  describe('flatMap', () => {
+    const half = (n: number): Result<number, string> => (n % 2 === 0 ? success(n / 2) : failure('odd'));
+
+    it('should chain a Success into the next step', () => {
+      expect(ok.flatMap(half)).toEqual(success(1));
+      expect(ok.flatMap(half).flatMap(half)).toEqual(failure('odd'));
+    });
+
+    it('should short-circuit on a Failure', () => {
+      const fn = jest.fn(half);
+
+      expect(ko.flatMap(fn)).toEqual(failure('boom'));
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('match', () => {
+    it('should call the handler for the variant', () => {
+      const handlers = { success: (n: number) => `value ${n}`, failure: (e: string) => `error ${e}` };
+
+      expect(ok.match(handlers)).toBe('value 2');
+      expect(ko.match(handlers)).toBe('error boom');
+    });
+  });
+
+  describe('unwrapOr / unwrap', () => {
+    it('should fall back only on Failure', () => {
+      expect(ok.unwrapOr(0)).toBe(2);
+      expect(ko.unwrapOr(0)).toBe(0);
+    });
+
+    it('should throw the error of a Failure', () => {
+      expect(ok.unwrap()).toBe(2);
+      expect(() => failure(new TypeError('bad')).unwrap()).toThrow(TypeError);
+      expect(() => ko.unwrap()).toThrow('boom');
+    });
+  });
+
+  describe('Result.combine', () => {
+    it('should collect values into a typed tuple', () => {
+      const combined = Result.combine([success(1), success('two'), success(true)]);
+
+      expect(combined).toEqual(success([1, 'two', true]));
+      if (combined.isSuccess) {
+        const [n, s, b]: [number, string, boolean] = combined.value;
+        expect([n, s, b]).toEqual([1, 'two', true]);
+      }
+    });
+
+    it('should return the first Failure', () => {
+      expect(Result.combine([success(1), failure('first'), failure('second')])).toEqual(failure('first'));
+    });
+
+    it('should succeed with an empty list', () => {
+      expect(Result.combine([])).toEqual(success([]));
+    });
+  });
+
+  describe('Result.all', () => {
+    it('should collect values when everything succeeds', () => {
+      expect(Result.all([success(1), success(2)])).toEqual(success([1, 2]));
+    });
+
+    it('should report every Failure', () => {
+      expect(Result.all([success(1), failure('first'), failure('second')])).toEqual(failure(['first', 'second']));
+    });
+  });
+
+  describe('Result.fromThrowable', () => {
+    it('should wrap a returned value in a Success', () => {
+      expect(Result.fromThrowable(() => JSON.parse('{"a":1}'))).toEqual(success({ a: 1 }));
+    });
+
+    it('should capture a thrown error in a Failure', () => {
+      const result = Result.fromThrowable(() => JSON.parse('{'));
+
+      expect(result.isFailure && result.error).toBeInstanceOf(SyntaxError);
+    });
+
+    it('should map the thrown error when asked to', () => {
+      const result = Result.fromThrowable(() => { throw 'raw'; }, error => `mapped ${error}`);
+
+      expect(result).toEqual(failure('mapped raw'));
+    });
+  });
+
+  describe('Result.fromPromise', () => {
+    it('should resolve to a Success', async () => {
+      expect(await Result.fromPromise(Promise.resolve(3))).toEqual(success(3));
+    });
+
+    it('should turn a rejection into a Failure', async () => {
+      const result = await Result.fromPromise(Promise.reject('nope'));
+
+      expect(result.isFailure && result.error).toEqual(new Error('nope'));
+    });
+  });
+
+  describe('Result.isResult', () => {
+    it('should recognise both variants', () => {
+      expect(Result.isResult(ok)).toBe(true);
+      expect(Result.isResult(ko)).toBe(true);
+      expect(Result.isResult({ isSuccess: true, value: 1 })).toBe(false);
+    });
+  });
+});
+
+describe('AsyncResult', () => {
+  it('should be awaitable', async () => {
+    const result = await AsyncResult.from(success(1));
+
+    expect(result).toBeInstanceOf(Success);
+  });
+
+  it('should chain sync and async steps', async () => {
+    const result = await success(2)
+      .toAsync()
+      .map(n => n + 1)
+      .map(async n => n * 2)
+      .flatMap(async n => success(`${n}`))
+      .flatMap(s => AsyncResult.from(Promise.resolve(success(s + '!'))));
+
+    expect(result).toEqual(success('6!'));
+  });
+
+  it('should skip every step after a Failure', async () => {
+    const step = jest.fn();
+
+    const result = await AsyncResult.from<number, string>(Promise.resolve(failure('boom')))
+      .map(step)
+      .flatMap(step);
+
+    expect(result).toBeInstanceOf(Failure);
+    expect(step).not.toHaveBeenCalled();
+  });
+
+  it('should map errors asynchronously', async () => {
+    const result = await failure('boom').toAsync().mapError(async e => e.toUpperCase());
+
+    expect(result).toEqual(failure('BOOM'));
+  });
+
+  it('should match and unwrapOr', async () => {
+    const handlers = { success: (n: number) => n, failure: () => -1 };
+
+    expect(await success(5).toAsync().match(handlers)).toBe(5);
+    expect(await failure('x').toAsync().match(handlers)).toBe(-1);
+    expect(await failure('x').toAsync().unwrapOr('fallback')).toBe('fallback');
+  });
+});
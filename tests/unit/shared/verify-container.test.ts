@@ -0,0 +1,103 @@
+import { DependencyContainer, inject, injectable } from 'tsyringe';
+import { container as globalContainer, TOKENS } from 'shared/container';
+import { ContainerVerificationError, verifyContainer } from 'shared/verify-container';
+
+const NEEDS_A = Symbol.for('NeedsA');
+
+@injectable()
+class NeedsUserRepository {
+  constructor(@inject(TOKENS.USER_REPOSITORY) readonly users: unknown) {}
+}
+
+describe('verifyContainer', () => {
+  let container: DependencyContainer;
+
+  // Every token registered with a plain value
+  const aCompleteContainer = (): DependencyContainer => {
+    const complete = globalContainer.createChildContainer();
+    Object.values(TOKENS)
+      .filter(token => token !== TOKENS.DOMAIN_EVENT_HANDLER)
+      .forEach(token => complete.registerInstance(token, {}));
+    return complete;
+  };
+
+  const problemsOf = (roots = []) => {
+    const result = verifyContainer(container, roots);
+    return result.isFailure ? result.error.problems : [];
+  };
+
+  beforeEach(() => {
+    container = aCompleteContainer();
+  });
+
+  it('should accept a container that resolves every token', () => {
+    expect(verifyContainer(container, [NeedsUserRepository]).isSuccess).toBe(true);
+  });
+
+  it('should report every missing token at once', () => {
+    container = globalContainer.createChildContainer();
+    container.registerInstance(TOKENS.USER_REPOSITORY, {});
+
+    const problems = problemsOf();
+
+    expect(problems.map(problem => problem.target)).toEqual(expect.arrayContaining([
+      'Symbol(UnitOfWork)',
+      'Symbol(EmailService)',
+      'Symbol(AntiSpamService)',
+      'Symbol(EventBus)',
+    ]));
+    expect(problems.every(problem => problem.kind === 'missing')).toBe(true);
+    expect(problems.map(problem => problem.target)).not.toContain('Symbol(DomainEventHandler)');
+  });
+
+  it('should report a class whose dependency is not registered', () => {
+    container = globalContainer.createChildContainer();
+
+    const result = verifyContainer(container, [NeedsUserRepository]);
+
+    expect(result.isFailure && result.error.problems).toContainEqual({
+      target: 'NeedsUserRepository',
+      kind: 'missing',
+      message: 'Attempted to resolve unregistered dependency token: "Symbol(UserRepository)"',
+    });
+  });
+
+  it('should report a circular registration', () => {
+    container.register(TOKENS.EVENT_BUS, { useFactory: scope => scope.resolve(NEEDS_A) });
+    container.register(NEEDS_A, { useFactory: scope => scope.resolve(TOKENS.EVENT_BUS) });
+
+    expect(problemsOf()).toEqual([expect.objectContaining({ target: 'Symbol(EventBus)', kind: 'circular' })]);
+  });
+
+  it('should report a registration that throws when built', () => {
+    container.register(TOKENS.EMAIL_SERVICE, {
+      useFactory: () => {
+        throw new Error('No SMTP host');
+      },
+    });
+
+    expect(problemsOf()).toEqual([{ target: 'Symbol(EmailService)', kind: 'failed', message: 'No SMTP host' }]);
+  });
+
+  it('should resolve every event handler', () => {
+    container.register(TOKENS.DOMAIN_EVENT_HANDLER, { useClass: NeedsUserRepository });
+    container.register(TOKENS.DOMAIN_EVENT_HANDLER, {
+      useFactory: () => {
+        throw new Error('Broken handler');
+      },
+    });
+
+    expect(problemsOf()).toEqual([expect.objectContaining({ target: 'Symbol(DomainEventHandler)', kind: 'failed' })]);
+  });
+
+  it('should list the problems in the error message', () => {
+    container = globalContainer.createChildContainer();
+
+    const result = verifyContainer(container);
+
+    expect(result.isFailure && result.error).toBeInstanceOf(ContainerVerificationError);
+    expect(result.isFailure && result.error.message).toMatch(
+      /^The container cannot build the application:\n {2}- Symbol\(UserRepository\) \(missing\)/
+    );
+  });
+});